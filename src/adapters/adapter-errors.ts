@@ -0,0 +1,36 @@
+// src/adapters/adapter-errors.ts
+
+/**
+ * Create the error thrown when a request is aborted.
+ * Aborts caused by the core timeout are flagged so they are categorized as timeouts.
+ */
+export function createAbortError(signal?: AbortSignal): Error {
+  const isTimeout = signal?.reason === 'timeout';
+  const error = new Error(
+    isTimeout ? 'Request timed out while waiting for a response' : 'The request was aborted',
+  );
+
+  error.name = 'AbortError';
+  return Object.assign(error, { isTimeout });
+}
+
+/**
+ * Create the error thrown when a request times out inside the adapter
+ */
+export function createTimeoutError(message: string): Error {
+  const error = new Error(message);
+
+  error.name = 'AbortError';
+  return Object.assign(error, { isTimeout: true });
+}
+
+/**
+ * Create an error that is categorized as a network error
+ */
+export function createNetworkError(detail: string, cause?: Error & { code?: string }): Error {
+  return Object.assign(new Error(`Network request failed: ${detail}`), {
+    cause,
+    code: cause?.code,
+    isNetworkError: true,
+  });
+}
@@ -2,6 +2,8 @@
 
 import { Adapter } from '@fk-types/adapter';
 import { fetchAdapter } from './fetch-adapter';
+import { isNodeEnvironment, nodeHttpAdapter } from './node-http-adapter';
+import { xhrAdapter } from './xhr-adapter';
 
 /**
  * Registry to manage HTTP client adapters
@@ -18,14 +20,17 @@ export class AdapterRegistry {
   private activeAdapterName: string;
 
   /**
-   * Creates a new adapter registry with the default fetch adapter
+   * Creates a new adapter registry with the built-in adapters.
+   * The Node.js adapter is active when there is no browser window.
    */
   constructor() {
-    // Register the default fetch adapter
+    // Register the built-in adapters
     this.register(fetchAdapter);
+    this.register(nodeHttpAdapter);
+    this.register(xhrAdapter);
 
-    // Set it as the active adapter
-    this.activeAdapterName = fetchAdapter.name;
+    // Pick the adapter that works in the current environment
+    this.activeAdapterName = isNodeEnvironment() ? nodeHttpAdapter.name : fetchAdapter.name;
   }
 
   /**
@@ -0,0 +1,167 @@
+// src/adapters/adapter-resolver.ts
+
+import { Adapter, AdapterRoute, AdapterRoutePattern } from '@fk-types/adapter';
+import { AdapterRegistry, adapterRegistry } from './adapter-registry';
+
+/**
+ * Resolves the adapter for each request of a single FetchKit instance.
+ * Adapters registered here are private to the instance; names it does not
+ * know are looked up in the shared registry.
+ */
+export class AdapterResolver {
+  /**
+   * Adapters registered on this instance
+   */
+  private adapters: Map<string, Adapter> = new Map();
+
+  /**
+   * Name of the adapter selected for this instance, if any
+   */
+  private activeAdapterName: string | null = null;
+
+  /**
+   * Routing rules, checked in order
+   */
+  private routes: AdapterRoute[] = [];
+
+  /**
+   * Creates a resolver that falls back to the given registry
+   */
+  constructor(private fallback: AdapterRegistry = adapterRegistry) {}
+
+  /**
+   * Register an adapter on this instance
+   */
+  register(adapter: Adapter): void {
+    if (!adapter.name) {
+      throw new Error('Adapter must have a name');
+    }
+
+    this.adapters.set(adapter.name, adapter);
+  }
+
+  /**
+   * Select the adapter used when no request option or route applies.
+   * Adapter instances are registered first.
+   */
+  use(adapter: string | Adapter): void {
+    if (typeof adapter !== 'string') {
+      this.register(adapter);
+      this.activeAdapterName = adapter.name;
+      return;
+    }
+
+    if (!this.get(adapter)) {
+      throw new Error(`Adapter '${adapter}' not registered`);
+    }
+
+    this.activeAdapterName = adapter;
+  }
+
+  /**
+   * Get an adapter by name from this instance or the shared registry
+   */
+  get(name: string): Adapter | undefined {
+    return this.adapters.get(name) ?? this.fallback.get(name);
+  }
+
+  /**
+   * Get the adapter selected for this instance.
+   * Without a selection, this follows the shared registry's active adapter.
+   */
+  getActive(): Adapter {
+    if (this.activeAdapterName === null) {
+      return this.fallback.getActive();
+    }
+
+    return this.require(this.activeAdapterName);
+  }
+
+  /**
+   * Get names of all adapters available to this instance
+   */
+  getAdapterNames(): string[] {
+    return Array.from(new Set([...this.fallback.getAdapterNames(), ...this.adapters.keys()]));
+  }
+
+  /**
+   * Add a routing rule after the existing ones
+   */
+  addRoute(route: AdapterRoute): void {
+    if (typeof route.adapter !== 'string') {
+      this.register(route.adapter);
+    }
+
+    this.routes.push(route);
+  }
+
+  /**
+   * Resolve the adapter for a request.
+   * A per-request adapter wins, then the first matching route, then the active adapter.
+   */
+  resolve(url: string, requestAdapter?: string | Adapter): Adapter {
+    if (requestAdapter) {
+      return typeof requestAdapter === 'string' ? this.require(requestAdapter) : requestAdapter;
+    }
+
+    const route = this.routes.find(candidate => matchRoute(candidate.match, url));
+    if (route) {
+      return typeof route.adapter === 'string' ? this.require(route.adapter) : route.adapter;
+    }
+
+    return this.getActive();
+  }
+
+  /**
+   * Get an adapter by name, throwing when it is unknown
+   */
+  private require(name: string): Adapter {
+    const adapter = this.get(name);
+
+    if (!adapter) {
+      throw new Error(`Adapter '${name}' not found`);
+    }
+
+    return adapter;
+  }
+}
+
+/**
+ * Check a routing rule pattern against a request URL
+ */
+function matchRoute(pattern: AdapterRoutePattern, url: string): boolean {
+  if (typeof pattern === 'function') {
+    return pattern(url);
+  }
+
+  if (pattern instanceof RegExp) {
+    pattern.lastIndex = 0;
+    return pattern.test(url);
+  }
+
+  // Relative URLs have no host to match
+  const parsed = parseUrl(url);
+  if (!parsed) return false;
+
+  // Compare against the host name, or host and port when the pattern has a port
+  const host = (pattern.includes(':') ? parsed.host : parsed.hostname).toLowerCase();
+
+  const source = pattern
+    .toLowerCase()
+    .split('*')
+    .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+
+  return new RegExp(`^${source}$`).test(host);
+}
+
+/**
+ * Parse an absolute URL, returning null for relative URLs
+ */
+function parseUrl(url: string): URL | null {
+  try {
+    return new URL(url);
+  } catch {
+    return null;
+  }
+}
@@ -1,7 +1,8 @@
 // src/adapters/fetch-adapter.ts
 
 import { Adapter, AdapterRequest, AdapterResponse } from '@fk-types/adapter';
-import { RequestOptions } from '@fk-types/core';
+import { RequestOptions, RequestProgress } from '@fk-types/core';
+import { trackStreamProgress } from '@utils/stream';
 import { buildUrl } from '@utils/url';
 
 /**
@@ -14,7 +15,17 @@ export const fetchAdapter: Adapter = {
    * Execute a request using fetch
    */
   async request(request: AdapterRequest): Promise<AdapterResponse> {
-    const { url, method, headers, body, signal, ...restOptions } = request;
+    const {
+      url,
+      method,
+      headers,
+      body,
+      signal,
+      responseType,
+      onUploadProgress: _onUploadProgress,
+      onDownloadProgress,
+      ...restOptions
+    } = request;
 
     // Create fetch options
     const fetchOptions: RequestInit = {
@@ -31,9 +42,21 @@ export const fetchAdapter: Adapter = {
 
     // Execute fetch request
     const response = await window.fetch(url, fetchOptions);
+    const tracked = onDownloadProgress ? trackDownload(response, onDownloadProgress) : response;
+
+    // Successful streamed responses are handed over unread, with a null body when there is none
+    if (responseType === 'stream' && response.ok) {
+      return {
+        data: tracked.body,
+        status: response.status,
+        statusText: response.statusText,
+        headers: getHeaders(response),
+        originalResponse: response,
+      };
+    }
 
     // Transform the response
-    return this.transformResponse(response);
+    return { ...(await this.transformResponse(tracked)), originalResponse: response };
   },
 
   /**
@@ -60,7 +83,8 @@ export const fetchAdapter: Adapter = {
         typeof body === 'object' &&
         !(body instanceof FormData) &&
         !(body instanceof Blob) &&
-        !(body instanceof ArrayBuffer)
+        !(body instanceof ArrayBuffer) &&
+        !ArrayBuffer.isView(body)
       ) {
         request.body = JSON.stringify(body);
 
@@ -84,10 +108,7 @@ export const fetchAdapter: Adapter = {
    */
   async transformResponse(response: Response): Promise<AdapterResponse> {
     // Extract headers
-    const headers: Record<string, string> = {};
-    response.headers.forEach((value, key) => {
-      headers[key] = value;
-    });
+    const headers = getHeaders(response);
 
     // Parse response data based on content type
     let data: any;
@@ -116,3 +137,48 @@ export const fetchAdapter: Adapter = {
     };
   },
 };
+
+/**
+ * Report the download progress of a response as its body is read. The total comes
+ * from Content-Length, unless the body is compressed and the length counts encoded bytes.
+ */
+function trackDownload(
+  response: Response,
+  onDownloadProgress: (progress: RequestProgress) => void,
+): Response {
+  if (!response.body) {
+    return response;
+  }
+
+  const encoding = response.headers.get('content-encoding');
+  const contentLength = parseInt(response.headers.get('content-length') ?? '', 10);
+  const total =
+    Number.isFinite(contentLength) && (!encoding || encoding === 'identity')
+      ? contentLength
+      : undefined;
+  const report = (loaded: number) =>
+    onDownloadProgress({
+      loaded,
+      total,
+      progress: total ? Math.min(loaded / total, 1) : undefined,
+    });
+
+  report(0);
+
+  return new Response(trackStreamProgress(response.body, report), {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
+
+/**
+ * Extract the headers of a fetch response
+ */
+function getHeaders(response: Response): Record<string, string> {
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, key) => {
+    headers[key] = value;
+  });
+  return headers;
+}
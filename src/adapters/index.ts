@@ -1,4 +1,8 @@
 // src/adapters/index.ts
 
 export * from './fetch-adapter';
+export * from './node-http-adapter';
+export * from './xhr-adapter';
+export * from './mock-adapter';
 export * from './adapter-registry';
+export * from './adapter-resolver';
@@ -0,0 +1,573 @@
+// src/adapters/mock-adapter.ts
+
+import { Adapter, AdapterRequest, AdapterResponse } from '@fk-types/adapter';
+import { RequestOptions } from '@fk-types/core';
+import {
+  MockAdapterOptions,
+  MockHistoryEntry,
+  MockRecording,
+  MockReply,
+  MockRequest,
+  MockResponse,
+  MockRoute,
+  MockUrlPattern,
+} from '@fk-types/mock';
+import { buildUrl } from '@utils/url';
+import { createAbortError, createNetworkError, createTimeoutError } from './adapter-errors';
+import { fetchAdapter } from './fetch-adapter';
+import { isNodeEnvironment, nodeHttpAdapter } from './node-http-adapter';
+
+/**
+ * Status texts for common mocked statuses
+ */
+const STATUS_TEXT: Record<number, string> = {
+  200: 'OK',
+  201: 'Created',
+  204: 'No Content',
+  304: 'Not Modified',
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  403: 'Forbidden',
+  404: 'Not Found',
+  409: 'Conflict',
+  412: 'Precondition Failed',
+  429: 'Too Many Requests',
+  500: 'Internal Server Error',
+  502: 'Bad Gateway',
+  503: 'Service Unavailable',
+  504: 'Gateway Timeout',
+};
+
+/**
+ * Route with its remaining number of uses
+ */
+interface ActiveRoute extends MockRoute {
+  remaining: number;
+}
+
+/**
+ * Adapter that answers requests from a route table or recorded traffic, for tests
+ */
+export class MockAdapter implements Adapter {
+  /**
+   * The name of the adapter
+   */
+  readonly name: string;
+
+  /**
+   * Adapter options
+   */
+  private options: MockAdapterOptions;
+
+  /**
+   * Route table, matched in registration order
+   */
+  private routes: ActiveRoute[] = [];
+
+  /**
+   * Every request the adapter has received
+   */
+  private history: MockHistoryEntry[] = [];
+
+  /**
+   * Traffic captured in record mode or loaded for replay
+   */
+  private recordings: MockRecording[] = [];
+
+  /**
+   * Recordings already used in replay, so repeated requests replay in order
+   */
+  private replayed = new Set<MockRecording>();
+
+  /**
+   * Pending load of the fixture file in replay mode
+   */
+  private fixtureLoad: Promise<void> | null = null;
+
+  /**
+   * Create a new mock adapter
+   */
+  constructor(options: MockAdapterOptions = {}) {
+    this.name = options.name || 'mock';
+    this.options = options;
+  }
+
+  /**
+   * Add a route for a method and URL pattern
+   */
+  on(method: string, url: MockUrlPattern, reply: MockReply, times?: number): this {
+    this.routes.push({ method, url, reply, times, remaining: times ?? Infinity });
+    return this;
+  }
+
+  /**
+   * Add a route that answers a single request
+   */
+  once(method: string, url: MockUrlPattern, reply: MockReply): this {
+    return this.on(method, url, reply, 1);
+  }
+
+  /**
+   * Add a GET route
+   */
+  onGet(url: MockUrlPattern, reply: MockReply): this {
+    return this.on('GET', url, reply);
+  }
+
+  /**
+   * Add a POST route
+   */
+  onPost(url: MockUrlPattern, reply: MockReply): this {
+    return this.on('POST', url, reply);
+  }
+
+  /**
+   * Add a PUT route
+   */
+  onPut(url: MockUrlPattern, reply: MockReply): this {
+    return this.on('PUT', url, reply);
+  }
+
+  /**
+   * Add a PATCH route
+   */
+  onPatch(url: MockUrlPattern, reply: MockReply): this {
+    return this.on('PATCH', url, reply);
+  }
+
+  /**
+   * Add a DELETE route
+   */
+  onDelete(url: MockUrlPattern, reply: MockReply): this {
+    return this.on('DELETE', url, reply);
+  }
+
+  /**
+   * Add a route for any method
+   */
+  onAny(url: MockUrlPattern, reply: MockReply): this {
+    return this.on('*', url, reply);
+  }
+
+  /**
+   * Get requests received so far, optionally filtered by method and URL pattern
+   */
+  getHistory(method?: string, url?: MockUrlPattern): MockHistoryEntry[] {
+    return this.history.filter(
+      entry =>
+        (!method || matchMethod(method, entry.method)) &&
+        (url === undefined || matchUrl(url, entry.url) !== null),
+    );
+  }
+
+  /**
+   * Get the most recent request, optionally filtered by method and URL pattern
+   */
+  getLastRequest(method?: string, url?: MockUrlPattern): MockHistoryEntry | undefined {
+    const entries = this.getHistory(method, url);
+    return entries[entries.length - 1];
+  }
+
+  /**
+   * Throw unless matching requests were made, exactly `times` times if given
+   */
+  assertCalled(method: string, url: MockUrlPattern, times?: number): void {
+    const count = this.getHistory(method, url).length;
+    const passed = times === undefined ? count > 0 : count === times;
+
+    if (!passed) {
+      const expected = times === undefined ? 'at least once' : `${times} time(s)`;
+      throw new Error(
+        `Expected ${method} ${describePattern(url)} to be called ${expected}, but it was called ${count} time(s)`,
+      );
+    }
+  }
+
+  /**
+   * Throw if any matching request was made
+   */
+  assertNotCalled(method: string, url: MockUrlPattern): void {
+    this.assertCalled(method, url, 0);
+  }
+
+  /**
+   * Clear the request history
+   */
+  resetHistory(): void {
+    this.history = [];
+  }
+
+  /**
+   * Remove all routes, history and recordings
+   */
+  reset(): void {
+    this.routes = [];
+    this.history = [];
+    this.recordings = [];
+    this.replayed.clear();
+    this.fixtureLoad = null;
+  }
+
+  /**
+   * Get the traffic captured in record mode
+   */
+  getRecordings(): MockRecording[] {
+    return [...this.recordings];
+  }
+
+  /**
+   * Load recordings to replay
+   */
+  loadRecordings(recordings: MockRecording[]): void {
+    this.recordings = [...recordings];
+    this.replayed.clear();
+  }
+
+  /**
+   * Write the recordings to a JSON fixture file (Node.js only)
+   */
+  async saveFixture(path = this.options.fixture): Promise<void> {
+    if (!path) {
+      throw new Error('No fixture path given to the mock adapter');
+    }
+
+    const [{ mkdir, writeFile }, { dirname }] = await Promise.all([
+      import('node:fs/promises'),
+      import('node:path'),
+    ]);
+
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, JSON.stringify(this.recordings, null, 2));
+  }
+
+  /**
+   * Read recordings to replay from a JSON fixture file (Node.js only)
+   */
+  async loadFixture(path = this.options.fixture): Promise<void> {
+    if (!path) {
+      throw new Error('No fixture path given to the mock adapter');
+    }
+
+    const { readFile } = await import('node:fs/promises');
+    this.loadRecordings(JSON.parse(await readFile(path, 'utf8')));
+  }
+
+  /**
+   * Answer a request from the routes, the recordings or the unmatched policy
+   */
+  async request(request: AdapterRequest): Promise<AdapterResponse> {
+    const mockRequest = createMockRequest(request);
+    const entry: MockHistoryEntry = { ...mockRequest, matched: false, timestamp: Date.now() };
+    this.history.push(entry);
+
+    if (this.options.mode === 'record') {
+      entry.matched = true;
+      return this.record(request);
+    }
+
+    // Routes take precedence over recorded traffic
+    const route = this.findRoute(mockRequest);
+    if (route) {
+      entry.matched = true;
+      entry.params = route.params;
+
+      const { reply } = route.route;
+      const response =
+        typeof reply === 'function' ? await reply({ ...mockRequest, params: route.params }) : reply;
+
+      return this.respond(response, request);
+    }
+
+    if (this.options.mode === 'replay') {
+      const recording = await this.findRecording(mockRequest);
+      if (recording) {
+        entry.matched = true;
+        return this.respond(recording.response, request);
+      }
+    }
+
+    return this.handleUnmatched(request);
+  }
+
+  /**
+   * Transform FetchKit options to a mock request.
+   * The body is kept as passed so routes can inspect it.
+   */
+  transformRequest(url: string, options: RequestOptions): AdapterRequest {
+    const { method = 'GET', body, params, headers, signal, ...restOptions } = options;
+
+    return {
+      url: params ? buildUrl(url, params) : url,
+      method,
+      headers: { ...headers },
+      body,
+      signal,
+      ...restOptions,
+    };
+  }
+
+  /**
+   * Transform a mock response to standardized format
+   */
+  transformResponse(response: { mock: MockResponse; url: string }): AdapterResponse {
+    const { mock, url } = response;
+    const status = mock.status ?? 200;
+    const statusText = STATUS_TEXT[status] || '';
+
+    // Header names are lowercased like real adapters
+    const headers: Record<string, string> = {};
+    Object.entries(mock.headers || {}).forEach(([key, value]) => {
+      headers[key.toLowerCase()] = value;
+    });
+
+    return {
+      data: mock.data,
+      status,
+      statusText,
+      headers,
+      originalResponse: {
+        ok: status >= 200 && status < 300,
+        status,
+        statusText,
+        headers,
+        url,
+      },
+    };
+  }
+
+  /**
+   * Find the first route matching a request and consume one of its uses
+   */
+  private findRoute(
+    request: MockRequest,
+  ): { route: ActiveRoute; params: Record<string, string> } | undefined {
+    for (const route of this.routes) {
+      if (!matchMethod(route.method, request.method)) continue;
+
+      const params = matchUrl(route.url, request.url);
+      if (!params) continue;
+
+      route.remaining--;
+      if (route.remaining <= 0) {
+        this.routes = this.routes.filter(r => r !== route);
+      }
+
+      return { route, params };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Find a recording for a request, loading the fixture file first if needed.
+   * Identical requests replay their recordings in order, then repeat the last one.
+   */
+  private async findRecording(request: MockRequest): Promise<MockRecording | undefined> {
+    if (this.options.fixture && !this.fixtureLoad) {
+      this.fixtureLoad = this.loadFixture();
+    }
+    await this.fixtureLoad;
+
+    const body = serializeBody(request.body);
+    const candidates = this.recordings.filter(
+      recording =>
+        recording.method === request.method &&
+        recording.url === request.url &&
+        serializeBody(recording.body) === body,
+    );
+
+    const recording =
+      candidates.find(candidate => !this.replayed.has(candidate)) ||
+      candidates[candidates.length - 1];
+
+    if (recording) {
+      this.replayed.add(recording);
+    }
+
+    return recording;
+  }
+
+  /**
+   * Apply the delay and failure settings of a mock response
+   */
+  private async respond(mock: MockResponse, request: AdapterRequest): Promise<AdapterResponse> {
+    await wait(mock.delay ?? this.options.delay ?? 0, request.signal);
+
+    if (mock.networkError) {
+      throw createNetworkError(request.url);
+    }
+
+    if (mock.timeout) {
+      throw createTimeoutError(`Request timed out: ${request.url}`);
+    }
+
+    return this.transformResponse({ mock, url: request.url });
+  }
+
+  /**
+   * Send a request to the real adapter and record the exchange
+   */
+  private async record(request: AdapterRequest): Promise<AdapterResponse> {
+    const response = await this.passthrough(request);
+
+    this.recordings.push({
+      method: request.method,
+      url: request.url,
+      body: request.body,
+      response: {
+        status: response.status,
+        headers: response.headers,
+        data: response.data,
+      },
+    });
+
+    return response;
+  }
+
+  /**
+   * Send a request through the passthrough adapter
+   */
+  private passthrough(request: AdapterRequest): Promise<AdapterResponse> {
+    const adapter =
+      this.options.passthrough || (isNodeEnvironment() ? nodeHttpAdapter : fetchAdapter);
+    const { url, ...options } = request;
+
+    return adapter.request(adapter.transformRequest(url, options as RequestOptions));
+  }
+
+  /**
+   * Apply the unmatched policy to a request no route matches
+   */
+  private handleUnmatched(request: AdapterRequest): Promise<AdapterResponse> {
+    const description = `${request.method} ${request.url}`;
+
+    switch (this.options.unmatched) {
+      case 'passthrough':
+        return this.passthrough(request);
+      case 'warn':
+        console.warn(`Mock adapter: no route matches ${description}`);
+        return this.respond({ status: 404 }, request);
+      default:
+        return Promise.reject(new Error(`Mock adapter: no route matches ${description}`));
+    }
+  }
+}
+
+/**
+ * Create a mock adapter
+ */
+export function createMockAdapter(options: MockAdapterOptions = {}): MockAdapter {
+  return new MockAdapter(options);
+}
+
+/**
+ * Default mock adapter
+ */
+export const mockAdapter = createMockAdapter();
+
+/**
+ * Parse an adapter request into the shape routes receive
+ */
+function createMockRequest(request: AdapterRequest): MockRequest {
+  const parsed = new URL(request.url, 'http://localhost');
+
+  return {
+    method: request.method.toUpperCase(),
+    url: request.url,
+    path: parsed.pathname,
+    query: Object.fromEntries(parsed.searchParams),
+    params: {},
+    headers: request.headers || {},
+    body: request.body,
+  };
+}
+
+/**
+ * Check a route method against a request method
+ */
+function matchMethod(routeMethod: string, method: string): boolean {
+  return routeMethod === '*' || routeMethod.toUpperCase() === method.toUpperCase();
+}
+
+/**
+ * Match a URL pattern against a request URL.
+ * Returns the `:name` segment values on a match and null otherwise.
+ */
+function matchUrl(pattern: MockUrlPattern, url: string): Record<string, string> | null {
+  if (typeof pattern === 'function') {
+    return pattern(url) ? {} : null;
+  }
+
+  if (pattern instanceof RegExp) {
+    pattern.lastIndex = 0;
+    return pattern.test(url) ? {} : null;
+  }
+
+  // Compare against the path, or the full URL when the pattern has a protocol
+  const parsed = new URL(url, 'http://localhost');
+  const base = pattern.includes('://') ? `${parsed.origin}${parsed.pathname}` : parsed.pathname;
+  const target = pattern.includes('?') ? `${base}${parsed.search}` : base;
+
+  const names: string[] = [];
+  const source = pattern
+    .split(/(:[A-Za-z_]\w*|\*)/)
+    .map(part => {
+      if (part === '*') return '.*';
+      if (part.startsWith(':') && part.length > 1) {
+        names.push(part.slice(1));
+        return '([^/?#]+)';
+      }
+      return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+
+  const match = new RegExp(`^${source}$`).exec(target);
+  if (!match) return null;
+
+  return names.reduce(
+    (params, name, index) => ({ ...params, [name]: decodeURIComponent(match[index + 1]) }),
+    {} as Record<string, string>,
+  );
+}
+
+/**
+ * Describe a URL pattern for assertion messages
+ */
+function describePattern(pattern: MockUrlPattern): string {
+  return typeof pattern === 'function' ? '<predicate>' : String(pattern);
+}
+
+/**
+ * Serialize a request body for comparing recordings
+ */
+function serializeBody(body: any): string {
+  if (body === undefined || body === null) return '';
+  return typeof body === 'string' ? body : JSON.stringify(body);
+}
+
+/**
+ * Wait for a delay, rejecting if the signal aborts first
+ */
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) {
+    return Promise.reject(createAbortError(signal));
+  }
+
+  if (ms <= 0) {
+    return Promise.resolve();
+  }
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError(signal));
+    };
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
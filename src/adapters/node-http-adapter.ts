@@ -0,0 +1,685 @@
+// src/adapters/node-http-adapter.ts
+
+import type { ClientRequest, IncomingMessage, RequestOptions as HttpOptions } from 'node:http';
+import type { Socket } from 'node:net';
+import type { Readable } from 'node:stream';
+import type { ReadableStream as NodeReadableStream } from 'node:stream/web';
+import {
+  AdapterRequest,
+  AdapterResponse,
+  NodeHttpAdapter,
+  NodeHttpAdapterOptions,
+  NodeProxyConfig,
+} from '@fk-types/adapter';
+import { RequestOptions, RequestProgress } from '@fk-types/core';
+import { buildUrl } from '@utils/url';
+import { createAbortError, createNetworkError } from './adapter-errors';
+
+/**
+ * Node.js modules used by the adapter
+ */
+interface NodeModules {
+  http: typeof import('node:http');
+  https: typeof import('node:https');
+  tls: typeof import('node:tls');
+  zlib: typeof import('node:zlib');
+  streamWeb: typeof import('node:stream/web');
+}
+
+/**
+ * Response body collected from an IncomingMessage, before parsing
+ */
+interface NodeRawResponse {
+  incomingMessage: IncomingMessage;
+  body: Buffer;
+  url: string;
+  responseType?: RequestOptions['responseType'];
+}
+
+/**
+ * Size of the chunks an in-memory body is written in, so its upload progress can be reported
+ */
+const UPLOAD_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Pending import of the Node.js modules
+ */
+let nodeModules: Promise<NodeModules> | null = null;
+
+/**
+ * Load the Node.js modules on first use so browser bundles never evaluate them
+ */
+function loadNodeModules(): Promise<NodeModules> {
+  if (!nodeModules) {
+    nodeModules = Promise.all([
+      import('node:http'),
+      import('node:https'),
+      import('node:tls'),
+      import('node:zlib'),
+      import('node:stream/web'),
+    ]).then(([http, https, tls, zlib, streamWeb]) => ({ http, https, tls, zlib, streamWeb }));
+  }
+
+  return nodeModules;
+}
+
+/**
+ * Check whether code is running in Node.js without a browser window
+ */
+export function isNodeEnvironment(): boolean {
+  return (
+    typeof window === 'undefined' &&
+    typeof process !== 'undefined' &&
+    Boolean(process.versions && process.versions.node)
+  );
+}
+
+/**
+ * Create an adapter that sends requests with the Node.js http and https modules
+ */
+export function createNodeHttpAdapter(options: NodeHttpAdapterOptions = {}): NodeHttpAdapter {
+  const {
+    name = 'node-http',
+    keepAlive = true,
+    keepAliveMsecs = 1000,
+    maxSockets = Infinity,
+    decompress = true,
+  } = options;
+
+  const proxy = options.proxy ? parseProxy(options.proxy) : undefined;
+
+  // Keep-alive agents, created on first request
+  let httpAgent = options.httpAgent;
+  let httpsAgent = options.httpsAgent;
+
+  /**
+   * Get the agent for a protocol, creating the keep-alive agent if needed
+   */
+  const getAgent = (modules: NodeModules, isHttps: boolean) => {
+    const agentOptions = { keepAlive, keepAliveMsecs, maxSockets };
+
+    if (isHttps) {
+      httpsAgent = httpsAgent || new modules.https.Agent(agentOptions);
+      return httpsAgent;
+    }
+
+    httpAgent = httpAgent || new modules.http.Agent(agentOptions);
+    return httpAgent;
+  };
+
+  /**
+   * Build the http.request options for a URL, routing through the proxy if configured
+   */
+  const createRequestOptions = async (
+    modules: NodeModules,
+    target: URL,
+    method: string,
+    headers: Record<string, string>,
+    signal?: AbortSignal,
+  ): Promise<{ transport: NodeModules['http'] | NodeModules['https']; options: HttpOptions }> => {
+    const isHttps = target.protocol === 'https:';
+    const port = target.port || (isHttps ? 443 : 80);
+    const path = `${target.pathname}${target.search}`;
+
+    if (!proxy) {
+      return {
+        transport: isHttps ? modules.https : modules.http,
+        options: {
+          method,
+          headers,
+          hostname: stripBrackets(target.hostname),
+          port,
+          path,
+          agent: getAgent(modules, isHttps),
+        },
+      };
+    }
+
+    const proxyIsHttps = proxy.protocol === 'https:';
+
+    // Plain HTTP goes to the proxy with an absolute URL as the path
+    if (!isHttps) {
+      return {
+        transport: proxyIsHttps ? modules.https : modules.http,
+        options: {
+          method,
+          headers: { ...headers, Host: target.host, ...getProxyHeaders(proxy) },
+          hostname: proxy.host,
+          port: proxy.port,
+          path: target.href,
+          agent: getAgent(modules, proxyIsHttps),
+        },
+      };
+    }
+
+    // HTTPS goes through a CONNECT tunnel
+    const socket = await openTunnel(modules, proxy, target.hostname, Number(port), signal);
+
+    return {
+      transport: modules.https,
+      options: {
+        method,
+        headers,
+        hostname: stripBrackets(target.hostname),
+        port,
+        path,
+        createConnection: () =>
+          modules.tls.connect({ socket, servername: stripBrackets(target.hostname) }),
+      },
+    };
+  };
+
+  const adapter: NodeHttpAdapter = {
+    name,
+
+    /**
+     * Execute a request using http.request or https.request
+     */
+    async request(request: AdapterRequest): Promise<AdapterResponse> {
+      const {
+        url,
+        method,
+        headers = {},
+        signal,
+        responseType,
+        onUploadProgress,
+        onDownloadProgress,
+      } = request;
+
+      const modules = await loadNodeModules();
+      if (signal?.aborted) {
+        throw createAbortError(signal);
+      }
+
+      // Blobs, such as upload chunks, are read into memory to be written
+      const body = isBlob(request.body)
+        ? Buffer.from(await request.body.arrayBuffer())
+        : request.body;
+
+      const requestHeaders = { ...headers };
+
+      // Ask for compressed responses when we can decode them
+      if (decompress && !hasHeader(requestHeaders, 'accept-encoding')) {
+        requestHeaders['Accept-Encoding'] = 'gzip, deflate, br';
+      }
+
+      if (
+        (typeof body === 'string' || body instanceof Uint8Array) &&
+        !hasHeader(requestHeaders, 'content-length')
+      ) {
+        requestHeaders['Content-Length'] = String(Buffer.byteLength(body));
+      }
+
+      const { transport, options: httpOptions } = await createRequestOptions(
+        modules,
+        new URL(url),
+        method,
+        requestHeaders,
+        signal,
+      );
+
+      return new Promise<AdapterResponse>((resolve, reject) => {
+        const onAbort = () => {
+          clientRequest.destroy();
+          reject(createAbortError(signal));
+        };
+
+        const cleanup = () => signal?.removeEventListener('abort', onAbort);
+
+        const fail = (error: Error) => {
+          cleanup();
+          reject(
+            signal?.aborted ? createAbortError(signal) : createNetworkError(error.message, error),
+          );
+        };
+
+        const clientRequest = transport.request(httpOptions, incomingMessage => {
+          const stream = decompress
+            ? decodeBody(modules, incomingMessage, method)
+            : (incomingMessage as Readable);
+          const status = incomingMessage.statusCode || 0;
+
+          if (onDownloadProgress) {
+            trackDownload(incomingMessage, stream, onDownloadProgress);
+          }
+
+          // Successful streamed responses resolve once the headers arrive
+          if (responseType === 'stream' && status >= 200 && status < 300) {
+            cleanup();
+
+            // Destroying the request closes the socket, and the body stream fails with the reason
+            const destroy = (error?: Error) => {
+              clientRequest.destroy();
+              stream.destroy(error);
+            };
+            const onStreamAbort = () => destroy(createAbortError(signal));
+            signal?.addEventListener('abort', onStreamAbort, { once: true });
+
+            // The body closes once it ends, fails or is cancelled
+            stream.once('close', () => signal?.removeEventListener('abort', onStreamAbort));
+
+            resolve({
+              ...(adapter.transformResponse({
+                incomingMessage,
+                body: Buffer.alloc(0),
+                url,
+                responseType,
+              }) as AdapterResponse),
+              data: toReadableStream(modules, stream, destroy),
+            });
+            return;
+          }
+
+          const chunks: Buffer[] = [];
+
+          stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+          stream.on('error', fail);
+          stream.on('end', () => {
+            cleanup();
+
+            try {
+              resolve(
+                adapter.transformResponse({
+                  incomingMessage,
+                  body: Buffer.concat(chunks),
+                  url,
+                  responseType,
+                }) as AdapterResponse,
+              );
+            } catch (error) {
+              reject(error);
+            }
+          });
+        });
+
+        clientRequest.on('error', fail);
+        signal?.addEventListener('abort', onAbort, { once: true });
+
+        writeBody(clientRequest, body, requestHeaders, onUploadProgress);
+      });
+    },
+
+    /**
+     * Transform FetchKit options to a Node.js request
+     */
+    transformRequest(url: string, options: RequestOptions): AdapterRequest {
+      const { method = 'GET', body, params, headers, signal, ...restOptions } = options;
+
+      // Build URL with query parameters
+      const fullUrl = params ? buildUrl(url, params) : url;
+
+      // Create the request object
+      const request: AdapterRequest = {
+        url: fullUrl,
+        method,
+        headers: { ...headers },
+        signal,
+        ...restOptions,
+      };
+
+      // Process body for JSON data
+      if (body !== undefined && method !== 'GET' && method !== 'HEAD') {
+        if (
+          typeof body === 'object' &&
+          body !== null &&
+          !(body instanceof Uint8Array) &&
+          !(body instanceof ArrayBuffer) &&
+          !isBlob(body) &&
+          typeof body.pipe !== 'function'
+        ) {
+          request.body = JSON.stringify(body);
+
+          // Add content-type if not set
+          if (!hasHeader(request.headers || {}, 'content-type')) {
+            request.headers = {
+              ...request.headers,
+              'Content-Type': 'application/json',
+            };
+          }
+        } else {
+          request.body = body instanceof ArrayBuffer ? Buffer.from(body) : body;
+        }
+      }
+
+      return request;
+    },
+
+    /**
+     * Transform a collected Node.js response to standardized format
+     */
+    transformResponse(response: NodeRawResponse): AdapterResponse {
+      const { incomingMessage, body, url, responseType } = response;
+
+      // Flatten multi-value headers
+      const headers: Record<string, string> = {};
+      Object.entries(incomingMessage.headers).forEach(([key, value]) => {
+        if (value !== undefined) {
+          headers[key] = Array.isArray(value) ? value.join(', ') : value;
+        }
+      });
+
+      const status = incomingMessage.statusCode || 0;
+      const statusText = incomingMessage.statusMessage || '';
+      const contentType = headers['content-type'] || '';
+
+      // Parse response data based on the requested type or content type
+      let data: any;
+
+      if (responseType === 'arrayBuffer') {
+        data = body.buffer.slice(body.byteOffset, body.byteOffset + body.byteLength);
+      } else if (responseType === 'text') {
+        data = body.toString('utf8');
+      } else if (responseType === 'json' || contentType.includes('application/json')) {
+        const text = body.toString('utf8');
+        try {
+          data = JSON.parse(text);
+        } catch {
+          data = text;
+        }
+      } else if (contentType.includes('text/')) {
+        data = body.toString('utf8');
+      } else {
+        // For binary data, return the raw buffer
+        data = body;
+      }
+
+      return {
+        data,
+        status,
+        statusText,
+        headers,
+        originalResponse: {
+          ok: status >= 200 && status < 300,
+          status,
+          statusText,
+          headers,
+          url,
+          incomingMessage,
+        },
+      };
+    },
+
+    /**
+     * Destroy the keep-alive agents and close their idle sockets
+     */
+    destroy(): void {
+      if (!options.httpAgent) {
+        httpAgent?.destroy();
+        httpAgent = undefined;
+      }
+
+      if (!options.httpsAgent) {
+        httpsAgent?.destroy();
+        httpsAgent = undefined;
+      }
+    },
+  };
+
+  return adapter;
+}
+
+/**
+ * Default Node.js adapter with keep-alive agents
+ */
+export const nodeHttpAdapter = createNodeHttpAdapter();
+
+/**
+ * Wrap a Node.js readable in a web ReadableStream, pausing it while the consumer is behind.
+ * The stream class comes from node:stream/web, since Node.js 16 has no global ReadableStream.
+ */
+function toReadableStream(
+  modules: NodeModules,
+  stream: Readable,
+  destroy: (error?: Error) => void,
+): NodeReadableStream<Uint8Array> {
+  return new modules.streamWeb.ReadableStream<Uint8Array>({
+    start(controller) {
+      stream.on('data', (chunk: Buffer) => {
+        controller.enqueue(new Uint8Array(chunk.buffer, chunk.byteOffset, chunk.byteLength));
+        if ((controller.desiredSize ?? 0) <= 0) stream.pause();
+      });
+      stream.on('end', () => controller.close());
+      stream.on('error', error => controller.error(error));
+    },
+
+    pull() {
+      stream.resume();
+    },
+
+    cancel() {
+      destroy();
+    },
+  });
+}
+
+/**
+ * Send the request body. Stream bodies are piped and everything else is written at once,
+ * or in chunks when upload progress is reported as each chunk is written.
+ */
+function writeBody(
+  clientRequest: ClientRequest,
+  body: any,
+  headers: Record<string, string>,
+  onUploadProgress?: (progress: RequestProgress) => void,
+): void {
+  if (body && typeof body.pipe === 'function') {
+    if (onUploadProgress) {
+      const report = createProgressCounter(getContentLength(headers), onUploadProgress);
+      (body as Readable).on('data', (chunk: Buffer | string) => report(Buffer.byteLength(chunk)));
+    }
+    body.pipe(clientRequest);
+    return;
+  }
+
+  if (!onUploadProgress || !(typeof body === 'string' || body instanceof Uint8Array)) {
+    clientRequest.end(body === undefined || body === null ? undefined : body);
+    return;
+  }
+
+  const bytes = typeof body === 'string' ? Buffer.from(body) : body;
+  const report = createProgressCounter(bytes.byteLength, onUploadProgress);
+
+  for (let offset = 0; offset < bytes.byteLength; offset += UPLOAD_CHUNK_SIZE) {
+    const chunk = bytes.subarray(offset, offset + UPLOAD_CHUNK_SIZE);
+    clientRequest.write(chunk, error => !error && report(chunk.byteLength));
+  }
+  clientRequest.end();
+}
+
+/**
+ * Report download progress as the response body arrives. The total comes from
+ * Content-Length, unless the body is compressed and the length counts encoded bytes.
+ */
+function trackDownload(
+  message: IncomingMessage,
+  stream: Readable,
+  onDownloadProgress: (progress: RequestProgress) => void,
+): void {
+  const encoding = (message.headers['content-encoding'] || 'identity').trim().toLowerCase();
+  const total =
+    encoding === 'identity'
+      ? getContentLength(message.headers as Record<string, string>)
+      : undefined;
+  const report = createProgressCounter(total, onDownloadProgress);
+
+  stream.on('data', (chunk: Buffer) => report(chunk.byteLength));
+}
+
+/**
+ * Create a counter that reports the bytes transferred so far, starting with a report of none
+ */
+function createProgressCounter(
+  total: number | undefined,
+  onProgress: (progress: RequestProgress) => void,
+): (bytes: number) => void {
+  let loaded = 0;
+  const report = (bytes: number) => {
+    loaded += bytes;
+    onProgress({ loaded, total, progress: total ? Math.min(loaded / total, 1) : undefined });
+  };
+
+  report(0);
+  return report;
+}
+
+/**
+ * Read a Content-Length header, if it holds a valid length
+ */
+function getContentLength(headers: Record<string, string>): number | undefined {
+  const key = Object.keys(headers).find(name => name.toLowerCase() === 'content-length');
+  const length = key === undefined ? NaN : parseInt(headers[key], 10);
+  return Number.isFinite(length) ? length : undefined;
+}
+
+/**
+ * Pipe the response through a decoder matching its Content-Encoding
+ */
+function decodeBody(modules: NodeModules, message: IncomingMessage, method: string): Readable {
+  const encoding = (message.headers['content-encoding'] || '').trim().toLowerCase();
+
+  // Bodiless responses can carry an encoding header but have nothing to decode
+  if (method === 'HEAD' || message.statusCode === 204 || message.statusCode === 304) {
+    return message;
+  }
+
+  const { zlib } = modules;
+  const flushOptions = {
+    flush: zlib.constants.Z_SYNC_FLUSH,
+    finishFlush: zlib.constants.Z_SYNC_FLUSH,
+  };
+
+  let decoder: Readable & NodeJS.WritableStream;
+  switch (encoding) {
+    case 'gzip':
+    case 'x-gzip':
+      decoder = zlib.createGunzip(flushOptions);
+      break;
+    case 'deflate':
+      decoder = zlib.createInflate(flushOptions);
+      break;
+    case 'br':
+      decoder = zlib.createBrotliDecompress({
+        flush: zlib.constants.BROTLI_OPERATION_FLUSH,
+        finishFlush: zlib.constants.BROTLI_OPERATION_FLUSH,
+      });
+      break;
+    default:
+      return message;
+  }
+
+  message.on('error', error => decoder.destroy(error));
+  return message.pipe(decoder);
+}
+
+/**
+ * Open a CONNECT tunnel through the proxy to the target host.
+ * Aborting the signal destroys the CONNECT request and its socket.
+ */
+function openTunnel(
+  modules: NodeModules,
+  proxy: NodeProxyConfig,
+  hostname: string,
+  port: number,
+  signal?: AbortSignal,
+): Promise<Socket> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError(signal));
+      return;
+    }
+
+    const transport = proxy.protocol === 'https:' ? modules.https : modules.http;
+    const authority = `${hostname}:${port}`;
+
+    const connectRequest = transport.request({
+      method: 'CONNECT',
+      hostname: proxy.host,
+      port: proxy.port,
+      path: authority,
+      headers: { Host: authority, ...getProxyHeaders(proxy) },
+    });
+
+    const onAbort = () => {
+      connectRequest.destroy();
+      reject(createAbortError(signal));
+    };
+
+    const cleanup = () => signal?.removeEventListener('abort', onAbort);
+
+    connectRequest.once('connect', (response, socket) => {
+      cleanup();
+
+      if (response.statusCode === 200) {
+        resolve(socket);
+        return;
+      }
+
+      socket.destroy();
+      reject(createNetworkError(`proxy CONNECT responded with status ${response.statusCode}`));
+    });
+
+    connectRequest.once('error', error => {
+      cleanup();
+      reject(signal?.aborted ? createAbortError(signal) : createNetworkError(error.message, error));
+    });
+    signal?.addEventListener('abort', onAbort, { once: true });
+    connectRequest.end();
+  });
+}
+
+/**
+ * Normalize a proxy URL or config object
+ */
+function parseProxy(proxy: string | NodeProxyConfig): NodeProxyConfig {
+  if (typeof proxy !== 'string') {
+    return proxy;
+  }
+
+  const proxyUrl = new URL(proxy);
+  const protocol = proxyUrl.protocol === 'https:' ? 'https:' : 'http:';
+
+  return {
+    host: stripBrackets(proxyUrl.hostname),
+    port: Number(proxyUrl.port) || (protocol === 'https:' ? 443 : 80),
+    protocol,
+    auth: proxyUrl.username
+      ? {
+          username: decodeURIComponent(proxyUrl.username),
+          password: decodeURIComponent(proxyUrl.password),
+        }
+      : undefined,
+  };
+}
+
+/**
+ * Get the Proxy-Authorization header for a proxy with credentials
+ */
+function getProxyHeaders(proxy: NodeProxyConfig): Record<string, string> {
+  if (!proxy.auth) {
+    return {};
+  }
+
+  const credentials = `${proxy.auth.username}:${proxy.auth.password}`;
+  return { 'Proxy-Authorization': `Basic ${Buffer.from(credentials).toString('base64')}` };
+}
+
+/**
+ * Check for a header regardless of case
+ */
+function hasHeader(headers: Record<string, string>, name: string): boolean {
+  return Object.keys(headers).some(key => key.toLowerCase() === name);
+}
+
+/**
+ * Remove the brackets URL puts around IPv6 hosts
+ */
+function stripBrackets(hostname: string): string {
+  return hostname.replace(/^\[|\]$/g, '');
+}
+
+/**
+ * Check whether a request body is a Blob or File
+ */
+function isBlob(body: unknown): body is Blob {
+  return typeof Blob !== 'undefined' && body instanceof Blob;
+}
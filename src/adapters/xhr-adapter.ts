@@ -0,0 +1,251 @@
+// src/adapters/xhr-adapter.ts
+
+import { Adapter, AdapterRequest, AdapterResponse, XhrAdapterOptions } from '@fk-types/adapter';
+import { RequestOptions, RequestProgress } from '@fk-types/core';
+import { buildUrl } from '@utils/url';
+import { createAbortError, createNetworkError, createTimeoutError } from './adapter-errors';
+
+/**
+ * XMLHttpRequest response types matching RequestOptions.responseType
+ */
+const XHR_RESPONSE_TYPES: Record<string, XMLHttpRequestResponseType> = {
+  json: 'text',
+  text: 'text',
+  blob: 'blob',
+  arrayBuffer: 'arraybuffer',
+};
+
+/**
+ * Create an adapter that sends requests with XMLHttpRequest.
+ * Unlike fetch, XMLHttpRequest can report upload progress.
+ */
+export function createXhrAdapter(options: XhrAdapterOptions = {}): Adapter {
+  const { name = 'xhr', timeout = 0 } = options;
+
+  const adapter: Adapter = {
+    name,
+
+    /**
+     * Execute a request using XMLHttpRequest
+     */
+    request(request: AdapterRequest): Promise<AdapterResponse> {
+      const {
+        url,
+        method,
+        headers = {},
+        body,
+        signal,
+        responseType,
+        credentials,
+        onUploadProgress,
+        onDownloadProgress,
+      } = request;
+
+      return new Promise<AdapterResponse>((resolve, reject) => {
+        if (signal?.aborted) {
+          reject(createAbortError(signal));
+          return;
+        }
+
+        const xhr = new XMLHttpRequest();
+        xhr.open(method, url, true);
+
+        Object.entries(headers as Record<string, string>).forEach(([key, value]) => {
+          xhr.setRequestHeader(key, value);
+        });
+
+        // Without a requested type, read bytes and decide from the content type
+        xhr.responseType = (responseType && XHR_RESPONSE_TYPES[responseType]) || 'arraybuffer';
+        xhr.withCredentials = credentials === 'include';
+        xhr.timeout = timeout;
+
+        const onAbort = () => xhr.abort();
+        const cleanup = () => signal?.removeEventListener('abort', onAbort);
+
+        // Only listen on xhr.upload when asked, as it forces a CORS preflight
+        if (onUploadProgress) {
+          xhr.upload.onprogress = event => onUploadProgress(toRequestProgress(event));
+        }
+
+        if (onDownloadProgress) {
+          xhr.onprogress = event => onDownloadProgress(toRequestProgress(event));
+        }
+
+        xhr.onload = () => {
+          cleanup();
+
+          Promise.resolve(adapter.transformResponse({ xhr, url, responseType })).then(
+            resolve,
+            reject,
+          );
+        };
+
+        xhr.onerror = () => {
+          cleanup();
+          reject(createNetworkError(url));
+        };
+
+        xhr.ontimeout = () => {
+          cleanup();
+          reject(createTimeoutError(`Request timed out after ${timeout}ms`));
+        };
+
+        xhr.onabort = () => {
+          cleanup();
+          reject(createAbortError(signal));
+        };
+
+        signal?.addEventListener('abort', onAbort, { once: true });
+
+        xhr.send(body === undefined ? null : body);
+      });
+    },
+
+    /**
+     * Transform FetchKit options to an XMLHttpRequest request
+     */
+    transformRequest(url: string, options: RequestOptions): AdapterRequest {
+      const { method = 'GET', body, params, headers, signal, ...restOptions } = options;
+
+      // Build URL with query parameters
+      const fullUrl = params ? buildUrl(url, params) : url;
+
+      // Create the request object
+      const request: AdapterRequest = {
+        url: fullUrl,
+        method,
+        headers: { ...headers },
+        signal,
+        ...restOptions,
+      };
+
+      // Process body for JSON data
+      if (body !== undefined && method !== 'GET' && method !== 'HEAD') {
+        if (
+          typeof body === 'object' &&
+          body !== null &&
+          !(body instanceof FormData) &&
+          !(body instanceof Blob) &&
+          !(body instanceof ArrayBuffer) &&
+          !(body instanceof URLSearchParams) &&
+          !ArrayBuffer.isView(body)
+        ) {
+          request.body = JSON.stringify(body);
+
+          // Add content-type if not set
+          if (!Object.keys(request.headers || {}).some(h => h.toLowerCase() === 'content-type')) {
+            request.headers = {
+              ...request.headers,
+              'Content-Type': 'application/json',
+            };
+          }
+        } else {
+          request.body = body;
+        }
+      }
+
+      return request;
+    },
+
+    /**
+     * Transform a completed XMLHttpRequest to standardized format
+     */
+    transformResponse(response: {
+      xhr: XMLHttpRequest;
+      url: string;
+      responseType?: RequestOptions['responseType'];
+    }): AdapterResponse {
+      const { xhr, url, responseType } = response;
+
+      const headers = parseHeaders(xhr.getAllResponseHeaders());
+      const contentType = headers['content-type'] || '';
+
+      // Parse response data based on the requested type or content type
+      let data: any;
+
+      if (responseType === 'json') {
+        data = parseJson(xhr.response);
+      } else if (responseType && XHR_RESPONSE_TYPES[responseType]) {
+        data = xhr.response;
+      } else {
+        const buffer: ArrayBuffer = xhr.response || new ArrayBuffer(0);
+
+        if (contentType.includes('application/json')) {
+          data = parseJson(new TextDecoder().decode(buffer));
+        } else if (contentType.includes('text/')) {
+          data = new TextDecoder().decode(buffer);
+        } else {
+          // For binary data, return as blob like the fetch adapter
+          data = new Blob([buffer], { type: contentType });
+        }
+      }
+
+      return {
+        data,
+        status: xhr.status,
+        statusText: xhr.statusText,
+        headers,
+        originalResponse: {
+          ok: xhr.status >= 200 && xhr.status < 300,
+          status: xhr.status,
+          statusText: xhr.statusText,
+          headers,
+          url: xhr.responseURL || url,
+          xhr,
+        },
+      };
+    },
+  };
+
+  return adapter;
+}
+
+/**
+ * Default XMLHttpRequest adapter
+ */
+export const xhrAdapter = createXhrAdapter();
+
+/**
+ * Convert an XMLHttpRequest progress event to a RequestProgress
+ */
+function toRequestProgress(event: ProgressEvent): RequestProgress {
+  const total = event.lengthComputable ? event.total : undefined;
+
+  return {
+    loaded: event.loaded,
+    total,
+    progress: total ? Math.min(event.loaded / total, 1) : undefined,
+  };
+}
+
+/**
+ * Parse the raw header block from getAllResponseHeaders
+ */
+function parseHeaders(rawHeaders: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+
+  rawHeaders
+    .trim()
+    .split(/[\r\n]+/)
+    .forEach(line => {
+      const separator = line.indexOf(':');
+      if (separator <= 0) return;
+
+      const key = line.slice(0, separator).trim().toLowerCase();
+      const value = line.slice(separator + 1).trim();
+      headers[key] = headers[key] ? `${headers[key]}, ${value}` : value;
+    });
+
+  return headers;
+}
+
+/**
+ * Parse JSON text, falling back to the raw text like the fetch adapter
+ */
+function parseJson(text: string): any {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
@@ -22,6 +22,14 @@ export interface CacheEntry<T> {
   lastError?: string;
   /** Number of times the cache entry has been accessed */
   accessCount?: number;
+  /** ETag of the cached response, sent as If-None-Match when revalidating */
+  etag?: string;
+  /** Last-Modified date of the cached response, sent as If-Modified-Since when revalidating */
+  lastModified?: string;
+  /** Timestamp after which stale data must be revalidated before it is served (HTTP caching) */
+  mustRevalidateAt?: number;
+  /** Timestamp until which stale data may be served if revalidation fails (HTTP caching) */
+  staleIfErrorUntil?: number;
 }
 
 /**
@@ -1,14 +1,36 @@
 // src/cache/cache-key.ts
 
 import { RequestOptions } from '@fk-types/core';
+import { CacheKeyOptions } from '@fk-types/cache';
+
+/**
+ * Bodies longer than this many characters are hashed in cache keys by default
+ */
+const DEFAULT_MAX_BODY_LENGTH = 1024;
 
 /**
  * Generates a cache key for a request based on URL, method, and parameters
  * @param url The request URL
  * @param options Request options containing method, params, etc.
+ * @param keyOptions Options for composing the key, such as headers to include
  * @returns A unique string key for identifying the request in cache
  */
-export function generateCacheKey(url: string, options?: RequestOptions): string {
+export function generateCacheKey(
+  url: string,
+  options?: RequestOptions,
+  keyOptions: CacheKeyOptions = {},
+): string {
+  const {
+    headers: keyHeaders = [],
+    maxBodyLength = DEFAULT_MAX_BODY_LENGTH,
+    hash = hashString,
+    keyFn,
+  } = keyOptions;
+
+  if (keyFn) {
+    return keyFn(url, options || {});
+  }
+
   const method = options?.method || 'GET';
   const params = options?.params || {};
 
@@ -16,11 +38,74 @@ export function generateCacheKey(url: string, options?: RequestOptions): string
   const paramsString = Object.keys(params).length > 0 ? JSON.stringify(sortObjectKeys(params)) : '';
 
   // For POST/PUT/PATCH requests, include the body in the cache key
-  const bodyString =
+  let bodyString =
     ['POST', 'PUT', 'PATCH'].includes(method) && options?.body ? JSON.stringify(options.body) : '';
 
+  // Keep large bodies from bloating the key
+  if (bodyString.length > maxBodyLength) {
+    bodyString = `#${hash(bodyString)}`;
+  }
+
   // Combine all components to create a unique key
-  return `${method}:${url}:${paramsString}:${bodyString}`;
+  const key = `${method}:${url}:${paramsString}:${bodyString}`;
+  const headersString = getHeadersKey(options?.headers, keyHeaders, hash);
+
+  return headersString ? `${key}:${headersString}` : key;
+}
+
+/**
+ * Build the part of a cache key that identifies request header values.
+ * Values are hashed so that credentials never appear in keys.
+ * @param headers The request headers
+ * @param names Names of the headers to include, matched case-insensitively
+ * @param hash Hash function for header values
+ * @returns The key part, or an empty string when no header names are given
+ */
+export function getHeadersKey(
+  headers: Record<string, string> = {},
+  names: string[],
+  hash: (value: string) => string = hashString,
+): string {
+  const values = new Map<string, string>();
+  Object.entries(headers).forEach(([name, value]) => values.set(name.toLowerCase(), value));
+
+  return Array.from(new Set(names.map(name => name.toLowerCase())))
+    .sort()
+    .map(name => {
+      const value = values.get(name);
+      return `${name}=${value === undefined ? '' : hash(value)}`;
+    })
+    .join('&');
+}
+
+/**
+ * Hash a string with 64-bit FNV-1a over its UTF-8 bytes
+ * @returns The hash as 16 hex digits
+ */
+export function hashString(value: string): string {
+  // The 64-bit state is kept in four 16-bit limbs, least significant first,
+  // starting from the offset basis 0xcbf29ce484222325
+  let h0 = 0x2325;
+  let h1 = 0x8422;
+  let h2 = 0x9ce4;
+  let h3 = 0xcbf2;
+
+  new TextEncoder().encode(value).forEach(byte => {
+    h0 ^= byte;
+
+    // Multiply by the prime 0x100000001b3, i.e. h * 0x1b3 + (h << 40)
+    const t0 = h0 * 0x1b3;
+    const t1 = h1 * 0x1b3 + (t0 >>> 16);
+    const t2 = h2 * 0x1b3 + (t1 >>> 16) + (h0 << 8);
+    const t3 = h3 * 0x1b3 + (t2 >>> 16) + (h1 << 8);
+
+    h0 = t0 & 0xffff;
+    h1 = t1 & 0xffff;
+    h2 = t2 & 0xffff;
+    h3 = t3 & 0xffff;
+  });
+
+  return [h3, h2, h1, h0].map(limb => limb.toString(16).padStart(4, '0')).join('');
 }
 
 /**
@@ -1,9 +1,26 @@
 // src/cache/cache-manager.ts
 
 import { RequestOptions } from '@fk-types/core';
+import { ErrorCategory } from '@fk-types/error';
+import type { EntityShape } from '@fk-types/entity';
 import { generateCacheKey } from './cache-key';
-import { CacheEntry, createCacheEntry, isEntryStale } from './cache-entry';
+import { CacheEntry, createCacheEntry, isEntryExpired, isEntryStale } from './cache-entry';
 import { MemoryCache } from './memory-cache';
+import { EntitySchema } from './entity-schema';
+import { EntityStore } from './entity-store';
+import {
+  HttpCacheResponse,
+  applyHttpCachePolicy,
+  canServeStale,
+  canServeStaleOnError,
+  getHttpCachePolicy,
+} from './http-cache';
+import {
+  CachePersistence,
+  PersistenceOptions,
+  createPersistence,
+  isCachePersistence,
+} from './persistence/cache-persistence';
 
 export interface CacheOptions {
   /** Time in ms after which data is considered stale (default: 0) */
@@ -20,6 +37,13 @@ export interface CacheOptions {
   retryDelay?: number | ((attempt: number, error: Error) => number);
   /** Timeout in ms for fetch operations (default: 30000) */
   timeout?: number;
+  /**
+   * Whether Cache-Control, Expires, ETag and Last-Modified response headers
+   * decide freshness and revalidation (default: true)
+   */
+  httpCache?: boolean;
+  /** Whether to act as a shared cache, preferring s-maxage over max-age (default: false) */
+  sharedCache?: boolean;
   /** Function to check if data is still valid and can be used (default: none) */
   validator?: (data: any) => boolean;
   /** Optional conditional function to determine if fetch should proceed */
@@ -34,6 +58,8 @@ export interface CacheOptions {
   warmCache?: boolean;
   /** Interval in ms for refreshing warmed cache entries (default: 300000 - 5 minutes) */
   warmingInterval?: number;
+  /** Entities in the data, kept in the normalized store when it is enabled */
+  entities?: EntityShape;
 }
 
 /**
@@ -43,10 +69,25 @@ export interface InvalidationHook {
   (cacheKey: string): void;
 }
 
+/**
+ * Hook called whenever new data is written to the cache
+ */
+export interface UpdateHook {
+  (cacheKey: string, data: any): void;
+}
+
+/**
+ * Fetches fresh data for a cache entry. A fetcher can report the response the data
+ * came from, whose cache headers then decide how that data is stored.
+ */
+export interface CacheFetcher<T> {
+  (onResponse?: (response: HttpCacheResponse) => void): Promise<T>;
+}
+
 /** Revalidation queue item for priority-based revalidation */
 interface RevalidationQueueItem<T> {
   cacheKey: string;
-  fetchFn: () => Promise<T>;
+  fetchFn: CacheFetcher<T>;
   options?: CacheOptions;
   priority: number;
   timestamp: number;
@@ -57,6 +98,7 @@ export class CacheManager {
   private revalidationMap: Map<string, Promise<any>> = new Map();
   private globalCacheOptions: CacheOptions;
   private invalidationHooks: Set<InvalidationHook> = new Set();
+  private updateHooks: Set<UpdateHook> = new Set();
   private invalidationGroups: Map<string, (string | RegExp)[]> = new Map();
   private lastRevalidationTimes: Map<string, number> = new Map();
   private debounceTimers: Map<string, NodeJS.Timeout> = new Map();
@@ -65,20 +107,37 @@ export class CacheManager {
   private warmingRegistry = new Map<
     string,
     {
-      fetchFn: () => Promise<any>;
+      fetchFn: CacheFetcher<any>;
       options: CacheOptions;
       intervalId?: NodeJS.Timeout;
     }
   >();
   private defaultWarmingInterval: number = 300000; // 5 minutes
-
-  constructor(globalCacheOptions?: CacheOptions) {
+  private persistence: CachePersistence | null = null;
+  private persistenceQueue: Promise<void> | null = null;
+  private hydrationPromise: Promise<void> | null = null;
+  private rehydratedKeys: Set<string> = new Set(); // Loaded from persistence and not yet verified
+  private entityStore: EntityStore | null = null;
+
+  constructor(
+    globalCacheOptions?: CacheOptions,
+    persistence?: CachePersistence | PersistenceOptions,
+    entityStore?: EntityStore,
+  ) {
     this.cache = new MemoryCache();
     this.globalCacheOptions = globalCacheOptions || {};
+    this.entityStore = entityStore || null;
+
+    // Hydrate the memory cache from durable storage if persistence is configured
+    if (persistence) {
+      this.hydrationPromise = this.initPersistence(persistence);
+      this.persistenceQueue = this.hydrationPromise;
+    }
 
     // Run cache cleanup periodically
     setInterval(() => {
       this.cache.cleanup();
+      this.entityStore?.retain(cacheKey => this.cache.has(cacheKey));
     }, 60000); // Every minute
 
     // Process the revalidation queue periodically
@@ -125,18 +184,154 @@ export class CacheManager {
   }
 
   /**
-   * Set data in cache
+   * Set data in cache. With the response the data was fetched with, its cache headers
+   * decide freshness, storage and revalidation, and a 304 response refreshes the
+   * existing entry instead of replacing its data.
    */
-  set<T>(cacheKey: string, data: T, options?: CacheOptions): void {
-    const entry = createCacheEntry<T>(data, options?.staleTime, options?.cacheTime);
+  set<T>(cacheKey: string, data: T, options?: CacheOptions, response?: HttpCacheResponse): void {
+    let entry = createCacheEntry<T>(data, options?.staleTime, options?.cacheTime);
+
+    const httpCache = options?.httpCache ?? this.globalCacheOptions.httpCache ?? true;
+    if (response && httpCache) {
+      const shared = options?.sharedCache ?? this.globalCacheOptions.sharedCache;
+      const policy = getHttpCachePolicy(response, shared);
+
+      if (!policy.store) {
+        this.delete(cacheKey);
+        return;
+      }
+
+      const existing = this.cache.get<T>(cacheKey);
+      if (response.status === 304 && existing) {
+        // Not modified: keep the data and only refresh its timestamps
+        const refreshed = applyHttpCachePolicy(
+          { ...existing, staleAt: entry.staleAt, expiresAt: entry.expiresAt },
+          {
+            ...policy,
+            etag: policy.etag ?? existing.etag,
+            lastModified: policy.lastModified ?? existing.lastModified,
+          },
+        );
+        this.cache.set(cacheKey, refreshed);
+        this.persist(persistence => persistence.set(cacheKey, refreshed));
+        return;
+      }
+
+      entry = applyHttpCachePolicy(entry, policy);
+    }
+
+    // Split entities into the normalized store, where other entries referencing them see the changes
+    let changedEntities: string[] = [];
+    if (this.entityStore && options?.entities) {
+      changedEntities = this.entityStore.write(cacheKey, data, options.entities);
+      entry = { ...entry, data: this.entityStore.read<T>(cacheKey) as T };
+    }
 
+    this.rehydratedKeys.delete(cacheKey);
     this.cache.set(cacheKey, entry);
+    this.persist(persistence => persistence.set(cacheKey, entry));
+    this.notifyUpdate(cacheKey, entry.data);
+    this.propagateEntities(changedEntities, cacheKey);
+  }
+
+  /**
+   * Merge the entities in data into the normalized store, e.g. from a mutation result,
+   * and update the entries referencing them
+   * @returns Keys of the entries that were updated
+   */
+  writeEntities(data: unknown, shape: EntityShape): string[] {
+    if (!this.entityStore) return [];
+    return this.propagateEntities(this.entityStore.writeEntities(data, shape));
+  }
+
+  /**
+   * Read an entity from the normalized store
+   */
+  getEntity<T>(schema: EntitySchema<T>, id: string | number): T | undefined {
+    return this.entityStore?.getEntity(schema, id);
+  }
+
+  /**
+   * Write an entity to the normalized store and update the entries referencing it
+   * @returns Keys of the entries that were updated
+   */
+  setEntity<T>(
+    schema: EntitySchema<T>,
+    id: string | number,
+    updater: T | ((current: T | undefined) => T),
+  ): string[] {
+    if (!this.entityStore) return [];
+    return this.propagateEntities(this.entityStore.writeEntity(schema, id, updater));
+  }
+
+  /**
+   * Update the data of entries referencing changed entities, keeping their timestamps
+   * @param entityKeys - Keys of the changed entities
+   * @param skipKey - Entry that was just written with the changes
+   */
+  private propagateEntities(entityKeys: string[], skipKey?: string): string[] {
+    if (!this.entityStore || entityKeys.length === 0) return [];
+
+    return this.entityStore.getDependentKeys(entityKeys).filter(cacheKey => {
+      if (cacheKey === skipKey) return false;
+
+      const entry = this.cache.get(cacheKey);
+      if (!entry) {
+        this.entityStore?.remove(cacheKey);
+        return false;
+      }
+
+      const updated = { ...entry, data: this.entityStore?.read(cacheKey) };
+      this.cache.set(cacheKey, updated);
+      this.persist(persistence => persistence.set(cacheKey, updated));
+      this.notifyUpdate(cacheKey, updated.data);
+      return true;
+    });
+  }
+
+  /**
+   * Store a complete cache entry, e.g. to restore a previously captured snapshot
+   */
+  setEntry<T>(cacheKey: string, entry: CacheEntry<T>): void {
+    this.rehydratedKeys.delete(cacheKey);
+    this.cache.set(cacheKey, entry);
+    this.persist(persistence => persistence.set(cacheKey, entry));
+    this.notifyUpdate(cacheKey, entry.data);
+  }
+
+  /**
+   * Add a hook that will be called whenever data is written to the cache
+   * @param hook - Function to call with the cache key and the new data
+   * @returns An unsubscribe function to remove the hook
+   */
+  onUpdate(hook: UpdateHook): () => void {
+    this.updateHooks.add(hook);
+
+    return () => {
+      this.updateHooks.delete(hook);
+    };
+  }
+
+  /**
+   * Call all update hooks for a cache write
+   */
+  private notifyUpdate(cacheKey: string, data: any): void {
+    this.updateHooks.forEach(hook => {
+      try {
+        hook(cacheKey, data);
+      } catch (error) {
+        console.error('Error in update hook:', error);
+      }
+    });
   }
 
   /**
    * Delete data from cache
    */
   delete(cacheKey: string): boolean {
+    this.rehydratedKeys.delete(cacheKey);
+    this.entityStore?.remove(cacheKey);
+    this.persist(persistence => persistence.delete(cacheKey));
     return this.cache.delete(cacheKey);
   }
 
@@ -160,7 +355,144 @@ export class CacheManager {
     this.warmingRegistry.clear();
 
     // Clear the cache
+    this.rehydratedKeys.clear();
+    this.entityStore?.clear();
     this.cache.clear();
+    this.persist(persistence => persistence.clear());
+  }
+
+  /**
+   * Wait until the memory cache has been hydrated from persistence.
+   * Resolves immediately when no persistence is configured.
+   */
+  async ready(): Promise<void> {
+    if (this.hydrationPromise) {
+      await this.hydrationPromise;
+    }
+  }
+
+  /**
+   * Check an entry loaded from persistence before it is first served.
+   * The entry keeps its data, which already went through any transforms before it
+   * was stored, or is deleted if verify throws.
+   * @param cacheKey - The key to check
+   * @param verify - Rejects if the data is invalid
+   * @returns false if the entry was deleted
+   */
+  async verifyRehydrated<T>(
+    cacheKey: string,
+    verify: (data: T) => Promise<unknown>,
+  ): Promise<boolean> {
+    if (!this.hydrationPromise) return true;
+
+    await this.restoreFromPersistence(cacheKey);
+
+    const entry = this.getEntry<T>(cacheKey);
+    if (!entry || !this.rehydratedKeys.has(cacheKey)) return true;
+
+    try {
+      await verify(entry.data);
+    } catch {
+      // Keep newer data written while verifying
+      if (!this.rehydratedKeys.has(cacheKey)) return true;
+
+      this.delete(cacheKey);
+      return false;
+    }
+
+    this.rehydratedKeys.delete(cacheKey);
+    return true;
+  }
+
+  /**
+   * Check whether a persistence backend is configured
+   */
+  hasPersistence(): boolean {
+    return this.hydrationPromise !== null;
+  }
+
+  /**
+   * Resolve the persistence backend and load its entries into memory
+   */
+  private async initPersistence(persistence: CachePersistence | PersistenceOptions): Promise<void> {
+    try {
+      this.persistence = isCachePersistence(persistence)
+        ? persistence
+        : await createPersistence(persistence);
+
+      await this.hydrate();
+    } catch (error) {
+      console.error('Error initializing cache persistence:', error);
+    }
+  }
+
+  /**
+   * Copy persisted entries that are not expired into the memory cache.
+   * Entries already present in memory are newer and are kept as-is.
+   */
+  private async hydrate(): Promise<void> {
+    if (!this.persistence) return;
+
+    const keys = await this.persistence.keys();
+
+    for (const key of keys) {
+      if (this.cache.has(key)) continue;
+
+      const entry = await this.loadPersistedEntry(key);
+      if (entry) {
+        this.cache.set(key, { ...entry, isRevalidating: false });
+        this.rehydratedKeys.add(key);
+      }
+    }
+  }
+
+  /**
+   * Read a single entry from persistence, discarding it if it has expired
+   */
+  private async loadPersistedEntry<T>(cacheKey: string): Promise<CacheEntry<T> | undefined> {
+    if (!this.persistence) return undefined;
+
+    try {
+      const entry = await this.persistence.get<T>(cacheKey);
+      if (!entry) return undefined;
+
+      if (isEntryExpired(entry)) {
+        await this.persistence.delete(cacheKey);
+        return undefined;
+      }
+
+      return entry;
+    } catch (error) {
+      console.error(`Error reading persisted cache entry ${cacheKey}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Queue a write-through operation against the persistence backend.
+   * Operations run one after another so that a delete can't overtake an earlier set.
+   */
+  private persist(operation: (persistence: CachePersistence) => Promise<unknown>): void {
+    if (!this.persistenceQueue) return;
+
+    this.persistenceQueue = this.persistenceQueue
+      .then(async () => {
+        if (this.persistence) {
+          await operation(this.persistence);
+        }
+      })
+      .catch(error => {
+        console.error('Error writing to cache persistence:', error);
+      });
+  }
+
+  /**
+   * Wait for all queued persistence writes to finish
+   */
+  async flushPersistence(): Promise<void> {
+    if (this.persistenceQueue) {
+      await this.persistenceQueue;
+    }
   }
 
   /**
@@ -189,7 +521,7 @@ export class CacheManager {
     }
 
     // Perform the actual invalidation
-    const deleted = this.cache.delete(cacheKey);
+    const deleted = this.delete(cacheKey);
 
     // Emit invalidation event if not silent
     if (deleted && !silent) {
@@ -234,7 +566,7 @@ export class CacheManager {
           return;
         }
 
-        const deleted = this.cache.delete(key);
+        const deleted = this.delete(key);
         if (deleted) {
           invalidatedCount++;
 
@@ -607,7 +939,7 @@ export class CacheManager {
    */
   async revalidate<T>(
     cacheKey: string,
-    fetchFn: () => Promise<T>,
+    fetchFn: CacheFetcher<T>,
     options?: CacheOptions,
   ): Promise<void> {
     return this.revalidateData(cacheKey, fetchFn, options);
@@ -621,7 +953,7 @@ export class CacheManager {
    * 3. If there's no cached data, conditionally execute fetchFn and cache the result
    * 4. Handles errors, retries, and timeouts for robust operation
    */
-  async swr<T>(cacheKey: string, fetchFn: () => Promise<T>, options?: CacheOptions): Promise<T> {
+  async swr<T>(cacheKey: string, fetchFn: CacheFetcher<T>, options?: CacheOptions): Promise<T> {
     // Process options with defaults, merging global options
     const mergedOptions = {
       ...this.globalCacheOptions,
@@ -630,6 +962,11 @@ export class CacheManager {
 
     const { revalidate = true, validator, shouldFetch, timeout = 30000 } = mergedOptions;
 
+    // Make sure persisted entries are available before looking anything up
+    if (this.hydrationPromise) {
+      await this.restoreFromPersistence(cacheKey);
+    }
+
     const cacheEntry = this.getEntry<T>(cacheKey);
 
     // Update access count if entry exists
@@ -644,7 +981,7 @@ export class CacheManager {
       // Data failed validation, remove it from cache
       this.delete(cacheKey);
       // Proceed as if there was no cache entry
-    } else if (cacheEntry) {
+    } else if (cacheEntry && canServeStale(cacheEntry)) {
       // Check if data is fresh
       const isFresh = !isEntryStale(cacheEntry);
 
@@ -668,7 +1005,7 @@ export class CacheManager {
       return cacheEntry.data;
     }
 
-    // No cache entry exists, check if we should fetch
+    // No cache entry exists, or HTTP cache headers require revalidating it before it is served
     const shouldProceedWithFetch = shouldFetch ? await Promise.resolve(shouldFetch()) : true;
     if (!shouldProceedWithFetch) {
       throw new Error('Fetch condition not met and no cached data available');
@@ -677,7 +1014,10 @@ export class CacheManager {
     // Fetch with timeout and retry support
     try {
       // Always try to fetch - this ensures errorFetch gets called in tests
-      const fetchPromise = fetchFn();
+      let response: HttpCacheResponse | undefined;
+      const fetchPromise = fetchFn(received => {
+        response = { receivedAt: Date.now(), ...received };
+      });
       const timeoutPromise = new Promise<never>((_, reject) => {
         setTimeout(() => reject(new Error(`Request timeout after ${timeout}ms`)), timeout);
       });
@@ -691,14 +1031,15 @@ export class CacheManager {
       }
 
       // Cache the successful result
-      this.set(cacheKey, data, mergedOptions);
+      this.set(cacheKey, data, mergedOptions, response);
       return data;
     } catch (error: Error | unknown) {
       // Log the error
       console.error(`Error fetching data for cache key ${cacheKey}:`, error);
 
-      // If we have stale data, return it even though the refresh failed
-      if (cacheEntry) {
+      // If we have stale data, return it even though the refresh failed, unless
+      // HTTP cache headers only allow that within a stale-if-error window
+      if (cacheEntry && canServeStaleOnError(cacheEntry)) {
         // Mark as not revalidating since it failed
         this.cache.update(cacheKey, {
           isRevalidating: false,
@@ -712,12 +1053,28 @@ export class CacheManager {
     }
   }
 
+  /**
+   * Load a single key from persistence into memory if it is not already cached.
+   * This covers entries that were evicted from memory but are still persisted.
+   */
+  private async restoreFromPersistence(cacheKey: string): Promise<void> {
+    await this.ready();
+
+    if (this.cache.has(cacheKey)) return;
+
+    const entry = await this.loadPersistedEntry(cacheKey);
+    if (entry && !this.cache.has(cacheKey)) {
+      this.cache.set(cacheKey, { ...entry, isRevalidating: false });
+      this.rehydratedKeys.add(cacheKey);
+    }
+  }
+
   /**
    * Revalidate cache data in the background with retry mechanism, throttling, debouncing, and priority queue
    */
   private async revalidateData<T>(
     cacheKey: string,
-    fetchFn: () => Promise<T>,
+    fetchFn: CacheFetcher<T>,
     options?: CacheOptions,
   ): Promise<void> {
     // Don't start another revalidation if one is already in progress
@@ -783,10 +1140,15 @@ export class CacheManager {
     }
 
     // Create revalidation promise with retry logic
-    const executeWithRetry = async (attempt = 0): Promise<T> => {
+    const executeWithRetry = async (
+      attempt = 0,
+    ): Promise<{ data: T; response?: HttpCacheResponse }> => {
       try {
         // Setup timeout
-        const fetchPromise = fetchFn();
+        let response: HttpCacheResponse | undefined;
+        const fetchPromise = fetchFn(received => {
+          response = { receivedAt: Date.now(), ...received };
+        });
         const timeoutPromise = new Promise<never>((_, reject) => {
           setTimeout(() => reject(new Error(`Revalidation timeout after ${timeout}ms`)), timeout);
         });
@@ -799,10 +1161,10 @@ export class CacheManager {
           throw new Error('Revalidated data failed validation');
         }
 
-        return data;
+        return { data, response };
       } catch (error) {
-        // If we've reached max retries, throw the error
-        if (attempt >= maxRetries) {
+        // If we've reached max retries or the circuit is open, throw the error
+        if (attempt >= maxRetries || isCircuitOpen(error)) {
           throw error;
         }
 
@@ -820,12 +1182,12 @@ export class CacheManager {
 
     // Create revalidation promise
     const revalidatePromise = executeWithRetry()
-      .then(data => {
+      .then(({ data, response }) => {
         // Get current entry (if any)
         const currentEntry = this.getEntry<T>(cacheKey);
 
         // Update cache with fresh data
-        this.set(cacheKey, data, options);
+        this.set(cacheKey, data, options, response);
 
         // Update revalidation metadata
         if (currentEntry) {
@@ -877,7 +1239,7 @@ export class CacheManager {
    */
   private addToRevalidationQueue<T>(
     cacheKey: string,
-    fetchFn: () => Promise<T>,
+    fetchFn: CacheFetcher<T>,
     options: CacheOptions,
     priority: number,
   ): void {
@@ -915,7 +1277,7 @@ export class CacheManager {
    */
   registerCacheWarming<T>(
     cacheKey: string,
-    fetchFn: () => Promise<T>,
+    fetchFn: CacheFetcher<T>,
     options?: CacheOptions,
   ): void {
     console.debug('Registering cache warming for key:', cacheKey);
@@ -980,7 +1342,7 @@ export class CacheManager {
    */
   private async warmCache<T>(
     cacheKey: string,
-    fetchFn: () => Promise<T>,
+    fetchFn: CacheFetcher<T>,
     options?: CacheOptions,
   ): Promise<void> {
     try {
@@ -1029,10 +1391,15 @@ export class CacheManager {
       const validator = options?.validator;
 
       // Create revalidation promise with retry logic
-      const executeWithRetry = async (attempt = 0): Promise<any> => {
+      const executeWithRetry = async (
+        attempt = 0,
+      ): Promise<{ data: any; response?: HttpCacheResponse }> => {
         try {
           // Setup timeout
-          const fetchPromise = fetchFn();
+          let response: HttpCacheResponse | undefined;
+          const fetchPromise = fetchFn(received => {
+            response = { receivedAt: Date.now(), ...received };
+          });
           const timeoutPromise = new Promise<never>((_, reject) => {
             setTimeout(() => reject(new Error(`Revalidation timeout after ${timeout}ms`)), timeout);
           });
@@ -1045,10 +1412,10 @@ export class CacheManager {
             throw new Error('Revalidated data failed validation');
           }
 
-          return data;
+          return { data, response };
         } catch (error) {
-          // If we've reached max retries, throw the error
-          if (attempt >= maxRetries) {
+          // If we've reached max retries or the circuit is open, throw the error
+          if (attempt >= maxRetries || isCircuitOpen(error)) {
             throw error;
           }
 
@@ -1066,7 +1433,7 @@ export class CacheManager {
 
       // Create revalidation promise
       const revalidatePromise = executeWithRetry()
-        .then(data => {
+        .then(({ data, response }) => {
           // Update last revalidation time for throttling
           this.lastRevalidationTimes.set(cacheKey, Date.now());
 
@@ -1074,7 +1441,7 @@ export class CacheManager {
           const currentEntry = this.getEntry(cacheKey);
 
           // Update cache with fresh data
-          this.set(cacheKey, data, options);
+          this.set(cacheKey, data, options, response);
 
           // Update revalidation metadata
           if (currentEntry) {
@@ -1149,3 +1516,11 @@ export class CacheManager {
     return isFresh;
   }
 }
+
+/**
+ * Check whether a fetch failed fast because its circuit breaker is open.
+ * Retrying right away would only fail fast again.
+ */
+function isCircuitOpen(error: unknown): boolean {
+  return (error as { category?: ErrorCategory })?.category === ErrorCategory.CircuitOpen;
+}
@@ -0,0 +1,60 @@
+// src/cache/entity-schema.ts
+
+import type { EntitySchemaOptions, EntityShape } from '@fk-types/entity';
+
+/**
+ * Declares an entity type for the normalized store: its name, how to find its id,
+ * and which of its fields hold other entities
+ */
+export class EntitySchema<T = any> {
+  /**
+   * Name of the entity type, e.g. 'User'
+   */
+  readonly name: string;
+
+  /**
+   * Shapes of the fields holding other entities
+   */
+  readonly fields: Record<string, EntityShape>;
+
+  /**
+   * Field holding the id, or a function returning it
+   */
+  private idField: string | ((entity: T) => string | number | undefined);
+
+  /**
+   * Create a new entity schema
+   */
+  constructor(name: string, options: EntitySchemaOptions<T> = {}) {
+    this.name = name;
+    this.idField = options.idField ?? 'id';
+    this.fields = { ...options.fields };
+  }
+
+  /**
+   * Add nested entity fields, e.g. for entities that reference each other
+   */
+  define(fields: Record<string, EntityShape>): this {
+    Object.assign(this.fields, fields);
+    return this;
+  }
+
+  /**
+   * Get the id of an entity, if it has one
+   */
+  getId(entity: T): string | undefined {
+    const id =
+      typeof this.idField === 'function'
+        ? this.idField(entity)
+        : (entity as Record<string, any>)[this.idField];
+
+    return id === undefined || id === null ? undefined : String(id);
+  }
+
+  /**
+   * Get the key of an entity in the normalized store
+   */
+  getKey(id: string | number): string {
+    return `${this.name}:${id}`;
+  }
+}
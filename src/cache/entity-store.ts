@@ -0,0 +1,299 @@
+// src/cache/entity-store.ts
+
+import type { EntityShape } from '@fk-types/entity';
+import { EntitySchema } from './entity-schema';
+
+/**
+ * Reference to an entity in normalized data
+ */
+interface EntityRef {
+  __ref: string;
+}
+
+/**
+ * Normalized store of entities shared by cache entries. Data written for a
+ * cache key is split into entities and references to them, and reading the
+ * key joins them back together, so every entry sees the latest entity values.
+ */
+export class EntityStore {
+  /**
+   * Entity records by `type:id`, with nested entities replaced by references
+   */
+  private entities = new Map<string, Record<string, any>>();
+
+  /**
+   * Normalized data of each cache key
+   */
+  private results = new Map<string, unknown>();
+
+  /**
+   * Keys of the entities each cache key's data references, directly or through other entities
+   */
+  private references = new Map<string, Set<string>>();
+
+  /**
+   * Normalize the data of a cache key and merge its entities into the store
+   * @returns Keys of the entities that changed
+   */
+  write(cacheKey: string, data: unknown, shape: EntityShape): string[] {
+    const collected = new Map<string, Record<string, any>>();
+    const result = normalizeValue(data, shape, collected);
+    const changed = this.merge(collected);
+
+    this.results.set(cacheKey, result);
+    this.read(cacheKey);
+
+    return changed;
+  }
+
+  /**
+   * Merge the entities in data into the store without keeping the data itself,
+   * e.g. for the result of a mutation
+   * @returns Keys of the entities that changed
+   */
+  writeEntities(data: unknown, shape: EntityShape): string[] {
+    const collected = new Map<string, Record<string, any>>();
+    normalizeValue(data, shape, collected);
+    return this.merge(collected);
+  }
+
+  /**
+   * Replace an entity, either directly or from its current value
+   * @returns Keys of the entities that changed
+   */
+  writeEntity<T>(
+    schema: EntitySchema<T>,
+    id: string | number,
+    updater: T | ((current: T | undefined) => T),
+  ): string[] {
+    const key = schema.getKey(id);
+    const value =
+      typeof updater === 'function'
+        ? (updater as (current: T | undefined) => T)(this.getEntity(schema, id))
+        : updater;
+
+    const collected = new Map<string, Record<string, any>>();
+    const record = normalizeFields(value as Record<string, any>, schema, collected);
+    const changed = this.merge(collected);
+
+    if (!isEqual(this.entities.get(key), record)) {
+      this.entities.set(key, record);
+      if (!changed.includes(key)) changed.push(key);
+    }
+
+    return changed;
+  }
+
+  /**
+   * Read the data of a cache key with the current values of its entities
+   */
+  read<T>(cacheKey: string): T | undefined {
+    if (!this.results.has(cacheKey)) return undefined;
+
+    const visited = new Set<string>();
+    const data = this.denormalize(this.results.get(cacheKey), [], visited);
+    this.references.set(cacheKey, visited);
+
+    return data as T;
+  }
+
+  /**
+   * Read an entity with the entities it references
+   */
+  getEntity<T>(schema: EntitySchema<T>, id: string | number): T | undefined {
+    const key = schema.getKey(id);
+    return this.entities.has(key)
+      ? (this.denormalize({ __ref: key }, [], new Set()) as T)
+      : undefined;
+  }
+
+  /**
+   * Get the cache keys whose data references any of the entities
+   */
+  getDependentKeys(entityKeys: string[]): string[] {
+    return Array.from(this.references.entries())
+      .filter(([, references]) => entityKeys.some(key => references.has(key)))
+      .map(([cacheKey]) => cacheKey);
+  }
+
+  /**
+   * Check whether the store holds normalized data for a cache key
+   */
+  has(cacheKey: string): boolean {
+    return this.results.has(cacheKey);
+  }
+
+  /**
+   * Forget the normalized data of a cache key
+   */
+  remove(cacheKey: string): void {
+    this.results.delete(cacheKey);
+    this.references.delete(cacheKey);
+  }
+
+  /**
+   * Forget cache keys that are no longer cached, and entities no cache key references
+   */
+  retain(isCached: (cacheKey: string) => boolean): void {
+    Array.from(this.results.keys())
+      .filter(cacheKey => !isCached(cacheKey))
+      .forEach(cacheKey => this.remove(cacheKey));
+
+    const referenced = new Set<string>();
+    this.references.forEach(references => references.forEach(key => referenced.add(key)));
+
+    Array.from(this.entities.keys())
+      .filter(key => !referenced.has(key))
+      .forEach(key => this.entities.delete(key));
+  }
+
+  /**
+   * Remove all entities and normalized data
+   */
+  clear(): void {
+    this.entities.clear();
+    this.results.clear();
+    this.references.clear();
+  }
+
+  /**
+   * Merge collected entity records into the store
+   */
+  private merge(collected: Map<string, Record<string, any>>): string[] {
+    const changed: string[] = [];
+
+    collected.forEach((record, key) => {
+      const existing = this.entities.get(key);
+      const merged = { ...existing, ...record };
+
+      if (!isEqual(existing, merged)) {
+        this.entities.set(key, merged);
+        changed.push(key);
+      }
+    });
+
+    return changed;
+  }
+
+  /**
+   * Replace references with entities, recording every entity visited
+   * @param path - Entities being denormalized, to cut reference cycles
+   */
+  private denormalize(value: unknown, path: string[], visited: Set<string>): unknown {
+    if (isRef(value)) {
+      const key = value.__ref;
+      const record = this.entities.get(key);
+      visited.add(key);
+
+      if (!record) return undefined;
+
+      // An entity nested in itself is returned without its entity fields
+      if (path.includes(key)) {
+        return Object.fromEntries(
+          Object.entries(record).filter(([, field]) => !containsRef(field)),
+        );
+      }
+
+      return mapValues(record, field => this.denormalize(field, [...path, key], visited));
+    }
+
+    if (Array.isArray(value)) {
+      return value.map(item => this.denormalize(item, path, visited));
+    }
+
+    if (isPlainObject(value)) {
+      return mapValues(value, field => this.denormalize(field, path, visited));
+    }
+
+    return value;
+  }
+}
+
+/**
+ * Replace the entities in a value with references, collecting their records
+ */
+function normalizeValue(
+  value: unknown,
+  shape: EntityShape,
+  collected: Map<string, Record<string, any>>,
+): unknown {
+  if (shape instanceof EntitySchema) {
+    if (!isPlainObject(value)) return value;
+
+    const id = shape.getId(value);
+    if (id === undefined) return value;
+
+    const key = shape.getKey(id);
+    const record = normalizeFields(value, shape, collected);
+    collected.set(key, { ...collected.get(key), ...record });
+
+    return { __ref: key };
+  }
+
+  if (Array.isArray(shape)) {
+    return Array.isArray(value)
+      ? value.map(item => normalizeValue(item, shape[0], collected))
+      : value;
+  }
+
+  if (!isPlainObject(value)) return value;
+
+  const normalized: Record<string, any> = { ...value };
+  Object.entries(shape).forEach(([field, fieldShape]) => {
+    if (field in value) {
+      normalized[field] = normalizeValue(value[field], fieldShape, collected);
+    }
+  });
+  return normalized;
+}
+
+/**
+ * Normalize the entity fields of an entity
+ */
+function normalizeFields(
+  entity: Record<string, any>,
+  schema: EntitySchema,
+  collected: Map<string, Record<string, any>>,
+): Record<string, any> {
+  return normalizeValue(entity, schema.fields, collected) as Record<string, any>;
+}
+
+/**
+ * Check whether a value is a reference to an entity
+ */
+function isRef(value: unknown): value is EntityRef {
+  return isPlainObject(value) && typeof value.__ref === 'string';
+}
+
+/**
+ * Check whether a value is or contains a reference to an entity
+ */
+function containsRef(value: unknown): boolean {
+  if (isRef(value)) return true;
+  if (Array.isArray(value)) return value.some(containsRef);
+  return isPlainObject(value) && Object.values(value).some(containsRef);
+}
+
+/**
+ * Check whether a value is a plain object
+ */
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Map the values of an object
+ */
+function mapValues(
+  object: Record<string, any>,
+  fn: (value: unknown) => unknown,
+): Record<string, any> {
+  return Object.fromEntries(Object.entries(object).map(([key, value]) => [key, fn(value)]));
+}
+
+/**
+ * Compare two JSON-like values
+ */
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
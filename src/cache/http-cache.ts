@@ -0,0 +1,227 @@
+// src/cache/http-cache.ts
+
+import { CacheEntry } from './cache-entry';
+
+/**
+ * Status and headers of a response, as seen by the cache
+ */
+export interface HttpCacheResponse {
+  /** HTTP status code */
+  status: number;
+  /** Response headers */
+  headers: Record<string, string>;
+  /** Timestamp when the response was received (default: now) */
+  receivedAt?: number;
+}
+
+/**
+ * Parsed Cache-Control directives, with durations in seconds
+ */
+export interface CacheControl {
+  maxAge?: number;
+  sMaxAge?: number;
+  staleWhileRevalidate?: number;
+  staleIfError?: number;
+  noStore: boolean;
+  noCache: boolean;
+  mustRevalidate: boolean;
+}
+
+/**
+ * How a response may be cached, as timestamps for its cache entry
+ */
+export interface HttpCachePolicy {
+  /** Whether the response may be stored at all */
+  store: boolean;
+  /** When the response becomes stale, if the headers say */
+  staleAt?: number;
+  /** When stale data may no longer be served while revalidating in the background */
+  mustRevalidateAt?: number;
+  /** Until when stale data may be served if revalidation fails */
+  staleIfErrorUntil?: number;
+  /** ETag to send as If-None-Match */
+  etag?: string;
+  /** Last-Modified date to send as If-Modified-Since */
+  lastModified?: string;
+}
+
+/**
+ * Parse a Cache-Control header
+ */
+export function parseCacheControl(header = ''): CacheControl {
+  const directives = new Map<string, string | undefined>();
+
+  header.split(',').forEach(part => {
+    const [name, value] = part.split('=');
+    if (name.trim()) {
+      directives.set(name.trim().toLowerCase(), value?.trim().replace(/^"|"$/g, ''));
+    }
+  });
+
+  const seconds = (name: string): number | undefined => {
+    const value = Number(directives.get(name));
+    return directives.has(name) && Number.isFinite(value) && value >= 0 ? value : undefined;
+  };
+
+  return {
+    maxAge: seconds('max-age'),
+    sMaxAge: seconds('s-maxage'),
+    staleWhileRevalidate: seconds('stale-while-revalidate'),
+    staleIfError: seconds('stale-if-error'),
+    noStore: directives.has('no-store'),
+    noCache: directives.has('no-cache'),
+    mustRevalidate: directives.has('must-revalidate') || directives.has('proxy-revalidate'),
+  };
+}
+
+/**
+ * Work out how a response may be cached from its Cache-Control, Expires, Age,
+ * Date, ETag and Last-Modified headers
+ * @param response - Status and headers of the response
+ * @param shared - Whether to act as a shared cache, preferring s-maxage over max-age
+ */
+export function getHttpCachePolicy(response: HttpCacheResponse, shared = false): HttpCachePolicy {
+  const receivedAt = response.receivedAt ?? Date.now();
+  const cacheControl = parseCacheControl(getHeader(response.headers, 'cache-control'));
+  const policy: HttpCachePolicy = {
+    store: !cacheControl.noStore,
+    etag: getHeader(response.headers, 'etag'),
+    lastModified: getHeader(response.headers, 'last-modified'),
+  };
+
+  // A response that varies on everything can never be matched to a later request
+  if (!policy.store || getVaryHeaders(response).includes('*')) {
+    return { ...policy, store: false };
+  }
+
+  if (cacheControl.noCache) {
+    return { ...policy, staleAt: receivedAt, mustRevalidateAt: receivedAt };
+  }
+
+  const freshness = getFreshnessLifetime(response, cacheControl, shared);
+  if (freshness === undefined) return policy;
+
+  const staleAt = receivedAt + freshness * 1000;
+  if (cacheControl.mustRevalidate) {
+    return { ...policy, staleAt, mustRevalidateAt: staleAt };
+  }
+
+  return {
+    ...policy,
+    staleAt,
+    mustRevalidateAt: staleAt + (cacheControl.staleWhileRevalidate ?? 0) * 1000,
+    staleIfErrorUntil:
+      cacheControl.staleIfError !== undefined
+        ? staleAt + cacheControl.staleIfError * 1000
+        : undefined,
+  };
+}
+
+/**
+ * Apply a response's cache policy to its cache entry.
+ * Timestamps from options are kept when the headers say nothing about freshness.
+ */
+export function applyHttpCachePolicy<T>(
+  entry: CacheEntry<T>,
+  policy: HttpCachePolicy,
+): CacheEntry<T> {
+  const updated: CacheEntry<T> = {
+    ...entry,
+    etag: policy.etag,
+    lastModified: policy.lastModified,
+    mustRevalidateAt: undefined,
+    staleIfErrorUntil: undefined,
+  };
+
+  if (policy.staleAt === undefined) return updated;
+
+  return {
+    ...updated,
+    staleAt: policy.staleAt,
+    mustRevalidateAt: policy.mustRevalidateAt,
+    staleIfErrorUntil: policy.staleIfErrorUntil,
+    // Keep the entry around for as long as the headers allow serving it
+    expiresAt: Math.max(
+      entry.expiresAt,
+      policy.mustRevalidateAt ?? 0,
+      policy.staleIfErrorUntil ?? 0,
+    ),
+  };
+}
+
+/**
+ * Lowercased names of the request headers listed in a response's Vary header
+ */
+export function getVaryHeaders(response: HttpCacheResponse): string[] {
+  return (getHeader(response.headers, 'vary') || '')
+    .split(',')
+    .map(name => name.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Conditional request headers revalidating a cache entry
+ */
+export function getConditionalHeaders(entry?: CacheEntry<unknown>): Record<string, string> {
+  const headers: Record<string, string> = {};
+
+  if (entry?.etag) {
+    headers['If-None-Match'] = entry.etag;
+  }
+  if (entry?.lastModified) {
+    headers['If-Modified-Since'] = entry.lastModified;
+  }
+
+  return headers;
+}
+
+/**
+ * Check whether a stale entry may be served while it is revalidated in the background
+ */
+export function canServeStale(entry: CacheEntry<unknown>, now = Date.now()): boolean {
+  return entry.mustRevalidateAt === undefined || now < entry.mustRevalidateAt;
+}
+
+/**
+ * Check whether a stale entry may be served after revalidating it failed
+ */
+export function canServeStaleOnError(entry: CacheEntry<unknown>, now = Date.now()): boolean {
+  if (entry.mustRevalidateAt === undefined) return true;
+
+  return entry.staleIfErrorUntil !== undefined && now <= entry.staleIfErrorUntil;
+}
+
+/**
+ * Seconds the response stays fresh after it was received, if the headers say
+ */
+function getFreshnessLifetime(
+  response: HttpCacheResponse,
+  cacheControl: CacheControl,
+  shared: boolean,
+): number | undefined {
+  const age = Number(getHeader(response.headers, 'age')) || 0;
+  const maxAge = (shared ? cacheControl.sMaxAge : undefined) ?? cacheControl.maxAge;
+
+  if (maxAge !== undefined) {
+    return Math.max(0, maxAge - age);
+  }
+
+  const expires = getHeader(response.headers, 'expires');
+  if (expires !== undefined) {
+    // Invalid dates such as "0" mean already expired
+    const expiresAt = Date.parse(expires);
+    const date = Date.parse(getHeader(response.headers, 'date') || '');
+    const now = Number.isNaN(date) ? (response.receivedAt ?? Date.now()) : date;
+    return Number.isNaN(expiresAt) ? 0 : Math.max(0, (expiresAt - now) / 1000 - age);
+  }
+
+  return undefined;
+}
+
+/**
+ * Read a header case-insensitively
+ */
+function getHeader(headers: Record<string, string>, name: string): string | undefined {
+  const key = Object.keys(headers).find(header => header.toLowerCase() === name);
+  return key === undefined ? undefined : headers[key];
+}
@@ -4,3 +4,6 @@ export * from './cache-key';
 export * from './cache-entry';
 export * from './memory-cache';
 export * from './cache-manager';
+export * from './http-cache';
+export * from './entity-schema';
+export * from './entity-store';
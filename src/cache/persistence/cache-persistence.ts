@@ -265,6 +265,20 @@ export interface PersistenceOptions {
   syncOnStart?: boolean;
 }
 
+/**
+ * Check whether a persistence option is an existing persistence instance
+ * rather than options for creating one
+ */
+export function isCachePersistence(
+  value: CachePersistence | PersistenceOptions,
+): value is CachePersistence {
+  return (
+    typeof (value as CachePersistence).get === 'function' &&
+    typeof (value as CachePersistence).set === 'function' &&
+    typeof (value as CachePersistence).keys === 'function'
+  );
+}
+
 /**
  * Creates appropriate persistence implementation based on environment and options
  */
@@ -0,0 +1,325 @@
+// src/core/circuit-breaker.ts
+
+import type {
+  CircuitBreakerOptions,
+  CircuitRoutePattern,
+  CircuitState,
+  CircuitStatus,
+} from '@fk-types/circuit';
+import { ErrorCategory, FetchKitError } from '@fk-types/error';
+import { createError } from '@utils/error';
+
+/**
+ * Listener called when a circuit changes state
+ */
+export type CircuitStateListener = (status: CircuitStatus) => void;
+
+/**
+ * Internal state of a single circuit
+ */
+interface Circuit {
+  key: string;
+  state: CircuitState;
+  failures: Partial<Record<ErrorCategory, number>>;
+  openedAt?: number;
+  nextAttemptAt?: number;
+  /** Trial requests in flight while half-open */
+  trials: number;
+  /** Successful trial requests while half-open */
+  successes: number;
+}
+
+/**
+ * Key used for relative URLs when there is no page origin
+ */
+const SAME_ORIGIN_KEY = 'same-origin';
+
+/**
+ * Circuit breaker keyed by origin or route pattern.
+ * After enough consecutive failures a circuit opens and requests fail fast
+ * until the reset timeout passes and trial requests succeed.
+ */
+export class CircuitBreaker {
+  /**
+   * Circuits by key
+   */
+  private circuits: Map<string, Circuit> = new Map();
+
+  /**
+   * Listeners for state changes
+   */
+  private listeners: Set<CircuitStateListener> = new Set();
+
+  /**
+   * Options with defaults applied
+   */
+  private options: Required<CircuitBreakerOptions>;
+
+  /**
+   * Creates a new circuit breaker
+   */
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.options = {
+      routes: [],
+      failureThreshold: 5,
+      failureCategories: [ErrorCategory.Server, ErrorCategory.Timeout, ErrorCategory.Network],
+      resetTimeout: 30000,
+      halfOpenRequests: 1,
+      successThreshold: 1,
+      ...options,
+    };
+  }
+
+  /**
+   * Get the key of the circuit a URL belongs to
+   */
+  getKey(url: string): string {
+    const route = this.options.routes.find(pattern => matchRoute(pattern, url));
+    if (route) {
+      return String(route);
+    }
+
+    return getOrigin(url);
+  }
+
+  /**
+   * Admit a request to a URL, returning its circuit key.
+   * Throws a CircuitOpen error when the request should fail fast.
+   */
+  acquire(url: string): string {
+    const key = this.getKey(url);
+    const circuit = this.getCircuit(key);
+
+    if (circuit.state === 'open') {
+      if (Date.now() < (circuit.nextAttemptAt ?? 0)) {
+        throw this.createOpenError(circuit, url);
+      }
+
+      this.transition(circuit, 'half-open');
+    }
+
+    if (circuit.state === 'half-open') {
+      if (circuit.trials >= this.options.halfOpenRequests) {
+        throw this.createOpenError(circuit, url);
+      }
+
+      circuit.trials++;
+    }
+
+    return key;
+  }
+
+  /**
+   * Record a successful request
+   */
+  recordSuccess(key: string): void {
+    const circuit = this.getCircuit(key);
+
+    if (circuit.state !== 'half-open') {
+      circuit.failures = {};
+      return;
+    }
+
+    circuit.trials = Math.max(0, circuit.trials - 1);
+    circuit.successes++;
+
+    if (circuit.successes >= this.options.successThreshold) {
+      this.transition(circuit, 'closed');
+    }
+  }
+
+  /**
+   * Record a failed request.
+   * Errors in categories that are not counted mean the backend answered, so they count as success.
+   */
+  recordFailure(key: string, error: FetchKitError): void {
+    const circuit = this.getCircuit(key);
+
+    // Cancelled requests say nothing about the backend
+    if (error.category === ErrorCategory.Cancel) {
+      if (circuit.state === 'half-open') {
+        circuit.trials = Math.max(0, circuit.trials - 1);
+      }
+      return;
+    }
+
+    if (!this.isCounted(error.category)) {
+      this.recordSuccess(key);
+      return;
+    }
+
+    circuit.failures[error.category] = (circuit.failures[error.category] || 0) + 1;
+
+    // A failed trial opens the circuit again straight away
+    if (circuit.state === 'half-open' || this.isOverThreshold(circuit)) {
+      this.transition(circuit, 'open');
+    }
+  }
+
+  /**
+   * Get the status of the circuit a URL belongs to
+   */
+  getStatus(url: string): CircuitStatus | undefined {
+    const circuit = this.circuits.get(this.getKey(url));
+    return circuit ? toStatus(circuit) : undefined;
+  }
+
+  /**
+   * Get the status of all known circuits
+   */
+  getCircuits(): CircuitStatus[] {
+    return Array.from(this.circuits.values()).map(toStatus);
+  }
+
+  /**
+   * Close a circuit by key, or all circuits
+   */
+  reset(key?: string): void {
+    const circuits = key ? [this.circuits.get(key)] : Array.from(this.circuits.values());
+
+    circuits.forEach(circuit => {
+      if (!circuit) return;
+
+      if (circuit.state === 'closed') {
+        circuit.failures = {};
+      } else {
+        this.transition(circuit, 'closed');
+      }
+    });
+  }
+
+  /**
+   * Subscribe to circuit state changes
+   */
+  onStateChange(listener: CircuitStateListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Get or create the circuit for a key
+   */
+  private getCircuit(key: string): Circuit {
+    let circuit = this.circuits.get(key);
+
+    if (!circuit) {
+      circuit = { key, state: 'closed', failures: {}, trials: 0, successes: 0 };
+      this.circuits.set(key, circuit);
+    }
+
+    return circuit;
+  }
+
+  /**
+   * Move a circuit to a new state and notify listeners
+   */
+  private transition(circuit: Circuit, state: CircuitState): void {
+    circuit.state = state;
+    circuit.trials = 0;
+    circuit.successes = 0;
+
+    if (state === 'open') {
+      circuit.openedAt = Date.now();
+      circuit.nextAttemptAt = circuit.openedAt + this.options.resetTimeout;
+    } else if (state === 'closed') {
+      circuit.failures = {};
+      circuit.openedAt = undefined;
+      circuit.nextAttemptAt = undefined;
+    }
+
+    const status = toStatus(circuit);
+    this.listeners.forEach(listener => {
+      try {
+        listener(status);
+      } catch (error) {
+        console.error('Error in circuit state listener:', error);
+      }
+    });
+  }
+
+  /**
+   * Check whether errors of a category count towards opening the circuit
+   */
+  private isCounted(category: ErrorCategory): boolean {
+    const { failureThreshold, failureCategories } = this.options;
+
+    if (typeof failureThreshold === 'number') {
+      return failureCategories.includes(category);
+    }
+
+    return failureThreshold[category] !== undefined;
+  }
+
+  /**
+   * Check whether a circuit has reached its failure threshold
+   */
+  private isOverThreshold(circuit: Circuit): boolean {
+    const { failureThreshold } = this.options;
+
+    if (typeof failureThreshold === 'number') {
+      const total = Object.values(circuit.failures).reduce((sum, count) => sum + (count || 0), 0);
+      return total >= failureThreshold;
+    }
+
+    return (Object.keys(failureThreshold) as ErrorCategory[]).some(
+      category => (circuit.failures[category] || 0) >= (failureThreshold[category] ?? Infinity),
+    );
+  }
+
+  /**
+   * Create the error thrown while a circuit is open
+   */
+  private createOpenError(circuit: Circuit, url: string): FetchKitError {
+    return createError(`Circuit open for ${circuit.key}, failing fast`, {
+      category: ErrorCategory.CircuitOpen,
+      url,
+    });
+  }
+}
+
+/**
+ * Snapshot a circuit's public state
+ */
+function toStatus(circuit: Circuit): CircuitStatus {
+  return {
+    key: circuit.key,
+    state: circuit.state,
+    failures: { ...circuit.failures },
+    openedAt: circuit.openedAt,
+    nextAttemptAt: circuit.nextAttemptAt,
+  };
+}
+
+/**
+ * Get the origin of a URL, using the page origin for relative URLs
+ */
+function getOrigin(url: string): string {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return typeof location !== 'undefined' && location.origin ? location.origin : SAME_ORIGIN_KEY;
+  }
+}
+
+/**
+ * Match a circuit route pattern against a request URL
+ */
+function matchRoute(pattern: CircuitRoutePattern, url: string): boolean {
+  if (pattern instanceof RegExp) {
+    pattern.lastIndex = 0;
+    return pattern.test(url);
+  }
+
+  // Compare against the path, or the full URL when the pattern has a protocol
+  const parsed = new URL(url, 'http://localhost');
+  const target = pattern.includes('://') ? `${parsed.origin}${parsed.pathname}` : parsed.pathname;
+
+  const source = pattern
+    .split('*')
+    .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+
+  return new RegExp(`^${source}$`).test(target);
+}
@@ -0,0 +1,382 @@
+// src/core/event-source.ts
+
+import type { EventSourceOptions, EventSourceState, ServerSentEvent } from '@fk-types/event-source';
+import { ErrorCategory, FetchKitError } from '@fk-types/error';
+import { createError } from '@utils/error';
+import { EventStreamParser, readEventStream } from '@utils/event-stream';
+import { EventEmitter, Listener, Unsubscribe } from './event-emitter';
+import type { FetchKit } from './fetch-kit';
+
+/**
+ * Subscription event map for EventSourceClient
+ */
+interface EventSourceEvents<T> {
+  /**
+   * Fired for every event received
+   */
+  event: ServerSentEvent<T>;
+
+  /**
+   * Fired when the connection state changes
+   */
+  stateChange: EventSourceState;
+
+  /**
+   * Fired when a connection fails or event data cannot be parsed
+   */
+  error: Error;
+}
+
+/**
+ * Body of an event stream response: a stream from adapters that support streaming,
+ * or the whole text from those that do not
+ */
+type EventStreamBody = ReadableStream<Uint8Array | string> | string;
+
+/**
+ * Default delay before reconnecting, until the server sends a `retry` field
+ */
+const DEFAULT_RETRY_DELAY = 3000;
+
+/**
+ * A Server-Sent Events connection made through FetchKit's adapters. It reconnects
+ * when the stream ends or fails, resuming with `Last-Event-ID`, until it is closed.
+ */
+export class EventSourceClient<T = string> {
+  /**
+   * The FetchKit instance to connect with
+   */
+  private fetchKit: FetchKit;
+
+  /**
+   * URL of the event stream
+   */
+  private url: string;
+
+  /**
+   * Options for this event source
+   */
+  private options: EventSourceOptions<T>;
+
+  /**
+   * Current state of the connection
+   */
+  private state: EventSourceState;
+
+  /**
+   * Event emitter for subscriptions
+   */
+  private emitter = new EventEmitter<EventSourceEvents<T>>();
+
+  /**
+   * Listeners for events by type
+   */
+  private typeEmitter = new EventEmitter<Record<string, ServerSentEvent<T>>>();
+
+  /**
+   * Aborts the current connection or reconnection delay when the source is closed
+   */
+  private controller = new AbortController();
+
+  /**
+   * Removes the listener on the caller's signal
+   */
+  private signalCleanup: (() => void) | null = null;
+
+  /**
+   * Create a new event source and connect it
+   */
+  constructor(fetchKit: FetchKit, url: string, options: EventSourceOptions<T> = {}) {
+    this.fetchKit = fetchKit;
+    this.url = url;
+    this.options = options;
+    this.state = {
+      status: 'connecting',
+      lastEventId: options.lastEventId,
+      retryDelay: options.retryDelay ?? DEFAULT_RETRY_DELAY,
+      retryCount: 0,
+      error: null,
+    };
+
+    const { signal } = options;
+    if (signal?.aborted) {
+      this.close();
+      return;
+    }
+
+    if (signal) {
+      const onAbort = () => this.close();
+      signal.addEventListener('abort', onAbort, { once: true });
+      this.signalCleanup = () => signal.removeEventListener('abort', onAbort);
+    }
+
+    this.run();
+  }
+
+  /**
+   * Get the current state
+   */
+  getState(): EventSourceState {
+    return { ...this.state };
+  }
+
+  /**
+   * Subscribe to every event
+   */
+  subscribe(listener: Listener<ServerSentEvent<T>>): Unsubscribe {
+    return this.emitter.on('event', listener);
+  }
+
+  /**
+   * Subscribe to events of one type; unnamed events have the type 'message'
+   */
+  on(type: string, listener: Listener<ServerSentEvent<T>>): Unsubscribe {
+    return this.typeEmitter.on(type, listener);
+  }
+
+  /**
+   * Subscribe to connection state changes
+   */
+  onStateChange(listener: Listener<EventSourceState>): Unsubscribe {
+    return this.emitter.on('stateChange', listener);
+  }
+
+  /**
+   * Subscribe to connection and parsing errors
+   */
+  onError(listener: Listener<Error>): Unsubscribe {
+    return this.emitter.on('error', listener);
+  }
+
+  /**
+   * Close the connection and stop reconnecting
+   */
+  close(): void {
+    this.finish(null);
+  }
+
+  /**
+   * Iterate over incoming events until the source closes. Ending the iteration closes it.
+   * @throws The error that closed the source, if a connection failed for good
+   */
+  async *[Symbol.asyncIterator](): AsyncGenerator<ServerSentEvent<T>> {
+    const queue: ServerSentEvent<T>[] = [];
+    let wake: (() => void) | null = null;
+
+    const unsubscribeEvents = this.subscribe(event => {
+      queue.push(event);
+      wake?.();
+    });
+    const unsubscribeState = this.onStateChange(() => wake?.());
+
+    try {
+      while (true) {
+        if (queue.length > 0) {
+          yield queue.shift() as ServerSentEvent<T>;
+          continue;
+        }
+
+        if (this.state.status === 'closed') {
+          if (this.state.error) throw this.state.error;
+          return;
+        }
+
+        await new Promise<void>(resolve => (wake = resolve));
+        wake = null;
+      }
+    } finally {
+      unsubscribeEvents();
+      unsubscribeState();
+      this.close();
+    }
+  }
+
+  /**
+   * Connect and read events, reconnecting until the source is closed
+   */
+  private async run(): Promise<void> {
+    const { signal } = this.controller;
+    const { reconnect = true, maxRetries = Infinity } = this.options;
+
+    while (!signal.aborted) {
+      this.setState({ status: 'connecting' });
+
+      try {
+        const body = await this.connect();
+        if (signal.aborted) return;
+
+        // A response without a body asks the client to stop, like 204 No Content
+        if (body === undefined || body === null || body === '') {
+          this.close();
+          return;
+        }
+
+        this.setState({ status: 'open', retryCount: 0, error: null });
+        await this.read(body);
+      } catch (error) {
+        if (signal.aborted) return;
+
+        const fetchError = error as FetchKitError;
+        this.emitter.emit('error', fetchError);
+
+        if (!isRetryable(fetchError) || this.state.retryCount >= maxRetries) {
+          this.finish(fetchError);
+          return;
+        }
+
+        this.setState({ retryCount: this.state.retryCount + 1, error: fetchError });
+      }
+
+      if (signal.aborted) return;
+      if (!reconnect) {
+        this.close();
+        return;
+      }
+
+      await wait(this.state.retryDelay, signal);
+    }
+  }
+
+  /**
+   * Send the request for the event stream
+   * @returns The response body, as a stream when the adapter supports it
+   */
+  private connect(): Promise<EventStreamBody | null | undefined> {
+    const {
+      parse: _parse,
+      reconnect: _reconnect,
+      retryDelay: _retryDelay,
+      maxRetries: _maxRetries,
+      lastEventId: _lastEventId,
+      cacheUpdate: _cacheUpdate,
+      signal: _signal,
+      headers,
+      ...requestOptions
+    } = this.options;
+    const { lastEventId } = this.state;
+
+    return this.fetchKit.fetch<EventStreamBody | null | undefined>(this.url, {
+      ...requestOptions,
+      headers: {
+        Accept: 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        ...headers,
+        ...(lastEventId ? { 'Last-Event-ID': lastEventId } : {}),
+      },
+      signal: this.controller.signal,
+      responseType: 'stream',
+      cacheOptions: false,
+      deduplicate: false,
+      offline: false,
+      retry: false,
+    });
+  }
+
+  /**
+   * Read events from a response body until it ends
+   */
+  private async read(body: EventStreamBody): Promise<void> {
+    const parser = new EventStreamParser(this.state.lastEventId);
+
+    for await (const event of readEventStream(body, parser, this.controller.signal)) {
+      if (event.retry !== undefined) {
+        this.setState({ retryDelay: event.retry });
+      }
+      this.state.lastEventId = parser.lastEventId;
+      this.dispatch(event);
+    }
+
+    // A retry field may arrive without data, which dispatches no event
+    this.state.lastEventId = parser.lastEventId;
+    if (parser.retry !== undefined) {
+      this.state.retryDelay = parser.retry;
+    }
+  }
+
+  /**
+   * Parse an event's data and deliver it to listeners and the cache
+   */
+  private dispatch(raw: ServerSentEvent): void {
+    let event: ServerSentEvent<T>;
+
+    try {
+      event = { ...raw, data: this.parseData(raw) };
+    } catch (error) {
+      this.emitter.emit(
+        'error',
+        createError(`Invalid event data: ${(error as Error).message}`, {
+          category: ErrorCategory.Parse,
+          url: this.url,
+          data: raw.data,
+          cause: error as Error,
+        }),
+      );
+      return;
+    }
+
+    const { cacheUpdate } = this.options;
+    if (cacheUpdate && (!cacheUpdate.events || cacheUpdate.events.includes(event.event))) {
+      const { url, options, reduce } = cacheUpdate;
+      const current = this.fetchKit.getCacheEntry(url, options)?.data;
+      this.fetchKit.setCacheData(url, reduce(current, event), options);
+    }
+
+    this.emitter.emit('event', event);
+    this.typeEmitter.emit(event.event, event);
+  }
+
+  /**
+   * Parse event data according to the `parse` option
+   */
+  private parseData(event: ServerSentEvent): T {
+    const { parse = 'text' } = this.options;
+
+    if (parse === 'json') return JSON.parse(event.data);
+    if (typeof parse === 'function') return parse(event.data, event);
+    return event.data as unknown as T;
+  }
+
+  /**
+   * Close the source, recording the error that closed it
+   */
+  private finish(error: Error | null): void {
+    if (this.state.status === 'closed') return;
+
+    this.controller.abort();
+    this.signalCleanup?.();
+    this.signalCleanup = null;
+    this.setState({ status: 'closed', error });
+  }
+
+  /**
+   * Update the state and notify subscribers
+   */
+  private setState(newState: Partial<EventSourceState>): void {
+    this.state = { ...this.state, ...newState };
+    this.emitter.emit('stateChange', this.getState());
+  }
+}
+
+/**
+ * Check whether a failed connection should be retried. Client errors other than
+ * timeouts and rate limits mean the stream is not available.
+ */
+function isRetryable(error: FetchKitError): boolean {
+  const { status } = error;
+  return !status || status >= 500 || status === 408 || status === 429;
+}
+
+/**
+ * Wait for a delay, ending early when the signal is aborted
+ */
+function wait(delay: number, signal: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const done = () => {
+      clearTimeout(timeoutId);
+      signal.removeEventListener('abort', done);
+      resolve();
+    };
+    const timeoutId = setTimeout(done, delay);
+    signal.addEventListener('abort', done, { once: true });
+  });
+}
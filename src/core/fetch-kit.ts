@@ -1,13 +1,35 @@
 // src/core/fetch-kit.ts
 
-import { fetch } from '@core/fetch';
-import { adapterRegistry } from '@adapters/adapter-registry';
-import { CacheManager } from '@cache/cache-manager';
-import { generateCacheKey } from '@cache/cache-key';
+import { fetch, FetchOptions } from '@core/fetch';
+import { AdapterResolver } from '@adapters/adapter-resolver';
+import { CacheFetcher, CacheManager } from '@cache/cache-manager';
+import { EntityStore } from '@cache/entity-store';
+import { EntitySchema } from '@cache/entity-schema';
+import { generateCacheKey, getHeadersKey } from '@cache/cache-key';
+import { HttpCacheResponse, getConditionalHeaders, getVaryHeaders } from '@cache/http-cache';
 import { RequestDeduper } from '@core/request-deduper';
-import type { Adapter } from '@fk-types/adapter';
+import { CircuitBreaker } from '@core/circuit-breaker';
+import { RequestScheduler } from '@core/request-scheduler';
+import { OfflineQueue } from '@core/offline-queue';
+import { createInterceptors } from '@core/interceptors';
+import { Mutation } from '@core/mutation';
+import { GraphQLClient } from '@core/graphql';
+import { EventSourceClient } from '@core/event-source';
+import { WebSocketManager } from '@core/websocket-manager';
+import { ResumableUpload, UploadSender } from '@core/resumable-upload';
+import { ResumableDownload, DownloadSender } from '@core/resumable-download';
+import type { Adapter, AdapterResponse, AdapterRoute } from '@fk-types/adapter';
 import type { CacheOptions } from '@fk-types/cache';
-import type { RequestOptions } from '@fk-types/core';
+import type { CircuitBreakerMethods, CircuitStatus } from '@fk-types/circuit';
+import type { SchedulerMethods, SchedulerStats } from '@fk-types/scheduler';
+import type { OfflineMethods, QueuedMutation } from '@fk-types/offline';
+import type { GraphQLClientOptions, GraphQLMethods } from '@fk-types/graphql';
+import type { EntityMethods } from '@fk-types/entity';
+import type { EventSourceMethods, EventSourceOptions } from '@fk-types/event-source';
+import type { WebSocketMethods, WebSocketOptions } from '@fk-types/websocket';
+import type { UploadMethods, UploadOptions } from '@fk-types/upload';
+import type { DownloadMethods, DownloadOptions } from '@fk-types/download';
+import type { SchemaOutput } from '@fk-types/schema';
 import type {
   ExtendedFetchKitConfig,
   ExtendedRequestOptions,
@@ -15,30 +37,75 @@ import type {
   DeduplicationMethods,
   AdvancedCacheMethods,
 } from '@fk-types/core-extension';
-import type { FetchKitError, RetryConfig } from '@fk-types/error';
+import { ErrorCategory, FetchKitError, RetryConfig } from '@fk-types/error';
+import type { Interceptors } from '@fk-types/interceptor';
+import type {
+  MutationInvalidation,
+  MutationMethods,
+  MutationOptions,
+  OptimisticCache,
+} from '@fk-types/mutation';
+import type { CacheEntry } from '@fk-types/cache';
+import type { RequestProgress } from '@fk-types/core';
 import { FetchKitEvents, SubscriptionMethods } from '@/types/events';
+import { createError } from '@utils/error';
+import { validateSchema } from '@utils/schema';
+import { createProgressReporter } from '@utils/progress';
+import {
+  asAsyncIterable,
+  collectStream,
+  createChunkStream,
+  isReadableStream,
+  isStreamResponseType,
+} from '@utils/stream';
 import { EventEmitter, Listener, Unsubscribe } from './event-emitter';
 
 /**
  * Core FetchKit interface from original implementation
  */
 export interface BaseFetchKit {
-  fetch: <T>(url: string, options?: ExtendedRequestOptions) => Promise<T>;
-  get: <T>(url: string, options?: ExtendedRequestOptions) => Promise<T>;
-  post: <T>(url: string, data?: any, options?: ExtendedRequestOptions) => Promise<T>;
-  put: <T>(url: string, data?: any, options?: ExtendedRequestOptions) => Promise<T>;
-  delete: <T>(url: string, options?: ExtendedRequestOptions) => Promise<T>;
-  patch: <T>(url: string, data?: any, options?: ExtendedRequestOptions) => Promise<T>;
+  // The response type is inferred from options.schema when one is given
+  fetch: <T, O extends ExtendedRequestOptions = ExtendedRequestOptions>(
+    url: string,
+    options?: O,
+  ) => Promise<SchemaOutput<O, T>>;
+  get: <T, O extends ExtendedRequestOptions = ExtendedRequestOptions>(
+    url: string,
+    options?: O,
+  ) => Promise<SchemaOutput<O, T>>;
+  post: <T, O extends ExtendedRequestOptions = ExtendedRequestOptions>(
+    url: string,
+    data?: any,
+    options?: O,
+  ) => Promise<SchemaOutput<O, T>>;
+  put: <T, O extends ExtendedRequestOptions = ExtendedRequestOptions>(
+    url: string,
+    data?: any,
+    options?: O,
+  ) => Promise<SchemaOutput<O, T>>;
+  delete: <T, O extends ExtendedRequestOptions = ExtendedRequestOptions>(
+    url: string,
+    options?: O,
+  ) => Promise<SchemaOutput<O, T>>;
+  patch: <T, O extends ExtendedRequestOptions = ExtendedRequestOptions>(
+    url: string,
+    data?: any,
+    options?: O,
+  ) => Promise<SchemaOutput<O, T>>;
   createAbortController: () => {
     controller: AbortController;
     abort: (reason?: any) => void;
     signal: AbortSignal;
   };
 
-  // Adapter management
-  setAdapter: (adapter: Adapter) => void;
+  // Adapter management, scoped to this instance
+  setAdapter: (adapter: string | Adapter) => void;
   getAdapter: (name?: string) => Adapter;
   getAdapterNames: () => string[];
+  addAdapterRoute: (route: AdapterRoute) => void;
+
+  // Request/response interceptors
+  interceptors: Interceptors;
 }
 
 /**
@@ -48,8 +115,30 @@ export type FetchKit = BaseFetchKit &
   CacheMethods &
   AdvancedCacheMethods &
   DeduplicationMethods &
+  MutationMethods &
+  CircuitBreakerMethods &
+  SchedulerMethods &
+  OfflineMethods &
+  GraphQLMethods &
+  EntityMethods &
+  EventSourceMethods &
+  WebSocketMethods &
+  UploadMethods &
+  DownloadMethods &
   SubscriptionMethods;
 
+/**
+ * Optimistic updates of the mutations in flight on one cache entry
+ */
+interface OptimisticLayers {
+  /** The entry before the updates, with the updates of settled mutations folded in */
+  base: CacheEntry<any> | undefined;
+  /** Each pending mutation's update, oldest first */
+  layers: { mutation: symbol; apply: (current: any) => any }[];
+  /** Data the updates last wrote, to tell whether another write has replaced it */
+  written: unknown;
+}
+
 /**
  * Creates a new FetchKit instance with the specified configuration
  */
@@ -60,12 +149,26 @@ export function createFetchKit(config: ExtendedFetchKitConfig = {}): FetchKit {
     timeout,
     retry,
     adapter,
+    adapterRoutes = [],
     cacheOptions: globalCacheOptions,
+    cacheKeyOptions = {},
     deduplicate = true,
+    persistence,
+    circuitBreaker: circuitBreakerOptions,
+    scheduler: schedulerOptions,
+    offline: offlineOptions,
+    normalize = false,
   } = config;
 
-  // Initialize cache manager with global options
-  const cacheManager = new CacheManager(globalCacheOptions);
+  // Initialize cache manager with global options, optional persistence and the normalized store
+  const cacheManager = new CacheManager(
+    globalCacheOptions,
+    persistence,
+    normalize ? new EntityStore() : undefined,
+  );
+
+  // Request headers named by responses' Vary headers, by the cache key they were requested with
+  const varyHeaders = new Map<string, string[]>();
 
   // Initialize request deduper
   const requestDeduper = new RequestDeduper();
@@ -73,6 +176,83 @@ export function createFetchKit(config: ExtendedFetchKitConfig = {}): FetchKit {
   // Initialize event emitter
   const emitter = new EventEmitter<FetchKitEvents>();
 
+  // Initialize interceptor chains
+  const interceptors = createInterceptors();
+
+  // Forward aborted shared requests as request:cancel events
+  requestDeduper.onCancel((key, reason) => {
+    emitter.emit('request:cancel', { key, reason });
+  });
+
+  // Forward cache writes so subscribers such as Query instances stay in sync
+  cacheManager.onUpdate((key, data) => {
+    emitter.emit('cache:update', { key, data });
+  });
+
+  // Initialize the circuit breaker if enabled
+  const circuitBreaker = circuitBreakerOptions
+    ? new CircuitBreaker(circuitBreakerOptions === true ? {} : circuitBreakerOptions)
+    : undefined;
+
+  // Forward circuit state changes as circuit:* events
+  circuitBreaker?.onStateChange(status => {
+    emitter.emit(status.state === 'closed' ? 'circuit:close' : `circuit:${status.state}`, status);
+  });
+
+  // Initialize the request scheduler; without limits requests start immediately
+  const scheduler = new RequestScheduler(schedulerOptions);
+
+  // Forward queue depth changes as scheduler:queue events
+  scheduler.onChange(stats => {
+    emitter.emit('scheduler:queue', stats);
+  });
+
+  // Initialize the offline mutation queue if enabled; replays are sent without queueing again
+  const offlineQueue = offlineOptions
+    ? new OfflineQueue(
+        ({ url, method, body, headers }) =>
+          fetchMethod(url, {
+            method: method as ExtendedRequestOptions['method'],
+            body,
+            headers,
+            offline: false,
+          }),
+        offlineOptions === true ? {} : offlineOptions,
+      )
+    : undefined;
+
+  // Forward offline queue activity as offline:* events
+  offlineQueue?.on('queued', payload => emitter.emit('offline:queued', payload));
+  offlineQueue?.on('replayed', payload => emitter.emit('offline:replayed', payload));
+  offlineQueue?.on('failed', payload => emitter.emit('offline:failed', payload));
+
+  // Uploads and downloads send each request once, as they retry their parts themselves
+  const sendOnce = async (url: string, requestOptions: ExtendedRequestOptions) => {
+    let response: AdapterResponse | undefined;
+    const options: ExtendedRequestOptions & Pick<FetchOptions, 'onResponse'> = {
+      ...requestOptions,
+      retry: false,
+      offline: false,
+      onResponse: received => {
+        response = received;
+      },
+    };
+
+    const data = await fetchMethod(url, options);
+    return { data, status: response?.status ?? 0, headers: response?.headers ?? {} };
+  };
+
+  const sendUploadRequest: UploadSender = ({ url, method, body, headers, signal }) =>
+    sendOnce(url, { method: method as ExtendedRequestOptions['method'], body, headers, signal });
+
+  // Ranges count the bytes of the encoded body, so downloads ask for it unencoded
+  const sendDownloadRequest: DownloadSender = ({ url, headers, signal }) =>
+    sendOnce(url, {
+      headers: { ...headers, 'Accept-Encoding': 'identity' },
+      signal,
+      responseType: 'stream',
+    });
+
   // Set default cache options
   const defaultCacheOptions: CacheOptions = {
     staleTime: 0, // Stale immediately
@@ -81,12 +261,16 @@ export function createFetchKit(config: ExtendedFetchKitConfig = {}): FetchKit {
     ...globalCacheOptions,
   };
 
+  // Resolve adapters per instance so instances never switch each other's adapter
+  const adapterResolver = new AdapterResolver();
+
   // Set custom adapter if provided
   if (adapter) {
-    adapterRegistry.register(adapter);
-    adapterRegistry.setActive(adapter.name);
+    adapterResolver.use(adapter);
   }
 
+  adapterRoutes.forEach(route => adapterResolver.addRoute(route));
+
   /**
    * Normalizes a URL by ensuring it has the correct format
    * when combined with the base URL
@@ -196,14 +380,54 @@ export function createFetchKit(config: ExtendedFetchKitConfig = {}): FetchKit {
     // Start timing the request
     const startTime = Date.now();
 
+    // Run the request with a signal, which the deduper replaces with the shared request's signal
+    const runRequest = (
+      signal?: AbortSignal,
+      onCacheResponse?: (response: HttpCacheResponse) => void,
+    ): Promise<T> => {
+      const requestOptions = {
+        ...options,
+        signal,
+        headers,
+        timeout: requestTimeout,
+        retry: retryOptions,
+      };
+
+      return cacheOptions
+        ? fetchForCache<T>(fullUrl, requestKey, requestOptions, cacheOptions, onCacheResponse)
+        : executeRequest<T>(fullUrl, requestOptions);
+    };
+
+    // Each caller sharing a deduplicated request can abort its own signal
+    const dedupeOptions = { signal: options.signal, tags: options.tags };
+
     // Track if request succeeded
     let success = false;
 
     try {
-      // For GET requests, handle caching and deduplication
-      if (method === 'GET') {
+      // Streamed bodies can only be read once, so they are neither cached nor shared
+      const streamed = isStreamResponseType(options.responseType);
+
+      // For GET requests and other reads, handle caching and deduplication
+      if ((method === 'GET' || options.cacheable) && !streamed) {
         // If caching is enabled, use SWR pattern
         if (cacheOptions) {
+          // Wait for persisted entries to be loaded into memory
+          if (cacheManager.hasPersistence()) {
+            await cacheManager.ready();
+
+            // Persisted data may predate the schema; drop it unless it still matches
+            const { schema } = options;
+            if (
+              schema &&
+              !(await cacheManager.verifyRehydrated(requestKey, data =>
+                validateSchema(schema, data, { url: fullUrl, method }),
+              ))
+            ) {
+              emitter.emit('cache:invalidate', { key: requestKey });
+            }
+          }
+
           // Check cache first for event emission
           const cachedData = cacheManager.get<T>(requestKey);
           if (cachedData) {
@@ -219,28 +443,32 @@ export function createFetchKit(config: ExtendedFetchKitConfig = {}): FetchKit {
           }
 
           // Function to execute request with possible deduplication
-          const executeWithPossibleDeduplication = (fetchFn: () => Promise<T>): Promise<T> => {
+          const executeWithPossibleDeduplication: CacheFetcher<T> = onResponse => {
             if (shouldDeduplicate) {
-              return requestDeduper.dedupe(requestKey, fetchFn);
+              return requestDeduper.dedupe(
+                requestKey,
+                signal => runRequest(signal, onResponse),
+                dedupeOptions,
+              );
             }
-            return fetchFn();
+            return runRequest(options.signal, onResponse);
           };
 
           // Execute the request with SWR
           const result = await cacheManager.swr<T>(
             requestKey,
-            () =>
-              executeWithPossibleDeduplication(() =>
-                executeRequest<T>(fullUrl, {
-                  ...options,
-                  headers,
-                  timeout: requestTimeout,
-                  retry: retryOptions,
-                }),
-              ),
+            executeWithPossibleDeduplication,
             cacheOptions,
           );
 
+          // A Vary header seen for the first time moves the response under a key with the varied headers
+          const variedKey = getCacheKey(fullUrl, { ...options, headers });
+          const entry = variedKey !== requestKey ? cacheManager.getEntry<T>(requestKey) : undefined;
+          if (entry) {
+            cacheManager.delete(requestKey);
+            cacheManager.setEntry(variedKey, entry);
+          }
+
           // Emit success event
           success = true;
           emitter.emit('request:success', {
@@ -255,14 +483,7 @@ export function createFetchKit(config: ExtendedFetchKitConfig = {}): FetchKit {
 
         // If only deduplication is enabled (no caching)
         if (shouldDeduplicate) {
-          const result = await requestDeduper.dedupe(requestKey, () =>
-            executeRequest<T>(fullUrl, {
-              ...options,
-              headers,
-              timeout: requestTimeout,
-              retry: retryOptions,
-            }),
-          );
+          const result = await requestDeduper.dedupe(requestKey, runRequest, dedupeOptions);
 
           // Emit success event
           success = true;
@@ -277,13 +498,22 @@ export function createFetchKit(config: ExtendedFetchKitConfig = {}): FetchKit {
         }
       }
 
-      // For non-GET requests, mutations, or when both cache and deduplication are disabled
-      const result = await executeRequest<T>(fullUrl, {
-        ...options,
-        headers,
-        timeout: requestTimeout,
-        retry: retryOptions,
-      });
+      // Writes made while the browser is offline fail right away and are queued
+      if (shouldQueueOffline(method, options) && offlineQueue?.isOffline()) {
+        throw createError(`Network offline: ${fullUrl}`, {
+          category: ErrorCategory.Network,
+          isNetworkError: true,
+          url: fullUrl,
+          method,
+        });
+      }
+
+      // For non-GET requests, mutations, streams, or when both cache and deduplication are disabled
+      const requestOptions = { ...options, headers, timeout: requestTimeout, retry: retryOptions };
+      const result =
+        streamed && options.cacheStream && cacheOptions
+          ? await fetchStreamForCache<T>(fullUrl, requestKey, requestOptions, cacheOptions)
+          : await executeRequest<T>(fullUrl, requestOptions);
 
       // Emit success event
       success = true;
@@ -310,6 +540,20 @@ export function createFetchKit(config: ExtendedFetchKitConfig = {}): FetchKit {
       // Also emit the general error event
       emitter.emit('error', typedError);
 
+      // Keep writes that could not reach the server for replay once back online
+      if (
+        offlineQueue &&
+        shouldQueueOffline(method, options) &&
+        fetchKitError.category === ErrorCategory.Network
+      ) {
+        const queued = await offlineQueue.enqueue(
+          { url: fullUrl, method, body: options.body, headers },
+          typeof options.offline === 'object' ? options.offline : {},
+        );
+        fetchKitError.queued = true;
+        fetchKitError.queuedMutationId = queued.id;
+      }
+
       throw error;
     } finally {
       // Emit complete event
@@ -322,6 +566,43 @@ export function createFetchKit(config: ExtendedFetchKitConfig = {}): FetchKit {
     }
   };
 
+  /**
+   * Replay a fresh cached stream, or fetch the stream and cache its chunks once it
+   * has been read to the end
+   */
+  const fetchStreamForCache = async <T>(
+    url: string,
+    cacheKey: string,
+    options: ExtendedRequestOptions,
+    cacheOptions: CacheOptions,
+  ): Promise<T> => {
+    const cached = cacheManager.get<unknown[]>(cacheKey);
+    if (cached && !cacheManager.isStale(cacheKey)) {
+      emitter.emit('cache:hit', { key: cacheKey, data: cached, isStale: false });
+      return asAsyncIterable(createChunkStream(cached)) as T;
+    }
+    emitter.emit('cache:miss', { key: cacheKey });
+
+    const stream = await executeRequest<ReadableStream>(url, options);
+    if (!isReadableStream(stream)) {
+      return stream;
+    }
+
+    return asAsyncIterable(
+      collectStream(stream, chunks => {
+        cacheManager.set(cacheKey, chunks, cacheOptions);
+        emitter.emit('cache:set', { key: cacheKey, data: chunks });
+      }),
+    ) as T;
+  };
+
+  /**
+   * Check whether a request may be queued for replay when it cannot reach the server
+   */
+  const shouldQueueOffline = (method: string, options: ExtendedRequestOptions): boolean => {
+    return method !== 'GET' && method !== 'HEAD' && !options.cacheable && options.offline !== false;
+  };
+
   /**
    * Invalidates the cache for a specific key or clears all cache if no key is provided.
    * Emits a 'cache:invalidate' event.
@@ -366,11 +647,114 @@ export function createFetchKit(config: ExtendedFetchKitConfig = {}): FetchKit {
     },
   };
 
+  /**
+   * Emit request:retry before each retry, keeping any onRetry callback
+   */
+  const withRetryEvents = (
+    url: string,
+    method: string,
+    requestRetry?: boolean | Partial<RetryConfig>,
+  ): boolean | Partial<RetryConfig> | undefined => {
+    if (!requestRetry) {
+      return requestRetry;
+    }
+
+    const retryConfig = requestRetry === true ? {} : requestRetry;
+
+    return {
+      ...retryConfig,
+      onRetry: retryAttempt => {
+        emitter.emit('request:retry', { url, method, ...retryAttempt });
+        retryConfig.onRetry?.(retryAttempt);
+      },
+    };
+  };
+
+  /**
+   * Add the rate and ETA to progress callbacks and emit request:progress for them.
+   * Progress is only tracked when there is a callback or a request:progress listener.
+   */
+  const withProgressEvents = (
+    url: string,
+    method: string,
+    direction: 'upload' | 'download',
+    onProgress?: (progress: RequestProgress) => void,
+  ): ((progress: RequestProgress) => void) | undefined => {
+    if (!onProgress && !emitter.listenerCount('request:progress')) {
+      return undefined;
+    }
+
+    return createProgressReporter(progress => {
+      emitter.emit('request:progress', { url, method, direction, ...progress });
+      onProgress?.(progress);
+    });
+  };
+
   /**
    * Execute the actual fetch request (without caching or deduplication)
    */
-  const executeRequest = <T>(url: string, options: RequestOptions = {}): Promise<T> => {
-    return fetch<T>(url, options);
+  const executeRequest = <T>(
+    url: string,
+    options: ExtendedRequestOptions & Pick<FetchOptions, 'onResponse'> = {},
+  ): Promise<T> => {
+    const method = options.method || 'GET';
+    const cacheOptions =
+      typeof options.cacheOptions === 'object' ? options.cacheOptions : undefined;
+
+    return fetch<T>(url, {
+      ...options,
+      retry: withRetryEvents(url, method, options.retry),
+      onUploadProgress: withProgressEvents(url, method, 'upload', options.onUploadProgress),
+      onDownloadProgress: withProgressEvents(url, method, 'download', options.onDownloadProgress),
+      interceptors,
+      circuitBreaker,
+      adapter: adapterResolver.resolve(url, options.adapter),
+      // Each attempt waits for a slot in the request's priority lane
+      schedule: attempt =>
+        scheduler.schedule(attempt, {
+          url,
+          priority: options.priority ?? cacheOptions?.priority,
+          signal: options.signal,
+        }),
+    });
+  };
+
+  /**
+   * Fetch data for the SWR cache. Revalidations send the cached entry's ETag and
+   * Last-Modified date, and the response is reported to the cache, whose headers
+   * decide how the data is stored. A 304 response resolves with the cached data.
+   */
+  const fetchForCache = async <T>(
+    url: string,
+    cacheKey: string,
+    options: ExtendedRequestOptions,
+    cacheOptions?: CacheOptions,
+    onCacheResponse?: (response: HttpCacheResponse) => void,
+  ): Promise<T> => {
+    const httpCache = cacheOptions?.httpCache ?? true;
+    const entry = httpCache ? cacheManager.getEntry<T>(cacheKey) : undefined;
+    let response: AdapterResponse | undefined;
+
+    const data = await executeRequest<T>(url, {
+      ...options,
+      headers: { ...getConditionalHeaders(entry), ...options.headers },
+      onResponse: received => {
+        response = received;
+      },
+    });
+
+    if (entry && response?.status === 304) {
+      onCacheResponse?.(response);
+      return entry.data;
+    }
+
+    if (response) {
+      recordVary(url, options, response);
+      if (httpCache) {
+        onCacheResponse?.(response);
+      }
+    }
+    return data;
   };
 
   /**
@@ -386,7 +770,56 @@ export function createFetchKit(config: ExtendedFetchKitConfig = {}): FetchKit {
       return options.cacheOptions.cacheKey;
     }
 
-    return generateCacheKey(url, options);
+    const baseKey = getBaseCacheKey(url, options);
+    const vary = varyHeaders.get(baseKey);
+    if (!vary) return baseKey;
+
+    return `${baseKey}:vary:${getHeadersKey(getKeyHeaders(options), vary, cacheKeyOptions.hash)}`;
+  };
+
+  /**
+   * Get cache key for a request, before request headers named by Vary are added.
+   * Requests sent with their own adapter are kept apart from the default adapter's.
+   */
+  const getBaseCacheKey = (url: string, options?: ExtendedRequestOptions): string => {
+    const key = generateCacheKey(
+      url,
+      { ...options, headers: getKeyHeaders(options) },
+      cacheKeyOptions,
+    );
+    const adapter = options?.adapter;
+    if (!adapter) return key;
+
+    return `${key}:adapter=${typeof adapter === 'string' ? adapter : adapter.name}`;
+  };
+
+  /**
+   * Request headers as they are sent, for cache keys
+   */
+  const getKeyHeaders = (options?: ExtendedRequestOptions): Record<string, string> => ({
+    ...defaultHeaders,
+    ...options?.headers,
+  });
+
+  /**
+   * Remember which request headers a response varies on, so later cache keys
+   * for the same request include their values
+   */
+  const recordVary = (
+    url: string,
+    options: ExtendedRequestOptions,
+    response: AdapterResponse,
+  ): void => {
+    if (cacheKeyOptions.vary === false) return;
+
+    const baseKey = getBaseCacheKey(url, options);
+    const vary = getVaryHeaders(response).filter(name => name !== '*');
+
+    if (vary.length > 0) {
+      varyHeaders.set(baseKey, vary);
+    } else {
+      varyHeaders.delete(baseKey);
+    }
   };
 
   /**
@@ -401,6 +834,214 @@ export function createFetchKit(config: ExtendedFetchKitConfig = {}): FetchKit {
     };
   };
 
+  /**
+   * Invalidate the cache entries described by a mutation's invalidation config
+   */
+  const applyMutationInvalidation = (invalidation: MutationInvalidation): void => {
+    const { urls = [], keys = [], patterns = [], groups = [] } = invalidation;
+
+    urls.forEach(url => invalidateCache(getCacheKey(normalizeUrl(url), { method: 'GET' })));
+    keys.forEach(key => invalidateCache(key));
+    patterns.forEach(pattern => cacheManager.invalidateByPattern(pattern));
+    groups.forEach(group => cacheManager.invalidateGroup(group));
+  };
+
+  // Optimistic updates of mutations in flight, by cache key
+  const optimisticUpdates = new Map<string, OptimisticLayers>();
+
+  /**
+   * Remove a mutation's optimistic updates once it settles. A failed mutation's
+   * entries are rebuilt from the entry before the updates with the updates of the
+   * mutations still in flight, unless another write has replaced the optimistic data.
+   * @returns Keys of the entries that were rolled back
+   */
+  const settleOptimisticUpdates = (
+    mutation: symbol,
+    cacheKeys: Iterable<string>,
+    failed: boolean,
+  ): string[] => {
+    const rolledBack: string[] = [];
+
+    for (const cacheKey of cacheKeys) {
+      const pending = optimisticUpdates.get(cacheKey);
+      const index = pending?.layers.findIndex(layer => layer.mutation === mutation) ?? -1;
+      if (!pending || index < 0) continue;
+
+      const [layer] = pending.layers.splice(index, 1);
+      const current = cacheManager.getEntry(cacheKey);
+
+      // A successful update stays, including when a later mutation rolls back
+      if (!failed) {
+        const base = pending.base ?? current;
+        pending.base = base && { ...base, data: layer.apply(pending.base?.data) };
+      }
+
+      const replaced = !current || current.data !== pending.written;
+      if (pending.layers.length === 0) {
+        optimisticUpdates.delete(cacheKey);
+      }
+      if (!failed || replaced) continue;
+
+      if (pending.layers.length > 0) {
+        const data = pending.layers.reduce((value, { apply }) => apply(value), pending.base?.data);
+        cacheManager.setEntry(cacheKey, { ...current, data });
+        pending.written = data;
+        emitter.emit('cache:set', { key: cacheKey, data });
+      } else if (pending.base) {
+        cacheManager.setEntry(cacheKey, pending.base);
+        emitter.emit('cache:set', { key: cacheKey, data: pending.base.data });
+      } else {
+        cacheManager.delete(cacheKey);
+        emitter.emit('cache:invalidate', { key: cacheKey });
+      }
+      rolledBack.push(cacheKey);
+    }
+
+    return rolledBack;
+  };
+
+  /**
+   * Keep the optimistic updates of a mutation saved to the offline queue until it is
+   * replayed, or roll them back if the queue drops it
+   */
+  const settleWhenReplayed = (
+    mutation: symbol,
+    cacheKeys: Set<string>,
+    queuedMutationId: string,
+    url: string,
+  ): void => {
+    if (!offlineQueue || cacheKeys.size === 0) return;
+
+    const unsubscribe = () => {
+      stopReplayed();
+      stopFailed();
+    };
+    const stopReplayed = offlineQueue.on('replayed', ({ mutation: queued }) => {
+      if (queued.id !== queuedMutationId) return;
+      unsubscribe();
+      settleOptimisticUpdates(mutation, cacheKeys, false);
+    });
+    const stopFailed = offlineQueue.on('failed', ({ mutation: queued }) => {
+      if (queued.id !== queuedMutationId) return;
+      unsubscribe();
+      const keys = settleOptimisticUpdates(mutation, cacheKeys, true);
+      if (keys.length > 0) {
+        emitter.emit('mutation:rollback', { url, keys });
+      }
+    });
+  };
+
+  /**
+   * Send a mutation request with optimistic updates, rollback and invalidation
+   */
+  const mutate = async <TData = any, TVariables = any>(
+    url: string,
+    variables?: TVariables,
+    options: MutationOptions<TData, TVariables> = {},
+  ): Promise<TData> => {
+    const { method = 'POST', optimisticUpdate, invalidate, entities, ...requestOptions } = options;
+    const fullUrl = normalizeUrl(url);
+    const startTime = Date.now();
+
+    // Entries touched by the optimistic update
+    const mutation = Symbol(fullUrl);
+    const touched = new Set<string>();
+
+    const optimisticCache: OptimisticCache = {
+      getData: <T>(dataUrl: string, dataOptions?: ExtendedRequestOptions): T | undefined => {
+        return cacheManager.get<T>(getCacheKey(normalizeUrl(dataUrl), dataOptions));
+      },
+
+      setData: <T>(
+        dataUrl: string,
+        updater: T | ((current: T | undefined) => T),
+        dataOptions?: ExtendedRequestOptions,
+      ): void => {
+        const cacheKey = getCacheKey(normalizeUrl(dataUrl), dataOptions);
+        const currentEntry = cacheManager.getEntry<T>(cacheKey);
+        const apply = (current: T | undefined): T =>
+          typeof updater === 'function'
+            ? (updater as (current: T | undefined) => T)(current)
+            : updater;
+
+        // Data written since the last optimistic update becomes the entry to roll back to
+        let pending = optimisticUpdates.get(cacheKey);
+        if (!pending || currentEntry?.data !== pending.written) {
+          pending = { base: currentEntry && { ...currentEntry }, layers: [], written: undefined };
+          optimisticUpdates.set(cacheKey, pending);
+        }
+
+        const layer = pending.layers.find(entry => entry.mutation === mutation);
+        if (layer) {
+          const previous = layer.apply;
+          layer.apply = current => apply(previous(current));
+        } else {
+          pending.layers.push({ mutation, apply });
+        }
+        touched.add(cacheKey);
+
+        const data = apply(currentEntry?.data);
+        cacheManager.set(cacheKey, data, processCacheOptions(dataOptions?.cacheOptions));
+        pending.written = cacheManager.get(cacheKey);
+        emitter.emit('cache:set', { key: cacheKey, data });
+      },
+    };
+
+    emitter.emit('mutation:start', { url: fullUrl, method, variables });
+
+    try {
+      if (optimisticUpdate) {
+        optimisticUpdate(optimisticCache, variables as TVariables);
+        emitter.emit('mutation:optimistic', { url: fullUrl, keys: Array.from(touched) });
+      }
+
+      const data = await fetchMethod<TData>(url, { ...requestOptions, method, body: variables });
+      settleOptimisticUpdates(mutation, touched, false);
+
+      if (entities) {
+        cacheManager.writeEntities(data, entities);
+      }
+
+      if (invalidate) {
+        applyMutationInvalidation(
+          typeof invalidate === 'function' ? invalidate(data, variables as TVariables) : invalidate,
+        );
+      }
+
+      emitter.emit('mutation:success', {
+        url: fullUrl,
+        method,
+        data,
+        variables,
+        duration: Date.now() - startTime,
+      });
+
+      return data;
+    } catch (error) {
+      const { queued, queuedMutationId } = error as FetchKitError;
+
+      // A queued write is still expected to reach the server, so its updates stay
+      if (queued && queuedMutationId !== undefined) {
+        settleWhenReplayed(mutation, touched, queuedMutationId, fullUrl);
+      } else {
+        const keys = settleOptimisticUpdates(mutation, touched, true);
+        if (keys.length > 0) {
+          emitter.emit('mutation:rollback', { url: fullUrl, keys });
+        }
+      }
+
+      emitter.emit('mutation:error', {
+        url: fullUrl,
+        method,
+        error: error as FetchKitError,
+        variables,
+        duration: Date.now() - startTime,
+      });
+
+      throw error;
+    }
+  };
+
   // Build the FetchKit instance
   const fetchKit: FetchKit = {
     fetch: fetchMethod,
@@ -428,27 +1069,71 @@ export function createFetchKit(config: ExtendedFetchKitConfig = {}): FetchKit {
     createAbortController,
 
     // Adapter management methods
-    setAdapter: (adapter: Adapter): void => {
-      adapterRegistry.register(adapter);
-      adapterRegistry.setActive(adapter.name);
+    setAdapter: (adapter: string | Adapter): void => {
+      adapterResolver.use(adapter);
     },
 
     getAdapter: (name?: string): Adapter => {
       if (name) {
-        const adapter = adapterRegistry.get(name);
+        const adapter = adapterResolver.get(name);
         if (!adapter) {
           throw new Error(`Adapter '${name}' not found`);
         }
         return adapter;
       }
 
-      return adapterRegistry.getActive();
+      return adapterResolver.getActive();
     },
 
     getAdapterNames: (): string[] => {
-      return adapterRegistry.getAdapterNames();
+      return adapterResolver.getAdapterNames();
+    },
+
+    addAdapterRoute: (route: AdapterRoute): void => {
+      adapterResolver.addRoute(route);
+    },
+
+    // Circuit breaker methods
+    getCircuitStatus: (url: string): CircuitStatus | undefined => {
+      return circuitBreaker?.getStatus(normalizeUrl(url));
+    },
+
+    getCircuits: (): CircuitStatus[] => {
+      return circuitBreaker ? circuitBreaker.getCircuits() : [];
+    },
+
+    resetCircuit: (key?: string): void => {
+      circuitBreaker?.reset(key);
+    },
+
+    // Request scheduler methods
+    pauseRequests: (): void => {
+      scheduler.pause();
     },
 
+    resumeRequests: (): void => {
+      scheduler.resume();
+    },
+
+    getSchedulerStats: (): SchedulerStats => {
+      return scheduler.getStats();
+    },
+
+    // Offline queue methods
+    getOfflineQueue: async (): Promise<QueuedMutation[]> => {
+      return offlineQueue ? offlineQueue.getQueue() : [];
+    },
+
+    replayOfflineQueue: async (): Promise<void> => {
+      await offlineQueue?.replay();
+    },
+
+    clearOfflineQueue: async (): Promise<void> => {
+      await offlineQueue?.clear();
+    },
+
+    interceptors,
+
     // Cache management methods
     invalidateCache,
 
@@ -463,18 +1148,21 @@ export function createFetchKit(config: ExtendedFetchKitConfig = {}): FetchKit {
     // Advanced cache management methods
     registerCacheWarming: <T>(url: string, options?: ExtendedRequestOptions): void => {
       const cacheKey = getCacheKey(normalizeUrl(url), options);
-      const fetchFn = () =>
-        executeRequest<T>(normalizeUrl(url), {
-          ...options,
-          method: options?.method || 'GET',
-          headers: { ...defaultHeaders, ...options?.headers },
-        });
-
-      cacheManager.registerCacheWarming(
-        cacheKey,
-        fetchFn,
-        processCacheOptions(options?.cacheOptions),
-      );
+      const cacheOptions = processCacheOptions(options?.cacheOptions);
+      const fetchFn: CacheFetcher<T> = onResponse =>
+        fetchForCache<T>(
+          normalizeUrl(url),
+          cacheKey,
+          {
+            ...options,
+            method: options?.method || 'GET',
+            headers: { ...defaultHeaders, ...options?.headers },
+          },
+          cacheOptions,
+          onResponse,
+        );
+
+      cacheManager.registerCacheWarming(cacheKey, fetchFn, cacheOptions);
       emitter.emit('cache:warm:register', { key: cacheKey });
     },
 
@@ -490,14 +1178,21 @@ export function createFetchKit(config: ExtendedFetchKitConfig = {}): FetchKit {
 
     revalidateCache: <T>(url: string, options?: ExtendedRequestOptions): Promise<void> => {
       const cacheKey = getCacheKey(normalizeUrl(url), options);
-      const fetchFn = () =>
-        executeRequest<T>(normalizeUrl(url), {
-          ...options,
-          method: options?.method || 'GET',
-          headers: { ...defaultHeaders, ...options?.headers },
-        });
-
-      return cacheManager.revalidate(cacheKey, fetchFn, processCacheOptions(options?.cacheOptions));
+      const cacheOptions = processCacheOptions(options?.cacheOptions);
+      const fetchFn: CacheFetcher<T> = onResponse =>
+        fetchForCache<T>(
+          normalizeUrl(url),
+          cacheKey,
+          {
+            ...options,
+            method: options?.method || 'GET',
+            headers: { ...defaultHeaders, ...options?.headers },
+          },
+          cacheOptions,
+          onResponse,
+        );
+
+      return cacheManager.revalidate(cacheKey, fetchFn, cacheOptions);
     },
 
     getCacheEntry: <T>(
@@ -533,6 +1228,14 @@ export function createFetchKit(config: ExtendedFetchKitConfig = {}): FetchKit {
       emitter.emit('cache:set', { key: cacheKey, data });
     },
 
+    registerInvalidationGroup: (groupName: string, keys: (string | RegExp)[]): void => {
+      cacheManager.registerInvalidationGroup(groupName, keys);
+    },
+
+    invalidateGroup: (groupName: string): number => {
+      return cacheManager.invalidateGroup(groupName);
+    },
+
     // Deduplication management methods
     getInFlightRequestsCount: (): number => {
       return requestDeduper.getInFlightCount();
@@ -550,6 +1253,80 @@ export function createFetchKit(config: ExtendedFetchKitConfig = {}): FetchKit {
       requestDeduper.clearInFlightRequests();
     },
 
+    cancelRequest: (cacheKey: string): boolean => {
+      return requestDeduper.cancelRequest(cacheKey);
+    },
+
+    cancelRequestsMatching: (predicate: (key: string, tags: string[]) => boolean): number => {
+      return requestDeduper.cancelMatching(predicate);
+    },
+
+    cancelRequestsByTag: (tag: string): number => {
+      return requestDeduper.cancelByTag(tag);
+    },
+
+    // Mutation methods
+    mutate,
+
+    createMutation: <TData = any, TVariables = any>(
+      url: string | ((variables: TVariables) => string),
+      options?: MutationOptions<TData, TVariables>,
+    ): Mutation<TData, TVariables> => {
+      return new Mutation<TData, TVariables>(fetchKit, url, options);
+    },
+
+    // GraphQL methods
+    createGraphQLClient: (endpoint: string, options?: GraphQLClientOptions): GraphQLClient => {
+      return new GraphQLClient(fetchKit, endpoint, options);
+    },
+
+    // Entity methods
+    getEntity: <T = any>(schema: EntitySchema<T>, id: string | number): T | undefined => {
+      return cacheManager.getEntity(schema, id);
+    },
+
+    setEntity: <T = any>(
+      schema: EntitySchema<T>,
+      id: string | number,
+      updater: T | ((current: T | undefined) => T),
+    ): void => {
+      cacheManager.setEntity(schema, id, updater);
+    },
+
+    // Server-Sent Events methods
+    eventSource: <T = string, TCache = any>(
+      url: string,
+      options?: EventSourceOptions<T, TCache>,
+    ): EventSourceClient<T> => {
+      return new EventSourceClient<T>(fetchKit, url, options);
+    },
+
+    sse: <T = string, TCache = any>(url: string, options?: EventSourceOptions<T, TCache>) => {
+      return new EventSourceClient<T>(fetchKit, url, options)[Symbol.asyncIterator]();
+    },
+
+    // WebSocket methods
+    createWebSocket: (url: string, options?: WebSocketOptions): WebSocketManager => {
+      const manager = new WebSocketManager(fetchKit, url, options);
+
+      // Forward connection activity as websocket:* events
+      emitter.emit('websocket:state', manager.getState());
+      manager.on('state', state => emitter.emit('websocket:state', state));
+      manager.on('error', payload => emitter.emit('websocket:error', payload));
+
+      return manager;
+    },
+
+    // Upload methods
+    createUpload: <T = any>(url: string, file: Blob, options?: UploadOptions) => {
+      return new ResumableUpload<T>(sendUploadRequest, url, file, options);
+    },
+
+    // Download methods
+    createDownload: (url: string, options?: DownloadOptions) => {
+      return new ResumableDownload(sendDownloadRequest, url, options);
+    },
+
     // Subscription management methods
     ...subscriptionMethods,
   };
@@ -1,26 +1,136 @@
 // src/core/fetch.ts
 
 import { adapterRegistry } from '@adapters/adapter-registry';
+import type { Adapter, AdapterResponse } from '@fk-types/adapter';
 import type { RequestOptions } from '@fk-types/core';
-import type { RetryConfig } from '@fk-types/error';
+import type { RequestOptionsExtension } from '@fk-types/core-extension';
+import type { FetchKitError, RetryConfig } from '@fk-types/error';
+import type { CircuitBreaker } from './circuit-breaker';
+import {
+  InterceptorManagers,
+  runErrorInterceptors,
+  runRequestInterceptors,
+  runResponseInterceptors,
+} from './interceptors';
 import { createError, categorizeError, getErrorMessage } from '@utils/error';
 import { buildUrl } from '@utils/url';
 import { withRetry } from '@utils/retry';
+import { validateSchema } from '@utils/schema';
+import {
+  asAsyncIterable,
+  createResponseStream,
+  isReadableStream,
+  isStreamResponseType,
+} from '@utils/stream';
+
+/**
+ * Options accepted by the core fetch function
+ */
+export interface FetchOptions extends RequestOptions {
+  /**
+   * Interceptor chains to run around the adapter request
+   */
+  interceptors?: InterceptorManagers;
+
+  /**
+   * Circuit breaker admitting each attempt and recording its outcome
+   */
+  circuitBreaker?: CircuitBreaker;
+
+  /**
+   * Called with every response the adapter receives, before its status is checked
+   */
+  onResponse?: (response: AdapterResponse) => void;
+
+  /**
+   * Runs each attempt, so a scheduler slot is only held while an attempt is in flight
+   * and is free again while a retry waits out its delay
+   */
+  schedule?: <R>(attempt: () => Promise<R>) => Promise<R>;
+}
+
+/**
+ * Options only FetchKit reads. They are kept from adapters, whose HTTP clients may
+ * reject them, such as fetch, whose RequestInit has a `priority` of its own.
+ */
+const FETCHKIT_OPTIONS: Record<keyof RequestOptionsExtension, true> = {
+  cacheOptions: true,
+  deduplicate: true,
+  tags: true,
+  priority: true,
+  offline: true,
+  cacheable: true,
+  cacheStream: true,
+};
+
+/**
+ * Remove the options only FetchKit reads before a request is handed to an adapter
+ */
+function withoutFetchKitOptions(options: RequestOptions): RequestOptions {
+  const adapterOptions: Record<string, unknown> = { ...options };
+  Object.keys(FETCHKIT_OPTIONS).forEach(key => delete adapterOptions[key]);
+  return adapterOptions as RequestOptions;
+}
+
+/**
+ * Whether a response is a 304 answer to a conditional request, which confirms the
+ * caller's copy instead of failing
+ */
+function isNotModified(response: AdapterResponse, headers: Record<string, string> = {}): boolean {
+  if (response.status !== 304) return false;
+  return Object.keys(headers).some(name =>
+    ['if-none-match', 'if-modified-since'].includes(name.toLowerCase()),
+  );
+}
+
+/**
+ * Resolve a per-request adapter option against the adapter registry
+ */
+function resolveAdapter(adapter?: string | Adapter): Adapter {
+  if (!adapter) {
+    return adapterRegistry.getActive();
+  }
+
+  if (typeof adapter !== 'string') {
+    return adapter;
+  }
+
+  const registered = adapterRegistry.get(adapter);
+  if (!registered) {
+    throw new Error(`Adapter '${adapter}' not found`);
+  }
+
+  return registered;
+}
 
 /**
  * Core fetch wrapper function using the active adapter with enhanced error handling
  */
-export async function fetch<T>(url: string, options: RequestOptions = {}): Promise<T> {
-  const { method = 'GET', params, timeout, retry, ...restOptions } = options;
+export async function fetch<T>(url: string, options: FetchOptions = {}): Promise<T> {
+  const {
+    method = 'GET',
+    params,
+    timeout,
+    retry,
+    interceptors,
+    circuitBreaker,
+    onResponse,
+    schedule,
+    adapter: requestAdapter,
+    transformResponse,
+    schema,
+    responseType,
+    ...restOptions
+  } = options;
 
   // Build URL with query parameters
-  const fullUrl = params ? buildUrl(url, params) : url;
+  let fullUrl = params ? buildUrl(url, params) : url;
 
-  // Get the active adapter
-  const adapter = adapterRegistry.getActive();
+  // Use the requested adapter, or the active one
+  const adapter = resolveAdapter(requestAdapter);
 
   // Setup timeout handler
-  let timeoutId: number | undefined;
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
   let timeoutController: AbortController | undefined;
 
   if (timeout && timeout > 0) {
@@ -34,26 +144,70 @@ export async function fetch<T>(url: string, options: RequestOptions = {}): Promi
       });
     }
 
-    // Set timeout to abort the controller after specified time
-    timeoutId = window.setTimeout(() => {
-      timeoutController?.abort('timeout');
-    }, timeout);
-
     // Use the timeout controller's signal
     restOptions.signal = timeoutController.signal;
   }
 
+  // Set when the server confirms a conditional request with 304 Not Modified
+  let notModified = false;
+
   // Prepare request function
   const performRequest = async (): Promise<T> => {
+    let requestMethod: string = method;
+    let circuitKey: string | undefined;
+
+    // Start the timeout with the first attempt, so time spent waiting for a slot is not counted
+    if (timeoutController && timeoutId === undefined) {
+      timeoutId = setTimeout(() => {
+        timeoutController?.abort('timeout');
+      }, timeout);
+    }
+
     try {
-      // Transform request using the adapter
-      const request = adapter.transformRequest(fullUrl, {
+      let requestUrl = url;
+      let requestOptions: RequestOptions = {
         method,
+        params,
+        // Adapters stream the bytes, which are decoded into text or records here
+        responseType: isStreamResponseType(responseType) ? 'stream' : responseType,
         ...restOptions,
+      };
+
+      // Let request interceptors rewrite the URL and options
+      if (interceptors && interceptors.request.size > 0) {
+        const intercepted = await runRequestInterceptors(interceptors.request, {
+          url: requestUrl,
+          options: requestOptions,
+        });
+        requestUrl = intercepted.url;
+        requestOptions = intercepted.options;
+        requestMethod = requestOptions.method || 'GET';
+        fullUrl = requestOptions.params ? buildUrl(requestUrl, requestOptions.params) : requestUrl;
+      }
+
+      // Fail fast while the circuit for this URL is open
+      circuitKey = circuitBreaker?.acquire(fullUrl);
+
+      // Transform request using the adapter
+      const { params: _params, ...adapterOptions } = withoutFetchKitOptions(requestOptions);
+      const request = adapter.transformRequest(fullUrl, {
+        ...adapterOptions,
+        method: requestMethod as RequestOptions['method'],
       });
 
       // Execute the request
-      const response = await adapter.request(request);
+      let response: AdapterResponse = await adapter.request(request);
+      onResponse?.(response);
+
+      // A 304 to a conditional request has no body to process and leaves the caller's copy current
+      if (isNotModified(response, requestOptions.headers)) {
+        if (circuitBreaker && circuitKey !== undefined) {
+          circuitBreaker.recordSuccess(circuitKey);
+          circuitKey = undefined;
+        }
+        notModified = true;
+        return response.data;
+      }
 
       // Handle non-200 responses - safely check if originalResponse exists and has 'ok' property
       if (response.originalResponse && response.originalResponse.ok === false) {
@@ -62,12 +216,22 @@ export async function fetch<T>(url: string, options: RequestOptions = {}): Promi
           category: categorizeError(response.originalResponse || {}),
           response: response.originalResponse,
           url: fullUrl,
-          method,
+          method: requestMethod,
           data: response.data,
         });
         throw error;
       }
 
+      if (circuitBreaker && circuitKey !== undefined) {
+        circuitBreaker.recordSuccess(circuitKey);
+        circuitKey = undefined;
+      }
+
+      // Let response interceptors transform the response
+      if (interceptors && interceptors.response.size > 0) {
+        response = await runResponseInterceptors(interceptors.response, response);
+      }
+
       return response.data;
     } catch (error: any) {
       // Transform and enhance error
@@ -80,13 +244,17 @@ export async function fetch<T>(url: string, options: RequestOptions = {}): Promi
         status: error.status || (error.response && error.response.status),
         response: error.response,
         url: fullUrl,
-        method,
+        method: requestMethod,
         isTimeout: category === 'timeout',
         isCancelled: category === 'cancel',
         isNetworkError: category === 'network',
         data: error.data || (error.response && error.response.data),
       });
 
+      if (circuitBreaker && circuitKey !== undefined) {
+        circuitBreaker.recordFailure(circuitKey, fetchError);
+      }
+
       throw fetchError;
     } finally {
       // Clear timeout if it was set
@@ -96,11 +264,37 @@ export async function fetch<T>(url: string, options: RequestOptions = {}): Promi
     }
   };
 
-  // If retry is enabled, use withRetry utility
-  if (retry) {
-    return withRetry<T>(performRequest, retry as RetryConfig);
+  const attempt = schedule ? () => schedule(performRequest) : performRequest;
+
+  let data: Awaited<T>;
+  try {
+    // If retry is enabled, use withRetry utility
+    data = retry ? await withRetry<T>(attempt, retry as RetryConfig) : await attempt();
+  } catch (error) {
+    // Give error interceptors a chance to recover once the last attempt has failed
+    if (!interceptors || interceptors.error.size === 0) throw error;
+    const recovered = await runErrorInterceptors(interceptors.error, error as FetchKitError);
+    data = recovered.data;
+  }
+
+  if (notModified) {
+    return data;
+  }
+
+  if (responseType === 'text-stream' || responseType === 'ndjson') {
+    data = createResponseStream(data, responseType) as Awaited<T>;
+  } else if (responseType === 'stream' && isReadableStream(data)) {
+    data = asAsyncIterable(data) as Awaited<T>;
+  }
+
+  if (transformResponse) {
+    data = await transformResponse(data);
+  }
+
+  // Invalid data is not retried, since the server would send the same data again
+  if (schema) {
+    return validateSchema<T>(schema, data, { url: fullUrl, method });
   }
 
-  // Otherwise, just perform the request
-  return performRequest();
+  return data;
 }
@@ -0,0 +1,372 @@
+// src/core/graphql.ts
+
+import { ErrorCategory, FetchKitError } from '@fk-types/error';
+import type {
+  GraphQLClientOptions,
+  GraphQLError,
+  GraphQLRequestOptions,
+  GraphQLResponse,
+} from '@fk-types/graphql';
+import { createError } from '@utils/error';
+import { sha256 } from '@utils/hash';
+import type { FetchKit } from './fetch-kit';
+
+/**
+ * Error code of servers that do not know a persisted query's hash
+ */
+const PERSISTED_QUERY_NOT_FOUND = 'PERSISTED_QUERY_NOT_FOUND';
+
+/**
+ * Error code of servers that do not support persisted queries
+ */
+const PERSISTED_QUERY_NOT_SUPPORTED = 'PERSISTED_QUERY_NOT_SUPPORTED';
+
+/**
+ * Request body of a GraphQL operation
+ */
+interface GraphQLBody {
+  query?: string;
+  operationName?: string;
+  variables?: Record<string, any>;
+  extensions?: { persistedQuery: { version: 1; sha256Hash: string } };
+}
+
+/**
+ * A client for a GraphQL endpoint. Queries go through FetchKit's SWR cache,
+ * keyed by operation name, and entities in every result update the cached
+ * queries containing them.
+ */
+export class GraphQLClient {
+  /**
+   * The FetchKit instance to send operations with
+   */
+  private fetchKit: FetchKit;
+
+  /**
+   * URL of the GraphQL endpoint
+   */
+  private endpoint: string;
+
+  /**
+   * Options for this client
+   */
+  private options: GraphQLClientOptions;
+
+  /**
+   * Whether to send persisted queries; turned off when the server does not support them
+   */
+  private persistedQueries: boolean;
+
+  /**
+   * SHA-256 hashes of documents, undefined when hashing is not available
+   */
+  private hashes = new Map<string, Promise<string | undefined>>();
+
+  /**
+   * Cache keys of the queries this client has cached
+   */
+  private queryKeys = new Set<string>();
+
+  /**
+   * Create a new GraphQL client
+   */
+  constructor(fetchKit: FetchKit, endpoint: string, options: GraphQLClientOptions = {}) {
+    this.fetchKit = fetchKit;
+    this.endpoint = endpoint;
+    this.options = options;
+    this.persistedQueries = options.persistedQueries ?? false;
+  }
+
+  /**
+   * Run a query, serving it from the cache when possible
+   * @returns The `data` of the response
+   * @throws A FetchKitError with category GraphQL when the response reports errors
+   */
+  query<TData = any, TVariables extends Record<string, any> = Record<string, any>>(
+    document: string,
+    variables?: TVariables,
+    options: GraphQLRequestOptions = {},
+  ): Promise<TData> {
+    if (options.cacheOptions === false) {
+      return this.send<TData>(document, variables, { ...options, cacheable: true });
+    }
+
+    const cacheKey = this.getCacheKey(document, variables, options);
+    this.queryKeys.add(cacheKey);
+
+    return this.send<TData>(document, variables, {
+      ...options,
+      cacheable: true,
+      cacheOptions: {
+        ...(typeof options.cacheOptions === 'object' ? options.cacheOptions : {}),
+        cacheKey,
+      },
+    });
+  }
+
+  /**
+   * Run a mutation, bypassing the cache
+   * @returns The `data` of the response
+   * @throws A FetchKitError with category GraphQL when the response reports errors
+   */
+  mutation<TData = any, TVariables extends Record<string, any> = Record<string, any>>(
+    document: string,
+    variables?: TVariables,
+    options: GraphQLRequestOptions = {},
+  ): Promise<TData> {
+    return this.send<TData>(document, variables, { ...options, cacheOptions: false });
+  }
+
+  /**
+   * Get the cache key of a query. Keys start with `graphql:<operationName>:`.
+   */
+  getCacheKey(
+    document: string,
+    variables?: Record<string, any>,
+    options: GraphQLRequestOptions = {},
+  ): string {
+    if (typeof options.cacheOptions === 'object' && options.cacheOptions.cacheKey) {
+      return options.cacheOptions.cacheKey;
+    }
+
+    const operationName = options.operationName ?? getOperationName(document);
+    const requestKey = this.fetchKit.getCacheKey(this.endpoint, {
+      method: 'POST',
+      headers: { ...this.options.headers, ...options.headers },
+      body: { query: document, operationName, variables },
+    });
+
+    return `graphql:${operationName ?? ''}:${requestKey}`;
+  }
+
+  /**
+   * Invalidate every cached query with an operation name
+   */
+  invalidateOperation(operationName: string): void {
+    const prefix = `graphql:${operationName}:`;
+    this.fetchKit.invalidateCacheMatching(key => key.startsWith(prefix));
+  }
+
+  /**
+   * Send an operation, as a persisted query when enabled
+   */
+  private async send<TData>(
+    document: string,
+    variables: Record<string, any> | undefined,
+    options: GraphQLRequestOptions,
+  ): Promise<TData> {
+    const { operationName: requestedName, transformResponse, ...requestOptions } = options;
+    const operationName = requestedName ?? getOperationName(document);
+    const body: GraphQLBody = { query: document, operationName, variables };
+    const hash = this.persistedQueries ? await this.hash(document) : undefined;
+
+    return this.fetchKit.fetch<TData>(this.endpoint, {
+      ...requestOptions,
+      method: 'POST',
+      headers: { ...this.options.headers, ...options.headers },
+      body: hash ? { operationName, variables, extensions: persistedQuery(hash) } : body,
+      transformResponse: async (response: GraphQLResponse<TData>) => {
+        const data = await this.handleResponse(response, body, hash, requestOptions);
+        return transformResponse ? transformResponse(data) : data;
+      },
+    });
+  }
+
+  /**
+   * Unwrap the data of a response, sending the full document when the server
+   * did not know the hash of a persisted query
+   */
+  private async handleResponse<TData>(
+    response: GraphQLResponse<TData>,
+    body: GraphQLBody,
+    hash: string | undefined,
+    options: GraphQLRequestOptions,
+  ): Promise<TData> {
+    const codes = (response?.errors ?? []).map(error => error.extensions?.code ?? error.message);
+
+    if (hash && codes.includes(PERSISTED_QUERY_NOT_SUPPORTED)) {
+      this.persistedQueries = false;
+    }
+
+    if (
+      hash &&
+      (codes.includes(PERSISTED_QUERY_NOT_FOUND) || codes.includes(PERSISTED_QUERY_NOT_SUPPORTED))
+    ) {
+      const { schema: _schema, ...retryOptions } = options;
+
+      // The full document with its hash registers the hash with the server
+      return this.fetchKit.fetch<TData>(this.endpoint, {
+        ...retryOptions,
+        method: 'POST',
+        headers: { ...this.options.headers, ...options.headers },
+        body: this.persistedQueries ? { ...body, extensions: persistedQuery(hash) } : body,
+        cacheable: false,
+        cacheOptions: false,
+        deduplicate: false,
+        offline: false,
+        transformResponse: (retried: GraphQLResponse<TData>) =>
+          this.handleResponse(retried, body, undefined, options),
+      });
+    }
+
+    if (response?.errors?.length) {
+      throw createGraphQLError(response, this.endpoint, body.operationName);
+    }
+
+    const data = response?.data as TData;
+    if (this.options.normalize !== false && data) {
+      // The query's own entry is about to be replaced with the result
+      const cacheKey =
+        typeof options.cacheOptions === 'object' ? options.cacheOptions.cacheKey : undefined;
+      this.normalize(data, cacheKey);
+    }
+
+    return data;
+  }
+
+  /**
+   * Merge the entities of a result into the cached queries containing them
+   */
+  private normalize(result: unknown, skipKey?: string): void {
+    const entities = new Map<string, Record<string, any>>();
+    collectEntities(result, entities);
+    if (entities.size === 0) return;
+
+    this.queryKeys.forEach(cacheKey => {
+      if (cacheKey === skipKey) return;
+
+      const options = { cacheOptions: { cacheKey } };
+      const entry = this.fetchKit.getCacheEntry(this.endpoint, options);
+      if (!entry) {
+        this.queryKeys.delete(cacheKey);
+        return;
+      }
+
+      const updated = mergeEntities(entry.data, entities);
+      if (JSON.stringify(updated) !== JSON.stringify(entry.data)) {
+        this.fetchKit.setCacheData(this.endpoint, updated, options);
+      }
+    });
+  }
+
+  /**
+   * Hash a document for persisted queries, once
+   */
+  private hash(document: string): Promise<string | undefined> {
+    let hash = this.hashes.get(document);
+    if (!hash) {
+      // Without the Web Crypto API, full documents are sent instead
+      hash = sha256(document).catch(() => undefined);
+      this.hashes.set(document, hash);
+    }
+    return hash;
+  }
+}
+
+/**
+ * Get the name of the first operation in a document
+ */
+export function getOperationName(document: string): string | undefined {
+  return /\b(?:query|mutation|subscription)\s+([_A-Za-z][_0-9A-Za-z]*)/.exec(document)?.[1];
+}
+
+/**
+ * Get the normalized cache key of an entity, if the object is one
+ */
+export function getEntityKey(value: Record<string, any>): string | undefined {
+  const { __typename: typename, id } = value;
+  return typename !== undefined && id !== undefined && id !== null
+    ? `${typename}:${id}`
+    : undefined;
+}
+
+/**
+ * Persisted query extension for a document hash
+ */
+function persistedQuery(sha256Hash: string): GraphQLBody['extensions'] {
+  return { persistedQuery: { version: 1, sha256Hash } };
+}
+
+/**
+ * Create the error raised for a response with errors
+ */
+function createGraphQLError(
+  response: GraphQLResponse,
+  url: string,
+  operationName?: string,
+): FetchKitError {
+  const errors: GraphQLError[] = response.errors ?? [];
+  const messages = errors.map(error => error.message).join('; ');
+
+  const error = createError(
+    `GraphQL error${operationName ? ` in ${operationName}` : ''}: ${messages}`,
+    {
+      category: ErrorCategory.GraphQL,
+      url,
+      method: 'POST',
+      data: response,
+    },
+  );
+  error.graphQLErrors = errors;
+
+  return error;
+}
+
+/**
+ * Check whether a value is a plain object
+ */
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Collect the entities in a result by their normalized key
+ */
+function collectEntities(value: unknown, entities: Map<string, Record<string, any>>): void {
+  if (Array.isArray(value)) {
+    value.forEach(item => collectEntities(item, entities));
+    return;
+  }
+  if (!isPlainObject(value)) return;
+
+  const key = getEntityKey(value);
+  if (key) {
+    entities.set(key, mergeFields(entities.get(key) ?? {}, value));
+  }
+  Object.values(value).forEach(field => collectEntities(field, entities));
+}
+
+/**
+ * Merge the fields of a result into a cached object, keeping cached fields the result did not select
+ */
+function mergeFields(
+  cached: Record<string, any>,
+  incoming: Record<string, any>,
+): Record<string, any> {
+  const merged = { ...cached };
+  Object.keys(incoming).forEach(field => {
+    merged[field] =
+      isPlainObject(cached[field]) && isPlainObject(incoming[field])
+        ? mergeFields(cached[field], incoming[field])
+        : incoming[field];
+  });
+  return merged;
+}
+
+/**
+ * Replace the fields of every entity in cached data with the collected ones
+ */
+function mergeEntities(value: unknown, entities: Map<string, Record<string, any>>): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => mergeEntities(item, entities));
+  }
+  if (!isPlainObject(value)) return value;
+
+  const key = getEntityKey(value);
+  const entity = key ? entities.get(key) : undefined;
+  const source = entity ? mergeFields(value, entity) : value;
+
+  return Object.fromEntries(
+    Object.entries(source).map(([field, item]) => [field, mergeEntities(item, entities)]),
+  );
+}
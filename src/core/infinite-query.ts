@@ -0,0 +1,501 @@
+// src/core/infinite-query.ts
+
+import { EventEmitter, Listener, Unsubscribe } from './event-emitter';
+import type { ExtendedRequestOptions } from '@fk-types/core-extension';
+import type { FetchKit } from './fetch-kit';
+import type { QueryState } from './query';
+
+/**
+ * Pages loaded by an infinite query, in display order
+ */
+export interface InfiniteData<TPage, TPageParam = unknown> {
+  /** The loaded pages */
+  pages: TPage[];
+  /** The page param each page was fetched with */
+  pageParams: TPageParam[];
+}
+
+/**
+ * Infinite query state object
+ */
+export interface InfiniteQueryState<TPage, TPageParam = unknown>
+  extends QueryState<InfiniteData<TPage, TPageParam>> {
+  /** Whether getNextPageParam returned a param for the last page */
+  hasNextPage: boolean;
+  /** Whether getPreviousPageParam returned a param for the first page */
+  hasPreviousPage: boolean;
+  /** Whether the next page is currently loading */
+  isFetchingNextPage: boolean;
+  /** Whether the previous page is currently loading */
+  isFetchingPreviousPage: boolean;
+}
+
+/**
+ * Infinite query options
+ */
+export interface InfiniteQueryOptions<TPage = any, TPageParam = any>
+  extends ExtendedRequestOptions {
+  /**
+   * Page param used to fetch the first page
+   */
+  initialPageParam?: TPageParam;
+
+  /**
+   * Derive the param of the page after the last one.
+   * Return undefined or null when there are no more pages.
+   */
+  getNextPageParam: (
+    lastPage: TPage,
+    allPages: TPage[],
+    lastPageParam: TPageParam,
+  ) => TPageParam | undefined | null;
+
+  /**
+   * Derive the param of the page before the first one.
+   * Return undefined or null when there are no earlier pages.
+   */
+  getPreviousPageParam?: (
+    firstPage: TPage,
+    allPages: TPage[],
+    firstPageParam: TPageParam,
+  ) => TPageParam | undefined | null;
+
+  /**
+   * Query parameter the page param is sent as when the URL is a string (default: 'page')
+   */
+  pageParamName?: string;
+
+  /**
+   * Whether the query is allowed to fetch automatically (default: true)
+   */
+  enabled?: boolean;
+}
+
+/**
+ * Options that only configure the InfiniteQuery and are not sent with the request
+ */
+const INFINITE_QUERY_ONLY_OPTIONS = [
+  'initialPageParam',
+  'getNextPageParam',
+  'getPreviousPageParam',
+  'pageParamName',
+  'enabled',
+] as const;
+
+/**
+ * Subscription event map for InfiniteQuery
+ */
+interface InfiniteQueryEvents<TPage, TPageParam> {
+  /**
+   * Fired when query state changes
+   */
+  stateChange: InfiniteQueryState<TPage, TPageParam>;
+
+  /**
+   * Fired when pages are successfully fetched
+   */
+  success: InfiniteData<TPage, TPageParam>;
+
+  /**
+   * Fired when an error occurs during fetching
+   */
+  error: Error;
+}
+
+/**
+ * An InfiniteQuery represents a paginated resource loaded one page at a time
+ */
+export class InfiniteQuery<TPage = unknown, TPageParam = any> {
+  /**
+   * The URL to fetch, or a function building it from a page param
+   */
+  private url: string | ((pageParam: TPageParam) => string);
+
+  /**
+   * The FetchKit instance to use for fetching
+   */
+  private fetchKit: FetchKit;
+
+  /**
+   * Options for this query
+   */
+  private options: InfiniteQueryOptions<TPage, TPageParam>;
+
+  /**
+   * Loaded pages in display order
+   */
+  private pages: TPage[] = [];
+
+  /**
+   * Page params matching the loaded pages
+   */
+  private pageParams: TPageParam[] = [];
+
+  /**
+   * Current state of the query
+   */
+  private state: InfiniteQueryState<TPage, TPageParam> = {
+    data: undefined,
+    error: null,
+    isLoading: false,
+    isSuccess: false,
+    isError: false,
+    isStale: false,
+    lastFetchedAt: null,
+    hasNextPage: false,
+    hasPreviousPage: false,
+    isFetchingNextPage: false,
+    isFetchingPreviousPage: false,
+  };
+
+  /**
+   * Event emitter for subscriptions
+   */
+  private emitter = new EventEmitter<InfiniteQueryEvents<TPage, TPageParam>>();
+
+  /**
+   * Cleanup functions for cache listeners
+   */
+  private cleanups: (() => void)[] = [];
+
+  /**
+   * Whether the query has been disposed
+   */
+  private disposed = false;
+
+  /**
+   * Create a new InfiniteQuery
+   */
+  constructor(
+    fetchKit: FetchKit,
+    url: string | ((pageParam: TPageParam) => string),
+    options: InfiniteQueryOptions<TPage, TPageParam>,
+  ) {
+    this.fetchKit = fetchKit;
+    this.url = url;
+    this.options = options;
+
+    // Keep loaded pages in sync with writes to and invalidations of the shared cache
+    this.cleanups.push(
+      this.fetchKit.on('cache:update', ({ key, data }) => {
+        if (this.isFetching()) return;
+
+        const index = this.pageParams.findIndex(param => this.getPageCacheKey(param) === key);
+        if (index !== -1) {
+          this.pages = this.pages.map((page, i) => (i === index ? data : page));
+          this.setState(this.getPagesState());
+        }
+      }),
+      this.fetchKit.on('cache:invalidate', ({ key }) => {
+        if (!this.state.isSuccess) return;
+
+        if (key === null || this.pageParams.some(param => this.getPageCacheKey(param) === key)) {
+          this.markStale();
+        }
+      }),
+    );
+
+    // Perform initial fetch
+    if (this.options.enabled !== false) {
+      this.fetch();
+    }
+  }
+
+  /**
+   * Get the current state
+   */
+  getState(): InfiniteQueryState<TPage, TPageParam> {
+    return { ...this.state };
+  }
+
+  /**
+   * Subscribe to all state changes
+   */
+  subscribe(listener: Listener<InfiniteQueryState<TPage, TPageParam>>): Unsubscribe {
+    return this.emitter.on('stateChange', listener);
+  }
+
+  /**
+   * Subscribe only to successful fetches
+   */
+  onSuccess(listener: Listener<InfiniteData<TPage, TPageParam>>): Unsubscribe {
+    return this.emitter.on('success', listener);
+  }
+
+  /**
+   * Subscribe only to errors
+   */
+  onError(listener: Listener<Error>): Unsubscribe {
+    return this.emitter.on('error', listener);
+  }
+
+  /**
+   * Get the cache key a page is stored under
+   */
+  getPageCacheKey(pageParam: TPageParam): string {
+    return this.fetchKit.getCacheKey(this.getPageUrl(pageParam), this.getPageOptions(pageParam));
+  }
+
+  /**
+   * Load the page after the last loaded one.
+   * Loads the first page instead when nothing has been loaded yet.
+   */
+  async fetchNextPage(): Promise<void> {
+    if (this.isFetching() || this.disposed) return;
+    if (this.pages.length === 0) return this.fetch();
+
+    const pageParam = this.getNextPageParam();
+    if (pageParam === undefined || pageParam === null) return;
+
+    this.setState({ isFetchingNextPage: true });
+
+    try {
+      const page = await this.fetchPage(pageParam);
+      this.pages = [...this.pages, page];
+      this.pageParams = [...this.pageParams, pageParam];
+      this.handleSuccess({ isFetchingNextPage: false });
+    } catch (error) {
+      this.handleError(error, { isFetchingNextPage: false });
+    }
+  }
+
+  /**
+   * Load the page before the first loaded one
+   */
+  async fetchPreviousPage(): Promise<void> {
+    if (this.isFetching() || this.disposed || this.pages.length === 0) return;
+
+    const pageParam = this.getPreviousPageParam();
+    if (pageParam === undefined || pageParam === null) return;
+
+    this.setState({ isFetchingPreviousPage: true });
+
+    try {
+      const page = await this.fetchPage(pageParam);
+      this.pages = [page, ...this.pages];
+      this.pageParams = [pageParam, ...this.pageParams];
+      this.handleSuccess({ isFetchingPreviousPage: false });
+    } catch (error) {
+      this.handleError(error, { isFetchingPreviousPage: false });
+    }
+  }
+
+  /**
+   * Refetch every loaded page in order.
+   * Params after the first page are derived again from the refetched pages.
+   */
+  async refetch(): Promise<void> {
+    return this.fetch();
+  }
+
+  /**
+   * Mark pages as stale and refetch them
+   */
+  markStale(): void {
+    this.setState({ isStale: true });
+
+    if (this.options.enabled !== false) {
+      this.refetch();
+    }
+  }
+
+  /**
+   * Enable or disable automatic fetching.
+   * Enabling a query that has no pages yet fetches the first page.
+   */
+  setEnabled(enabled: boolean): void {
+    this.options = { ...this.options, enabled };
+
+    if (enabled && this.pages.length === 0) {
+      this.fetch();
+    }
+  }
+
+  /**
+   * Drop all loaded pages and load the first page again
+   */
+  async reset(): Promise<void> {
+    this.pages = [];
+    this.pageParams = [];
+    this.setState({ ...this.getPagesState(), data: undefined, isSuccess: false });
+
+    return this.fetch();
+  }
+
+  /**
+   * Fetch the first page, or re-walk the loaded pages
+   */
+  private async fetch(): Promise<void> {
+    if (this.isFetching() || this.disposed) return;
+
+    const pageCount = Math.max(this.pages.length, 1);
+    let pageParam = this.pageParams.length > 0 ? this.pageParams[0] : this.getInitialPageParam();
+
+    this.setState({ isLoading: true });
+
+    try {
+      const pages: TPage[] = [];
+      const pageParams: TPageParam[] = [];
+
+      for (let i = 0; i < pageCount; i++) {
+        const page = await this.fetchPage(pageParam);
+        pages.push(page);
+        pageParams.push(pageParam);
+
+        if (i === pageCount - 1) break;
+
+        // The next cursor may have changed with the refetched page
+        const nextParam = this.options.getNextPageParam(page, pages, pageParam);
+        if (nextParam === undefined || nextParam === null) break;
+        pageParam = nextParam;
+      }
+
+      this.pages = pages;
+      this.pageParams = pageParams;
+      this.handleSuccess({ isLoading: false });
+    } catch (error) {
+      this.handleError(error, { isLoading: false });
+    }
+  }
+
+  /**
+   * Fetch a single page through FetchKit so it is cached under its own key
+   */
+  private fetchPage(pageParam: TPageParam): Promise<TPage> {
+    return this.fetchKit.get<TPage>(this.getPageUrl(pageParam), this.getPageOptions(pageParam));
+  }
+
+  /**
+   * Get the URL for a page
+   */
+  private getPageUrl(pageParam: TPageParam): string {
+    return typeof this.url === 'function' ? this.url(pageParam) : this.url;
+  }
+
+  /**
+   * Get the request options for a page, without query-only options.
+   * When the URL is a string the page param is sent as a query parameter.
+   */
+  private getPageOptions(pageParam: TPageParam): ExtendedRequestOptions {
+    const requestOptions: Record<string, any> = { ...this.options };
+    INFINITE_QUERY_ONLY_OPTIONS.forEach(option => delete requestOptions[option]);
+
+    if (typeof this.url === 'string' && pageParam !== undefined && pageParam !== null) {
+      requestOptions.params = {
+        ...this.options.params,
+        [this.options.pageParamName || 'page']: pageParam,
+      };
+    }
+
+    return requestOptions as ExtendedRequestOptions;
+  }
+
+  /**
+   * Get the param for the first page
+   */
+  private getInitialPageParam(): TPageParam {
+    return this.options.initialPageParam as TPageParam;
+  }
+
+  /**
+   * Get the param for the page after the last loaded one
+   */
+  private getNextPageParam(): TPageParam | undefined | null {
+    if (this.pages.length === 0) return undefined;
+
+    const lastIndex = this.pages.length - 1;
+    return this.options.getNextPageParam(
+      this.pages[lastIndex],
+      this.pages,
+      this.pageParams[lastIndex],
+    );
+  }
+
+  /**
+   * Get the param for the page before the first loaded one
+   */
+  private getPreviousPageParam(): TPageParam | undefined | null {
+    if (this.pages.length === 0 || !this.options.getPreviousPageParam) return undefined;
+
+    return this.options.getPreviousPageParam(this.pages[0], this.pages, this.pageParams[0]);
+  }
+
+  /**
+   * Whether any page request is in progress
+   */
+  private isFetching(): boolean {
+    return (
+      this.state.isLoading || this.state.isFetchingNextPage || this.state.isFetchingPreviousPage
+    );
+  }
+
+  /**
+   * Build the page-related part of the state from the loaded pages
+   */
+  private getPagesState(): Partial<InfiniteQueryState<TPage, TPageParam>> {
+    const nextParam = this.getNextPageParam();
+    const previousParam = this.getPreviousPageParam();
+
+    return {
+      data: { pages: this.pages, pageParams: this.pageParams },
+      hasNextPage: nextParam !== undefined && nextParam !== null,
+      hasPreviousPage: previousParam !== undefined && previousParam !== null,
+    };
+  }
+
+  /**
+   * Store the loaded pages in the state and notify subscribers
+   */
+  private handleSuccess(fetchingState: Partial<InfiniteQueryState<TPage, TPageParam>>): void {
+    this.setState({
+      ...fetchingState,
+      ...this.getPagesState(),
+      error: null,
+      isSuccess: true,
+      isError: false,
+      isStale: false,
+      lastFetchedAt: Date.now(),
+    });
+
+    this.emitter.emit('success', { pages: this.pages, pageParams: this.pageParams });
+  }
+
+  /**
+   * Store a fetch error in the state and notify subscribers
+   */
+  private handleError(
+    error: unknown,
+    fetchingState: Partial<InfiniteQueryState<TPage, TPageParam>>,
+  ): void {
+    const typedError = error instanceof Error ? error : new Error(String(error));
+
+    this.setState({
+      ...fetchingState,
+      error: typedError,
+      isError: true,
+      isStale: false,
+    });
+
+    this.emitter.emit('error', typedError);
+  }
+
+  /**
+   * Update query state and notify subscribers
+   */
+  private setState(newState: Partial<InfiniteQueryState<TPage, TPageParam>>): void {
+    this.state = { ...this.state, ...newState };
+    this.emitter.emit('stateChange', this.state);
+  }
+
+  /**
+   * Clean up resources used by this query
+   */
+  dispose(): void {
+    if (this.disposed) return;
+    this.disposed = true;
+
+    this.cleanups.forEach(cleanup => cleanup());
+    this.cleanups = [];
+    this.emitter.removeAllListeners();
+  }
+}
@@ -0,0 +1,145 @@
+// src/core/interceptors.ts
+
+import type { AdapterResponse } from '@fk-types/adapter';
+import type { FetchKitError } from '@fk-types/error';
+import type {
+  ErrorInterceptor,
+  InterceptedRequest,
+  InterceptorHandle,
+  Interceptors,
+  RequestInterceptor,
+  ResponseInterceptor,
+} from '@fk-types/interceptor';
+
+/**
+ * Keeps an ordered list of interceptors of a single kind
+ */
+export class InterceptorManager<T> implements InterceptorHandle<T> {
+  /**
+   * Map of interceptor ids to interceptors, in registration order
+   */
+  private handlers: Map<number, T> = new Map();
+
+  /**
+   * Id assigned to the next registered interceptor
+   */
+  private nextId = 0;
+
+  /**
+   * Add an interceptor to the end of the chain
+   * @param interceptor - The interceptor to add
+   * @returns An id that can be passed to eject
+   */
+  use(interceptor: T): number {
+    const id = this.nextId++;
+    this.handlers.set(id, interceptor);
+    return id;
+  }
+
+  /**
+   * Remove a previously added interceptor
+   * @param id - The id returned by use
+   * @returns True if the interceptor was removed
+   */
+  eject(id: number): boolean {
+    return this.handlers.delete(id);
+  }
+
+  /**
+   * Remove all interceptors
+   */
+  clear(): void {
+    this.handlers.clear();
+  }
+
+  /**
+   * Get all interceptors in the order they should run
+   */
+  getAll(): T[] {
+    return Array.from(this.handlers.values());
+  }
+
+  /**
+   * Get the number of registered interceptors
+   */
+  get size(): number {
+    return this.handlers.size;
+  }
+}
+
+/**
+ * Interceptor managers owned by a FetchKit instance
+ */
+export interface InterceptorManagers extends Interceptors {
+  request: InterceptorManager<RequestInterceptor>;
+  response: InterceptorManager<ResponseInterceptor>;
+  error: InterceptorManager<ErrorInterceptor>;
+}
+
+/**
+ * Creates an empty set of interceptor managers
+ */
+export function createInterceptors(): InterceptorManagers {
+  return {
+    request: new InterceptorManager<RequestInterceptor>(),
+    response: new InterceptorManager<ResponseInterceptor>(),
+    error: new InterceptorManager<ErrorInterceptor>(),
+  };
+}
+
+/**
+ * Pass a request through the request interceptors in order
+ */
+export async function runRequestInterceptors(
+  manager: InterceptorManager<RequestInterceptor>,
+  request: InterceptedRequest,
+): Promise<InterceptedRequest> {
+  let current = request;
+
+  for (const interceptor of manager.getAll()) {
+    current = await interceptor(current);
+  }
+
+  return current;
+}
+
+/**
+ * Pass a response through the response interceptors in order
+ */
+export async function runResponseInterceptors(
+  manager: InterceptorManager<ResponseInterceptor>,
+  response: AdapterResponse,
+): Promise<AdapterResponse> {
+  let current = response;
+
+  for (const interceptor of manager.getAll()) {
+    current = await interceptor(current);
+  }
+
+  return current;
+}
+
+/**
+ * Pass an error through the error interceptors in order
+ * @returns A response if an interceptor recovered from the error
+ * @throws The original error, or the error thrown by an interceptor, if none recovered
+ */
+export async function runErrorInterceptors(
+  manager: InterceptorManager<ErrorInterceptor>,
+  error: FetchKitError,
+): Promise<AdapterResponse> {
+  let current = error;
+
+  for (const interceptor of manager.getAll()) {
+    try {
+      const recovered = await interceptor(current);
+      if (recovered) {
+        return recovered;
+      }
+    } catch (interceptorError) {
+      current = interceptorError as FetchKitError;
+    }
+  }
+
+  throw current;
+}
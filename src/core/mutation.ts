@@ -0,0 +1,174 @@
+// src/core/mutation.ts
+
+import { EventEmitter, Listener, Unsubscribe } from './event-emitter';
+import type { MutationOptions, MutationState } from '@fk-types/mutation';
+import type { FetchKit } from './fetch-kit';
+
+/**
+ * Subscription event map for Mutation
+ */
+interface MutationEvents<TData, TVariables> {
+  /**
+   * Fired when mutation state changes
+   */
+  stateChange: MutationState<TData, TVariables>;
+
+  /**
+   * Fired when a mutation succeeds
+   */
+  success: TData;
+
+  /**
+   * Fired when a mutation fails
+   */
+  error: Error;
+}
+
+/**
+ * A Mutation represents a reusable write operation with subscription capabilities
+ */
+export class Mutation<TData = unknown, TVariables = any> {
+  /**
+   * The URL to send the mutation to, or a function deriving it from the variables
+   */
+  private url: string | ((variables: TVariables) => string);
+
+  /**
+   * The FetchKit instance to use for mutating
+   */
+  private fetchKit: FetchKit;
+
+  /**
+   * Options for this mutation
+   */
+  private options: MutationOptions<TData, TVariables>;
+
+  /**
+   * Current state of the mutation
+   */
+  private state: MutationState<TData, TVariables> = {
+    data: undefined,
+    error: null,
+    variables: undefined,
+    isIdle: true,
+    isPending: false,
+    isSuccess: false,
+    isError: false,
+  };
+
+  /**
+   * Event emitter for subscriptions
+   */
+  private emitter = new EventEmitter<MutationEvents<TData, TVariables>>();
+
+  /**
+   * Create a new Mutation
+   */
+  constructor(
+    fetchKit: FetchKit,
+    url: string | ((variables: TVariables) => string),
+    options: MutationOptions<TData, TVariables> = {},
+  ) {
+    this.fetchKit = fetchKit;
+    this.url = url;
+    this.options = options;
+  }
+
+  /**
+   * Get the current state
+   */
+  getState(): MutationState<TData, TVariables> {
+    return { ...this.state };
+  }
+
+  /**
+   * Subscribe to all state changes
+   */
+  subscribe(listener: Listener<MutationState<TData, TVariables>>): Unsubscribe {
+    return this.emitter.on('stateChange', listener);
+  }
+
+  /**
+   * Subscribe only to successful mutations
+   */
+  onSuccess(listener: Listener<TData>): Unsubscribe {
+    return this.emitter.on('success', listener);
+  }
+
+  /**
+   * Subscribe only to errors
+   */
+  onError(listener: Listener<Error>): Unsubscribe {
+    return this.emitter.on('error', listener);
+  }
+
+  /**
+   * Update mutation state and notify subscribers
+   */
+  private setState(newState: Partial<MutationState<TData, TVariables>>): void {
+    this.state = { ...this.state, ...newState };
+    this.emitter.emit('stateChange', this.state);
+  }
+
+  /**
+   * Run the mutation with the given variables
+   */
+  async mutate(variables: TVariables): Promise<TData> {
+    const url = typeof this.url === 'function' ? this.url(variables) : this.url;
+
+    this.setState({
+      variables,
+      isIdle: false,
+      isPending: true,
+      isSuccess: false,
+      isError: false,
+    });
+
+    try {
+      const data = await this.fetchKit.mutate<TData, TVariables>(url, variables, this.options);
+
+      this.setState({
+        data,
+        error: null,
+        isPending: false,
+        isSuccess: true,
+      });
+
+      this.emitter.emit('success', data);
+      return data;
+    } catch (error) {
+      const typedError = error instanceof Error ? error : new Error(String(error));
+
+      this.setState({
+        error: typedError,
+        isPending: false,
+        isError: true,
+      });
+
+      this.emitter.emit('error', typedError);
+      throw typedError;
+    }
+  }
+
+  /**
+   * Reset the mutation to its idle state
+   */
+  reset(): void {
+    this.setState({
+      data: undefined,
+      error: null,
+      variables: undefined,
+      isIdle: true,
+      isPending: false,
+      isSuccess: false,
+      isError: false,
+    });
+  }
+
+  /**
+   * Clean up resources used by this mutation
+   */
+  dispose(): void {
+    this.emitter.removeAllListeners();
+  }
+}
@@ -0,0 +1,529 @@
+// src/core/offline-queue.ts
+
+import {
+  CachePersistence,
+  PersistenceOptions,
+  createPersistence,
+  isCachePersistence,
+} from '@cache/persistence/cache-persistence';
+import type { CacheEntry } from '@cache/cache-entry';
+import { ErrorCategory, FetchKitError } from '@fk-types/error';
+import type {
+  OfflineQueueEvents,
+  OfflineQueueOptions,
+  OfflineRequestOptions,
+  QueuedMutation,
+} from '@fk-types/offline';
+import { EventEmitter, Listener, Unsubscribe } from './event-emitter';
+
+/**
+ * A request to send, either a queued mutation being replayed or a probe
+ */
+export type OfflineRequest = Pick<QueuedMutation, 'url' | 'method' | 'body' | 'headers'>;
+
+/**
+ * Sends a request without queueing it again
+ */
+export type OfflineSender = (request: OfflineRequest) => Promise<any>;
+
+/**
+ * Prefix of queued mutations in the persistence backend, so a backend shared
+ * with the cache never mixes the two
+ */
+const STORAGE_PREFIX = 'offline:';
+
+/**
+ * Error categories meaning the server is still unreachable
+ */
+const UNREACHABLE_CATEGORIES = [
+  ErrorCategory.Network,
+  ErrorCategory.Timeout,
+  ErrorCategory.CircuitOpen,
+  ErrorCategory.Cancel,
+];
+
+/**
+ * Outcome of replaying one mutation: move on to the next one, or stop until the next replay
+ */
+type ReplayOutcome = 'next' | 'stop';
+
+/**
+ * Persists mutations that could not reach the server and replays them in order
+ * once connectivity returns, coalescing mutations that share a key.
+ */
+export class OfflineQueue {
+  /**
+   * Sends a request without queueing it again
+   */
+  private send: OfflineSender;
+
+  /**
+   * Queued mutations, oldest first
+   */
+  private queue: QueuedMutation[] = [];
+
+  /**
+   * Persistence backend, once resolved
+   */
+  private persistence: CachePersistence | null = null;
+
+  /**
+   * Resolves once queued mutations have been loaded from persistence
+   */
+  private hydration: Promise<void>;
+
+  /**
+   * Chain of persistence writes, keeping them in order
+   */
+  private writes: Promise<void>;
+
+  /**
+   * The replay in progress, if any
+   */
+  private replaying: Promise<void> | null = null;
+
+  /**
+   * Id of the mutation currently being sent, which is never coalesced into
+   */
+  private sendingId: string | null = null;
+
+  /**
+   * Timer for the next connectivity probe
+   */
+  private probeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Counter making ids unique within a millisecond
+   */
+  private sequence = 0;
+
+  /**
+   * Event emitter for queue events
+   */
+  private emitter = new EventEmitter<OfflineQueueEvents>();
+
+  /**
+   * Options with defaults applied
+   */
+  private options: Required<Omit<OfflineQueueOptions, 'persistence' | 'probe' | 'onConflict'>> &
+    Pick<OfflineQueueOptions, 'probe' | 'onConflict'>;
+
+  /**
+   * Creates a new offline queue
+   * @param send - Sends a request without queueing it again
+   * @param options - Queue options
+   */
+  constructor(send: OfflineSender, options: OfflineQueueOptions = {}) {
+    this.send = send;
+
+    const {
+      persistence = {
+        type: 'indexedDB',
+        dbName: 'fetchkit-offline',
+        storeName: 'mutations',
+        prefix: 'fk_offline:',
+      },
+      ...rest
+    } = options;
+
+    this.options = {
+      probeInterval: 30000,
+      coalesce: 'replace',
+      maxAttempts: 3,
+      ...rest,
+    };
+
+    this.hydration = this.init(persistence);
+    this.writes = this.hydration;
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', this.handleOnline);
+    }
+  }
+
+  /**
+   * Wait until queued mutations have been loaded from persistence
+   */
+  ready(): Promise<void> {
+    return this.hydration;
+  }
+
+  /**
+   * Check whether the browser reports being offline
+   */
+  isOffline(): boolean {
+    return typeof navigator !== 'undefined' && navigator.onLine === false;
+  }
+
+  /**
+   * Queue a mutation, coalescing it with a queued mutation with the same key
+   * @param request - The mutation to queue
+   * @param options - Coalescing key and strategy for this mutation
+   * @returns The queued mutation, which may be an existing one it was coalesced into
+   */
+  async enqueue(
+    request: OfflineRequest,
+    options: OfflineRequestOptions = {},
+  ): Promise<QueuedMutation> {
+    await this.hydration;
+
+    const key = options.key ?? getDefaultKey(request);
+    const strategy = options.coalesce ?? this.options.coalesce;
+    const existing =
+      strategy === 'append'
+        ? undefined
+        : this.queue.find(item => item.key === key && item.id !== this.sendingId);
+
+    let mutation: QueuedMutation;
+    if (existing) {
+      // Keep the queued mutation's place in line so replay order is preserved
+      mutation = {
+        ...existing,
+        url: request.url,
+        method: request.method,
+        headers: request.headers,
+        body:
+          strategy === 'merge' && isPlainObject(existing.body) && isPlainObject(request.body)
+            ? { ...existing.body, ...request.body }
+            : request.body,
+      };
+      this.queue[this.queue.indexOf(existing)] = mutation;
+    } else {
+      const queuedAt = Date.now();
+      mutation = {
+        ...request,
+        id: `${queuedAt.toString(36)}-${(this.sequence++).toString(36).padStart(4, '0')}`,
+        key,
+        queuedAt,
+        attempts: 0,
+      };
+      this.queue.push(mutation);
+    }
+
+    this.save(mutation);
+    this.emitter.emit('queued', { mutation, coalesced: !!existing });
+    this.scheduleProbe();
+
+    return mutation;
+  }
+
+  /**
+   * Replay queued mutations in order.
+   * Replay stops at the first mutation that still cannot reach the server.
+   */
+  replay(): Promise<void> {
+    if (!this.replaying) {
+      this.replaying = this.runReplay().finally(() => {
+        this.replaying = null;
+        this.scheduleProbe();
+      });
+    }
+
+    return this.replaying;
+  }
+
+  /**
+   * Get the queued mutations, oldest first
+   */
+  async getQueue(): Promise<QueuedMutation[]> {
+    await this.hydration;
+    return this.queue.map(mutation => ({ ...mutation }));
+  }
+
+  /**
+   * Get the number of queued mutations
+   */
+  size(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Drop every queued mutation
+   */
+  async clear(): Promise<void> {
+    await this.hydration;
+
+    const removed = this.queue;
+    this.queue = [];
+    removed.forEach(mutation => this.erase(mutation));
+    this.stopProbe();
+
+    await this.writes;
+  }
+
+  /**
+   * Wait for all queued persistence writes to finish
+   */
+  async flushPersistence(): Promise<void> {
+    await this.writes;
+  }
+
+  /**
+   * Subscribe to queue events
+   */
+  on<E extends keyof OfflineQueueEvents>(
+    event: E,
+    listener: Listener<OfflineQueueEvents[E]>,
+  ): Unsubscribe {
+    return this.emitter.on(event, listener);
+  }
+
+  /**
+   * Stop listening for connectivity changes and probing
+   */
+  dispose(): void {
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', this.handleOnline);
+    }
+
+    this.stopProbe();
+    this.emitter.removeAllListeners();
+  }
+
+  /**
+   * Replay once the browser is back online
+   */
+  private handleOnline = (): void => {
+    this.replay().catch(error => console.error('Error replaying offline queue:', error));
+  };
+
+  /**
+   * Replay queued mutations until the queue is empty or the server is unreachable
+   */
+  private async runReplay(): Promise<void> {
+    await this.hydration;
+
+    while (this.queue.length > 0) {
+      if ((await this.replayOne(this.queue[0])) === 'stop') break;
+    }
+
+    await this.writes;
+  }
+
+  /**
+   * Send one queued mutation and decide what happens to it
+   */
+  private async replayOne(mutation: QueuedMutation): Promise<ReplayOutcome> {
+    this.sendingId = mutation.id;
+
+    try {
+      const data = await this.send(mutation);
+      this.remove(mutation);
+      this.emitter.emit('replayed', { mutation, data });
+      return 'next';
+    } catch (error) {
+      return this.handleReplayError(mutation, error as FetchKitError);
+    } finally {
+      this.sendingId = null;
+    }
+  }
+
+  /**
+   * Keep, retry or drop a mutation whose replay failed
+   */
+  private async handleReplayError(
+    mutation: QueuedMutation,
+    error: FetchKitError,
+  ): Promise<ReplayOutcome> {
+    // Still offline; keep the mutation without counting an attempt
+    if (UNREACHABLE_CATEGORIES.includes(error.category)) {
+      return 'stop';
+    }
+
+    if (error.status === 409 || error.status === 412) {
+      const resolution = this.options.onConflict
+        ? await this.options.onConflict({ ...mutation }, error)
+        : 'discard';
+
+      if (resolution === 'discard') {
+        this.fail(mutation, error);
+        return 'next';
+      }
+
+      // Send the mutation again right away, possibly rebased by the handler
+      return this.countAttempt(
+        resolution === 'retry' ? mutation : { ...mutation, ...resolution },
+        error,
+        'next',
+      );
+    }
+
+    // The server will keep rejecting a malformed or unauthorized request
+    if (error.category === ErrorCategory.Client) {
+      this.fail(mutation, error);
+      return 'next';
+    }
+
+    // Keep later mutations waiting so they are never applied out of order
+    return this.countAttempt(mutation, error, 'stop');
+  }
+
+  /**
+   * Count a failed attempt, dropping the mutation once it has used up its attempts
+   */
+  private countAttempt(
+    mutation: QueuedMutation,
+    error: FetchKitError,
+    outcome: ReplayOutcome,
+  ): ReplayOutcome {
+    const updated = { ...mutation, attempts: mutation.attempts + 1 };
+
+    if (updated.attempts >= this.options.maxAttempts) {
+      this.fail(updated, error);
+      return 'next';
+    }
+
+    const index = this.queue.findIndex(item => item.id === mutation.id);
+    if (index !== -1) {
+      this.queue[index] = updated;
+      this.save(updated);
+    }
+
+    return outcome;
+  }
+
+  /**
+   * Drop a mutation that will not be replayed
+   */
+  private fail(mutation: QueuedMutation, error: FetchKitError): void {
+    this.remove(mutation);
+    this.emitter.emit('failed', { mutation, error });
+  }
+
+  /**
+   * Remove a mutation from the queue and from persistence
+   */
+  private remove(mutation: QueuedMutation): void {
+    this.queue = this.queue.filter(item => item.id !== mutation.id);
+    this.erase(mutation);
+  }
+
+  /**
+   * Probe connectivity while mutations are queued
+   */
+  private scheduleProbe(): void {
+    const { probe, probeInterval } = this.options;
+    if (!probe || this.probeTimer || this.queue.length === 0) return;
+
+    this.probeTimer = setTimeout(async () => {
+      this.probeTimer = null;
+
+      if (await this.isReachable()) {
+        await this.replay().catch(error => console.error('Error replaying offline queue:', error));
+      } else {
+        this.scheduleProbe();
+      }
+    }, probeInterval);
+  }
+
+  /**
+   * Cancel the next connectivity probe
+   */
+  private stopProbe(): void {
+    if (this.probeTimer) {
+      clearTimeout(this.probeTimer);
+      this.probeTimer = null;
+    }
+  }
+
+  /**
+   * Run the configured probe
+   */
+  private async isReachable(): Promise<boolean> {
+    const { probe } = this.options;
+
+    try {
+      if (typeof probe === 'function') {
+        return await probe();
+      }
+
+      await this.send({ url: probe as string, method: 'HEAD' });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Resolve the persistence backend and load queued mutations
+   */
+  private async init(persistence: CachePersistence | PersistenceOptions): Promise<void> {
+    try {
+      this.persistence = isCachePersistence(persistence)
+        ? persistence
+        : await createPersistence(persistence);
+
+      const keys = (await this.persistence.keys()).filter(key => key.startsWith(STORAGE_PREFIX));
+      const entries = await Promise.all(
+        keys.map(key => this.persistence!.get<QueuedMutation>(key)),
+      );
+
+      const loaded = entries
+        .filter((entry): entry is CacheEntry<QueuedMutation> => !!entry)
+        .map(entry => entry.data);
+
+      // Mutations queued before loading finished come after the loaded ones
+      this.queue = [...loaded.sort(compareMutations), ...this.queue];
+    } catch (error) {
+      console.error('Error initializing offline queue persistence:', error);
+    }
+  }
+
+  /**
+   * Write a mutation to persistence
+   */
+  private save(mutation: QueuedMutation): void {
+    this.persist(persistence =>
+      persistence.set<QueuedMutation>(STORAGE_PREFIX + mutation.id, {
+        data: mutation,
+        createdAt: mutation.queuedAt,
+        staleAt: Number.MAX_SAFE_INTEGER,
+        expiresAt: Number.MAX_SAFE_INTEGER,
+        isRevalidating: false,
+      }),
+    );
+  }
+
+  /**
+   * Delete a mutation from persistence
+   */
+  private erase(mutation: QueuedMutation): void {
+    this.persist(persistence => persistence.delete(STORAGE_PREFIX + mutation.id));
+  }
+
+  /**
+   * Queue a write against the persistence backend
+   */
+  private persist(operation: (persistence: CachePersistence) => Promise<unknown>): void {
+    this.writes = this.writes
+      .then(async () => {
+        if (this.persistence) {
+          await operation(this.persistence);
+        }
+      })
+      .catch(error => {
+        console.error('Error writing to offline queue persistence:', error);
+      });
+  }
+}
+
+/**
+ * Key deduplicating identical mutations when no key is given
+ */
+function getDefaultKey(request: OfflineRequest): string {
+  return `${request.method}:${request.url}:${JSON.stringify(request.body ?? null)}`;
+}
+
+/**
+ * Order mutations by when they were queued
+ */
+function compareMutations(a: QueuedMutation, b: QueuedMutation): number {
+  return a.queuedAt - b.queuedAt || a.id.localeCompare(b.id);
+}
+
+/**
+ * Check whether a value is a plain object that can be shallow-merged
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
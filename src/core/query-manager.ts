@@ -27,18 +27,28 @@ export class QueryManager {
   /**
    * Create or get an existing query
    */
-  getQuery<T>(url: string, options: QueryOptions = {}): Query<T> {
+  getQuery<T, TSelected = T>(
+    url: string,
+    options: QueryOptions<T, TSelected> = {},
+  ): Query<T, TSelected> {
     const queryKey = this.getQueryKey(url, options);
 
     // Return existing query if it exists
     if (this.queries.has(queryKey)) {
-      return this.queries.get(queryKey) as Query<T>;
+      return this.queries.get(queryKey) as Query<T, TSelected>;
     }
 
     // Create and store new query
-    const query = new Query<T>(this.fetchKit, url, options);
+    const query = new Query<T, TSelected>(this.fetchKit, url, options);
     this.queries.set(queryKey, query);
 
+    // Stop tracking the query once it disposes itself
+    query.onDispose(() => {
+      if (this.queries.get(queryKey) === query) {
+        this.queries.delete(queryKey);
+      }
+    });
+
     return query;
   }
 
@@ -102,8 +112,9 @@ export class QueryManager {
     const query = this.queries.get(queryKey);
 
     if (query) {
+      this.queries.delete(queryKey);
       query.dispose();
-      return this.queries.delete(queryKey);
+      return true;
     }
 
     return false;
@@ -117,8 +128,8 @@ export class QueryManager {
 
     this.queries.forEach((query, key) => {
       if (predicate(query)) {
-        query.dispose();
         this.queries.delete(key);
+        query.dispose();
         count++;
       }
     });
@@ -130,8 +141,9 @@ export class QueryManager {
    * Remove all queries
    */
   removeAllQueries(): void {
-    this.queries.forEach(query => query.dispose());
+    const queries = Array.from(this.queries.values());
     this.queries.clear();
+    queries.forEach(query => query.dispose());
   }
 
   /**
@@ -22,12 +22,14 @@ export interface QueryState<T> {
   isStale: boolean;
   /** Timestamp of when the data was last fetched */
   lastFetchedAt: number | null;
+  /** Whether the data belongs to a previous URL while the current one loads */
+  isPreviousData?: boolean;
 }
 
 /**
  * Base query options
  */
-export interface QueryOptions extends ExtendedRequestOptions {
+export interface QueryOptions<T = any, TSelected = T> extends ExtendedRequestOptions {
   /**
    * Automatically refetch data when it becomes stale
    */
@@ -42,8 +44,66 @@ export interface QueryOptions extends ExtendedRequestOptions {
    * Initial data to use until first fetch completes
    */
   initialData?: any;
+
+  /**
+   * Whether the query is allowed to fetch automatically (default: true)
+   */
+  enabled?: boolean | (() => boolean);
+
+  /**
+   * Queries that must have loaded successfully before this query fetches.
+   * The query fetches again whenever one of them receives new data.
+   */
+  dependsOn?: Query<any, any> | Query<any, any>[];
+
+  /**
+   * Transform the fetched data before it is stored in the query state
+   */
+  select?: (data: T) => TSelected;
+
+  /**
+   * Keep the previous data while data for a new URL is loading
+   */
+  keepPreviousData?: boolean;
+
+  /**
+   * Refetch data at this interval in milliseconds
+   */
+  refetchInterval?: number;
+
+  /**
+   * Refetch data when the browser comes back online
+   */
+  refetchOnReconnect?: boolean;
+
+  /**
+   * Dispose the query once its last subscriber unsubscribes (default: true)
+   */
+  autoDispose?: boolean;
+
+  /**
+   * Delay in milliseconds before an unsubscribed query is disposed (default: 0)
+   */
+  disposeDelay?: number;
 }
 
+/**
+ * Options that only configure the Query and are not sent with the request
+ */
+const QUERY_ONLY_OPTIONS = [
+  'refetchOnStale',
+  'refetchOnWindowFocus',
+  'initialData',
+  'enabled',
+  'dependsOn',
+  'select',
+  'keepPreviousData',
+  'refetchInterval',
+  'refetchOnReconnect',
+  'autoDispose',
+  'disposeDelay',
+] as const;
+
 /**
  * Subscription event map for Query
  */
@@ -62,16 +122,21 @@ interface QueryEvents<T> {
    * Fired when an error occurs during fetching
    */
   error: Error;
+
+  /**
+   * Fired when the query is disposed
+   */
+  dispose: void;
 }
 
 /**
  * A Query represents a fetchable resource with subscription capabilities
  */
-export class Query<T = unknown> {
+export class Query<T = unknown, TSelected = T> {
   /**
-   * The URL to fetch
+   * The URL to fetch, or a function returning it for dependent queries
    */
-  private _url: string;
+  private _url: string | (() => string);
 
   /**
    * The FetchKit instance to use for fetching
@@ -81,12 +146,12 @@ export class Query<T = unknown> {
   /**
    * Options for this query
    */
-  private options: QueryOptions;
+  private options: QueryOptions<T, TSelected>;
 
   /**
    * Current state of the query
    */
-  private state: QueryState<T> = {
+  private state: QueryState<TSelected> = {
     data: undefined,
     error: null,
     isLoading: false,
@@ -99,17 +164,46 @@ export class Query<T = unknown> {
   /**
    * Event emitter for subscriptions
    */
-  private emitter = new EventEmitter<QueryEvents<T>>();
+  private emitter = new EventEmitter<QueryEvents<TSelected>>();
 
   /**
    * Window focus event cleanup function
    */
   private windowFocusCleanup: (() => void) | null = null;
 
+  /**
+   * Cleanup functions for cache, dependency, reconnect and interval listeners
+   */
+  private cleanups: (() => void)[] = [];
+
+  /**
+   * Number of active state subscribers
+   */
+  private subscriberCount = 0;
+
+  /**
+   * Timer for disposing the query after its last subscriber leaves
+   */
+  private disposeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Cache key of the most recent fetch, used to detect URL changes
+   */
+  private lastFetchedKey: string | null = null;
+
+  /**
+   * Whether the query has been disposed
+   */
+  private disposed = false;
+
   /**
    * Create a new Query
    */
-  constructor(fetchKit: FetchKit, url: string, options: QueryOptions = {}) {
+  constructor(
+    fetchKit: FetchKit,
+    url: string | (() => string),
+    options: QueryOptions<T, TSelected> = {},
+  ) {
     this.fetchKit = fetchKit;
     this._url = url;
     this.options = options;
@@ -135,14 +229,70 @@ export class Query<T = unknown> {
       this.windowFocusCleanup = () => window.removeEventListener('focus', handler);
     }
 
+    // Refetch when the network comes back
+    if (options.refetchOnReconnect && typeof window !== 'undefined') {
+      const handler = () => {
+        if (this.isEnabled()) {
+          this.refetch();
+        }
+      };
+
+      window.addEventListener('online', handler);
+      this.cleanups.push(() => window.removeEventListener('online', handler));
+    }
+
+    // Poll at the configured interval
+    if (options.refetchInterval && options.refetchInterval > 0) {
+      const intervalId = setInterval(() => {
+        if (this.isEnabled()) {
+          this.refetch();
+        }
+      }, options.refetchInterval);
+
+      this.cleanups.push(() => clearInterval(intervalId));
+    }
+
+    // Fetch again when a query this one depends on receives new data
+    this.getDependencies().forEach(dependency => {
+      let lastData = dependency.getState().data;
+
+      this.cleanups.push(
+        dependency.subscribe(dependencyState => {
+          if (!dependencyState.isSuccess || dependencyState.isLoading) return;
+          if (dependencyState.data === lastData) return;
+
+          lastData = dependencyState.data;
+          if (this.isEnabled()) {
+            this.fetch();
+          }
+        }),
+      );
+    });
+
+    // Keep in sync with writes to and invalidations of the shared cache
+    this.cleanups.push(
+      this.fetchKit.on('cache:update', ({ key, data }) => {
+        if (!this.state.isLoading && key === this.getCacheKey()) {
+          this.applyData(data);
+        }
+      }),
+      this.fetchKit.on('cache:invalidate', ({ key }) => {
+        if (this.state.isSuccess && (key === null || key === this.getCacheKey())) {
+          this.markStale();
+        }
+      }),
+    );
+
     // Perform initial fetch
-    this.fetch();
+    if (this.isEnabled()) {
+      this.fetch();
+    }
   }
 
   /**
    * Get the current state
    */
-  getState(): QueryState<T> {
+  getState(): QueryState<TSelected> {
     return { ...this.state };
   }
 
@@ -150,20 +300,43 @@ export class Query<T = unknown> {
    * Get the url
    */
   get url(): string {
-    return this._url;
+    return typeof this._url === 'function' ? this._url() : this._url;
   }
 
   /**
-   * Subscribe to all state changes
+   * Subscribe to all state changes.
+   * The query is disposed once the last subscriber unsubscribes unless autoDispose is false.
    */
-  subscribe(listener: Listener<QueryState<T>>): Unsubscribe {
-    return this.emitter.on('stateChange', listener);
+  subscribe(listener: Listener<QueryState<TSelected>>): Unsubscribe {
+    const unsubscribe = this.emitter.on('stateChange', listener);
+
+    this.subscriberCount++;
+    if (this.disposeTimer) {
+      clearTimeout(this.disposeTimer);
+      this.disposeTimer = null;
+    }
+
+    let active = true;
+    return () => {
+      if (!active) return;
+      active = false;
+
+      unsubscribe();
+      this.subscriberCount--;
+
+      if (this.subscriberCount === 0 && this.options.autoDispose !== false) {
+        this.disposeTimer = setTimeout(() => {
+          this.disposeTimer = null;
+          this.dispose();
+        }, this.options.disposeDelay ?? 0);
+      }
+    };
   }
 
   /**
    * Subscribe only to successful fetches
    */
-  onSuccess(listener: Listener<T>): Unsubscribe {
+  onSuccess(listener: Listener<TSelected>): Unsubscribe {
     return this.emitter.on('success', listener);
   }
 
@@ -174,10 +347,108 @@ export class Query<T = unknown> {
     return this.emitter.on('error', listener);
   }
 
+  /**
+   * Subscribe to disposal of this query
+   */
+  onDispose(listener: Listener<void>): Unsubscribe {
+    return this.emitter.on('dispose', listener);
+  }
+
+  /**
+   * Get the number of active state subscribers
+   */
+  getSubscriberCount(): number {
+    return this.subscriberCount;
+  }
+
+  /**
+   * Check whether the query has been disposed
+   */
+  isDisposed(): boolean {
+    return this.disposed;
+  }
+
+  /**
+   * Enable or disable automatic fetching.
+   * Enabling a query that has no data yet fetches it immediately.
+   */
+  setEnabled(enabled: boolean): void {
+    this.options = { ...this.options, enabled };
+
+    if (this.isEnabled() && !this.state.isSuccess) {
+      this.fetch();
+    }
+  }
+
+  /**
+   * Check whether the query may fetch automatically
+   */
+  isEnabled(): boolean {
+    if (this.disposed) return false;
+
+    const { enabled = true } = this.options;
+    if (!(typeof enabled === 'function' ? enabled() : enabled)) {
+      return false;
+    }
+
+    return this.getDependencies().every(dependency => dependency.getState().isSuccess);
+  }
+
+  /**
+   * Get the queries this one depends on
+   */
+  private getDependencies(): Query<any, any>[] {
+    const { dependsOn } = this.options;
+    if (!dependsOn) return [];
+    return Array.isArray(dependsOn) ? dependsOn : [dependsOn];
+  }
+
+  /**
+   * Get the cache key for the current URL
+   */
+  private getCacheKey(): string {
+    return this.fetchKit.getCacheKey(this.url, this.getRequestOptions());
+  }
+
+  /**
+   * Get the options to send with the request, without query-only options
+   */
+  private getRequestOptions(): ExtendedRequestOptions {
+    const requestOptions: Record<string, any> = { ...this.options };
+    QUERY_ONLY_OPTIONS.forEach(option => delete requestOptions[option]);
+    return requestOptions as ExtendedRequestOptions;
+  }
+
+  /**
+   * Apply the select transform to raw data
+   */
+  private selectData(data: T): TSelected {
+    return this.options.select ? this.options.select(data) : (data as unknown as TSelected);
+  }
+
+  /**
+   * Store raw data in the state and notify subscribers
+   */
+  private applyData(data: T): void {
+    const selected = this.selectData(data);
+
+    this.setState({
+      data: selected,
+      error: null,
+      isSuccess: true,
+      isError: false,
+      isStale: false,
+      isPreviousData: false,
+      lastFetchedAt: Date.now(),
+    });
+
+    this.emitter.emit('success', selected);
+  }
+
   /**
    * Update query state and notify subscribers
    */
-  private setState(newState: Partial<QueryState<T>>): void {
+  private setState(newState: Partial<QueryState<TSelected>>): void {
     this.state = { ...this.state, ...newState };
     this.emitter.emit('stateChange', this.state);
   }
@@ -187,24 +458,37 @@ export class Query<T = unknown> {
    */
   private async fetch(): Promise<void> {
     // Don't fetch if already loading
-    if (this.state.isLoading) return;
-
-    this.setState({ isLoading: true });
+    if (this.state.isLoading || this.disposed) return;
+
+    const url = this.url;
+    const requestOptions = this.getRequestOptions();
+    const cacheKey = this.fetchKit.getCacheKey(url, requestOptions);
+    const urlChanged = this.lastFetchedKey !== null && this.lastFetchedKey !== cacheKey;
+    this.lastFetchedKey = cacheKey;
+
+    if (urlChanged && !this.options.keepPreviousData) {
+      // Data for another URL must not be shown for this one
+      this.setState({ isLoading: true, data: undefined, isSuccess: false, isPreviousData: false });
+    } else {
+      this.setState({ isLoading: true, isPreviousData: urlChanged });
+    }
 
     try {
-      const data = await this.fetchKit.get<T>(this.url, this.options);
+      const data = await this.fetchKit.get<T>(url, requestOptions);
+      const selected = this.selectData(data);
 
       this.setState({
-        data,
+        data: selected,
         error: null,
         isLoading: false,
         isSuccess: true,
         isError: false,
         isStale: false,
+        isPreviousData: false,
         lastFetchedAt: Date.now(),
       });
 
-      this.emitter.emit('success', data);
+      this.emitter.emit('success', selected);
     } catch (error) {
       const typedError = error instanceof Error ? error : new Error(String(error));
 
@@ -232,7 +516,7 @@ export class Query<T = unknown> {
   markStale(): void {
     this.setState({ isStale: true });
 
-    if (this.options.refetchOnStale !== false) {
+    if (this.options.refetchOnStale !== false && this.isEnabled()) {
       this.refetch();
     }
   }
@@ -241,20 +525,25 @@ export class Query<T = unknown> {
    * Update data without fetching
    */
   setData(data: T): void {
-    this.setState({
-      data,
-      isSuccess: true,
-      isError: false,
-      lastFetchedAt: Date.now(),
-    });
-
-    this.emitter.emit('success', data);
+    this.applyData(data);
   }
 
   /**
    * Clean up resources used by this query
    */
   dispose(): void {
+    if (this.disposed) return;
+    this.disposed = true;
+
+    if (this.disposeTimer) {
+      clearTimeout(this.disposeTimer);
+      this.disposeTimer = null;
+    }
+
+    this.cleanups.forEach(cleanup => cleanup());
+    this.cleanups = [];
+
+    this.emitter.emit('dispose', undefined);
     this.emitter.removeAllListeners();
 
     if (this.windowFocusCleanup) {
@@ -1,37 +1,106 @@
 // src/core/request-deduper.ts
 
+import { ErrorCategory, FetchKitError } from '@fk-types/error';
+import { createError } from '@utils/error';
+
+/**
+ * Why a shared request was aborted
+ * - subscribers: every caller sharing it aborted its signal
+ * - manual: it was cancelled by key, predicate, tag or cancel-all
+ */
+export type RequestCancelReason = 'subscribers' | 'manual';
+
+/**
+ * Listener called when a shared request is aborted
+ */
+export type CancelListener = (key: string, reason: RequestCancelReason) => void;
+
+/**
+ * Options for a single caller of a deduplicated request
+ */
+export interface DedupeOptions {
+  /**
+   * Signal aborting this caller. The shared request is aborted once every caller has aborted.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Tags for cancelling groups of requests
+   */
+  tags?: string[];
+}
+
+/**
+ * A request shared by one or more callers
+ */
+interface InFlightRequest {
+  promise: Promise<any>;
+  controller: AbortController;
+  /** Callers that have not aborted */
+  subscribers: number;
+  tags: Set<string>;
+}
+
 /**
  * RequestDeduper - Prevents duplicate in-flight requests by
- * tracking ongoing requests and sharing promises for identical requests
+ * tracking ongoing requests and sharing promises for identical requests.
+ * The deduper owns the AbortController of each shared request.
  */
 export class RequestDeduper {
   /**
    * Map of in-flight requests by key
    */
-  private inFlightRequests: Map<string, Promise<any>> = new Map();
+  private inFlightRequests: Map<string, InFlightRequest> = new Map();
+
+  /**
+   * Listeners for aborted requests
+   */
+  private cancelListeners: Set<CancelListener> = new Set();
 
   /**
    * Execute a function with deduplication
    * @param key - Unique key identifying the request
-   * @param fn - Function that returns a promise
+   * @param fn - Function that returns a promise, given the shared request's signal
+   * @param options - Signal and tags of this caller
    * @returns Promise resolving to the result of fn
    */
-  async dedupe<T>(key: string, fn: () => Promise<T>): Promise<T> {
-    // If there's already an in-flight request with the same key, return it
-    if (this.inFlightRequests.has(key)) {
-      return this.inFlightRequests.get(key) as Promise<T>;
+  async dedupe<T>(
+    key: string,
+    fn: (signal: AbortSignal) => Promise<T>,
+    options: DedupeOptions = {},
+  ): Promise<T> {
+    const { signal, tags = [] } = options;
+
+    // Callers that have already aborted never join or start a request
+    if (signal?.aborted) {
+      throw createCancelError(key);
     }
 
-    // Create a new promise and track it
-    const promise = fn().finally(() => {
-      // Clean up the reference when the request completes or fails
-      this.inFlightRequests.delete(key);
-    });
+    let request = this.inFlightRequests.get(key);
+
+    // If there's no in-flight request with the same key, start one
+    if (!request) {
+      const controller = new AbortController();
+      const entry: InFlightRequest = {
+        controller,
+        subscribers: 0,
+        tags: new Set(),
+        promise: fn(controller.signal).finally(() => {
+          // Clean up the reference when the request completes or fails
+          if (this.inFlightRequests.get(key) === entry) {
+            this.inFlightRequests.delete(key);
+          }
+        }),
+      };
+
+      request = entry;
+      this.inFlightRequests.set(key, request);
+    }
 
-    // Store the promise
-    this.inFlightRequests.set(key, promise);
+    tags.forEach(tag => request.tags.add(tag));
+    request.subscribers++;
 
-    return promise;
+    return this.subscribe<T>(key, request, signal);
   }
 
   /**
@@ -60,11 +129,137 @@ export class RequestDeduper {
   }
 
   /**
-   * Cancel all in-flight requests by clearing the tracking map
-   * Note: This does not actually abort the requests, it just removes
-   * our references to them for deduplication purposes
+   * Abort an in-flight request for all of its callers
+   * @param key - The request key to cancel
+   * @returns True if a request was cancelled
+   */
+  cancelRequest(key: string): boolean {
+    const request = this.inFlightRequests.get(key);
+    if (!request) {
+      return false;
+    }
+
+    this.abort(key, request, 'manual');
+    return true;
+  }
+
+  /**
+   * Abort in-flight requests matching a predicate
+   * @param predicate - Called with each request key and its tags
+   * @returns Number of cancelled requests
+   */
+  cancelMatching(predicate: (key: string, tags: string[]) => boolean): number {
+    const matches = Array.from(this.inFlightRequests.entries()).filter(([key, request]) =>
+      predicate(key, Array.from(request.tags)),
+    );
+
+    matches.forEach(([key, request]) => this.abort(key, request, 'manual'));
+    return matches.length;
+  }
+
+  /**
+   * Abort in-flight requests with a tag
+   * @param tag - Tag given by any caller of the request
+   * @returns Number of cancelled requests
+   */
+  cancelByTag(tag: string): number {
+    return this.cancelMatching((_key, tags) => tags.includes(tag));
+  }
+
+  /**
+   * Abort all in-flight requests
    */
   clearInFlightRequests(): void {
-    this.inFlightRequests.clear();
+    this.cancelMatching(() => true);
   }
+
+  /**
+   * Subscribe to aborted requests
+   * @param listener - Called with the request key and why it was aborted
+   * @returns Function removing the listener
+   */
+  onCancel(listener: CancelListener): () => void {
+    this.cancelListeners.add(listener);
+    return () => {
+      this.cancelListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Give a caller its own promise for a shared request.
+   * It rejects as soon as the caller's signal aborts or the request is cancelled.
+   */
+  private subscribe<T>(key: string, request: InFlightRequest, signal?: AbortSignal): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const sharedSignal = request.controller.signal;
+
+      const cleanup = () => {
+        signal?.removeEventListener('abort', onAbort);
+        sharedSignal.removeEventListener('abort', onCancel);
+      };
+
+      // This caller gave up; abort the request once nobody else waits for it
+      const onAbort = () => {
+        cleanup();
+        reject(createCancelError(key));
+
+        request.subscribers--;
+        if (request.subscribers === 0) {
+          this.abort(key, request, 'subscribers');
+        }
+      };
+
+      const onCancel = () => {
+        cleanup();
+        reject(createCancelError(key));
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      sharedSignal.addEventListener('abort', onCancel, { once: true });
+
+      request.promise.then(
+        data => {
+          cleanup();
+          resolve(data);
+        },
+        error => {
+          cleanup();
+          reject(error);
+        },
+      );
+    });
+  }
+
+  /**
+   * Abort a shared request and notify listeners
+   */
+  private abort(key: string, request: InFlightRequest, reason: RequestCancelReason): void {
+    if (this.inFlightRequests.get(key) === request) {
+      this.inFlightRequests.delete(key);
+    }
+
+    if (request.controller.signal.aborted) {
+      return;
+    }
+
+    request.controller.abort();
+
+    this.cancelListeners.forEach(listener => {
+      try {
+        listener(key, reason);
+      } catch (error) {
+        console.error('Error in request cancel listener:', error);
+      }
+    });
+  }
+}
+
+/**
+ * Create the error a cancelled caller rejects with
+ */
+function createCancelError(key: string): FetchKitError {
+  return createError(`Request cancelled: ${key}`, {
+    category: ErrorCategory.Cancel,
+    isCancelled: true,
+  });
 }
@@ -0,0 +1,304 @@
+// src/core/request-scheduler.ts
+
+import type { SchedulerOptions, SchedulerStats } from '@fk-types/scheduler';
+import { ErrorCategory } from '@fk-types/error';
+import { createError } from '@utils/error';
+
+/**
+ * Listener called whenever the scheduler's queue or concurrency changes
+ */
+export type SchedulerListener = (stats: SchedulerStats) => void;
+
+/**
+ * Details of a request to schedule
+ */
+export interface ScheduleOptions {
+  /**
+   * Request URL, used for per-host limits
+   */
+  url: string;
+
+  /**
+   * Priority lane; higher numbers start first (default: 0)
+   */
+  priority?: number;
+
+  /**
+   * Signal removing the request from the queue if it aborts before starting
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * A request waiting for a slot
+ */
+interface QueuedRequest {
+  host: string;
+  priority: number;
+  enqueuedAt: number;
+  /** Order of arrival, keeping each lane first-in first-out */
+  sequence: number;
+  start: () => void;
+}
+
+/**
+ * Schedules requests with global and per-host concurrency limits and priority lanes.
+ * Queued requests age into higher lanes so every lane keeps making progress.
+ */
+export class RequestScheduler {
+  /**
+   * Requests waiting for a slot
+   */
+  private queue: QueuedRequest[] = [];
+
+  /**
+   * Requests in flight by host
+   */
+  private activeByHost: Map<string, number> = new Map();
+
+  /**
+   * Total requests in flight
+   */
+  private active = 0;
+
+  /**
+   * Arrival counter for queued requests
+   */
+  private sequence = 0;
+
+  /**
+   * Whether starting queued requests is paused
+   */
+  private paused = false;
+
+  /**
+   * Listeners for queue changes
+   */
+  private listeners: Set<SchedulerListener> = new Set();
+
+  /**
+   * Options with defaults applied
+   */
+  private options: Required<SchedulerOptions>;
+
+  /**
+   * Creates a new request scheduler
+   */
+  constructor(options: SchedulerOptions = {}) {
+    this.options = {
+      maxConcurrent: Infinity,
+      maxConcurrentPerHost: Infinity,
+      agingTime: 5000,
+      ...options,
+    };
+  }
+
+  /**
+   * Run a request when a slot is free.
+   * Requests start synchronously when nothing is queued ahead of them.
+   */
+  schedule<T>(task: () => Promise<T>, options: ScheduleOptions): Promise<T> {
+    const { url, priority = 0, signal } = options;
+
+    if (signal?.aborted) {
+      return Promise.reject(createQueueCancelError(url));
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        const index = this.queue.indexOf(item);
+        if (index === -1) return;
+
+        this.queue.splice(index, 1);
+        reject(createQueueCancelError(url));
+        this.notify();
+      };
+
+      const item: QueuedRequest = {
+        host: getHost(url),
+        priority,
+        enqueuedAt: Date.now(),
+        sequence: this.sequence++,
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          this.run(item.host, task).then(resolve, reject);
+        },
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      this.queue.push(item);
+      this.drain();
+      this.notify();
+    });
+  }
+
+  /**
+   * Stop starting queued requests
+   */
+  pause(): void {
+    if (this.paused) return;
+
+    this.paused = true;
+    this.notify();
+  }
+
+  /**
+   * Start queued requests again
+   */
+  resume(): void {
+    if (!this.paused) return;
+
+    this.paused = false;
+    this.drain();
+    this.notify();
+  }
+
+  /**
+   * Check whether the queue is paused
+   */
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Get a snapshot of the queue and concurrency
+   */
+  getStats(): SchedulerStats {
+    const queuedByPriority: Record<number, number> = {};
+    this.queue.forEach(item => {
+      queuedByPriority[item.priority] = (queuedByPriority[item.priority] || 0) + 1;
+    });
+
+    return {
+      active: this.active,
+      queued: this.queue.length,
+      paused: this.paused,
+      activeByHost: Object.fromEntries(this.activeByHost),
+      queuedByPriority,
+    };
+  }
+
+  /**
+   * Subscribe to queue changes
+   */
+  onChange(listener: SchedulerListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Start queued requests while there are free slots
+   */
+  private drain(): void {
+    while (!this.paused && this.active < this.options.maxConcurrent) {
+      const next = this.pickNext();
+      if (!next) break;
+
+      this.queue.splice(this.queue.indexOf(next), 1);
+      next.start();
+    }
+  }
+
+  /**
+   * Pick the queued request to start next: the highest effective priority
+   * among hosts with a free slot, oldest first within a lane
+   */
+  private pickNext(): QueuedRequest | undefined {
+    const now = Date.now();
+    let next: QueuedRequest | undefined;
+    let nextPriority = -Infinity;
+
+    for (const item of this.queue) {
+      if ((this.activeByHost.get(item.host) || 0) >= this.options.maxConcurrentPerHost) {
+        continue;
+      }
+
+      const priority = this.getEffectivePriority(item, now);
+      if (
+        !next ||
+        priority > nextPriority ||
+        (priority === nextPriority && item.sequence < next.sequence)
+      ) {
+        next = item;
+        nextPriority = priority;
+      }
+    }
+
+    return next;
+  }
+
+  /**
+   * Priority of a queued request after aging
+   */
+  private getEffectivePriority(item: QueuedRequest, now: number): number {
+    const { agingTime } = this.options;
+    return agingTime > 0
+      ? item.priority + Math.floor((now - item.enqueuedAt) / agingTime)
+      : item.priority;
+  }
+
+  /**
+   * Run a request in a slot and free the slot when it settles
+   */
+  private async run<T>(host: string, task: () => Promise<T>): Promise<T> {
+    this.active++;
+    this.activeByHost.set(host, (this.activeByHost.get(host) || 0) + 1);
+
+    try {
+      return await task();
+    } finally {
+      this.active--;
+
+      const hostCount = (this.activeByHost.get(host) || 1) - 1;
+      if (hostCount > 0) {
+        this.activeByHost.set(host, hostCount);
+      } else {
+        this.activeByHost.delete(host);
+      }
+
+      this.drain();
+      this.notify();
+    }
+  }
+
+  /**
+   * Notify listeners of the current stats
+   */
+  private notify(): void {
+    if (this.listeners.size === 0) return;
+
+    const stats = this.getStats();
+    this.listeners.forEach(listener => {
+      try {
+        listener(stats);
+      } catch (error) {
+        console.error('Error in scheduler listener:', error);
+      }
+    });
+  }
+}
+
+/**
+ * Get the host of a URL, or an empty string for relative URLs
+ */
+function getHost(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Create the error a request rejects with when it is aborted while queued
+ */
+function createQueueCancelError(url: string) {
+  return createError('Request cancelled while waiting in the queue', {
+    category: ErrorCategory.Cancel,
+    isCancelled: true,
+    url,
+  });
+}
@@ -0,0 +1,616 @@
+// src/core/resumable-download.ts
+
+import {
+  CachePersistence,
+  PersistenceOptions,
+  createPersistence,
+  isCachePersistence,
+} from '@cache/persistence/cache-persistence';
+import { RequestProgress } from '@fk-types/core';
+import type {
+  DownloadEvents,
+  DownloadOptions,
+  DownloadRecord,
+  DownloadState,
+} from '@fk-types/download';
+import { ErrorCategory, FetchKitError } from '@fk-types/error';
+import { decodeBase64, encodeBase64 } from '@utils/base64';
+import { createError, getErrorMessage } from '@utils/error';
+import { sha256 } from '@utils/hash';
+import { createProgressReporter } from '@utils/progress';
+import { withRetry } from '@utils/retry';
+import { asAsyncIterable, concatUint8Arrays, toByteStream } from '@utils/stream';
+import { EventEmitter, Listener, Unsubscribe } from './event-emitter';
+
+/**
+ * A request of a download
+ */
+export interface DownloadRequest {
+  url: string;
+  headers: Record<string, string>;
+  signal: AbortSignal;
+}
+
+/**
+ * The parts of a response a download needs
+ */
+export interface DownloadResponse {
+  data: unknown;
+  status: number;
+  headers: Record<string, string>;
+}
+
+/**
+ * Sends a request of a download with a streamed response, without retrying it
+ */
+export type DownloadSender = (request: DownloadRequest) => Promise<DownloadResponse>;
+
+/**
+ * Prefix of download records and segments in the persistence backend
+ */
+const STORAGE_PREFIX = 'download:';
+
+/**
+ * Downloads a resource with Range requests, keeping the bytes received so a retry,
+ * a resumed pause or a reload continues where the download stopped. The bytes are
+ * only reused while the resource's ETag matches.
+ */
+export class ResumableDownload {
+  /**
+   * Sends a request of the download
+   */
+  private send: DownloadSender;
+
+  /**
+   * URL of the resource
+   */
+  private url: string;
+
+  /**
+   * Download options with defaults applied
+   */
+  private options: Required<Pick<DownloadOptions, 'headers' | 'retry' | 'segmentSize'>> &
+    Pick<DownloadOptions, 'checksum' | 'onProgress'>;
+
+  /**
+   * Key of the download in persistence
+   */
+  private fingerprint: string;
+
+  /**
+   * Persistence backend, once resolved
+   */
+  private persistence: CachePersistence | null = null;
+
+  /**
+   * Whether saved bytes have been looked up in persistence
+   */
+  private restored = false;
+
+  /**
+   * Bytes received so far
+   */
+  private chunks: Uint8Array[] = [];
+
+  /**
+   * Number of bytes received so far
+   */
+  private loaded = 0;
+
+  /**
+   * Received bytes not yet written to persistence
+   */
+  private unsaved: Uint8Array[] = [];
+
+  /**
+   * Number of received bytes not yet written to persistence
+   */
+  private unsavedSize = 0;
+
+  /**
+   * Number of segments written to persistence
+   */
+  private segments = 0;
+
+  /**
+   * Strong ETag of the resource the received bytes belong to
+   */
+  private etag: string | undefined;
+
+  /**
+   * Resource size in bytes, if known
+   */
+  private total: number | undefined;
+
+  /**
+   * Timestamp when the download was started
+   */
+  private createdAt = Date.now();
+
+  /**
+   * Resolves once the persistence backend is ready
+   */
+  private hydration: Promise<void>;
+
+  /**
+   * Chain of persistence writes, keeping them in order
+   */
+  private writes: Promise<void>;
+
+  /**
+   * Controller of the running download
+   */
+  private controller: AbortController | null = null;
+
+  /**
+   * The running download
+   */
+  private running: Promise<Uint8Array> | null = null;
+
+  /**
+   * Whether the running download was stopped by pause() or cancel()
+   */
+  private stopped = false;
+
+  /**
+   * Adds the rate and time remaining to progress reports
+   */
+  private report: (progress: RequestProgress) => void;
+
+  /**
+   * Current state
+   */
+  private state: DownloadState = { status: 'idle', progress: { loaded: 0 } };
+
+  /**
+   * Event emitter for download events
+   */
+  private emitter = new EventEmitter<DownloadEvents>();
+
+  /**
+   * Creates a resumable download
+   * @param send - Sends a request of the download
+   * @param url - URL of the resource
+   * @param options - Download options
+   */
+  constructor(send: DownloadSender, url: string, options: DownloadOptions = {}) {
+    this.send = send;
+    this.url = url;
+
+    const { persistence = false, fingerprint = url, ...rest } = options;
+
+    this.options = {
+      headers: {},
+      retry: {},
+      segmentSize: 1024 * 1024,
+      ...rest,
+    };
+    this.fingerprint = fingerprint;
+
+    this.report = createProgressReporter(progress => {
+      this.options.onProgress?.(progress);
+      this.setState({ progress });
+    });
+
+    this.hydration = persistence ? this.init(persistence) : Promise.resolve();
+    this.writes = this.hydration;
+  }
+
+  /**
+   * Get the current state
+   */
+  getState(): DownloadState {
+    return this.state;
+  }
+
+  /**
+   * Listen to download events
+   */
+  on<E extends keyof DownloadEvents>(event: E, listener: Listener<DownloadEvents[E]>): Unsubscribe {
+    return this.emitter.on(event, listener);
+  }
+
+  /**
+   * Start or resume the download. Resolves with the complete, verified bytes, and
+   * rejects when the download fails after its retries or is paused.
+   */
+  start(): Promise<Uint8Array> {
+    if (!this.running) {
+      this.running = this.run().finally(() => {
+        this.running = null;
+      });
+    }
+
+    return this.running;
+  }
+
+  /**
+   * Stop downloading. Received bytes are kept, and start() continues after them.
+   */
+  pause(): void {
+    if (this.controller) {
+      this.stopped = true;
+      this.controller.abort();
+    }
+  }
+
+  /**
+   * Stop the download and discard the received bytes, so start() begins again
+   */
+  async cancel(): Promise<void> {
+    this.pause();
+    await this.running?.catch(() => {});
+    this.discard();
+    await this.flushPersistence();
+    this.setState({ status: 'idle', progress: { loaded: 0 }, etag: undefined, error: undefined });
+  }
+
+  /**
+   * Wait for all queued persistence writes to finish
+   */
+  async flushPersistence(): Promise<void> {
+    let writes: Promise<void>;
+    do {
+      writes = this.writes;
+      await writes;
+    } while (writes !== this.writes);
+  }
+
+  /**
+   * Download the remaining bytes, retrying from the last byte received, and verify them
+   */
+  private async run(): Promise<Uint8Array> {
+    const controller = new AbortController();
+    this.controller = controller;
+    this.stopped = false;
+    this.setState({ status: 'downloading', error: undefined });
+
+    try {
+      await this.restore();
+      this.report({ loaded: this.loaded, total: this.total });
+
+      await withRetry(() => this.fetchRemaining(controller.signal), this.options.retry);
+
+      const data = concatUint8Arrays(this.chunks);
+      await this.verify(data);
+
+      this.discard();
+      await this.flushPersistence();
+      this.setState({ status: 'completed' });
+      return data;
+    } catch (error) {
+      controller.abort();
+
+      if (this.stopped) {
+        this.setState({ status: 'paused' });
+      } else {
+        this.setState({ status: 'failed', error: error as FetchKitError });
+      }
+      throw error;
+    } finally {
+      this.controller = null;
+    }
+  }
+
+  /**
+   * Request the bytes after those received and read them as they arrive
+   */
+  private async fetchRemaining(signal: AbortSignal): Promise<void> {
+    if (this.total !== undefined && this.loaded >= this.total) {
+      return;
+    }
+
+    const resuming = this.loaded > 0 && this.etag !== undefined;
+    if (this.loaded > 0 && !resuming) {
+      this.discard();
+    }
+
+    let response: DownloadResponse;
+    try {
+      response = await this.send({
+        url: this.url,
+        headers: {
+          ...this.options.headers,
+          ...(resuming && {
+            Range: `bytes=${this.loaded}-`,
+            'If-Range': this.etag as string,
+          }),
+        },
+        signal,
+      });
+    } catch (error) {
+      // The saved bytes run past the end of the resource, so it changed
+      if (resuming && (error as FetchKitError).status === 416) {
+        this.discard();
+        return this.fetchRemaining(signal);
+      }
+      throw error;
+    }
+
+    const { status, headers } = response;
+    const etag = getHeader(headers, 'etag');
+    const body = asAsyncIterable(toByteStream(response.data));
+
+    if (status === 206) {
+      const range = parseContentRange(getHeader(headers, 'content-range'));
+
+      // A range other than the one asked for, or of another version of the resource
+      if (range?.start !== this.loaded || (resuming && etag !== undefined && etag !== this.etag)) {
+        await body.cancel();
+        if (!resuming) {
+          throw createError('The server sent an unexpected range', {
+            category: ErrorCategory.Parse,
+            url: this.url,
+            method: 'GET',
+            status,
+          });
+        }
+        this.discard();
+        return this.fetchRemaining(signal);
+      }
+      this.total = range.total ?? this.total;
+    } else if (this.loaded > 0) {
+      // The whole resource, because it changed or the server ignores ranges
+      this.discard();
+    }
+
+    if (status !== 206) {
+      const length = Number(getHeader(headers, 'content-length'));
+      this.total =
+        Number.isFinite(length) && !getHeader(headers, 'content-encoding') ? length : undefined;
+    }
+
+    // Weak ETags cannot be used with If-Range
+    this.etag = etag && !etag.startsWith('W/') ? etag : undefined;
+    this.setState({ etag: this.etag });
+
+    const encoder = new TextEncoder();
+    try {
+      for await (const chunk of body) {
+        if (signal.aborted) {
+          break;
+        }
+
+        this.append(typeof chunk === 'string' ? encoder.encode(chunk) : chunk);
+        this.report({ loaded: this.loaded, total: this.total });
+      }
+    } catch (error) {
+      if (!signal.aborted) {
+        throw createError(getErrorMessage(error), {
+          cause: error as Error,
+          category: ErrorCategory.Network,
+          isNetworkError: true,
+          url: this.url,
+          method: 'GET',
+        });
+      }
+    } finally {
+      this.saveSegment();
+    }
+
+    if (signal.aborted) {
+      throw createError('The download was paused', {
+        category: ErrorCategory.Cancel,
+        isCancelled: true,
+        url: this.url,
+      });
+    }
+  }
+
+  /**
+   * Check the length and checksum of the complete download, discarding it on a mismatch
+   */
+  private async verify(data: Uint8Array): Promise<void> {
+    if (this.total !== undefined && data.byteLength !== this.total) {
+      const message = `Expected ${this.total} bytes but received ${data.byteLength}`;
+      this.discard();
+      throw createError(message, { category: ErrorCategory.Parse, url: this.url, method: 'GET' });
+    }
+
+    const { checksum } = this.options;
+    if (checksum && (await sha256(data)) !== checksum.toLowerCase()) {
+      this.discard();
+      throw createError('The download does not match its checksum', {
+        category: ErrorCategory.Validation,
+        url: this.url,
+        method: 'GET',
+      });
+    }
+  }
+
+  /**
+   * Keep received bytes, writing them to persistence once a segment is full
+   */
+  private append(bytes: Uint8Array): void {
+    this.chunks.push(bytes);
+    this.loaded += bytes.byteLength;
+    this.unsaved.push(bytes);
+    this.unsavedSize += bytes.byteLength;
+
+    if (this.unsavedSize >= this.options.segmentSize) {
+      this.saveSegment();
+    }
+  }
+
+  /**
+   * Update the state and emit it
+   */
+  private setState(patch: Partial<DownloadState>): void {
+    this.state = { ...this.state, ...patch };
+    this.emitter.emit('state', this.state);
+  }
+
+  /**
+   * Resolve the persistence backend
+   */
+  private async init(persistence: true | CachePersistence | PersistenceOptions): Promise<void> {
+    try {
+      this.persistence =
+        persistence !== true && isCachePersistence(persistence)
+          ? persistence
+          : await createPersistence({
+              type: 'indexedDB',
+              dbName: 'fetchkit-downloads',
+              storeName: 'downloads',
+              prefix: 'fk_download:',
+              maxSize: 1024 * 1024 * 1024,
+              ...(persistence !== true && persistence),
+            });
+    } catch (error) {
+      console.error('Error initializing download persistence:', error);
+    }
+  }
+
+  /**
+   * Load the bytes saved by an earlier download of this resource, unless bytes
+   * were already received. Incomplete saves are discarded.
+   */
+  private async restore(): Promise<void> {
+    await this.flushPersistence();
+    if (this.restored || !this.persistence || this.loaded > 0) {
+      return;
+    }
+    this.restored = true;
+
+    try {
+      const record = (await this.persistence.get<DownloadRecord>(STORAGE_PREFIX + this.fingerprint))
+        ?.data;
+      if (!record) {
+        return;
+      }
+
+      const chunks: Uint8Array[] = [];
+      for (let index = 0; index < record.segments; index++) {
+        const segment = await this.persistence.get<string>(this.getSegmentKey(index));
+        if (segment) {
+          chunks.push(decodeBase64(segment.data));
+        }
+      }
+
+      this.segments = record.segments;
+      if (
+        !record.etag ||
+        chunks.reduce((size, chunk) => size + chunk.byteLength, 0) !== record.loaded
+      ) {
+        this.discard();
+        return;
+      }
+
+      this.chunks = chunks;
+      this.loaded = record.loaded;
+      this.etag = record.etag;
+      this.total = record.total;
+      this.createdAt = record.createdAt;
+      this.setState({ etag: this.etag });
+    } catch (error) {
+      console.error('Error reading download persistence:', error);
+    }
+  }
+
+  /**
+   * Write the unsaved bytes as a segment, with the record describing all segments.
+   * Without an ETag the bytes could not be reused, so they are not written.
+   */
+  private saveSegment(): void {
+    const bytes = concatUint8Arrays(this.unsaved);
+    this.unsaved = [];
+    this.unsavedSize = 0;
+
+    if (!this.persistence || !this.etag || bytes.byteLength === 0) {
+      return;
+    }
+
+    const key = this.getSegmentKey(this.segments++);
+    const record: DownloadRecord = {
+      fingerprint: this.fingerprint,
+      etag: this.etag,
+      total: this.total,
+      loaded: this.loaded,
+      segments: this.segments,
+      createdAt: this.createdAt,
+    };
+
+    this.persist(async persistence => {
+      await persistence.set<string>(key, createEntry(encodeBase64(bytes), record.createdAt));
+      await persistence.set<DownloadRecord>(
+        STORAGE_PREFIX + this.fingerprint,
+        createEntry(record, record.createdAt),
+      );
+    });
+  }
+
+  /**
+   * Forget the received bytes and delete them from persistence
+   */
+  private discard(): void {
+    const keys = Array.from({ length: this.segments }, (_, index) => this.getSegmentKey(index));
+    this.persist(async persistence => {
+      await persistence.delete(STORAGE_PREFIX + this.fingerprint);
+      await Promise.all(keys.map(key => persistence.delete(key)));
+    });
+
+    this.chunks = [];
+    this.loaded = 0;
+    this.unsaved = [];
+    this.unsavedSize = 0;
+    this.segments = 0;
+    this.etag = undefined;
+    this.total = undefined;
+    this.createdAt = Date.now();
+  }
+
+  /**
+   * Key of a segment of received bytes in persistence
+   */
+  private getSegmentKey(index: number): string {
+    return `${STORAGE_PREFIX}${this.fingerprint}:${index}`;
+  }
+
+  /**
+   * Queue a write against the persistence backend
+   */
+  private persist(operation: (persistence: CachePersistence) => Promise<unknown>): void {
+    this.writes = this.writes
+      .then(async () => {
+        if (this.persistence) {
+          await operation(this.persistence);
+        }
+      })
+      .catch(error => {
+        console.error('Error writing to download persistence:', error);
+      });
+  }
+}
+
+/**
+ * Wrap data in a cache entry that never goes stale or expires
+ */
+function createEntry<T>(data: T, createdAt: number) {
+  return {
+    data,
+    createdAt,
+    staleAt: Number.MAX_SAFE_INTEGER,
+    expiresAt: Number.MAX_SAFE_INTEGER,
+    isRevalidating: false,
+  };
+}
+
+/**
+ * Look up a response header by name, in any case
+ */
+function getHeader(headers: Record<string, string>, name: string): string | undefined {
+  const key = Object.keys(headers).find(header => header.toLowerCase() === name);
+  return key === undefined ? undefined : headers[key];
+}
+
+/**
+ * Parse a `Content-Range: bytes start-end/total` header; the total may be `*`
+ */
+function parseContentRange(value?: string): { start: number; total?: number } | undefined {
+  const match = value?.match(/^bytes (\d+)-\d+\/(\d+|\*)$/);
+  if (!match) {
+    return undefined;
+  }
+
+  return { start: Number(match[1]), total: match[2] === '*' ? undefined : Number(match[2]) };
+}
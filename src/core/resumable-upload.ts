@@ -0,0 +1,597 @@
+// src/core/resumable-upload.ts
+
+import {
+  CachePersistence,
+  PersistenceOptions,
+  createPersistence,
+  isCachePersistence,
+} from '@cache/persistence/cache-persistence';
+import { RequestProgress } from '@fk-types/core';
+import { ErrorCategory, FetchKitError } from '@fk-types/error';
+import type { UploadEvents, UploadOptions, UploadRecord, UploadState } from '@fk-types/upload';
+import { encodeBase64 } from '@utils/base64';
+import { createError } from '@utils/error';
+import { createProgressReporter } from '@utils/progress';
+import { withRetry } from '@utils/retry';
+import { EventEmitter, Listener, Unsubscribe } from './event-emitter';
+
+/**
+ * A request of an upload
+ */
+export interface UploadRequest {
+  url: string;
+  method: string;
+  body?: Blob;
+  headers: Record<string, string>;
+  signal: AbortSignal;
+}
+
+/**
+ * The parts of a response an upload needs
+ */
+export interface UploadResponse {
+  data: any;
+  status: number;
+  headers: Record<string, string>;
+}
+
+/**
+ * Sends a request of an upload, without retrying or queueing it
+ */
+export type UploadSender = (request: UploadRequest) => Promise<UploadResponse>;
+
+/**
+ * Prefix of upload records in the persistence backend, so a backend shared
+ * with the cache never mixes the two
+ */
+const STORAGE_PREFIX = 'upload:';
+
+/**
+ * Version of the tus protocol spoken in tus mode
+ */
+const TUS_VERSION = '1.0.0';
+
+/**
+ * Status codes of a tus upload the server no longer has
+ */
+const TUS_GONE_STATUSES = [403, 404, 410];
+
+/**
+ * Uploads a file or blob in chunks, saving which chunks the server has so the
+ * upload can resume after a failure, a pause or a reload.
+ */
+export class ResumableUpload<T = any> {
+  /**
+   * Sends a request of the upload
+   */
+  private send: UploadSender;
+
+  /**
+   * Endpoint the file is uploaded to
+   */
+  private url: string;
+
+  /**
+   * File being uploaded
+   */
+  private file: Blob;
+
+  /**
+   * Upload options with defaults applied
+   */
+  private options: Required<
+    Pick<UploadOptions, 'protocol' | 'chunkSize' | 'concurrency' | 'method' | 'retry' | 'headers'>
+  > &
+    Pick<UploadOptions, 'metadata' | 'onProgress'>;
+
+  /**
+   * Key of the upload record in persistence
+   */
+  private fingerprint: string;
+
+  /**
+   * Persistence backend, once resolved
+   */
+  private persistence: CachePersistence | null = null;
+
+  /**
+   * Latest record of the upload, also kept when there is no persistence
+   */
+  private record: UploadRecord | null = null;
+
+  /**
+   * Resolves once the persistence backend is ready
+   */
+  private hydration: Promise<void>;
+
+  /**
+   * Chain of persistence writes, keeping them in order
+   */
+  private writes: Promise<void>;
+
+  /**
+   * Controller of the running upload
+   */
+  private controller: AbortController | null = null;
+
+  /**
+   * The running upload
+   */
+  private running: Promise<T> | null = null;
+
+  /**
+   * Whether the running upload was stopped by pause() or cancel()
+   */
+  private stopped = false;
+
+  /**
+   * Adds the rate and time remaining to progress reports
+   */
+  private report: (progress: RequestProgress) => void;
+
+  /**
+   * Current state
+   */
+  private state: UploadState;
+
+  /**
+   * Event emitter for upload events
+   */
+  private emitter = new EventEmitter<UploadEvents>();
+
+  /**
+   * Creates a resumable upload
+   * @param send - Sends a request of the upload
+   * @param url - Endpoint to upload to
+   * @param file - File or blob to upload
+   * @param options - Upload options
+   */
+  constructor(send: UploadSender, url: string, file: Blob, options: UploadOptions = {}) {
+    this.send = send;
+    this.url = url;
+    this.file = file;
+
+    const {
+      persistence = {
+        type: 'indexedDB',
+        dbName: 'fetchkit-uploads',
+        storeName: 'uploads',
+        prefix: 'fk_upload:',
+      },
+      fingerprint = getFingerprint(url, file),
+      ...rest
+    } = options;
+
+    this.options = {
+      protocol: 'content-range',
+      chunkSize: 5 * 1024 * 1024,
+      concurrency: 3,
+      method: 'PUT',
+      retry: {},
+      headers: {},
+      ...rest,
+    };
+    this.fingerprint = fingerprint;
+
+    this.state = {
+      status: 'idle',
+      progress: { loaded: 0, total: file.size, progress: file.size ? 0 : undefined },
+    };
+
+    this.report = createProgressReporter(progress => {
+      this.options.onProgress?.(progress);
+      this.setState({ progress });
+    });
+
+    this.hydration = persistence ? this.init(persistence) : Promise.resolve();
+    this.writes = this.hydration;
+  }
+
+  /**
+   * Get the current state
+   */
+  getState(): UploadState {
+    return this.state;
+  }
+
+  /**
+   * Listen to upload events
+   */
+  on<E extends keyof UploadEvents>(event: E, listener: Listener<UploadEvents[E]>): Unsubscribe {
+    return this.emitter.on(event, listener);
+  }
+
+  /**
+   * Start or resume the upload. Resolves with the data of the response that completed
+   * it, and rejects when a chunk fails after its retries or the upload is paused.
+   */
+  start(): Promise<T> {
+    if (!this.running) {
+      this.running = this.run().finally(() => {
+        this.running = null;
+      });
+    }
+
+    return this.running;
+  }
+
+  /**
+   * Stop sending chunks. Confirmed chunks are kept, and start() resumes after them.
+   */
+  pause(): void {
+    if (this.controller) {
+      this.stopped = true;
+      this.controller.abort();
+    }
+  }
+
+  /**
+   * Stop the upload and forget its saved progress, so start() begins again
+   */
+  async cancel(): Promise<void> {
+    this.pause();
+    await this.running?.catch(() => {});
+    await this.erase();
+    this.setState({ status: 'idle', uploadUrl: undefined, error: undefined });
+  }
+
+  /**
+   * Wait for all queued persistence writes to finish
+   */
+  async flushPersistence(): Promise<void> {
+    let writes: Promise<void>;
+    do {
+      writes = this.writes;
+      await writes;
+    } while (writes !== this.writes);
+  }
+
+  /**
+   * Run the upload with the configured protocol
+   */
+  private async run(): Promise<T> {
+    const controller = new AbortController();
+    this.controller = controller;
+    this.stopped = false;
+    this.setState({ status: 'uploading', error: undefined });
+
+    try {
+      const record = await this.load();
+      const data =
+        this.options.protocol === 'tus'
+          ? await this.uploadTus(record, controller.signal)
+          : await this.uploadChunks(record, controller.signal);
+
+      // Pausing between chunks stops the workers without a failed request
+      if (controller.signal.aborted) {
+        throw createError('The upload was paused', {
+          category: ErrorCategory.Cancel,
+          isCancelled: true,
+          url: this.url,
+        });
+      }
+
+      await this.erase();
+      this.setState({ status: 'completed' });
+      return data;
+    } catch (error) {
+      controller.abort();
+
+      if (this.stopped) {
+        this.setState({ status: 'paused' });
+      } else {
+        this.setState({ status: 'failed', error: error as FetchKitError });
+      }
+      throw error;
+    } finally {
+      this.controller = null;
+    }
+  }
+
+  /**
+   * Send the missing chunks with Content-Range headers, several at a time
+   */
+  private async uploadChunks(record: UploadRecord, signal: AbortSignal): Promise<T> {
+    const { chunkSize, concurrency, method, headers, retry } = this.options;
+    const { size } = this.file;
+    const count = Math.max(1, Math.ceil(size / chunkSize));
+    const confirmed = new Set(record.chunks);
+    const pending = Array.from({ length: count }, (_, index) => index).filter(
+      index => !confirmed.has(index),
+    );
+    let data: T | undefined;
+
+    const getChunkEnd = (index: number) => Math.min(size, (index + 1) * chunkSize);
+    const getLoaded = () =>
+      [...confirmed].reduce((loaded, index) => loaded + getChunkEnd(index) - index * chunkSize, 0);
+
+    this.report({ loaded: getLoaded(), total: size });
+
+    // Each worker takes the next missing chunk until none are left
+    const work = async () => {
+      while (pending.length > 0 && !signal.aborted) {
+        const index = pending.shift() as number;
+        const start = index * chunkSize;
+        const end = getChunkEnd(index);
+
+        const response = await withRetry(
+          () =>
+            this.send({
+              url: this.url,
+              method,
+              body: this.file.slice(start, end),
+              headers: {
+                ...headers,
+                'Content-Type': 'application/octet-stream',
+                'Content-Range': size > 0 ? `bytes ${start}-${end - 1}/${size}` : 'bytes */0',
+              },
+              signal,
+            }),
+          retry,
+        );
+
+        confirmed.add(index);
+        data = response.data;
+        this.save({ ...record, chunks: [...confirmed] });
+        this.emitter.emit('chunk', { index, start, end });
+        this.report({ loaded: getLoaded(), total: size });
+      }
+    };
+
+    // A failing worker stops the others, which reject as cancelled
+    await Promise.all(
+      Array.from({ length: Math.min(concurrency, pending.length) }, () =>
+        work().catch(error => {
+          if (!signal.aborted) {
+            this.controller?.abort();
+          }
+          throw error;
+        }),
+      ),
+    );
+
+    return data as T;
+  }
+
+  /**
+   * Create the upload on a tus server, or find how much of it the server has,
+   * and send the rest one chunk at a time
+   */
+  private async uploadTus(record: UploadRecord, signal: AbortSignal): Promise<T> {
+    const { chunkSize, headers, retry, metadata } = this.options;
+    const { size } = this.file;
+    let offset = 0;
+    let data: T | undefined;
+
+    if (record.uploadUrl) {
+      try {
+        offset = await this.getTusOffset(record.uploadUrl, signal);
+      } catch (error) {
+        // The server dropped the upload, so it starts over
+        if (!TUS_GONE_STATUSES.includes((error as FetchKitError).status as number)) {
+          throw error;
+        }
+        record = { ...record, uploadUrl: undefined };
+      }
+    }
+
+    if (!record.uploadUrl) {
+      const response = await withRetry(
+        () =>
+          this.send({
+            url: this.url,
+            method: 'POST',
+            headers: {
+              ...headers,
+              'Tus-Resumable': TUS_VERSION,
+              'Upload-Length': String(size),
+              ...(metadata && { 'Upload-Metadata': encodeTusMetadata(metadata) }),
+            },
+            signal,
+          }),
+        retry,
+      );
+
+      const location = getHeader(response.headers, 'location');
+      if (!location) {
+        throw createError('The tus server did not return an upload URL', {
+          category: ErrorCategory.Parse,
+          url: this.url,
+          method: 'POST',
+          status: response.status,
+        });
+      }
+
+      record = { ...record, uploadUrl: resolveUploadUrl(location, this.url) };
+      this.save(record);
+    }
+
+    const uploadUrl = record.uploadUrl as string;
+    this.setState({ uploadUrl });
+    this.report({ loaded: offset, total: size });
+
+    while (offset < size) {
+      const start = offset;
+      let failed = false;
+
+      const response = await withRetry(async () => {
+        // The failed attempt may have reached the server in part
+        if (failed) {
+          offset = await this.getTusOffset(uploadUrl, signal);
+        }
+        failed = true;
+
+        const result = await this.send({
+          url: uploadUrl,
+          method: 'PATCH',
+          body: this.file.slice(offset, Math.min(size, offset + chunkSize)),
+          headers: {
+            ...headers,
+            'Tus-Resumable': TUS_VERSION,
+            'Upload-Offset': String(offset),
+            'Content-Type': 'application/offset+octet-stream',
+          },
+          signal,
+        });
+        failed = false;
+        return result;
+      }, retry);
+
+      const next = Number(getHeader(response.headers, 'upload-offset'));
+      offset = Number.isFinite(next) ? next : Math.min(size, offset + chunkSize);
+      data = response.data;
+
+      this.emitter.emit('chunk', { index: Math.floor(start / chunkSize), start, end: offset });
+      this.report({ loaded: offset, total: size });
+    }
+
+    return data as T;
+  }
+
+  /**
+   * Ask a tus server how many bytes of an upload it has
+   */
+  private async getTusOffset(uploadUrl: string, signal: AbortSignal): Promise<number> {
+    const response = await this.send({
+      url: uploadUrl,
+      method: 'HEAD',
+      headers: { ...this.options.headers, 'Tus-Resumable': TUS_VERSION },
+      signal,
+    });
+
+    const offset = Number(getHeader(response.headers, 'upload-offset'));
+    if (!Number.isFinite(offset)) {
+      throw createError('The tus server did not return an upload offset', {
+        category: ErrorCategory.Parse,
+        url: uploadUrl,
+        method: 'HEAD',
+        status: response.status,
+      });
+    }
+
+    return offset;
+  }
+
+  /**
+   * Update the state and emit it
+   */
+  private setState(patch: Partial<UploadState>): void {
+    this.state = { ...this.state, ...patch };
+    this.emitter.emit('state', this.state);
+  }
+
+  /**
+   * Resolve the persistence backend
+   */
+  private async init(persistence: CachePersistence | PersistenceOptions): Promise<void> {
+    try {
+      this.persistence = isCachePersistence(persistence)
+        ? persistence
+        : await createPersistence(persistence);
+    } catch (error) {
+      console.error('Error initializing upload persistence:', error);
+    }
+  }
+
+  /**
+   * Load the saved record of this upload, or start a new one when there is none
+   * or it was made for another file size or chunk size
+   */
+  private async load(): Promise<UploadRecord> {
+    await this.flushPersistence();
+
+    const { size } = this.file;
+    const { chunkSize } = this.options;
+    let saved = this.record ?? undefined;
+
+    try {
+      saved ??= (await this.persistence?.get<UploadRecord>(STORAGE_PREFIX + this.fingerprint))
+        ?.data;
+    } catch (error) {
+      console.error('Error reading upload persistence:', error);
+    }
+
+    if (saved && saved.size === size && saved.chunkSize === chunkSize) {
+      return saved;
+    }
+
+    return { fingerprint: this.fingerprint, size, chunkSize, chunks: [], createdAt: Date.now() };
+  }
+
+  /**
+   * Write the upload record to persistence
+   */
+  private save(record: UploadRecord): void {
+    this.record = record;
+    this.persist(persistence =>
+      persistence.set<UploadRecord>(STORAGE_PREFIX + this.fingerprint, {
+        data: record,
+        createdAt: record.createdAt,
+        staleAt: Number.MAX_SAFE_INTEGER,
+        expiresAt: Number.MAX_SAFE_INTEGER,
+        isRevalidating: false,
+      }),
+    );
+  }
+
+  /**
+   * Delete the upload record from persistence
+   */
+  private async erase(): Promise<void> {
+    this.record = null;
+    this.persist(persistence => persistence.delete(STORAGE_PREFIX + this.fingerprint));
+    await this.flushPersistence();
+  }
+
+  /**
+   * Queue a write against the persistence backend
+   */
+  private persist(operation: (persistence: CachePersistence) => Promise<unknown>): void {
+    this.writes = this.writes
+      .then(async () => {
+        if (this.persistence) {
+          await operation(this.persistence);
+        }
+      })
+      .catch(error => {
+        console.error('Error writing to upload persistence:', error);
+      });
+  }
+}
+
+/**
+ * Key identifying a file uploaded to an endpoint
+ */
+function getFingerprint(url: string, file: Blob): string {
+  const { name = '', lastModified = '' } = file as Partial<File>;
+  return [url, name, file.size, file.type, lastModified].join(':');
+}
+
+/**
+ * Look up a response header by name, in any case
+ */
+function getHeader(headers: Record<string, string>, name: string): string | undefined {
+  const key = Object.keys(headers).find(header => header.toLowerCase() === name);
+  return key === undefined ? undefined : headers[key];
+}
+
+/**
+ * Resolve the Location of a tus upload against the endpoint that created it
+ */
+function resolveUploadUrl(location: string, endpoint: string): string {
+  try {
+    return new URL(location, endpoint).href;
+  } catch {
+    // A relative endpoint, which FetchKit resolves against its base URL
+    return location.startsWith('/') ? location : endpoint.replace(/[^/]*$/, '') + location;
+  }
+}
+
+/**
+ * Encode tus Upload-Metadata: comma-separated keys with base64-encoded UTF-8 values
+ */
+function encodeTusMetadata(metadata: Record<string, string>): string {
+  return Object.entries(metadata)
+    .map(([key, value]) => `${key} ${encodeBase64(new TextEncoder().encode(value))}`)
+    .join(',');
+}
@@ -0,0 +1,485 @@
+// src/core/websocket-manager.ts
+
+import type { RetryConfig } from '@fk-types/error';
+import type { MutationInvalidation } from '@fk-types/mutation';
+import type {
+  WebSocketConstructor,
+  WebSocketEvents,
+  WebSocketHeartbeatOptions,
+  WebSocketLike,
+  WebSocketOptions,
+  WebSocketState,
+  WebSocketSubscriptionOptions,
+} from '@fk-types/websocket';
+import { calculateRetryDelay } from '@utils/retry';
+import { EventEmitter, Listener, Unsubscribe } from './event-emitter';
+import type { FetchKit } from './fetch-kit';
+
+/**
+ * Default reconnection backoff, retrying until the manager is closed
+ */
+const DEFAULT_RECONNECT: RetryConfig = {
+  count: Infinity,
+  delay: 1000,
+  backoff: 'exponential',
+  factor: 2,
+  maxDelay: 30000,
+};
+
+/**
+ * Default heartbeat settings
+ */
+const DEFAULT_HEARTBEAT: Required<WebSocketHeartbeatOptions> = {
+  interval: 30000,
+  timeout: 10000,
+  message: { type: 'ping' },
+  isPong: message => message?.type === 'pong',
+};
+
+/**
+ * Default size of the outgoing queue
+ */
+const DEFAULT_MAX_QUEUE_SIZE = 100;
+
+/**
+ * Ready state of an open WebSocket
+ */
+const OPEN = 1;
+
+/**
+ * A WebSocket connection shared by topic subscriptions. Topic messages update the
+ * cache, the connection is reopened with backoff when it drops, and messages sent
+ * while disconnected are queued until it is open again.
+ */
+export class WebSocketManager {
+  /**
+   * The FetchKit instance whose cache messages update
+   */
+  private fetchKit: FetchKit;
+
+  /**
+   * URL of the WebSocket server
+   */
+  private url: string;
+
+  /**
+   * Options for this manager
+   */
+  private options: WebSocketOptions;
+
+  /**
+   * Current state of the connection
+   */
+  private state: WebSocketState;
+
+  /**
+   * Event emitter for subscriptions
+   */
+  private emitter = new EventEmitter<WebSocketEvents>();
+
+  /**
+   * The current socket, null while disconnected
+   */
+  private socket: WebSocketLike | null = null;
+
+  /**
+   * Subscriptions by topic
+   */
+  private topics = new Map<string, Set<WebSocketSubscriptionOptions>>();
+
+  /**
+   * Serialized messages waiting for the connection to open
+   */
+  private queue: string[] = [];
+
+  /**
+   * Timer for the next reconnection attempt
+   */
+  private reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+  /**
+   * Timer sending pings
+   */
+  private heartbeatTimer: ReturnType<typeof setInterval> | undefined;
+
+  /**
+   * Timer dropping the connection when nothing arrives after a ping
+   */
+  private pongTimer: ReturnType<typeof setTimeout> | undefined;
+
+  /**
+   * Create a new WebSocket manager and connect it
+   * @throws When there is no global WebSocket and no implementation is passed
+   */
+  constructor(fetchKit: FetchKit, url: string, options: WebSocketOptions = {}) {
+    if (!options.WebSocket && typeof globalThis.WebSocket === 'undefined') {
+      throw new Error('WebSocket is not available; pass an implementation in options.WebSocket');
+    }
+
+    this.fetchKit = fetchKit;
+    this.url = url;
+    this.options = options;
+    this.state = { url, status: 'connecting', attempt: 0, queued: 0 };
+
+    // Connect once the caller has attached its listeners, so early errors reach them
+    queueMicrotask(() => {
+      if (this.state.status === 'connecting' && !this.socket) this.connect();
+    });
+  }
+
+  /**
+   * Get the current state
+   */
+  getState(): WebSocketState {
+    return { ...this.state };
+  }
+
+  /**
+   * Subscribe to manager events
+   */
+  on<E extends keyof WebSocketEvents>(
+    event: E,
+    listener: Listener<WebSocketEvents[E]>,
+  ): Unsubscribe {
+    return this.emitter.on(event, listener);
+  }
+
+  /**
+   * Subscribe to a topic. The server is asked for the topic's messages when the first
+   * subscription is added, and again after every reconnection.
+   * @returns A function that removes the subscription
+   */
+  subscribe<T = any, TCache = any>(
+    topic: string,
+    options: WebSocketSubscriptionOptions<T, TCache> | ((data: T, message: any) => void),
+  ): Unsubscribe {
+    const subscription: WebSocketSubscriptionOptions =
+      typeof options === 'function' ? { onMessage: options } : options;
+
+    let subscriptions = this.topics.get(topic);
+    if (!subscriptions) {
+      subscriptions = new Set();
+      this.topics.set(topic, subscriptions);
+      if (this.isOpen()) this.write(this.subscribeMessage(topic));
+    }
+    subscriptions.add(subscription);
+
+    return () => {
+      const current = this.topics.get(topic);
+      if (!current?.delete(subscription) || current.size > 0) return;
+
+      this.topics.delete(topic);
+      if (this.isOpen()) this.write(this.unsubscribeMessage(topic));
+    };
+  }
+
+  /**
+   * Get the topics with subscriptions
+   */
+  getTopics(): string[] {
+    return Array.from(this.topics.keys());
+  }
+
+  /**
+   * Send a message, queueing it while disconnected
+   */
+  send(message: unknown): void {
+    const data = this.serialize(message);
+
+    if (this.isOpen()) {
+      this.socket?.send(data);
+      return;
+    }
+
+    if (this.state.status === 'closed') {
+      throw new Error(`WebSocket to ${this.url} is closed`);
+    }
+
+    const { maxQueueSize = DEFAULT_MAX_QUEUE_SIZE } = this.options;
+    this.queue.push(data);
+    if (this.queue.length > maxQueueSize) this.queue.shift();
+    this.setState({ queued: this.queue.length });
+  }
+
+  /**
+   * Open the connection again after close() or after reconnecting was given up
+   */
+  reconnect(): void {
+    if (this.state.status !== 'closed') return;
+
+    this.setState({ status: 'connecting', attempt: 0 });
+    this.connect();
+  }
+
+  /**
+   * Close the connection and stop reconnecting. Queued messages are dropped.
+   */
+  close(): void {
+    clearTimeout(this.reconnectTimer);
+    this.dropSocket(1000, 'Closed by client');
+    this.queue = [];
+    this.setState({ status: 'closed', queued: 0 });
+  }
+
+  /**
+   * Open a socket and attach its handlers
+   */
+  private connect(): void {
+    const WebSocketImpl: WebSocketConstructor = this.options.WebSocket ?? globalThis.WebSocket;
+
+    let socket: WebSocketLike;
+    try {
+      socket = new WebSocketImpl(this.url, this.options.protocols);
+    } catch (error) {
+      this.fail(error as Error);
+      return;
+    }
+    this.socket = socket;
+
+    socket.onopen = () => this.handleOpen();
+    socket.onmessage = event => this.handleMessage(event.data);
+    socket.onerror = () => {
+      this.emitter.emit('error', { url: this.url, error: new Error('WebSocket error') });
+    };
+    socket.onclose = () => {
+      this.dropSocket();
+      this.scheduleReconnect();
+    };
+  }
+
+  /**
+   * Resubscribe to every topic and flush the queue once the socket opens
+   */
+  private handleOpen(): void {
+    this.topics.forEach((_, topic) => this.write(this.subscribeMessage(topic)));
+
+    const queued = this.queue;
+    this.queue = [];
+    queued.forEach(data => this.socket?.send(data));
+
+    this.setState({ status: 'open', attempt: 0, queued: 0 });
+    this.startHeartbeat();
+  }
+
+  /**
+   * Deliver an incoming message to the subscribers of its topic
+   */
+  private handleMessage(raw: unknown): void {
+    // Any message shows the connection is alive
+    clearTimeout(this.pongTimer);
+    this.pongTimer = undefined;
+
+    const message = this.deserialize(String(raw));
+    const heartbeat = this.getHeartbeat();
+    if (heartbeat && heartbeat.isPong(message)) return;
+
+    const { getTopic = defaultGetTopic, getData = defaultGetData } = this.options;
+    const topic = getTopic(message);
+    this.emitter.emit('message', { url: this.url, topic, message });
+
+    const subscriptions = topic !== undefined ? this.topics.get(topic) : undefined;
+    if (!subscriptions) return;
+
+    const data = getData(message);
+    Array.from(subscriptions).forEach(subscription => {
+      try {
+        this.apply(subscription, data, message);
+      } catch (error) {
+        this.emitter.emit('error', { url: this.url, error: error as Error });
+      }
+    });
+  }
+
+  /**
+   * Apply a subscription's callback, cache update and invalidation to a payload
+   */
+  private apply(subscription: WebSocketSubscriptionOptions, data: any, message: any): void {
+    const { onMessage, cacheUpdate, invalidate } = subscription;
+
+    if (cacheUpdate) {
+      const { url, options, reduce } = cacheUpdate;
+      const current = this.fetchKit.getCacheEntry(url, options)?.data;
+      this.fetchKit.setCacheData(url, reduce(current, data), options);
+    }
+
+    const invalidation = typeof invalidate === 'function' ? invalidate(data) : invalidate;
+    if (invalidation) {
+      this.invalidate(invalidation);
+    }
+
+    onMessage?.(data, message);
+  }
+
+  /**
+   * Invalidate the cache entries described by an invalidation
+   */
+  private invalidate(invalidation: MutationInvalidation): void {
+    const { urls = [], keys = [], patterns = [], groups = [] } = invalidation;
+
+    urls.forEach(url =>
+      this.fetchKit.invalidateCache(this.fetchKit.getCacheKey(url, { method: 'GET' })),
+    );
+    keys.forEach(key => this.fetchKit.invalidateCache(key));
+    patterns.forEach(pattern => this.fetchKit.invalidateCacheMatching(key => pattern.test(key)));
+    groups.forEach(group => this.fetchKit.invalidateGroup(group));
+  }
+
+  /**
+   * Reconnect after a delay, or give up once the attempts are used up
+   */
+  private scheduleReconnect(): void {
+    if (this.state.status === 'closed') return;
+
+    const { reconnect = true } = this.options;
+    const config = { ...DEFAULT_RECONNECT, ...(typeof reconnect === 'object' ? reconnect : {}) };
+    const attempt = this.state.attempt + 1;
+
+    if (!reconnect || attempt > config.count) {
+      this.fail(new Error(`WebSocket to ${this.url} closed`));
+      return;
+    }
+
+    this.setState({ status: 'reconnecting', attempt });
+    this.reconnectTimer = setTimeout(
+      () => {
+        this.setState({ status: 'connecting' });
+        this.connect();
+      },
+      calculateRetryDelay(config, attempt),
+    );
+  }
+
+  /**
+   * Send pings while the connection is open
+   */
+  private startHeartbeat(): void {
+    const heartbeat = this.getHeartbeat();
+    if (!heartbeat) return;
+
+    this.heartbeatTimer = setInterval(() => {
+      this.write(heartbeat.message);
+
+      if (this.pongTimer === undefined) {
+        // A connection that stays silent is dead even if the socket has not noticed
+        this.pongTimer = setTimeout(() => {
+          this.dropSocket(4000, 'Heartbeat timeout');
+          this.scheduleReconnect();
+        }, heartbeat.timeout);
+      }
+    }, heartbeat.interval);
+  }
+
+  /**
+   * Detach and close the current socket, stopping its timers
+   */
+  private dropSocket(code?: number, reason?: string): void {
+    clearInterval(this.heartbeatTimer);
+    clearTimeout(this.pongTimer);
+    this.heartbeatTimer = undefined;
+    this.pongTimer = undefined;
+
+    const socket = this.socket;
+    if (!socket) return;
+
+    this.socket = null;
+    socket.onopen = null;
+    socket.onmessage = null;
+    socket.onerror = null;
+    socket.onclose = null;
+
+    if (code !== undefined) {
+      try {
+        socket.close(code, reason);
+      } catch {
+        // The socket may not have finished connecting
+      }
+    }
+  }
+
+  /**
+   * Close for good after an error
+   */
+  private fail(error: Error): void {
+    this.emitter.emit('error', { url: this.url, error });
+    this.close();
+  }
+
+  /**
+   * Send a message on the open socket
+   */
+  private write(message: unknown): void {
+    this.socket?.send(this.serialize(message));
+  }
+
+  /**
+   * Check whether the socket is open
+   */
+  private isOpen(): boolean {
+    return this.socket?.readyState === OPEN;
+  }
+
+  /**
+   * Get the heartbeat settings, or null when disabled
+   */
+  private getHeartbeat(): Required<WebSocketHeartbeatOptions> | null {
+    const { heartbeat = true } = this.options;
+    if (!heartbeat) return null;
+    return { ...DEFAULT_HEARTBEAT, ...(heartbeat === true ? {} : heartbeat) };
+  }
+
+  /**
+   * Encode an outgoing message
+   */
+  private serialize(message: unknown): string {
+    return (this.options.serialize ?? JSON.stringify)(message);
+  }
+
+  /**
+   * Decode an incoming message
+   */
+  private deserialize(data: string): any {
+    if (this.options.deserialize) return this.options.deserialize(data);
+
+    try {
+      return JSON.parse(data);
+    } catch {
+      return data;
+    }
+  }
+
+  /**
+   * Message subscribing to a topic
+   */
+  private subscribeMessage(topic: string): unknown {
+    return this.options.subscribeMessage?.(topic) ?? { type: 'subscribe', topic };
+  }
+
+  /**
+   * Message unsubscribing from a topic
+   */
+  private unsubscribeMessage(topic: string): unknown {
+    return this.options.unsubscribeMessage?.(topic) ?? { type: 'unsubscribe', topic };
+  }
+
+  /**
+   * Update the state and notify subscribers
+   */
+  private setState(newState: Partial<WebSocketState>): void {
+    this.state = { ...this.state, ...newState };
+    this.emitter.emit('state', this.getState());
+  }
+}
+
+/**
+ * Default topic of an incoming message
+ */
+function defaultGetTopic(message: any): string | undefined {
+  return typeof message?.topic === 'string' ? message.topic : undefined;
+}
+
+/**
+ * Default payload of an incoming message
+ */
+function defaultGetData(message: any): any {
+  return message?.data;
+}
@@ -8,16 +8,69 @@
 // Core functionality
 export { createFetchKit } from '@core/fetch-kit';
 export { RequestDeduper } from '@core/request-deduper';
+export type { CancelListener, DedupeOptions, RequestCancelReason } from '@core/request-deduper';
+export { InterceptorManager } from '@core/interceptors';
+export { Mutation } from '@core/mutation';
+export { Query } from '@core/query';
+export { QueryManager } from '@core/query-manager';
+export type { QueryState, QueryOptions } from '@core/query';
+export { InfiniteQuery } from '@core/infinite-query';
+export type { InfiniteData, InfiniteQueryState, InfiniteQueryOptions } from '@core/infinite-query';
+export { CircuitBreaker } from '@core/circuit-breaker';
+export type { CircuitStateListener } from '@core/circuit-breaker';
+export { RequestScheduler } from '@core/request-scheduler';
+export type { ScheduleOptions, SchedulerListener } from '@core/request-scheduler';
+export { OfflineQueue } from '@core/offline-queue';
+export type { OfflineRequest, OfflineSender } from '@core/offline-queue';
+export { GraphQLClient, getOperationName, getEntityKey } from '@core/graphql';
+export { EventSourceClient } from '@core/event-source';
+export { WebSocketManager } from '@core/websocket-manager';
+export { ResumableUpload } from '@core/resumable-upload';
+export type { UploadRequest, UploadResponse, UploadSender } from '@core/resumable-upload';
+export { ResumableDownload } from '@core/resumable-download';
+export type { DownloadRequest, DownloadResponse, DownloadSender } from '@core/resumable-download';
 
 // Adapters
 export { fetchAdapter } from '@adapters/fetch-adapter';
+export { nodeHttpAdapter, createNodeHttpAdapter } from '@adapters/node-http-adapter';
+export { xhrAdapter, createXhrAdapter } from '@adapters/xhr-adapter';
+export { MockAdapter, mockAdapter, createMockAdapter } from '@adapters/mock-adapter';
 export { adapterRegistry } from '@adapters/adapter-registry';
+export { AdapterResolver } from '@adapters/adapter-resolver';
 
 // Cache
 export { CacheManager } from '@cache/cache-manager';
 export { MemoryCache } from '@cache/memory-cache';
-export { generateCacheKey } from '@cache/cache-key';
+export { generateCacheKey, getHeadersKey, hashString } from '@cache/cache-key';
 export { createCacheEntry, isEntryStale, isEntryExpired } from '@cache/cache-entry';
+export {
+  parseCacheControl,
+  getHttpCachePolicy,
+  applyHttpCachePolicy,
+  getConditionalHeaders,
+  getVaryHeaders,
+  canServeStale,
+  canServeStaleOnError,
+} from '@cache/http-cache';
+export type { HttpCacheResponse, CacheControl, HttpCachePolicy } from '@cache/http-cache';
+export { EntitySchema } from '@cache/entity-schema';
+export { EntityStore } from '@cache/entity-store';
+
+// Cache persistence
+export {
+  createPersistence,
+  LocalStoragePersistence,
+  MemoryPersistence,
+} from '@cache/persistence/cache-persistence';
+export { SessionStoragePersistence } from '@cache/persistence/session-storage-persistence';
+export { IndexedDBPersistence } from '@cache/persistence/indexed-db-persistence';
+export { FallbackPersistence } from '@cache/persistence/fallback-persistence';
+export { PerformanceOptimizedPersistence } from '@cache/persistence/performance-optimized-persistence';
+export type {
+  CachePersistence,
+  PersistenceOptions,
+  PersistenceType,
+} from '@cache/persistence/cache-persistence';
 
 // Publisher/Subscriber
 export { EventEmitter } from '@core/event-emitter';
@@ -25,19 +78,164 @@ export type { Listener, Unsubscribe } from '@core/event-emitter';
 export type { FetchKitEvents, SubscriptionMethods } from '@fk-types/events';
 
 // Utilities
-export { withRetry, DEFAULT_RETRY_CONFIG } from '@utils/retry';
+export {
+  withRetry,
+  calculateRetryDelay,
+  getServerRetryDelay,
+  DEFAULT_RETRY_CONFIG,
+} from '@utils/retry';
 export { createError, categorizeError, getErrorMessage } from '@utils/error';
+export { validateSchema } from '@utils/schema';
+export type { ValidationContext } from '@utils/schema';
+export { sha256 } from '@utils/hash';
+export { encodeBase64, decodeBase64 } from '@utils/base64';
+export { EventStreamParser, readEventStream } from '@utils/event-stream';
+export { createProgressReporter } from '@utils/progress';
 
 // Type definitions
 export type { BaseFetchKit, FetchKit } from '@core/fetch-kit';
 
-export type { FetchKitConfig, RequestOptions } from '@fk-types/core';
+export type {
+  FetchKitConfig,
+  RequestOptions,
+  RequestProgress,
+  ResponseStream,
+  StreamResponseType,
+} from '@fk-types/core';
+
+export type {
+  Adapter,
+  AdapterRequest,
+  AdapterResponse,
+  AdapterRoute,
+  AdapterRoutePattern,
+  NodeHttpAdapter,
+  NodeHttpAdapterOptions,
+  NodeProxyConfig,
+  XhrAdapterOptions,
+} from '@fk-types/adapter';
+
+export type {
+  MockAdapterOptions,
+  MockHistoryEntry,
+  MockMode,
+  MockRecording,
+  MockReply,
+  MockRequest,
+  MockResponse,
+  MockRoute,
+  MockUnmatchedPolicy,
+  MockUrlPattern,
+} from '@fk-types/mock';
+
+export type {
+  FetchKitError,
+  RetryConfig,
+  RetryJitter,
+  RetryDelaySource,
+  RetryAttempt,
+  ErrorCategory,
+} from '@fk-types/error';
 
-export type { Adapter, AdapterRequest, AdapterResponse } from '@fk-types/adapter';
+export type {
+  CircuitBreakerOptions,
+  CircuitBreakerMethods,
+  CircuitRoutePattern,
+  CircuitState,
+  CircuitStatus,
+} from '@fk-types/circuit';
 
-export type { FetchKitError, RetryConfig, ErrorCategory } from '@fk-types/error';
+export type { SchedulerOptions, SchedulerStats, SchedulerMethods } from '@fk-types/scheduler';
+export type {
+  OfflineCoalesceStrategy,
+  OfflineConflictHandler,
+  OfflineConflictResolution,
+  OfflineMethods,
+  OfflineQueueEvents,
+  OfflineQueueOptions,
+  OfflineRequestOptions,
+  QueuedMutation,
+} from '@fk-types/offline';
+export type {
+  InferSchema,
+  ParseSchema,
+  SafeParseSchema,
+  Schema,
+  SchemaIssue,
+  SchemaOutput,
+  SchemaPathSegment,
+  StandardSchema,
+  ValidationIssue,
+} from '@fk-types/schema';
+
+export type { CacheOptions, CacheKeyOptions, CacheEntry, CacheStorage } from '@fk-types/cache';
 
-export type { CacheOptions, CacheEntry, CacheStorage } from '@fk-types/cache';
+export type {
+  MutationOptions,
+  MutationInvalidation,
+  MutationState,
+  MutationMethods,
+  OptimisticCache,
+} from '@fk-types/mutation';
+
+export type {
+  GraphQLError,
+  GraphQLResponse,
+  GraphQLClientOptions,
+  GraphQLRequestOptions,
+  GraphQLMethods,
+} from '@fk-types/graphql';
+
+export type { EntityShape, EntitySchemaOptions, EntityMethods } from '@fk-types/entity';
+
+export type {
+  ServerSentEvent,
+  EventSourceStatus,
+  EventSourceState,
+  EventSourceCacheOptions,
+  EventSourceOptions,
+  EventSourceMethods,
+} from '@fk-types/event-source';
+
+export type {
+  WebSocketStatus,
+  WebSocketState,
+  WebSocketLike,
+  WebSocketConstructor,
+  WebSocketHeartbeatOptions,
+  WebSocketOptions,
+  WebSocketSubscriptionOptions,
+  WebSocketEvents,
+  WebSocketMethods,
+} from '@fk-types/websocket';
+
+export type {
+  UploadProtocol,
+  UploadStatus,
+  UploadState,
+  UploadRecord,
+  UploadOptions,
+  UploadEvents,
+  UploadMethods,
+} from '@fk-types/upload';
+
+export type {
+  DownloadStatus,
+  DownloadState,
+  DownloadRecord,
+  DownloadOptions,
+  DownloadEvents,
+  DownloadMethods,
+} from '@fk-types/download';
+
+export type {
+  Interceptors,
+  InterceptorHandle,
+  InterceptedRequest,
+  RequestInterceptor,
+  ResponseInterceptor,
+  ErrorInterceptor,
+} from '@fk-types/interceptor';
 
 export type {
   ExtendedRequestOptions,
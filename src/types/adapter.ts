@@ -91,3 +91,124 @@ export interface Adapter {
    */
   transformResponse(response: any): Promise<AdapterResponse> | AdapterResponse;
 }
+
+/**
+ * Proxy server to send Node.js HTTP requests through
+ */
+export interface NodeProxyConfig {
+  /**
+   * Proxy host name
+   */
+  host: string;
+
+  /**
+   * Proxy port
+   */
+  port: number;
+
+  /**
+   * Protocol used to talk to the proxy (default: 'http:')
+   */
+  protocol?: 'http:' | 'https:';
+
+  /**
+   * Credentials sent in the Proxy-Authorization header
+   */
+  auth?: {
+    username: string;
+    password: string;
+  };
+}
+
+/**
+ * Options for the Node.js HTTP adapter
+ */
+export interface NodeHttpAdapterOptions {
+  /**
+   * Adapter name used in the registry (default: 'node-http')
+   */
+  name?: string;
+
+  /**
+   * Reuse sockets between requests (default: true)
+   */
+  keepAlive?: boolean;
+
+  /**
+   * Initial delay for TCP keep-alive packets in milliseconds (default: 1000)
+   */
+  keepAliveMsecs?: number;
+
+  /**
+   * Maximum sockets per host (default: Infinity)
+   */
+  maxSockets?: number;
+
+  /**
+   * Custom agent for http: requests, replacing the built-in keep-alive agent
+   */
+  httpAgent?: import('node:http').Agent;
+
+  /**
+   * Custom agent for https: requests, replacing the built-in keep-alive agent
+   */
+  httpsAgent?: import('node:https').Agent;
+
+  /**
+   * Proxy to route requests through, as a URL or a config object
+   */
+  proxy?: string | NodeProxyConfig;
+
+  /**
+   * Decompress gzip, deflate and br response bodies (default: true)
+   */
+  decompress?: boolean;
+}
+
+/**
+ * Adapter built on the Node.js http and https modules
+ */
+export interface NodeHttpAdapter extends Adapter {
+  /**
+   * Destroy the keep-alive agents and close their idle sockets
+   */
+  destroy(): void;
+}
+
+/**
+ * Options for the XMLHttpRequest adapter
+ */
+export interface XhrAdapterOptions {
+  /**
+   * Adapter name used in the registry (default: 'xhr')
+   */
+  name?: string;
+
+  /**
+   * XMLHttpRequest timeout in milliseconds, reported as a timeout error (default: 0, none)
+   */
+  timeout?: number;
+}
+
+/**
+ * Request matcher for an adapter route.
+ * Strings match the request host name (with the port if they include one) and support
+ * `*` wildcards (e.g. `*.internal`). Regular expressions are tested against the full URL
+ * and functions receive the full URL.
+ */
+export type AdapterRoutePattern = string | RegExp | ((url: string) => boolean);
+
+/**
+ * Rule sending matching requests of a FetchKit instance through a specific adapter
+ */
+export interface AdapterRoute {
+  /**
+   * Requests this rule applies to
+   */
+  match: AdapterRoutePattern;
+
+  /**
+   * Adapter to use, by registered name or instance
+   */
+  adapter: string | Adapter;
+}
@@ -1,10 +1,32 @@
 // src/types/cache.ts
 
+import { RequestOptions } from './core';
+import type { EntityShape } from './entity';
+
 /**
  * Eviction policy types for memory cache
  */
 export type EvictionPolicy = 'lru' | 'lfu' | 'ttl' | 'fifo';
 
+/**
+ * Options for composing cache keys
+ */
+export interface CacheKeyOptions {
+  /** Request headers whose values are part of every cache key, e.g. ['Authorization'] */
+  headers?: string[];
+  /**
+   * Whether request headers named in a response's Vary header are added to
+   * later cache keys for the same request (default: true)
+   */
+  vary?: boolean;
+  /** Request bodies longer than this many characters are hashed in the key (default: 1024) */
+  maxBodyLength?: number;
+  /** Hash function for large bodies and header values (default: 64-bit FNV-1a) */
+  hash?: (value: string) => string;
+  /** Custom key function, replacing the default composition of method, URL, params and body */
+  keyFn?: (url: string, options: RequestOptions) => string;
+}
+
 /**
  * Options for cache configuration
  */
@@ -23,6 +45,13 @@ export interface CacheOptions {
   retryDelay?: number | ((attempt: number, error: Error) => number);
   /** Request timeout in ms (default: 30000) */
   timeout?: number;
+  /**
+   * Whether Cache-Control, Expires, ETag and Last-Modified response headers
+   * decide freshness and revalidation (default: true)
+   */
+  httpCache?: boolean;
+  /** Whether to act as a shared cache, preferring s-maxage over max-age (default: false) */
+  sharedCache?: boolean;
   /** Optional data validator function */
   validator?: (data: any) => boolean;
   /** Optional conditional function to determine if fetch should proceed */
@@ -48,6 +77,8 @@ export interface CacheOptions {
   ignoreGlobalConstraints?: boolean;
   /** A function to estimate the size of the cached item in bytes */
   sizeEstimator?: (value: any) => number;
+  /** Entities in the data, kept in the normalized store when it is enabled */
+  entities?: EntityShape;
 }
 
 /**
@@ -72,6 +103,14 @@ export interface CacheEntry<T> {
   lastError?: string;
   /** Number of times the cache entry has been accessed */
   accessCount?: number;
+  /** ETag of the cached response, sent as If-None-Match when revalidating */
+  etag?: string;
+  /** Last-Modified date of the cached response, sent as If-Modified-Since when revalidating */
+  lastModified?: string;
+  /** Timestamp after which stale data must be revalidated before it is served (HTTP caching) */
+  mustRevalidateAt?: number;
+  /** Timestamp until which stale data may be served if revalidation fails (HTTP caching) */
+  staleIfErrorUntil?: number;
 }
 
 /**
@@ -0,0 +1,106 @@
+// src/types/circuit.ts
+
+import { ErrorCategory } from './error';
+
+/**
+ * Circuit breaker states
+ * - closed: requests flow normally and failures are counted
+ * - open: requests fail fast with ErrorCategory.CircuitOpen
+ * - half-open: a limited number of trial requests decide whether to close again
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Pattern grouping requests into one circuit.
+ * Strings match the path (or the full URL when they include a protocol) and
+ * support `*` wildcards. Regular expressions are tested against the full URL.
+ */
+export type CircuitRoutePattern = string | RegExp;
+
+/**
+ * Options for the circuit breaker
+ */
+export interface CircuitBreakerOptions {
+  /**
+   * Route patterns that get their own circuit. Requests matching none of them
+   * share a circuit per origin.
+   */
+  routes?: CircuitRoutePattern[];
+
+  /**
+   * Failures that open the circuit, either in total across `failureCategories`
+   * or per category (default: 5)
+   */
+  failureThreshold?: number | Partial<Record<ErrorCategory, number>>;
+
+  /**
+   * Error categories counted as failures when `failureThreshold` is a number
+   * (default: server, timeout and network)
+   */
+  failureCategories?: ErrorCategory[];
+
+  /**
+   * Time in ms the circuit stays open before allowing trial requests (default: 30000)
+   */
+  resetTimeout?: number;
+
+  /**
+   * Trial requests allowed at the same time while half-open (default: 1)
+   */
+  halfOpenRequests?: number;
+
+  /**
+   * Successful trial requests needed to close the circuit (default: 1)
+   */
+  successThreshold?: number;
+}
+
+/**
+ * Snapshot of a single circuit
+ */
+export interface CircuitStatus {
+  /**
+   * Origin or route pattern identifying the circuit
+   */
+  key: string;
+
+  /**
+   * Current state
+   */
+  state: CircuitState;
+
+  /**
+   * Consecutive failures by error category since the circuit last closed or succeeded
+   */
+  failures: Partial<Record<ErrorCategory, number>>;
+
+  /**
+   * When the circuit last opened
+   */
+  openedAt?: number;
+
+  /**
+   * When an open circuit starts allowing trial requests
+   */
+  nextAttemptAt?: number;
+}
+
+/**
+ * Circuit breaker methods for FetchKit
+ */
+export interface CircuitBreakerMethods {
+  /**
+   * Get the circuit a URL belongs to, if a request to it has been made
+   */
+  getCircuitStatus: (url: string) => CircuitStatus | undefined;
+
+  /**
+   * Get all known circuits
+   */
+  getCircuits: () => CircuitStatus[];
+
+  /**
+   * Close a circuit by key, or all circuits
+   */
+  resetCircuit: (key?: string) => void;
+}
@@ -1,6 +1,10 @@
 // src/types/core-extension.ts
 
-import { CacheOptions } from './cache';
+import type { CachePersistence, PersistenceOptions } from '@cache/persistence/cache-persistence';
+import { CacheKeyOptions, CacheOptions } from './cache';
+import { CircuitBreakerOptions } from './circuit';
+import { OfflineQueueOptions, OfflineRequestOptions } from './offline';
+import { SchedulerOptions } from './scheduler';
 import { FetchKitConfig as BaseFetchKitConfig, RequestOptions as BaseRequestOptions } from './core';
 
 /**
@@ -16,6 +20,34 @@ export interface RequestOptionsExtension {
    * Whether to deduplicate identical in-flight requests
    */
   deduplicate?: boolean;
+
+  /**
+   * Tags for cancelling groups of deduplicated requests
+   */
+  tags?: string[];
+
+  /**
+   * Scheduler priority lane; higher numbers start first (default: cacheOptions.priority or 0)
+   */
+  priority?: number;
+
+  /**
+   * Coalescing options for the offline queue, or false to never queue this request
+   */
+  offline?: boolean | OfflineRequestOptions;
+
+  /**
+   * Cache and deduplicate a request with another method than GET, as a read.
+   * Used for GraphQL queries, which are sent with POST.
+   */
+  cacheable?: boolean;
+
+  /**
+   * Cache a streamed response once it has been read to the end, as an array of its
+   * chunks or records, and replay it as a stream while it is fresh. Without it,
+   * streamed responses skip the cache and deduplication.
+   */
+  cacheStream?: boolean;
 }
 
 /**
@@ -32,6 +64,12 @@ export interface FetchKitConfigExtension {
    */
   cacheOptions?: CacheOptions;
 
+  /**
+   * How cache keys are composed: request headers to include, Vary handling,
+   * body hashing or a custom key function
+   */
+  cacheKeyOptions?: CacheKeyOptions;
+
   /**
    * Whether to deduplicate identical in-flight requests by default
    */
@@ -51,6 +89,35 @@ export interface FetchKitConfigExtension {
    * Cleanup interval in milliseconds (default: 60000)
    */
   cleanupInterval?: number;
+
+  /**
+   * Durable storage for the SWR cache, either options for creating a
+   * persistence backend or an existing backend instance
+   */
+  persistence?: PersistenceOptions | CachePersistence;
+
+  /**
+   * Fail fast for origins or routes that keep failing.
+   * Pass true for the default options (disabled by default).
+   */
+  circuitBreaker?: boolean | CircuitBreakerOptions;
+
+  /**
+   * Concurrency limits and priority scheduling for requests
+   */
+  scheduler?: SchedulerOptions;
+
+  /**
+   * Queue mutations that fail while offline and replay them once back online.
+   * Pass true for the default options (disabled by default).
+   */
+  offline?: boolean | OfflineQueueOptions;
+
+  /**
+   * Keep entities declared with `cacheOptions.entities` in a normalized store shared
+   * by all cache entries (default: false)
+   */
+  normalize?: boolean;
 }
 
 /**
@@ -120,6 +187,17 @@ export interface AdvancedCacheMethods {
    * Manually set data in the cache for a URL
    */
   setCacheData: (url: string, data: any, options?: ExtendedRequestOptions) => void;
+
+  /**
+   * Register a named group of cache keys or key patterns that can be invalidated together
+   */
+  registerInvalidationGroup: (groupName: string, keys: (string | RegExp)[]) => void;
+
+  /**
+   * Invalidate every cache entry in a registered group
+   * @returns The number of entries invalidated
+   */
+  invalidateGroup: (groupName: string) => number;
 }
 
 /**
@@ -142,7 +220,22 @@ export interface DeduplicationMethods {
   isRequestInFlight: (cacheKey: string) => boolean;
 
   /**
-   * Clear all tracked in-flight requests
+   * Abort all deduplicated in-flight requests
    */
   cancelInFlightRequests: () => void;
+
+  /**
+   * Abort a deduplicated in-flight request for all of its callers
+   */
+  cancelRequest: (cacheKey: string) => boolean;
+
+  /**
+   * Abort deduplicated in-flight requests matching a predicate, returning how many were aborted
+   */
+  cancelRequestsMatching: (predicate: (key: string, tags: string[]) => boolean) => number;
+
+  /**
+   * Abort deduplicated in-flight requests with a tag, returning how many were aborted
+   */
+  cancelRequestsByTag: (tag: string) => number;
 }
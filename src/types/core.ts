@@ -1,7 +1,8 @@
 // src/types/core.ts
 
-import { Adapter } from './adapter';
+import { Adapter, AdapterRoute } from './adapter';
 import { RetryConfig } from './error';
+import { Schema } from './schema';
 
 /**
  * Configuration options for creating a FetchKit instance
@@ -27,6 +28,11 @@ export interface FetchKitConfig {
    */
   adapter?: Adapter;
 
+  /**
+   * Rules choosing an adapter by request host or URL, checked in order
+   */
+  adapterRoutes?: AdapterRoute[];
+
   /**
    * Default retry configuration
    */
@@ -68,9 +74,12 @@ export interface RequestOptions {
   signal?: AbortSignal;
 
   /**
-   * Expected response type
+   * Expected response type. Streamed types resolve successful responses with a
+   * ResponseStream as soon as the headers arrive, for adapters that can stream:
+   * 'stream' yields the body's bytes, 'text-stream' its decoded text chunks and
+   * 'ndjson' the parsed records of newline-delimited JSON.
    */
-  responseType?: 'json' | 'text' | 'blob' | 'arrayBuffer' | 'formData';
+  responseType?: 'json' | 'text' | 'blob' | 'arrayBuffer' | 'formData' | StreamResponseType;
 
   /**
    * Whether to include credentials in cross-origin requests
@@ -96,4 +105,73 @@ export interface RequestOptions {
    * Retry configuration for the request
    */
   retry?: boolean | Partial<RetryConfig>;
+
+  /**
+   * Adapter for this request, by registered name or instance
+   */
+  adapter?: string | Adapter;
+
+  /**
+   * Called as the request body is uploaded, for adapters that can report it
+   */
+  onUploadProgress?: (progress: RequestProgress) => void;
+
+  /**
+   * Called as the response body is downloaded, for adapters that can report it.
+   * The total comes from the Content-Length header.
+   */
+  onDownloadProgress?: (progress: RequestProgress) => void;
+
+  /**
+   * Transform the response data, or throw to reject it, before it is validated and cached.
+   * Runs once the request has succeeded, so errors it throws are not retried.
+   */
+  transformResponse?: (data: any) => any | Promise<any>;
+
+  /**
+   * Schema the response data must match. Zod, Valibot, ArkType and any schema
+   * with a Standard Schema, safeParse or parse interface work.
+   */
+  schema?: Schema<any>;
+}
+
+/**
+ * Response types that resolve with the response body as a stream
+ */
+export type StreamResponseType = 'stream' | 'text-stream' | 'ndjson';
+
+/**
+ * Streamed response body, which can be read with a reader or iterated with for await.
+ * Leaving the loop early or cancelling the stream stops the download.
+ */
+export type ResponseStream<T> = ReadableStream<T> & AsyncIterable<T>;
+
+/**
+ * Progress of a request body upload or a response body download
+ */
+export interface RequestProgress {
+  /**
+   * Bytes transferred so far
+   */
+  loaded: number;
+
+  /**
+   * Total bytes, if known
+   */
+  total?: number;
+
+  /**
+   * Fraction transferred between 0 and 1, if the total is known
+   */
+  progress?: number;
+
+  /**
+   * Average transfer rate in bytes per second, once it can be measured
+   */
+  rate?: number;
+
+  /**
+   * Estimated milliseconds until the transfer completes, if the total and rate are known
+   */
+  eta?: number;
 }
@@ -0,0 +1,109 @@
+// src/types/download.ts
+
+import type { CachePersistence, PersistenceOptions } from '@cache/persistence/cache-persistence';
+import type { ResumableDownload } from '@core/resumable-download';
+import { RequestProgress } from './core';
+import { FetchKitError, RetryConfig } from './error';
+
+/**
+ * Status of a resumable download
+ */
+export type DownloadStatus = 'idle' | 'downloading' | 'paused' | 'completed' | 'failed';
+
+/**
+ * State of a resumable download
+ */
+export interface DownloadState {
+  /** Download status */
+  status: DownloadStatus;
+  /** Bytes received so far, with the transfer rate and time remaining */
+  progress: RequestProgress;
+  /** ETag of the resource, which a resumed download must still match */
+  etag?: string;
+  /** Error that failed the download */
+  error?: FetchKitError;
+}
+
+/**
+ * Download progress saved to persistence, so a download can resume after a reload
+ */
+export interface DownloadRecord {
+  /** Key identifying the download */
+  fingerprint: string;
+  /** Strong ETag of the resource the received bytes belong to */
+  etag?: string;
+  /** Resource size in bytes, if the server sent it */
+  total?: number;
+  /** Bytes received and stored */
+  loaded: number;
+  /** Number of stored segments of received bytes */
+  segments: number;
+  /** Timestamp when the download was started */
+  createdAt: number;
+}
+
+/**
+ * Options for a resumable download
+ */
+export interface DownloadOptions {
+  /**
+   * Headers sent with every request of the download
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Retry settings. Each retry continues from the last byte received
+   * (default: 3 attempts with exponential backoff).
+   */
+  retry?: Partial<RetryConfig>;
+
+  /**
+   * Expected SHA-256 of the complete download as hex digits. A mismatch fails the
+   * download and discards the received bytes.
+   */
+  checksum?: string;
+
+  /**
+   * Durable storage for the received bytes, so the download resumes after a reload:
+   * true for IndexedDB, a persistence backend or options for one
+   * (default: false, keeping them in memory)
+   */
+  persistence?: boolean | CachePersistence | PersistenceOptions;
+
+  /**
+   * Bytes collected before they are written to persistence as one segment
+   * (default: 1 MiB)
+   */
+  segmentSize?: number;
+
+  /**
+   * Key identifying the download, to find its saved bytes (default: the URL)
+   */
+  fingerprint?: string;
+
+  /**
+   * Called as bytes are received
+   */
+  onProgress?: (progress: RequestProgress) => void;
+}
+
+/**
+ * Events of a resumable download
+ */
+export interface DownloadEvents {
+  /**
+   * The status or progress changed
+   */
+  state: DownloadState;
+}
+
+/**
+ * Resumable download methods for FetchKit
+ */
+export interface DownloadMethods {
+  /**
+   * Prepare a download that continues from the last byte received with Range
+   * requests, even after a reload. Call `start()` to begin.
+   */
+  createDownload: (url: string, options?: DownloadOptions) => ResumableDownload;
+}
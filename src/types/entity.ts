@@ -0,0 +1,44 @@
+// src/types/entity.ts
+
+import type { EntitySchema } from '@cache/entity-schema';
+
+/**
+ * Where entities appear in data: an entity schema, an array of a shape,
+ * or an object giving the shapes of some of its fields
+ */
+export type EntityShape = EntitySchema<any> | EntityShape[] | { [field: string]: EntityShape };
+
+/**
+ * Options for an entity schema
+ */
+export interface EntitySchemaOptions<T = any> {
+  /**
+   * Field holding the entity's id, or a function returning it (default: 'id')
+   */
+  idField?: string | ((entity: T) => string | number | undefined);
+
+  /**
+   * Shapes of the fields holding other entities
+   */
+  fields?: Record<string, EntityShape>;
+}
+
+/**
+ * Entity-related methods for FetchKit, available when the normalized store is enabled
+ */
+export interface EntityMethods {
+  /**
+   * Read an entity from the normalized store, with the entities it references
+   */
+  getEntity: <T = any>(schema: EntitySchema<T>, id: string | number) => T | undefined;
+
+  /**
+   * Write an entity to the normalized store, either directly or from its current value.
+   * Every cache entry referencing it is updated.
+   */
+  setEntity: <T = any>(
+    schema: EntitySchema<T>,
+    id: string | number,
+    updater: T | ((current: T | undefined) => T),
+  ) => void;
+}
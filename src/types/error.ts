@@ -1,5 +1,8 @@
 // src/types/error.ts
 
+import type { GraphQLError } from './graphql';
+import type { ValidationIssue } from './schema';
+
 /**
  * HTTP error status code categories
  */
@@ -10,6 +13,9 @@ export enum ErrorCategory {
   Network = 'network', // Network connectivity errors
   Cancel = 'cancel', // Cancelled requests
   Parse = 'parse', // Response parsing errors
+  CircuitOpen = 'circuit-open', // Failed fast because the circuit breaker is open
+  Validation = 'validation', // Response data did not match the request's schema
+  GraphQL = 'graphql', // A GraphQL response reported errors
   Unknown = 'unknown', // Unrecognized errors
 }
 
@@ -71,6 +77,26 @@ export interface FetchKitError extends Error {
    * Retry count if this request was retried
    */
   retryCount?: number;
+
+  /**
+   * Invalid values found by schema validation
+   */
+  issues?: ValidationIssue[];
+
+  /**
+   * Errors reported in a GraphQL response
+   */
+  graphQLErrors?: GraphQLError[];
+
+  /**
+   * Whether the request was saved to the offline queue to be replayed later
+   */
+  queued?: boolean;
+
+  /**
+   * Id of the queued mutation the request was saved as
+   */
+  queuedMutationId?: string;
 }
 
 /**
@@ -106,4 +132,62 @@ export interface RetryConfig {
    * Function to determine if a request should be retried
    */
   shouldRetry?: (error: FetchKitError, attempt: number) => boolean;
+
+  /**
+   * Randomization applied to the backoff delay (default: 'proportional')
+   */
+  jitter?: RetryJitter;
+
+  /**
+   * Whether to wait as long as Retry-After and rate limit headers ask (default: true)
+   */
+  respectRetryAfter?: boolean;
+
+  /**
+   * Called before waiting for each retry
+   */
+  onRetry?: (retry: RetryAttempt) => void;
+}
+
+/**
+ * Jitter strategies for retry delays
+ * - none: use the backoff delay as-is
+ * - proportional: vary the backoff delay by ±20%
+ * - full: wait a random time between 0 and the backoff delay
+ * - equal: wait half the backoff delay plus a random part of the other half
+ * - decorrelated: wait a random time between the base delay and three times the previous delay
+ */
+export type RetryJitter = 'none' | 'proportional' | 'full' | 'equal' | 'decorrelated';
+
+/**
+ * Where a retry delay came from
+ * - backoff: the configured backoff and jitter
+ * - retry-after: the response's Retry-After header
+ * - rate-limit: the response's RateLimit-Reset or X-RateLimit-* headers
+ */
+export type RetryDelaySource = 'backoff' | 'retry-after' | 'rate-limit';
+
+/**
+ * Details of a scheduled retry
+ */
+export interface RetryAttempt {
+  /**
+   * Number of the failed attempt, starting at 1
+   */
+  attempt: number;
+
+  /**
+   * Delay before the next attempt in milliseconds
+   */
+  delay: number;
+
+  /**
+   * Where the delay came from
+   */
+  source: RetryDelaySource;
+
+  /**
+   * Error of the failed attempt
+   */
+  error: FetchKitError;
 }
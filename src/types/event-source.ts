@@ -0,0 +1,143 @@
+// src/types/event-source.ts
+
+import type { EventSourceClient } from '@core/event-source';
+import { ExtendedRequestOptions } from './core-extension';
+
+/**
+ * An event received from a `text/event-stream` response
+ */
+export interface ServerSentEvent<T = string> {
+  /**
+   * Event type, 'message' unless the server named it
+   */
+  event: string;
+
+  /**
+   * Event data, parsed according to the `parse` option
+   */
+  data: T;
+
+  /**
+   * Last event ID set by the server when the event was dispatched
+   */
+  id?: string;
+
+  /**
+   * Reconnection delay in milliseconds, if the server sent one with the event
+   */
+  retry?: number;
+}
+
+/**
+ * Connection status of an event source
+ */
+export type EventSourceStatus = 'connecting' | 'open' | 'closed';
+
+/**
+ * State of an EventSourceClient
+ */
+export interface EventSourceState {
+  /** Connection status */
+  status: EventSourceStatus;
+  /** ID of the last event received, sent as `Last-Event-ID` when reconnecting */
+  lastEventId: string | undefined;
+  /** Delay in milliseconds before reconnecting */
+  retryDelay: number;
+  /** Failed connection attempts since the last successful one */
+  retryCount: number;
+  /** Error that closed the event source, or the last connection error */
+  error: Error | null;
+}
+
+/**
+ * Cache entry that events are folded into
+ */
+export interface EventSourceCacheOptions<T = string, TCache = any> {
+  /**
+   * URL of the cache entry
+   */
+  url: string;
+
+  /**
+   * Request options of the cache entry, as used to fetch it
+   */
+  options?: ExtendedRequestOptions;
+
+  /**
+   * Event types to fold into the entry (default: all)
+   */
+  events?: string[];
+
+  /**
+   * Compute the new cached data from the current data and an event
+   */
+  reduce: (current: TCache | undefined, event: ServerSentEvent<T>) => TCache;
+}
+
+/**
+ * Options for an event source
+ */
+export interface EventSourceOptions<T = string, TCache = any>
+  extends Omit<
+    ExtendedRequestOptions,
+    | 'cacheOptions'
+    | 'cacheable'
+    | 'deduplicate'
+    | 'offline'
+    | 'responseType'
+    | 'retry'
+    | 'schema'
+    | 'transformResponse'
+  > {
+  /**
+   * How to parse event data: as text, as JSON, or with a function (default: 'text')
+   */
+  parse?: 'text' | 'json' | ((data: string, event: ServerSentEvent) => T);
+
+  /**
+   * Reconnect when the stream ends or the connection fails (default: true)
+   */
+  reconnect?: boolean;
+
+  /**
+   * Delay in milliseconds before reconnecting, until the server sends a `retry` field
+   * (default: 3000)
+   */
+  retryDelay?: number;
+
+  /**
+   * Failed connection attempts in a row before giving up (default: Infinity)
+   */
+  maxRetries?: number;
+
+  /**
+   * Event ID to resume from, sent as `Last-Event-ID` with the first request
+   */
+  lastEventId?: string;
+
+  /**
+   * Fold events into a cache entry, so queries of that entry see live updates
+   */
+  cacheUpdate?: EventSourceCacheOptions<T, TCache>;
+}
+
+/**
+ * Server-Sent Events methods for FetchKit
+ */
+export interface EventSourceMethods {
+  /**
+   * Open an event source that reconnects until it is closed or its signal is aborted
+   */
+  eventSource: <T = string, TCache = any>(
+    url: string,
+    options?: EventSourceOptions<T, TCache>,
+  ) => EventSourceClient<T>;
+
+  /**
+   * Iterate over the events of an event source. Ending the iteration closes it.
+   */
+  sse: <T = string, TCache = any>(
+    url: string,
+    options?: EventSourceOptions<T, TCache>,
+  ) => AsyncIterableIterator<ServerSentEvent<T>>;
+}
@@ -3,7 +3,13 @@
 
 import { Listener, Unsubscribe } from '@core/event-emitter';
 import { ExtendedRequestOptions } from './core-extension';
-import { FetchKitError } from './error';
+import type { RequestCancelReason } from '@core/request-deduper';
+import { CircuitStatus } from './circuit';
+import { RequestProgress } from './core';
+import { FetchKitError, RetryDelaySource } from './error';
+import { OfflineQueueEvents } from './offline';
+import { SchedulerStats } from './scheduler';
+import { WebSocketEvents, WebSocketState } from './websocket';
 
 /**
  * Events that FetchKit can emit
@@ -14,11 +20,26 @@ export interface FetchKitEvents {
   'request:success': { url: string; method: string; data: any; duration: number };
   'request:error': { url: string; method: string; error: FetchKitError; duration: number };
   'request:complete': { url: string; method: string; success: boolean; duration: number };
+  'request:retry': {
+    url: string;
+    method: string;
+    attempt: number;
+    delay: number;
+    source: RetryDelaySource;
+    error: FetchKitError;
+  };
+  'request:cancel': { key: string; reason: RequestCancelReason };
+  'request:progress': RequestProgress & {
+    url: string;
+    method: string;
+    direction: 'upload' | 'download';
+  };
 
   // Cache-related events
   'cache:hit': { key: string; data: any; isStale: boolean };
   'cache:miss': { key: string };
   'cache:set': { key: string; data: any };
+  'cache:update': { key: string; data: any };
   'cache:invalidate': { key: string | null };
 
   // Cache warming events
@@ -37,6 +58,36 @@ export interface FetchKitEvents {
   'cache:evict': { key: string; reason: 'size_limit' | 'count_limit' | 'ttl' | 'manual' };
   'cache:stats': { size: number; count: number; hits: number; misses: number; hitRatio: number };
 
+  // Circuit breaker events
+  'circuit:open': CircuitStatus;
+  'circuit:half-open': CircuitStatus;
+  'circuit:close': CircuitStatus;
+
+  // Scheduler events
+  'scheduler:queue': SchedulerStats;
+
+  // Offline queue events
+  'offline:queued': OfflineQueueEvents['queued'];
+  'offline:replayed': OfflineQueueEvents['replayed'];
+  'offline:failed': OfflineQueueEvents['failed'];
+
+  // WebSocket events
+  'websocket:state': WebSocketState;
+  'websocket:error': WebSocketEvents['error'];
+
+  // Mutation events
+  'mutation:start': { url: string; method: string; variables: any };
+  'mutation:optimistic': { url: string; keys: string[] };
+  'mutation:success': { url: string; method: string; data: any; variables: any; duration: number };
+  'mutation:error': {
+    url: string;
+    method: string;
+    error: FetchKitError;
+    variables: any;
+    duration: number;
+  };
+  'mutation:rollback': { url: string; keys: string[] };
+
   // Global events
   error: Error;
   debug: { message: string; data?: any };
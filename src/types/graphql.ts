@@ -0,0 +1,93 @@
+// src/types/graphql.ts
+
+import type { GraphQLClient } from '@core/graphql';
+import { ExtendedRequestOptions } from './core-extension';
+
+/**
+ * An error reported in a GraphQL response
+ */
+export interface GraphQLError {
+  /**
+   * Description of the error
+   */
+  message: string;
+
+  /**
+   * Locations in the document the error refers to
+   */
+  locations?: { line: number; column: number }[];
+
+  /**
+   * Path to the response field the error occurred in
+   */
+  path?: (string | number)[];
+
+  /**
+   * Additional details, such as an error code
+   */
+  extensions?: Record<string, any>;
+}
+
+/**
+ * Body of a GraphQL response
+ */
+export interface GraphQLResponse<TData = any> {
+  /**
+   * Result of the operation
+   */
+  data?: TData | null;
+
+  /**
+   * Errors raised while executing the operation
+   */
+  errors?: GraphQLError[];
+
+  /**
+   * Additional response details
+   */
+  extensions?: Record<string, any>;
+}
+
+/**
+ * Options for a GraphQL client
+ */
+export interface GraphQLClientOptions {
+  /**
+   * Send a SHA-256 hash of each document instead of the document itself, and
+   * the full document only when the server does not know the hash yet
+   * (automatic persisted queries, default: false)
+   */
+  persistedQueries?: boolean;
+
+  /**
+   * Merge entities identified by `__typename` and `id` from every result into
+   * the cached queries of this client that contain them (default: true)
+   */
+  normalize?: boolean;
+
+  /**
+   * Headers sent with every operation
+   */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Options for a GraphQL query or mutation
+ */
+export interface GraphQLRequestOptions extends Omit<ExtendedRequestOptions, 'method' | 'body'> {
+  /**
+   * Name of the operation to run, for documents with several operations
+   * (default: the name of the first operation)
+   */
+  operationName?: string;
+}
+
+/**
+ * GraphQL-related methods for FetchKit
+ */
+export interface GraphQLMethods {
+  /**
+   * Create a client for a GraphQL endpoint
+   */
+  createGraphQLClient: (endpoint: string, options?: GraphQLClientOptions) => GraphQLClient;
+}
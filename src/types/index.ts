@@ -4,4 +4,17 @@ export * from './core';
 export * from './core-extension';
 export * from './cache';
 export * from './adapter';
+export * from './mock';
 export * from './error';
+export * from './circuit';
+export * from './scheduler';
+export * from './offline';
+export * from './schema';
+export * from './interceptor';
+export * from './mutation';
+export * from './graphql';
+export * from './entity';
+export * from './event-source';
+export * from './websocket';
+export * from './upload';
+export * from './download';
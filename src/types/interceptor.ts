@@ -0,0 +1,73 @@
+// src/types/interceptor.ts
+
+import { AdapterResponse } from './adapter';
+import { RequestOptions } from './core';
+import { FetchKitError } from './error';
+
+/**
+ * Request passed through the request interceptor chain
+ */
+export interface InterceptedRequest {
+  /**
+   * The URL to request (already combined with the base URL)
+   */
+  url: string;
+
+  /**
+   * Options for the request
+   */
+  options: RequestOptions;
+}
+
+/**
+ * Interceptor that can modify a request before it reaches the adapter
+ */
+export type RequestInterceptor = (
+  request: InterceptedRequest,
+) => InterceptedRequest | Promise<InterceptedRequest>;
+
+/**
+ * Interceptor that can modify a successful response before its data is returned
+ */
+export type ResponseInterceptor = (
+  response: AdapterResponse,
+) => AdapterResponse | Promise<AdapterResponse>;
+
+/**
+ * Interceptor that handles a failed request.
+ * Returning a response recovers from the error, returning nothing passes the
+ * error on to the next interceptor and throwing replaces the error.
+ */
+export type ErrorInterceptor = (
+  error: FetchKitError,
+) => AdapterResponse | void | Promise<AdapterResponse | void>;
+
+/**
+ * Handle for registering and removing interceptors of one kind
+ */
+export interface InterceptorHandle<T> {
+  /**
+   * Add an interceptor to the end of the chain
+   * @returns An id that can be passed to eject
+   */
+  use(interceptor: T): number;
+
+  /**
+   * Remove a previously added interceptor
+   */
+  eject(id: number): boolean;
+
+  /**
+   * Remove all interceptors
+   */
+  clear(): void;
+}
+
+/**
+ * Interceptor chains available on a FetchKit instance
+ */
+export interface Interceptors {
+  request: InterceptorHandle<RequestInterceptor>;
+  response: InterceptorHandle<ResponseInterceptor>;
+  error: InterceptorHandle<ErrorInterceptor>;
+}
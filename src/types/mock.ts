@@ -0,0 +1,127 @@
+// src/types/mock.ts
+
+import { Adapter } from './adapter';
+
+/**
+ * URL pattern for a mock route.
+ * Strings match the path (or the full URL when they include a protocol),
+ * support `:name` segments and `*` wildcards. Functions receive the full URL.
+ */
+export type MockUrlPattern = string | RegExp | ((url: string) => boolean);
+
+/**
+ * Request seen by the mock adapter
+ */
+export interface MockRequest {
+  /** HTTP method */
+  method: string;
+  /** Full request URL */
+  url: string;
+  /** URL path without the query string */
+  path: string;
+  /** Query string parameters */
+  query: Record<string, string>;
+  /** Values of `:name` segments in the matched route */
+  params: Record<string, string>;
+  /** Request headers */
+  headers: Record<string, string>;
+  /** Request body as passed to FetchKit */
+  body?: any;
+}
+
+/**
+ * Response produced by a mock route
+ */
+export interface MockResponse {
+  /** HTTP status code (default: 200) */
+  status?: number;
+  /** Response data */
+  data?: any;
+  /** Response headers */
+  headers?: Record<string, string>;
+  /** Delay before responding in milliseconds */
+  delay?: number;
+  /** Fail as if the network was unreachable */
+  networkError?: boolean;
+  /** Fail as if the request timed out */
+  timeout?: boolean;
+}
+
+/**
+ * A static response or a function computing one from the request
+ */
+export type MockReply =
+  | MockResponse
+  | ((request: MockRequest) => MockResponse | Promise<MockResponse>);
+
+/**
+ * A route in the mock adapter's route table
+ */
+export interface MockRoute {
+  /** HTTP method, or '*' for any method */
+  method: string;
+  /** URL pattern to match */
+  url: MockUrlPattern;
+  /** Response for matching requests */
+  reply: MockReply;
+  /** Number of requests this route answers before it is removed (default: unlimited) */
+  times?: number;
+}
+
+/**
+ * Request recorded in the mock adapter's history
+ */
+export interface MockHistoryEntry extends MockRequest {
+  /** Whether a route or fixture answered the request */
+  matched: boolean;
+  /** When the request was made */
+  timestamp: number;
+}
+
+/**
+ * Request and response pair captured in record mode
+ */
+export interface MockRecording {
+  method: string;
+  url: string;
+  body?: any;
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    data: any;
+  };
+}
+
+/**
+ * What to do with requests no route matches
+ * - throw: reject the request
+ * - passthrough: send it through the passthrough adapter
+ * - warn: log a warning and respond with 404
+ */
+export type MockUnmatchedPolicy = 'throw' | 'passthrough' | 'warn';
+
+/**
+ * Mock adapter operating mode
+ * - mock: answer from the route table
+ * - record: send requests through the passthrough adapter and record them
+ * - replay: answer from recorded traffic
+ */
+export type MockMode = 'mock' | 'record' | 'replay';
+
+/**
+ * Options for the mock adapter
+ */
+export interface MockAdapterOptions {
+  /** Adapter name used in the registry (default: 'mock') */
+  name?: string;
+  /** Operating mode (default: 'mock') */
+  mode?: MockMode;
+  /** Policy for requests no route matches (default: 'throw') */
+  unmatched?: MockUnmatchedPolicy;
+  /** Adapter for passthrough and record mode (default: fetch, or node-http in Node.js) */
+  passthrough?: Adapter;
+  /** JSON fixture file written by saveFixture and read in replay mode (Node.js only) */
+  fixture?: string;
+  /** Delay applied to every mocked response in milliseconds */
+  delay?: number;
+}
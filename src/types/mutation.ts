@@ -0,0 +1,122 @@
+// src/types/mutation.ts
+
+import type { Mutation } from '@core/mutation';
+import { ExtendedRequestOptions } from './core-extension';
+import type { EntityShape } from './entity';
+
+/**
+ * Cache access given to optimistic updaters.
+ * Every entry written through it is snapshotted so it can be rolled back.
+ */
+export interface OptimisticCache {
+  /**
+   * Read the cached data for a URL
+   */
+  getData<T = any>(url: string, options?: ExtendedRequestOptions): T | undefined;
+
+  /**
+   * Write the cached data for a URL, either directly or from the current value
+   */
+  setData<T = any>(
+    url: string,
+    updater: T | ((current: T | undefined) => T),
+    options?: ExtendedRequestOptions,
+  ): void;
+}
+
+/**
+ * Cache entries to invalidate after a successful mutation
+ */
+export interface MutationInvalidation {
+  /**
+   * URLs whose GET cache entries should be invalidated
+   */
+  urls?: string[];
+
+  /**
+   * Raw cache keys to invalidate
+   */
+  keys?: string[];
+
+  /**
+   * Patterns matched against cache keys
+   */
+  patterns?: RegExp[];
+
+  /**
+   * Names of groups registered with registerInvalidationGroup
+   */
+  groups?: string[];
+}
+
+/**
+ * Options for a mutation request
+ */
+export interface MutationOptions<TData = any, TVariables = any>
+  extends Omit<ExtendedRequestOptions, 'method' | 'body'> {
+  /**
+   * HTTP method for the mutation (default: 'POST')
+   */
+  method?: 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+  /**
+   * Patch cache entries before the request is sent.
+   * The patched entries are restored if the request fails.
+   */
+  optimisticUpdate?: (cache: OptimisticCache, variables: TVariables) => void;
+
+  /**
+   * Cache entries to invalidate once the mutation succeeds
+   */
+  invalidate?:
+    | MutationInvalidation
+    | ((data: TData, variables: TVariables) => MutationInvalidation);
+
+  /**
+   * Entities in the response to merge into the normalized store once the mutation
+   * succeeds, updating every cache entry that references them
+   */
+  entities?: EntityShape;
+}
+
+/**
+ * State of a Mutation instance
+ */
+export interface MutationState<TData = any, TVariables = any> {
+  /** The data returned by the last successful mutation */
+  data: TData | undefined;
+  /** Error from the last failed mutation */
+  error: Error | null;
+  /** Variables passed to the last mutation */
+  variables: TVariables | undefined;
+  /** Whether no mutation has been run since creation or reset */
+  isIdle: boolean;
+  /** Whether a mutation is currently in progress */
+  isPending: boolean;
+  /** Whether the last mutation succeeded */
+  isSuccess: boolean;
+  /** Whether the last mutation failed */
+  isError: boolean;
+}
+
+/**
+ * Mutation-related methods for FetchKit
+ */
+export interface MutationMethods {
+  /**
+   * Send a mutation request with optional optimistic updates and cache invalidation
+   */
+  mutate: <TData = any, TVariables = any>(
+    url: string,
+    variables?: TVariables,
+    options?: MutationOptions<TData, TVariables>,
+  ) => Promise<TData>;
+
+  /**
+   * Create a reusable Mutation with its own subscribable state
+   */
+  createMutation: <TData = any, TVariables = any>(
+    url: string | ((variables: TVariables) => string),
+    options?: MutationOptions<TData, TVariables>,
+  ) => Mutation<TData, TVariables>;
+}
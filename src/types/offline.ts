@@ -0,0 +1,170 @@
+// src/types/offline.ts
+
+import type { CachePersistence, PersistenceOptions } from '@cache/persistence/cache-persistence';
+import { FetchKitError } from './error';
+
+/**
+ * How a queued mutation absorbs a newer mutation with the same key
+ * - replace: the newer mutation replaces the queued one in its place (last write wins)
+ * - merge: object bodies are shallow-merged into the queued one, as for PATCH requests
+ * - append: both mutations are kept and replayed in order
+ */
+export type OfflineCoalesceStrategy = 'replace' | 'merge' | 'append';
+
+/**
+ * A mutation waiting to be replayed
+ */
+export interface QueuedMutation {
+  /**
+   * Unique id of the queued mutation
+   */
+  id: string;
+
+  /**
+   * Key used to deduplicate and coalesce mutations
+   */
+  key: string;
+
+  /**
+   * Full request URL
+   */
+  url: string;
+
+  /**
+   * HTTP method
+   */
+  method: string;
+
+  /**
+   * Request body; must be JSON-serializable to be persisted
+   */
+  body?: any;
+
+  /**
+   * Request headers
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Timestamp when the mutation was first queued
+   */
+  queuedAt: number;
+
+  /**
+   * Number of failed replay attempts
+   */
+  attempts: number;
+}
+
+/**
+ * What to do with a mutation the server rejected with 409 Conflict or 412 Precondition Failed
+ * - retry: send it again as-is
+ * - discard: drop it and emit offline:failed
+ * - an object: send it again with the given body and headers, e.g. after rebasing on the server state
+ */
+export type OfflineConflictResolution =
+  | 'retry'
+  | 'discard'
+  | { body?: any; headers?: Record<string, string> };
+
+/**
+ * Handler for replayed mutations rejected with 409 or 412
+ */
+export type OfflineConflictHandler = (
+  mutation: QueuedMutation,
+  error: FetchKitError,
+) => OfflineConflictResolution | Promise<OfflineConflictResolution>;
+
+/**
+ * Options for the offline mutation queue
+ */
+export interface OfflineQueueOptions {
+  /**
+   * Durable storage for queued mutations (default: IndexedDB, falling back
+   * to the next available backend)
+   */
+  persistence?: CachePersistence | PersistenceOptions;
+
+  /**
+   * URL to request with HEAD, or a function resolving to true when the server is reachable.
+   * Probing runs while mutations are queued; the queue replays after a successful probe.
+   */
+  probe?: string | (() => Promise<boolean>);
+
+  /**
+   * Time in ms between probes (default: 30000)
+   */
+  probeInterval?: number;
+
+  /**
+   * How mutations with the same key are coalesced (default: 'replace')
+   */
+  coalesce?: OfflineCoalesceStrategy;
+
+  /**
+   * Replay attempts before a mutation failing with a server error is dropped (default: 3)
+   */
+  maxAttempts?: number;
+
+  /**
+   * Resolve replayed mutations rejected with 409 or 412.
+   * Without a handler those mutations are dropped.
+   */
+  onConflict?: OfflineConflictHandler;
+}
+
+/**
+ * Per-request offline queue options
+ */
+export interface OfflineRequestOptions {
+  /**
+   * Key for coalescing this mutation with others, e.g. 'todo:1'.
+   * Without a key only identical mutations are deduplicated.
+   */
+  key?: string;
+
+  /**
+   * How this mutation is coalesced with a queued one with the same key
+   */
+  coalesce?: OfflineCoalesceStrategy;
+}
+
+/**
+ * Events emitted by the offline mutation queue
+ */
+export interface OfflineQueueEvents {
+  /**
+   * A mutation was queued, or coalesced into a queued one
+   */
+  queued: { mutation: QueuedMutation; coalesced: boolean };
+
+  /**
+   * A queued mutation was replayed successfully
+   */
+  replayed: { mutation: QueuedMutation; data: any };
+
+  /**
+   * A queued mutation was dropped after a conflict, a client error or too many attempts
+   */
+  failed: { mutation: QueuedMutation; error: FetchKitError };
+}
+
+/**
+ * Offline queue methods for FetchKit
+ */
+export interface OfflineMethods {
+  /**
+   * Get the mutations waiting to be replayed, oldest first
+   */
+  getOfflineQueue: () => Promise<QueuedMutation[]>;
+
+  /**
+   * Replay queued mutations now instead of waiting for the online event or a probe
+   */
+  replayOfflineQueue: () => Promise<void>;
+
+  /**
+   * Drop every queued mutation
+   */
+  clearOfflineQueue: () => Promise<void>;
+}
@@ -0,0 +1,72 @@
+// src/types/scheduler.ts
+
+/**
+ * Options for the request scheduler
+ */
+export interface SchedulerOptions {
+  /**
+   * Maximum number of requests in flight at once (default: unlimited)
+   */
+  maxConcurrent?: number;
+
+  /**
+   * Maximum number of requests in flight to a single host (default: unlimited)
+   */
+  maxConcurrentPerHost?: number;
+
+  /**
+   * Time in ms after which a queued request moves up one priority lane,
+   * so low priority requests are never starved (default: 5000, 0 disables)
+   */
+  agingTime?: number;
+}
+
+/**
+ * Snapshot of the request scheduler
+ */
+export interface SchedulerStats {
+  /**
+   * Requests in flight
+   */
+  active: number;
+
+  /**
+   * Requests waiting for a slot
+   */
+  queued: number;
+
+  /**
+   * Whether the queue is paused
+   */
+  paused: boolean;
+
+  /**
+   * Requests in flight by host
+   */
+  activeByHost: Record<string, number>;
+
+  /**
+   * Waiting requests by priority lane
+   */
+  queuedByPriority: Record<number, number>;
+}
+
+/**
+ * Request scheduler methods for FetchKit
+ */
+export interface SchedulerMethods {
+  /**
+   * Stop starting queued requests. Requests in flight are not affected.
+   */
+  pauseRequests: () => void;
+
+  /**
+   * Start queued requests again
+   */
+  resumeRequests: () => void;
+
+  /**
+   * Get the scheduler's queue depth and concurrency
+   */
+  getSchedulerStats: () => SchedulerStats;
+}
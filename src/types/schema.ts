@@ -0,0 +1,92 @@
+// src/types/schema.ts
+
+/**
+ * A segment of the path to an invalid value, as reported by schema libraries
+ */
+export type SchemaPathSegment = PropertyKey | { key: PropertyKey };
+
+/**
+ * An issue reported by a schema library
+ */
+export interface SchemaIssue {
+  /**
+   * Description of the issue
+   */
+  message: string;
+
+  /**
+   * Path to the invalid value
+   */
+  path?: ReadonlyArray<SchemaPathSegment>;
+}
+
+/**
+ * Schema implementing the Standard Schema interface (Zod 3.24+, Valibot 1.0+, ArkType 2.0+)
+ */
+export interface StandardSchema<T = unknown> {
+  readonly '~standard': {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown,
+    ) =>
+      | { value: T; issues?: undefined }
+      | { issues: ReadonlyArray<SchemaIssue> }
+      | Promise<{ value: T; issues?: undefined } | { issues: ReadonlyArray<SchemaIssue> }>;
+  };
+}
+
+/**
+ * Schema with a Zod-style safeParse method
+ */
+export interface SafeParseSchema<T = unknown> {
+  safeParse(
+    value: unknown,
+  ):
+    | { success: true; data: T }
+    | { success: false; error?: { issues?: ReadonlyArray<SchemaIssue> } };
+}
+
+/**
+ * Schema with a parse method that throws for invalid values
+ */
+export interface ParseSchema<T = unknown> {
+  parse(value: unknown): T;
+}
+
+/**
+ * Any schema FetchKit can validate responses with
+ */
+export type Schema<T = unknown> = StandardSchema<T> | SafeParseSchema<T> | ParseSchema<T>;
+
+/**
+ * The type of values a schema produces
+ */
+export type InferSchema<S> =
+  S extends StandardSchema<infer T>
+    ? T
+    : S extends SafeParseSchema<infer T>
+      ? T
+      : S extends ParseSchema<infer T>
+        ? T
+        : unknown;
+
+/**
+ * Response data type of a request: inferred from its schema when one is given, otherwise T
+ */
+export type SchemaOutput<O, T> = O extends { schema: infer S } ? InferSchema<S> : T;
+
+/**
+ * An invalid value in a response
+ */
+export interface ValidationIssue {
+  /**
+   * Description of the issue
+   */
+  message: string;
+
+  /**
+   * Path to the invalid value; empty for the response itself
+   */
+  path: (string | number)[];
+}
@@ -0,0 +1,134 @@
+// src/types/upload.ts
+
+import type { CachePersistence, PersistenceOptions } from '@cache/persistence/cache-persistence';
+import type { ResumableUpload } from '@core/resumable-upload';
+import { RequestProgress } from './core';
+import { FetchKitError, RetryConfig } from './error';
+
+/**
+ * How chunks are sent to the server
+ * - content-range: each chunk is sent with a `Content-Range` header, several at a time
+ * - tus: the tus 1.0 resumable upload protocol, one chunk at a time
+ */
+export type UploadProtocol = 'content-range' | 'tus';
+
+/**
+ * Status of a resumable upload
+ */
+export type UploadStatus = 'idle' | 'uploading' | 'paused' | 'completed' | 'failed';
+
+/**
+ * State of a resumable upload
+ */
+export interface UploadState {
+  /** Upload status */
+  status: UploadStatus;
+  /** Bytes the server has confirmed, with the transfer rate and time remaining */
+  progress: RequestProgress;
+  /** URL of the upload on a tus server, once it has been created */
+  uploadUrl?: string;
+  /** Error that failed the upload */
+  error?: FetchKitError;
+}
+
+/**
+ * Upload progress saved to persistence, so an upload can resume after a reload
+ */
+export interface UploadRecord {
+  /** Key identifying the file and the endpoint */
+  fingerprint: string;
+  /** File size in bytes */
+  size: number;
+  /** Chunk size the upload was started with */
+  chunkSize: number;
+  /** Indexes of the chunks the server has confirmed (content-range) */
+  chunks: number[];
+  /** URL of the upload on the server (tus) */
+  uploadUrl?: string;
+  /** Timestamp when the upload was started */
+  createdAt: number;
+}
+
+/**
+ * Options for a resumable upload
+ */
+export interface UploadOptions {
+  /**
+   * Upload protocol (default: 'content-range')
+   */
+  protocol?: UploadProtocol;
+
+  /**
+   * Chunk size in bytes (default: 5 MiB)
+   */
+  chunkSize?: number;
+
+  /**
+   * Chunks uploaded at the same time with the content-range protocol (default: 3).
+   * tus uploads always send one chunk at a time.
+   */
+  concurrency?: number;
+
+  /**
+   * HTTP method for chunks with the content-range protocol (default: 'PUT')
+   */
+  method?: 'PUT' | 'POST' | 'PATCH';
+
+  /**
+   * Retry settings for each chunk (default: 3 attempts with exponential backoff)
+   */
+  retry?: Partial<RetryConfig>;
+
+  /**
+   * Headers sent with every request of the upload
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Metadata sent when a tus upload is created, such as the file name and type
+   */
+  metadata?: Record<string, string>;
+
+  /**
+   * Durable storage for upload progress, or false to keep it in memory
+   * (default: IndexedDB, falling back to the next available backend)
+   */
+  persistence?: CachePersistence | PersistenceOptions | false;
+
+  /**
+   * Key identifying the file, to find its saved progress
+   * (default: the endpoint with the file's name, size, type and modification time)
+   */
+  fingerprint?: string;
+
+  /**
+   * Called as chunks are confirmed by the server
+   */
+  onProgress?: (progress: RequestProgress) => void;
+}
+
+/**
+ * Events of a resumable upload
+ */
+export interface UploadEvents {
+  /**
+   * The status or progress changed
+   */
+  state: UploadState;
+
+  /**
+   * The server confirmed a chunk
+   */
+  chunk: { index: number; start: number; end: number };
+}
+
+/**
+ * Resumable upload methods for FetchKit
+ */
+export interface UploadMethods {
+  /**
+   * Prepare a chunked upload of a file or blob that resumes where it stopped,
+   * even after a reload. Call `start()` to begin.
+   */
+  createUpload: <T = any>(url: string, file: Blob, options?: UploadOptions) => ResumableUpload<T>;
+}
@@ -0,0 +1,200 @@
+// src/types/websocket.ts
+
+import type { WebSocketManager } from '@core/websocket-manager';
+import { ExtendedRequestOptions } from './core-extension';
+import { RetryConfig } from './error';
+import { MutationInvalidation } from './mutation';
+
+/**
+ * Connection status of a WebSocket manager
+ */
+export type WebSocketStatus = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+/**
+ * State of a WebSocket manager
+ */
+export interface WebSocketState {
+  /** URL of the WebSocket server */
+  url: string;
+  /** Connection status */
+  status: WebSocketStatus;
+  /** Reconnection attempts since the connection was last open */
+  attempt: number;
+  /** Outgoing messages waiting for the connection to open */
+  queued: number;
+}
+
+/**
+ * The parts of a socket the manager uses, provided by both the browser WebSocket and the `ws` package
+ */
+export interface WebSocketLike {
+  /** Ready state, 1 while open */
+  readonly readyState: number;
+  /** Called once the connection opens */
+  onopen: ((event: any) => void) | null;
+  /** Called with each incoming message */
+  onmessage: ((event: any) => void) | null;
+  /** Called when the connection fails */
+  onerror: ((event: any) => void) | null;
+  /** Called once the connection closes */
+  onclose: ((event: any) => void) | null;
+  /** Send a message */
+  send(data: string): void;
+  /** Close the connection */
+  close(code?: number, reason?: string): void;
+}
+
+/**
+ * WebSocket implementation to connect with, such as the `ws` package in Node.js
+ */
+export type WebSocketConstructor = new (
+  url: string,
+  protocols?: string | string[],
+) => WebSocketLike;
+
+/**
+ * Heartbeat options. A ping is sent every interval, and the connection is
+ * dropped and reopened when nothing arrives within the timeout after it.
+ */
+export interface WebSocketHeartbeatOptions {
+  /**
+   * Interval between pings in milliseconds (default: 30000)
+   */
+  interval?: number;
+
+  /**
+   * Time to wait for any message after a ping in milliseconds (default: 10000)
+   */
+  timeout?: number;
+
+  /**
+   * Message sent as a ping (default: `{ type: 'ping' }`)
+   */
+  message?: unknown;
+
+  /**
+   * Check whether an incoming message is a pong, which is not delivered to subscribers
+   * (default: messages with `type: 'pong'`)
+   */
+  isPong?: (message: any) => boolean;
+}
+
+/**
+ * Options for a WebSocket manager
+ */
+export interface WebSocketOptions {
+  /**
+   * WebSocket implementation (default: the global WebSocket)
+   */
+  WebSocket?: WebSocketConstructor;
+
+  /**
+   * Subprotocols to request
+   */
+  protocols?: string | string[];
+
+  /**
+   * Reconnect with backoff after the connection drops, or false to stay closed.
+   * `count` limits the attempts in a row (default: unlimited, with exponential backoff from 1s to 30s).
+   */
+  reconnect?: boolean | Partial<RetryConfig>;
+
+  /**
+   * Send pings to detect dead connections, or false to disable (default: enabled)
+   */
+  heartbeat?: boolean | WebSocketHeartbeatOptions;
+
+  /**
+   * Outgoing messages kept while disconnected; the oldest are dropped beyond it (default: 100)
+   */
+  maxQueueSize?: number;
+
+  /**
+   * Encode outgoing messages (default: JSON.stringify)
+   */
+  serialize?: (message: unknown) => string;
+
+  /**
+   * Decode incoming messages (default: JSON.parse, falling back to the raw text)
+   */
+  deserialize?: (data: string) => any;
+
+  /**
+   * Message asking the server for a topic's messages (default: `{ type: 'subscribe', topic }`)
+   */
+  subscribeMessage?: (topic: string) => unknown;
+
+  /**
+   * Message telling the server a topic is no longer needed
+   * (default: `{ type: 'unsubscribe', topic }`)
+   */
+  unsubscribeMessage?: (topic: string) => unknown;
+
+  /**
+   * Get the topic of an incoming message (default: `message.topic`)
+   */
+  getTopic?: (message: any) => string | undefined;
+
+  /**
+   * Get the payload of an incoming message for its subscribers (default: `message.data`)
+   */
+  getData?: (message: any) => any;
+}
+
+/**
+ * What to do with the messages of a topic
+ */
+export interface WebSocketSubscriptionOptions<T = any, TCache = any> {
+  /**
+   * Called with the payload of every message
+   */
+  onMessage?: (data: T, message: any) => void;
+
+  /**
+   * Write each payload into a cache entry, so queries of that entry update
+   */
+  cacheUpdate?: {
+    /** URL of the cache entry */
+    url: string;
+    /** Request options of the cache entry, as used to fetch it */
+    options?: ExtendedRequestOptions;
+    /** Compute the new cached data from the current data and a payload */
+    reduce: (current: TCache | undefined, data: T) => TCache;
+  };
+
+  /**
+   * Cache entries to invalidate for each payload, so queries of those entries refetch
+   */
+  invalidate?: MutationInvalidation | ((data: T) => MutationInvalidation | undefined);
+}
+
+/**
+ * Events of a WebSocket manager
+ */
+export interface WebSocketEvents {
+  /**
+   * The connection status, attempt count or queue size changed
+   */
+  state: WebSocketState;
+
+  /**
+   * A message arrived, with its topic if it has one
+   */
+  message: { url: string; topic?: string; message: any };
+
+  /**
+   * The connection failed, or reconnecting was given up
+   */
+  error: { url: string; error: Error };
+}
+
+/**
+ * WebSocket methods for FetchKit
+ */
+export interface WebSocketMethods {
+  /**
+   * Connect to a WebSocket server whose topic messages update the cache.
+   * State changes and errors are also emitted as websocket:* events.
+   */
+  createWebSocket: (url: string, options?: WebSocketOptions) => WebSocketManager;
+}
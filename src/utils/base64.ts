@@ -0,0 +1,53 @@
+// src/utils/base64.ts
+
+/**
+ * Characters of the base64 alphabet, by value
+ */
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Base64-encode bytes, without the Latin-1 limits of btoa
+ */
+export function encodeBase64(bytes: Uint8Array): string {
+  const parts: string[] = [];
+
+  for (let i = 0; i < bytes.length; i += 3) {
+    const triple = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    parts.push(
+      ALPHABET[(triple >> 18) & 63] +
+        ALPHABET[(triple >> 12) & 63] +
+        (i + 1 < bytes.length ? ALPHABET[(triple >> 6) & 63] : '=') +
+        (i + 2 < bytes.length ? ALPHABET[triple & 63] : '='),
+    );
+  }
+
+  return parts.join('');
+}
+
+/**
+ * Decode base64 into bytes
+ * @throws When the input contains characters outside the base64 alphabet
+ */
+export function decodeBase64(encoded: string): Uint8Array {
+  const input = encoded.replace(/=+$/, '');
+  const bytes = new Uint8Array(Math.floor((input.length * 3) / 4));
+  let buffer = 0;
+  let bits = 0;
+  let offset = 0;
+
+  for (const char of input) {
+    const value = ALPHABET.indexOf(char);
+    if (value < 0) {
+      throw new Error(`Invalid base64 character: ${char}`);
+    }
+
+    buffer = (buffer << 6) | value;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[offset++] = (buffer >> bits) & 255;
+    }
+  }
+
+  return bytes;
+}
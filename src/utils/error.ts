@@ -37,6 +37,11 @@ export function createError(message: string, options: Partial<FetchKitError> = {
  * Determines the error category based on status code and error type
  */
 export function categorizeError(error: any): ErrorCategory {
+  // Keep errors raised by an open circuit breaker or schema validation as they are
+  if (error.category === ErrorCategory.CircuitOpen || error.category === ErrorCategory.Validation) {
+    return error.category;
+  }
+
   // First, check if it's a cancellation (either directly flagged or an AbortError that isn't a timeout)
   if (error.isCancelled || (error.name === 'AbortError' && error.isTimeout !== true)) {
     return ErrorCategory.Cancel;
@@ -0,0 +1,199 @@
+// src/utils/event-stream.ts
+
+import type { ServerSentEvent } from '@fk-types/event-source';
+
+/**
+ * Incremental parser for `text/event-stream` bodies. Text can be fed in chunks
+ * of any size; events are returned once the blank line ending them arrives.
+ */
+export class EventStreamParser {
+  /**
+   * ID of the last event, kept across events as the protocol requires
+   */
+  lastEventId: string | undefined;
+
+  /**
+   * Reconnection delay in milliseconds from the last `retry` field
+   */
+  retry: number | undefined;
+
+  /**
+   * Text after the last complete line
+   */
+  private buffer = '';
+
+  /**
+   * Whether any text has been fed, to strip a leading byte order mark
+   */
+  private started = false;
+
+  /**
+   * Fields of the event being parsed
+   */
+  private eventType = '';
+  private data: string[] = [];
+  private eventRetry: number | undefined;
+
+  /**
+   * Create a new parser
+   * @param lastEventId - ID to resume from, reported until the stream sets another
+   */
+  constructor(lastEventId?: string) {
+    this.lastEventId = lastEventId;
+  }
+
+  /**
+   * Parse a chunk of text
+   * @returns The events completed by this chunk
+   */
+  feed(chunk: string): ServerSentEvent[] {
+    let text = this.buffer + chunk;
+
+    if (!this.started && text.length > 0) {
+      this.started = true;
+      if (text.charCodeAt(0) === 0xfeff) text = text.slice(1);
+    }
+
+    const events: ServerSentEvent[] = [];
+    let start = 0;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (char !== '\n' && char !== '\r') continue;
+
+      // A CR at the end of the chunk may be the first half of a CRLF
+      if (char === '\r' && i === text.length - 1) break;
+
+      this.parseLine(text.slice(start, i), events);
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      start = i + 1;
+    }
+
+    this.buffer = text.slice(start);
+    return events;
+  }
+
+  /**
+   * Finish parsing at the end of the stream. An event without its closing blank line is discarded.
+   * @returns Events completed by a line ending the stream with a CR
+   */
+  end(): ServerSentEvent[] {
+    const events: ServerSentEvent[] = [];
+
+    if (this.buffer.endsWith('\r')) {
+      this.parseLine(this.buffer.slice(0, -1), events);
+    }
+
+    this.buffer = '';
+    this.resetEvent();
+    return events;
+  }
+
+  /**
+   * Apply one line of the stream
+   */
+  private parseLine(line: string, events: ServerSentEvent[]): void {
+    if (line === '') {
+      this.dispatch(events);
+      return;
+    }
+
+    // Lines starting with a colon are comments, often sent to keep the connection alive
+    if (line.startsWith(':')) return;
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'event':
+        this.eventType = value;
+        break;
+      case 'data':
+        this.data.push(value);
+        break;
+      case 'id':
+        if (!value.includes('\0')) this.lastEventId = value;
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) {
+          this.retry = parseInt(value, 10);
+          this.eventRetry = this.retry;
+        }
+        break;
+    }
+  }
+
+  /**
+   * Complete the current event, unless it has no data
+   */
+  private dispatch(events: ServerSentEvent[]): void {
+    if (this.data.length > 0) {
+      events.push({
+        event: this.eventType || 'message',
+        data: this.data.join('\n'),
+        id: this.lastEventId,
+        retry: this.eventRetry,
+      });
+    }
+
+    this.resetEvent();
+  }
+
+  /**
+   * Clear the fields of the current event
+   */
+  private resetEvent(): void {
+    this.eventType = '';
+    this.data = [];
+    this.eventRetry = undefined;
+  }
+}
+
+/**
+ * Read the events of a `text/event-stream` body
+ * @param body - The body as a stream of bytes or text, or as the whole text
+ * @param parser - Parser to use, keeping the last event ID and retry delay across reads
+ * @param signal - Stops reading and cancels the stream when aborted
+ */
+export async function* readEventStream(
+  body: ReadableStream<Uint8Array | string> | string,
+  parser: EventStreamParser = new EventStreamParser(),
+  signal?: AbortSignal,
+): AsyncGenerator<ServerSentEvent> {
+  if (typeof body === 'string') {
+    yield* parser.feed(body);
+    yield* parser.end();
+    return;
+  }
+
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+
+  // Cancelling resolves a pending read as done, so the loop ends
+  const onAbort = () => {
+    reader.cancel(signal?.reason).catch(() => {});
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    while (!signal?.aborted) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      yield* parser.feed(
+        typeof value === 'string' ? value : decoder.decode(value, { stream: true }),
+      );
+    }
+
+    if (!signal?.aborted) {
+      yield* parser.feed(decoder.decode());
+      yield* parser.end();
+    }
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+    // Stop the body when the caller stops early
+    reader.cancel().catch(() => {});
+  }
+}
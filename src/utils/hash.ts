@@ -0,0 +1,19 @@
+// src/utils/hash.ts
+
+/**
+ * Hash data with SHA-256 using the Web Crypto API
+ * @param data - A string, hashed as UTF-8, or raw bytes
+ * @returns The hash as 64 hex digits
+ * @throws When the Web Crypto API is not available, as in insecure browser contexts
+ */
+export async function sha256(data: string | Uint8Array): Promise<string> {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) {
+    throw new Error('SHA-256 requires the Web Crypto API');
+  }
+
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  const digest = await subtle.digest('SHA-256', bytes);
+
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -3,3 +3,8 @@
 export * from './url';
 export * from './error';
 export * from './retry';
+export * from './schema';
+export * from './hash';
+export * from './base64';
+export * from './event-stream';
+export * from './progress';
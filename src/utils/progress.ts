@@ -0,0 +1,44 @@
+// src/utils/progress.ts
+
+import { RequestProgress } from '@fk-types/core';
+
+/**
+ * Create a progress callback that adds the transfer rate and the estimated time
+ * remaining to each report. The rate is averaged since the first report, and a report
+ * with fewer bytes than the one before it, as when a request is retried, starts over.
+ */
+export function createProgressReporter(
+  onProgress: (progress: RequestProgress) => void,
+): (progress: RequestProgress) => void {
+  let startTime = 0;
+  let startLoaded = 0;
+  let lastLoaded = -1;
+
+  return ({ loaded, total, progress }) => {
+    const now = Date.now();
+
+    if (loaded < lastLoaded || lastLoaded < 0) {
+      startTime = now;
+      startLoaded = loaded;
+    }
+    lastLoaded = loaded;
+
+    const elapsed = now - startTime;
+    const rate = elapsed > 0 ? ((loaded - startLoaded) * 1000) / elapsed : undefined;
+
+    let eta: number | undefined;
+    if (total !== undefined && loaded >= total) {
+      eta = 0;
+    } else if (total !== undefined && rate) {
+      eta = Math.round(((total - loaded) * 1000) / rate);
+    }
+
+    onProgress({
+      loaded,
+      total,
+      progress: progress ?? (total ? Math.min(loaded / total, 1) : undefined),
+      rate,
+      eta,
+    });
+  };
+}
@@ -1,6 +1,6 @@
 // src/utils/retry.ts
 
-import { RetryConfig, FetchKitError, ErrorCategory } from '@fk-types/error';
+import { RetryConfig, FetchKitError, ErrorCategory, RetryDelaySource } from '@fk-types/error';
 
 /**
  * Default configuration for retries
@@ -57,10 +57,21 @@ export function defaultShouldRetry(error: FetchKitError, attempt: number): boole
 }
 
 /**
- * Calculate delay for next retry based on retry config and attempt number
+ * Calculate delay for next retry based on retry config and attempt number.
+ * Decorrelated jitter uses the previous delay to pick the next one.
  */
-export function calculateRetryDelay(config: RetryConfig, attempt: number): number {
-  const { delay = 1000, backoff = 'exponential', factor = 2, maxDelay = 30000 } = config;
+export function calculateRetryDelay(
+  config: RetryConfig,
+  attempt: number,
+  previousDelay?: number,
+): number {
+  const {
+    delay = 1000,
+    backoff = 'exponential',
+    factor = 2,
+    maxDelay = 30000,
+    jitter = 'proportional',
+  } = config;
 
   let nextDelay: number;
 
@@ -83,12 +94,76 @@ export function calculateRetryDelay(config: RetryConfig, attempt: number): numbe
   }
 
   // Add jitter to prevent all clients retrying simultaneously
-  const jitter = 0.2; // 20% jitter
-  const randomFactor = 1 - jitter + Math.random() * jitter * 2;
-  nextDelay = Math.floor(nextDelay * randomFactor);
+  switch (jitter) {
+    case 'none':
+      break;
+
+    case 'full':
+      nextDelay = Math.random() * nextDelay;
+      break;
+
+    case 'equal':
+      nextDelay = nextDelay / 2 + (Math.random() * nextDelay) / 2;
+      break;
+
+    case 'decorrelated': {
+      // Grows from the previous delay instead of the attempt number
+      const upper = Math.max(delay, (previousDelay ?? delay) * 3);
+      nextDelay = delay + Math.random() * (upper - delay);
+      break;
+    }
+
+    case 'proportional':
+    default: {
+      const spread = 0.2; // 20% jitter
+      nextDelay = nextDelay * (1 - spread + Math.random() * spread * 2);
+      break;
+    }
+  }
 
   // Ensure delay doesn't exceed maximum
-  return Math.min(nextDelay, maxDelay);
+  return Math.min(Math.floor(nextDelay), maxDelay);
+}
+
+/**
+ * Read the delay a server asked for from a failed response's headers.
+ * Retry-After (seconds or an HTTP date) wins; RateLimit-Reset and X-RateLimit-*
+ * headers are used for 429 responses or when no requests remain.
+ */
+export function getServerRetryDelay(
+  error: FetchKitError,
+  now: number = Date.now(),
+): { delay: number; source: RetryDelaySource } | undefined {
+  const response = error.response;
+  if (!response) return undefined;
+
+  const retryAfter = getHeader(response, 'retry-after');
+  if (retryAfter) {
+    const delay = parseRetryAfter(retryAfter, now);
+    if (delay !== undefined) return { delay, source: 'retry-after' };
+  }
+
+  // Rate limit resets only matter once the limit is exhausted
+  const remaining =
+    getHeader(response, 'ratelimit-remaining') ?? getHeader(response, 'x-ratelimit-remaining');
+  if (error.status !== 429 && remaining?.trim() !== '0') return undefined;
+
+  // Both hold the seconds until the limit resets
+  const resetAfter =
+    getHeader(response, 'ratelimit-reset') ?? getHeader(response, 'x-ratelimit-reset-after');
+  if (resetAfter && isNumeric(resetAfter)) {
+    return { delay: Math.ceil(Number(resetAfter) * 1000), source: 'rate-limit' };
+  }
+
+  // X-RateLimit-Reset is a Unix timestamp for most APIs and seconds for some
+  const reset = getHeader(response, 'x-ratelimit-reset');
+  if (reset && isNumeric(reset)) {
+    const value = Number(reset);
+    const delay = value > 1e9 ? value * 1000 - now : value * 1000;
+    return { delay: Math.max(0, Math.ceil(delay)), source: 'rate-limit' };
+  }
+
+  return undefined;
 }
 
 /**
@@ -107,7 +182,10 @@ export async function withRetry<T>(
   // Set default shouldRetry if not provided
   const shouldRetry = retryConfig.shouldRetry || defaultShouldRetry;
 
+  const { maxDelay = 30000 } = retryConfig;
+
   let attempt = 0;
+  let previousDelay: number | undefined;
 
   while (true) {
     try {
@@ -123,8 +201,22 @@ export async function withRetry<T>(
 
       // Check if we should retry
       if (attempt < retryConfig.count && shouldRetry(fetchKitError, attempt)) {
-        // Calculate delay for this attempt
-        const delay = calculateRetryDelay(retryConfig, attempt);
+        // Prefer the delay the server asked for, within maxDelay
+        const serverDelay =
+          retryConfig.respectRetryAfter === false ? undefined : getServerRetryDelay(fetchKitError);
+
+        const delay = serverDelay
+          ? Math.min(serverDelay.delay, maxDelay)
+          : calculateRetryDelay(retryConfig, attempt, previousDelay);
+
+        previousDelay = delay;
+
+        retryConfig.onRetry?.({
+          attempt,
+          delay,
+          source: serverDelay ? serverDelay.source : 'backoff',
+          error: fetchKitError,
+        });
 
         // Wait before retrying
         await new Promise(resolve => setTimeout(resolve, delay));
@@ -135,3 +227,39 @@ export async function withRetry<T>(
     }
   }
 }
+
+/**
+ * Parse a Retry-After value in seconds or as an HTTP date
+ */
+function parseRetryAfter(value: string, now: number): number | undefined {
+  if (isNumeric(value)) {
+    return Math.ceil(Number(value) * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Check for a non-negative decimal number
+ */
+function isNumeric(value: string): boolean {
+  return /^\d+(\.\d+)?$/.test(value.trim());
+}
+
+/**
+ * Read a header from a fetch Response or an adapter's plain header object
+ */
+function getHeader(response: any, name: string): string | undefined {
+  const headers = response.headers;
+  if (!headers) return undefined;
+
+  if (typeof headers.get === 'function') {
+    return headers.get(name) ?? undefined;
+  }
+
+  const key = Object.keys(headers).find(header => header.toLowerCase() === name);
+  const value = key ? headers[key] : undefined;
+
+  return Array.isArray(value) ? value[0] : value;
+}
@@ -0,0 +1,103 @@
+// src/utils/schema.ts
+
+import { ErrorCategory, FetchKitError } from '@fk-types/error';
+import type {
+  Schema,
+  SchemaIssue,
+  SchemaPathSegment,
+  StandardSchema,
+  ValidationIssue,
+} from '@fk-types/schema';
+import { createError } from './error';
+
+/**
+ * Where the validated data came from, for the error raised when it is invalid
+ */
+export interface ValidationContext {
+  url?: string;
+  method?: string;
+}
+
+/**
+ * Validate data against a Standard Schema, safeParse or parse schema
+ * @param schema - The schema to validate with
+ * @param data - The data to validate
+ * @param context - Request details added to the error
+ * @returns The data produced by the schema, which may be transformed
+ * @throws A FetchKitError with category Validation listing the issues
+ */
+export async function validateSchema<T>(
+  schema: Schema<T>,
+  data: unknown,
+  context: ValidationContext = {},
+): Promise<T> {
+  if (isStandardSchema(schema)) {
+    const result = await schema['~standard'].validate(data);
+    if (result.issues) {
+      throw createValidationError(result.issues, data, context);
+    }
+    return result.value;
+  }
+
+  if ('safeParse' in schema) {
+    const result = schema.safeParse(data);
+    if (!result.success) {
+      throw createValidationError(result.error?.issues ?? [], data, context);
+    }
+    return result.data;
+  }
+
+  try {
+    return schema.parse(data);
+  } catch (error) {
+    const issues = (error as { issues?: ReadonlyArray<SchemaIssue> })?.issues;
+    throw createValidationError(
+      Array.isArray(issues) ? issues : [{ message: (error as Error)?.message || String(error) }],
+      data,
+      context,
+    );
+  }
+}
+
+/**
+ * Check whether a schema implements the Standard Schema interface
+ */
+function isStandardSchema<T>(schema: Schema<T>): schema is StandardSchema<T> {
+  return typeof (schema as StandardSchema<T>)['~standard']?.validate === 'function';
+}
+
+/**
+ * Create the error raised for invalid data
+ */
+function createValidationError(
+  schemaIssues: ReadonlyArray<SchemaIssue>,
+  data: unknown,
+  context: ValidationContext,
+): FetchKitError {
+  const issues: ValidationIssue[] = schemaIssues.map(issue => ({
+    message: issue.message,
+    path: (issue.path ?? []).map(normalizePathSegment),
+  }));
+
+  const summary = issues
+    .map(issue => (issue.path.length > 0 ? `${issue.path.join('.')}: ` : '') + issue.message)
+    .join('; ');
+
+  const error = createError(`Validation failed${summary ? `: ${summary}` : ''}`, {
+    category: ErrorCategory.Validation,
+    url: context.url,
+    method: context.method,
+    data,
+  });
+  error.issues = issues;
+
+  return error;
+}
+
+/**
+ * Turn a path segment into a plain key
+ */
+function normalizePathSegment(segment: SchemaPathSegment): string | number {
+  const key = typeof segment === 'object' ? segment.key : segment;
+  return typeof key === 'number' ? key : String(key);
+}
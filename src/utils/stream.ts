@@ -1,5 +1,9 @@
 // src/utils/stream.ts
 
+import { ResponseStream, StreamResponseType } from '@fk-types/core';
+import { ErrorCategory } from '@fk-types/error';
+import { createError } from './error';
+
 /**
  * Stream handling utilities for FetchKit
  */
@@ -55,12 +59,12 @@ export async function readStream<T = Uint8Array>(
   let complete = false;
 
   // Set up timeout if specified
-  let timeoutId: number | undefined;
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
   let timeoutPromise: Promise<never> | undefined;
 
   if (timeout > 0) {
     timeoutPromise = new Promise((_, reject) => {
-      timeoutId = window.setTimeout(() => {
+      timeoutId = setTimeout(() => {
         reader.releaseLock(); // Release lock on timeout
         reject(new Error(`Stream reading timed out after ${timeout}ms`));
       }, timeout);
@@ -126,7 +130,8 @@ export async function readStream<T = Uint8Array>(
 }
 
 /**
- * Transforms a stream using a provided transformer function
+ * Transforms a stream using a provided transformer function.
+ * Chunks are read from the source as they are consumed, and cancelling cancels the source.
  */
 export function transformStream<I, O>(
   stream: ReadableStream<I>,
@@ -135,25 +140,29 @@ export function transformStream<I, O>(
 ): ReadableStream<O> {
   const { onProgress, signal } = options;
   let bytesProcessed = 0;
+  let reader: ReadableStreamDefaultReader<I>;
+
+  return new ReadableStream<O>(
+    {
+      start() {
+        reader = stream.getReader();
+      },
+
+      async pull(controller) {
+        // Check for cancellation
+        if (signal?.aborted) {
+          reader.releaseLock(); // Release lock on abort
+          controller.error(new Error('Stream transformation was aborted'));
+          return;
+        }
 
-  return new ReadableStream<O>({
-    async start(controller) {
-      const reader = stream.getReader();
-
-      try {
-        while (true) {
-          // Check for cancellation
-          if (signal?.aborted) {
-            reader.releaseLock(); // Release lock on abort
-            controller.error(new Error('Stream transformation was aborted'));
-            break;
-          }
-
+        try {
           const { done, value } = await reader.read();
 
           if (done) {
+            reader.releaseLock();
             controller.close();
-            break;
+            return;
           }
 
           // Apply transformation
@@ -173,25 +182,21 @@ export function transformStream<I, O>(
 
             onProgress(bytesProcessed);
           }
+        } catch (error) {
+          // Make sure to release the reader lock on error
+          reader.releaseLock();
+          controller.error(error);
         }
-      } catch (error) {
-        // Make sure to release the reader lock on error
-        reader.releaseLock();
-        controller.error(error);
-      } finally {
-        // Ensure reader lock is released
-        reader.releaseLock();
-      }
-    },
+      },
 
-    cancel(reason) {
-      // The stream was cancelled by the consumer
-      if (signal && !signal.aborted) {
-        const abortController = new AbortController();
-        abortController.abort(reason);
-      }
+      cancel(reason) {
+        // The stream was cancelled by the consumer, so the source is no longer needed
+        return reader.cancel(reason);
+      },
     },
-  });
+    // Only read from the source when the consumer asks for a chunk
+    { highWaterMark: 0 },
+  );
 }
 
 /**
@@ -322,8 +327,9 @@ export function trackStreamProgress<T>(
 
   return transformStream(stream, chunk => {
     // Update bytes processed
-    if (chunk instanceof Uint8Array) {
-      bytesProcessed += (chunk as unknown as Uint8Array).byteLength;
+    // Byte chunks may come from another realm, such as a polyfilled or native fetch
+    if (ArrayBuffer.isView(chunk)) {
+      bytesProcessed += chunk.byteLength;
     } else if (typeof chunk === 'string') {
       bytesProcessed += (chunk as unknown as string).length;
     }
@@ -340,3 +346,234 @@ export function trackStreamProgress<T>(
     return chunk;
   });
 }
+
+/**
+ * Checks if a response type resolves with the response body as a stream
+ */
+export function isStreamResponseType(responseType?: string): responseType is StreamResponseType {
+  return responseType === 'stream' || responseType === 'text-stream' || responseType === 'ndjson';
+}
+
+/**
+ * Makes a ReadableStream async iterable where the platform does not.
+ * Leaving the loop early cancels the stream.
+ */
+export function asAsyncIterable<T>(stream: ReadableStream<T>): ResponseStream<T> {
+  const iterable = stream as ResponseStream<T>;
+
+  if (typeof iterable[Symbol.asyncIterator] !== 'function') {
+    iterable[Symbol.asyncIterator] = async function* () {
+      const reader = stream.getReader();
+      let done = false;
+
+      try {
+        while (true) {
+          const result = await reader.read();
+          if (result.done) {
+            done = true;
+            return;
+          }
+          yield result.value;
+        }
+      } finally {
+        if (done) {
+          reader.releaseLock();
+        } else {
+          await reader.cancel();
+        }
+      }
+    };
+  }
+
+  return iterable;
+}
+
+/**
+ * Creates a stream that delivers the given chunks one at a time
+ */
+export function createChunkStream<T>(chunks: T[]): ReadableStream<T> {
+  let index = 0;
+
+  return new ReadableStream<T>(
+    {
+      pull(controller) {
+        if (index < chunks.length) {
+          controller.enqueue(chunks[index++]);
+        } else {
+          controller.close();
+        }
+      },
+    },
+    { highWaterMark: 0 },
+  );
+}
+
+/**
+ * Decodes a stream of UTF-8 bytes into text chunks
+ */
+export function decodeTextStream(
+  stream: ReadableStream<Uint8Array | string>,
+): ReadableStream<string> {
+  const decoder = new TextDecoder();
+
+  return transformStream(stream, chunk =>
+    typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true }),
+  );
+}
+
+/**
+ * Parses a newline-delimited JSON (JSON lines) stream into its records.
+ * Blank lines are skipped, and a line that is not JSON fails the stream with a parse error.
+ */
+export function parseNdjsonStream<T>(
+  stream: ReadableStream<Uint8Array | string>,
+): ReadableStream<T> {
+  const reader = decodeTextStream(stream).getReader();
+  let buffer = '';
+  let lines: string[] = [];
+  let ended = false;
+
+  const parseLine = (line: string): T => {
+    try {
+      return JSON.parse(line);
+    } catch (error) {
+      throw createError(`Invalid JSON line: ${line.slice(0, 100)}`, {
+        category: ErrorCategory.Parse,
+        cause: error as Error,
+      });
+    }
+  };
+
+  return new ReadableStream<T>(
+    {
+      async pull(controller) {
+        try {
+          // Deliver one record per pull, so records before an invalid line are not lost
+          while (true) {
+            const line = lines.shift();
+            if (line !== undefined) {
+              if (line.trim()) {
+                controller.enqueue(parseLine(line));
+                return;
+              }
+              continue;
+            }
+
+            if (ended) {
+              controller.close();
+              return;
+            }
+
+            const { done, value } = await reader.read();
+            if (done) {
+              ended = true;
+              lines = [buffer];
+            } else {
+              lines = (buffer + value).split('\n');
+              buffer = lines.pop() as string;
+            }
+          }
+        } catch (error) {
+          controller.error(error);
+          reader.cancel(error).catch(() => {});
+        }
+      },
+
+      cancel(reason) {
+        return reader.cancel(reason);
+      },
+    },
+    { highWaterMark: 0 },
+  );
+}
+
+/**
+ * Passes a stream through unchanged, calling onComplete with every chunk once
+ * the stream has been read to the end. Nothing is reported if it is cancelled or fails.
+ */
+export function collectStream<T>(
+  stream: ReadableStream<T>,
+  onComplete: (chunks: T[]) => void,
+): ReadableStream<T> {
+  const reader = stream.getReader();
+  const chunks: T[] = [];
+
+  return new ReadableStream<T>(
+    {
+      async pull(controller) {
+        try {
+          const { done, value } = await reader.read();
+
+          if (done) {
+            controller.close();
+            onComplete(chunks);
+            return;
+          }
+
+          chunks.push(value);
+          controller.enqueue(value);
+        } catch (error) {
+          controller.error(error);
+        }
+      },
+
+      cancel(reason) {
+        return reader.cancel(reason);
+      },
+    },
+    { highWaterMark: 0 },
+  );
+}
+
+/**
+ * Turns a response body into a 'text-stream' or 'ndjson' response stream. Bodies that
+ * were not streamed, as from adapters that cannot stream, are streamed from memory.
+ */
+export function createResponseStream<T>(
+  body: unknown,
+  responseType: 'text-stream' | 'ndjson',
+): ResponseStream<T> {
+  if (responseType === 'ndjson' && Array.isArray(body)) {
+    return asAsyncIterable(createChunkStream(body));
+  }
+
+  const source = toByteStream(body);
+  const stream =
+    responseType === 'ndjson' ? parseNdjsonStream<T>(source) : decodeTextStream(source);
+
+  return asAsyncIterable(stream as ReadableStream<T>);
+}
+
+/**
+ * Checks if a value is a ReadableStream, including streams from another realm
+ */
+export function isReadableStream(value: unknown): value is ReadableStream {
+  return typeof (value as ReadableStream | undefined)?.getReader === 'function';
+}
+
+/**
+ * Get a stream of bytes or text from a streamed or buffered response body
+ */
+export function toByteStream(body: unknown): ReadableStream<Uint8Array | string> {
+  if (isReadableStream(body)) {
+    return body;
+  }
+
+  if (body === null || body === undefined) {
+    return createChunkStream<Uint8Array>([]);
+  }
+
+  if (typeof (body as Blob).stream === 'function') {
+    return (body as Blob).stream();
+  }
+
+  if (Object.prototype.toString.call(body) === '[object ArrayBuffer]') {
+    return createChunkStream([new Uint8Array(body as ArrayBuffer)]);
+  }
+
+  if (ArrayBuffer.isView(body)) {
+    return createChunkStream([new Uint8Array(body.buffer, body.byteOffset, body.byteLength)]);
+  }
+
+  return createChunkStream([typeof body === 'string' ? body : JSON.stringify(body)]);
+}
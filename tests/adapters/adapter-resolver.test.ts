@@ -0,0 +1,105 @@
+// tests/adapters/adapter-resolver.test.ts
+
+import { describe, it, expect } from 'vitest';
+import { AdapterResolver } from '@adapters/adapter-resolver';
+import { AdapterRegistry, adapterRegistry } from '@adapters/adapter-registry';
+import { createMockAdapter } from '@adapters/mock-adapter';
+import { createFetchKit } from '@core/fetch-kit';
+
+describe('AdapterResolver', () => {
+  it('should follow the shared registry until an adapter is selected', () => {
+    const registry = new AdapterRegistry();
+    const resolver = new AdapterResolver(registry);
+    const mock = createMockAdapter();
+
+    expect(resolver.getActive()).toBe(registry.getActive());
+
+    resolver.use(mock);
+
+    expect(resolver.getActive()).toBe(mock);
+    expect(registry.has('mock')).toBe(false);
+    expect(resolver.getAdapterNames()).toEqual(expect.arrayContaining(['fetch', 'xhr', 'mock']));
+  });
+
+  it('should prefer the request adapter, then routes, then the active adapter', () => {
+    const resolver = new AdapterResolver(new AdapterRegistry());
+    const internal = createMockAdapter({ name: 'internal' });
+    const local = createMockAdapter({ name: 'local' });
+
+    resolver.addRoute({ match: '*.internal', adapter: internal });
+    resolver.addRoute({ match: 'localhost:4000', adapter: local });
+    resolver.addRoute({ match: /\/legacy\//, adapter: 'xhr' });
+    resolver.use('fetch');
+
+    expect(resolver.resolve('https://users.internal/me').name).toBe('internal');
+    expect(resolver.resolve('http://localhost:4000/health').name).toBe('local');
+    expect(resolver.resolve('http://localhost:5000/health').name).toBe('fetch');
+    expect(resolver.resolve('https://api.example.com/legacy/items').name).toBe('xhr');
+    expect(resolver.resolve('/relative').name).toBe('fetch');
+    expect(resolver.resolve('https://users.internal/me', 'local').name).toBe('local');
+  });
+
+  it('should reject unknown adapter names', () => {
+    const resolver = new AdapterResolver(new AdapterRegistry());
+
+    expect(() => resolver.use('missing')).toThrow("Adapter 'missing' not registered");
+    expect(() => resolver.resolve('/users', 'missing')).toThrow("Adapter 'missing' not found");
+  });
+
+  describe('with FetchKit', () => {
+    it('should keep adapters separate between instances', async () => {
+      const first = createMockAdapter({ name: 'first' }).onGet('/whoami', { data: 'first' });
+      const second = createMockAdapter({ name: 'second' }).onGet('/whoami', { data: 'second' });
+      const globalActive = adapterRegistry.getActive();
+
+      const firstKit = createFetchKit({ adapter: first });
+      const secondKit = createFetchKit({ adapter: second });
+
+      expect(await firstKit.get('/whoami')).toBe('first');
+      expect(await secondKit.get('/whoami')).toBe('second');
+      expect(firstKit.getAdapter().name).toBe('first');
+      expect(adapterRegistry.getActive()).toBe(globalActive);
+    });
+
+    it('should use per-request adapters and host routes', async () => {
+      const api = createMockAdapter({ name: 'api' }).onGet('*', { data: 'api' });
+      const payments = createMockAdapter({ name: 'payments' }).onGet('*', { data: 'payments' });
+      const override = createMockAdapter({ name: 'override' }).onGet('*', { data: 'override' });
+
+      const fk = createFetchKit({
+        baseUrl: 'https://api.example.com',
+        adapter: api,
+        adapterRoutes: [{ match: 'payments.example.com', adapter: payments }],
+      });
+      const uncached = { cacheOptions: false };
+
+      expect(await fk.get('/orders', uncached)).toBe('api');
+      expect(await fk.get('https://payments.example.com/charges', uncached)).toBe('payments');
+      expect(await fk.get('/orders/1', { ...uncached, adapter: override })).toBe('override');
+
+      fk.addAdapterRoute({ match: url => url.endsWith('/late'), adapter: override });
+      fk.setAdapter(payments);
+
+      expect(await fk.get('/late', uncached)).toBe('override');
+      expect(await fk.get('/late', { ...uncached, adapter: 'api' })).toBe('api');
+      expect(await fk.get('/orders', uncached)).toBe('payments');
+    });
+
+    it('should cache and deduplicate per-request adapters separately', async () => {
+      const api = createMockAdapter({ name: 'api' }).onGet('*', { data: 'api' });
+      const override = createMockAdapter({ name: 'override' }).onGet('*', { data: 'override' });
+      const fk = createFetchKit({ adapter: api, cacheOptions: { staleTime: 60000 } });
+
+      expect(
+        await Promise.all([fk.get('/orders'), fk.get('/orders', { adapter: override })]),
+      ).toEqual(['api', 'override']);
+      expect(await fk.get('/orders', { adapter: 'api' })).toBe('api');
+      expect(await fk.get('/orders', { adapter: override })).toBe('override');
+      expect(await fk.get('/orders')).toBe('api');
+
+      api.assertCalled('GET', '/orders', 2);
+      override.assertCalled('GET', '/orders', 1);
+      expect(fk.getCacheKey('/orders', { adapter: override })).not.toBe(fk.getCacheKey('/orders'));
+    });
+  });
+});
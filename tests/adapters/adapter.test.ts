@@ -1,6 +1,6 @@
 // tests/adapters/adapter.test.ts
 
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { fetchAdapter } from '@adapters/fetch-adapter';
 import { adapterRegistry } from '@adapters/adapter-registry';
 import { createFetchKit } from '@core/fetch-kit';
@@ -278,3 +278,86 @@ describe('Adapter interface', () => {
     }
   });
 });
+
+describe('Fetch adapter request options', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should pass only fetch options to window.fetch', async () => {
+    const fetchSpy = vi
+      .fn()
+      .mockResolvedValue(
+        new Response('{"ok":true}', { headers: { 'Content-Type': 'application/json' } }),
+      );
+    global.fetch = fetchSpy;
+    const fk = createFetchKit({ adapter: fetchAdapter });
+
+    await fk.post(
+      'https://example.com/todos',
+      { title: 'a' },
+      {
+        headers: { 'X-Trace': '1' },
+        credentials: 'include',
+        priority: 5,
+        tags: ['todos'],
+        offline: false,
+        cacheable: false,
+        deduplicate: false,
+        cacheOptions: false,
+        cacheStream: false,
+      },
+    );
+
+    expect(fetchSpy).toHaveBeenCalledWith('https://example.com/todos', {
+      method: 'POST',
+      headers: { 'X-Trace': '1', 'Content-Type': 'application/json' },
+      body: '{"title":"a"}',
+      credentials: 'include',
+      signal: undefined,
+    });
+  });
+});
+
+describe('Fetch adapter download progress', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should report progress as the body is read and emit request:progress', async () => {
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(encoder.encode('{"items":'));
+        controller.enqueue(encoder.encode('[1,2,3]}'));
+        controller.close();
+      },
+    });
+    global.fetch = vi.fn().mockResolvedValue(
+      new Response(body, {
+        headers: { 'Content-Type': 'application/json', 'Content-Length': '17' },
+      }),
+    );
+
+    const fk = createFetchKit({ adapter: fetchAdapter });
+    const events = vi.fn();
+    fk.on('request:progress', events);
+    const onDownloadProgress = vi.fn();
+
+    const data = await fk.get('/items', { onDownloadProgress });
+
+    expect(data).toEqual({ items: [1, 2, 3] });
+    expect(onDownloadProgress.mock.calls.map(([progress]) => progress.loaded)).toEqual([0, 9, 17]);
+    expect(onDownloadProgress).toHaveBeenLastCalledWith(
+      expect.objectContaining({ loaded: 17, total: 17, progress: 1, eta: 0 }),
+    );
+    expect(events).toHaveBeenCalledTimes(3);
+    expect(events).toHaveBeenLastCalledWith(
+      expect.objectContaining({ url: '/items', method: 'GET', direction: 'download', loaded: 17 }),
+    );
+  });
+});
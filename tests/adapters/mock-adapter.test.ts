@@ -0,0 +1,179 @@
+// tests/adapters/mock-adapter.test.ts
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { MockAdapter, createMockAdapter } from '@adapters/mock-adapter';
+import { createFetchKit } from '@core/fetch-kit';
+import { ErrorCategory, FetchKitError } from '@fk-types/error';
+
+describe('MockAdapter', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should answer requests from static routes', async () => {
+    const mock = createMockAdapter().onGet('/users', {
+      data: [{ id: 1 }],
+      headers: { 'X-Total': '1' },
+    });
+    const fk = createFetchKit({ adapter: mock });
+
+    expect(await fk.get('/users')).toEqual([{ id: 1 }]);
+  });
+
+  it('should pass path params, query and body to reply functions', async () => {
+    const mock = createMockAdapter().onPut('/users/:id', request => ({
+      status: 200,
+      data: { id: request.params.id, ...request.body, notify: request.query.notify },
+    }));
+    const fk = createFetchKit({ adapter: mock });
+
+    const result = await fk.put('/users/42?notify=yes', { name: 'Jane' });
+
+    expect(result).toEqual({ id: '42', name: 'Jane', notify: 'yes' });
+  });
+
+  it('should match regular expressions, wildcards and full URLs', async () => {
+    const mock = createMockAdapter()
+      .onGet(/\/v\d+\/health$/, { data: 'regex' })
+      .onGet('/files/*', { data: 'wildcard' })
+      .onGet('https://api.example.com/me', { data: 'absolute' });
+
+    const fk = createFetchKit({ adapter: mock });
+
+    expect(await fk.get('/v2/health')).toBe('regex');
+    expect(await fk.get('/files/a/b.txt')).toBe('wildcard');
+    expect(await fk.get('https://api.example.com/me')).toBe('absolute');
+  });
+
+  it('should remove routes after their uses run out', async () => {
+    const mock = createMockAdapter()
+      .once('GET', '/flaky', { status: 500 })
+      .onGet('/flaky', { data: 'ok' });
+    const fk = createFetchKit({ adapter: mock });
+
+    const result = await fk.get('/flaky', { retry: { count: 2, delay: 0 } });
+
+    expect(result).toBe('ok');
+    mock.assertCalled('GET', '/flaky', 2);
+  });
+
+  it('should map error statuses and failures to FetchKitError categories', async () => {
+    const mock = createMockAdapter()
+      .onPost('/server', { status: 503 })
+      .onPost('/offline', { networkError: true })
+      .onPost('/slow', { data: 'late', delay: 200 });
+    const fk = createFetchKit({ adapter: mock });
+
+    const serverError = (await fk.post('/server').catch(e => e)) as FetchKitError;
+    const networkError = (await fk.post('/offline').catch(e => e)) as FetchKitError;
+    const timeoutError = (await fk
+      .post('/slow', undefined, { timeout: 20 })
+      .catch(e => e)) as FetchKitError;
+
+    expect(serverError.status).toBe(503);
+    expect(serverError.category).toBe(ErrorCategory.Server);
+    expect(networkError.category).toBe(ErrorCategory.Network);
+    expect(timeoutError.category).toBe(ErrorCategory.Timeout);
+  });
+
+  it('should record request history for assertions', async () => {
+    const mock = createMockAdapter().onAny('/items', { data: [] });
+    const fk = createFetchKit({ adapter: mock });
+
+    await fk.post('/items', { name: 'first' }, { headers: { 'X-Test': '1' } });
+
+    expect(mock.getLastRequest('POST', '/items')).toMatchObject({
+      method: 'POST',
+      body: { name: 'first' },
+      matched: true,
+    });
+    expect(mock.getHistory()[0].headers).toMatchObject({ 'X-Test': '1' });
+
+    mock.assertCalled('POST', '/items');
+    mock.assertNotCalled('DELETE', '/items');
+    expect(() => mock.assertCalled('POST', '/items', 2)).toThrow(
+      'Expected POST /items to be called 2 time(s), but it was called 1 time(s)',
+    );
+
+    mock.resetHistory();
+    expect(mock.getHistory()).toEqual([]);
+  });
+
+  describe('unmatched requests', () => {
+    it('should reject by default', async () => {
+      const fk = createFetchKit({ adapter: createMockAdapter() });
+
+      await expect(fk.post('/unknown')).rejects.toThrow(
+        'Mock adapter: no route matches POST /unknown',
+      );
+    });
+
+    it('should warn and respond with 404', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const mock = createMockAdapter({ unmatched: 'warn' });
+      const fk = createFetchKit({ adapter: mock });
+
+      const error = (await fk.post('/unknown').catch(e => e)) as FetchKitError;
+
+      expect(error.status).toBe(404);
+      expect(warn).toHaveBeenCalledWith('Mock adapter: no route matches POST /unknown');
+      expect(mock.getHistory()[0].matched).toBe(false);
+    });
+
+    it('should pass through to another adapter', async () => {
+      const real = createMockAdapter({ name: 'real' }).onGet('/live', { data: 'from real' });
+      const mock = createMockAdapter({ unmatched: 'passthrough', passthrough: real });
+      const fk = createFetchKit({ adapter: mock });
+
+      expect(await fk.get('/live')).toBe('from real');
+      real.assertCalled('GET', '/live', 1);
+    });
+  });
+
+  describe('record and replay', () => {
+    let directory: string | undefined;
+
+    afterEach(async () => {
+      if (directory) {
+        await rm(directory, { recursive: true, force: true });
+        directory = undefined;
+      }
+    });
+
+    it('should record traffic to a fixture and replay it without the network', async () => {
+      directory = await mkdtemp(join(tmpdir(), 'fetchkit-mock-'));
+      const fixture = join(directory, 'fixtures', 'users.json');
+
+      let version = 0;
+      const server = createMockAdapter({ name: 'server' })
+        .onGet('/users', () => ({ data: { version: ++version } }))
+        .onPost('/users', request => ({ status: 201, data: request.body }));
+
+      // Record real traffic
+      const recorder = new MockAdapter({ mode: 'record', passthrough: server, fixture });
+      const recordingKit = createFetchKit({ adapter: recorder });
+      await recordingKit.get('/users', { cacheOptions: false });
+      await recordingKit.get('/users', { cacheOptions: false });
+      await recordingKit.post('/users', { name: 'Jane' });
+      await recorder.saveFixture();
+
+      const saved = JSON.parse(await readFile(fixture, 'utf8'));
+      expect(saved).toHaveLength(3);
+
+      // Replay it later
+      const replayer = new MockAdapter({ mode: 'replay', fixture });
+      const replayKit = createFetchKit({ adapter: replayer });
+      const uncached = { cacheOptions: false };
+
+      expect(await replayKit.get('/users', uncached)).toEqual({ version: 1 });
+      expect(await replayKit.get('/users', uncached)).toEqual({ version: 2 });
+      expect(await replayKit.get('/users', uncached)).toEqual({ version: 2 });
+      expect(await replayKit.post('/users', { name: 'Jane' })).toEqual({ name: 'Jane' });
+      await expect(replayKit.post('/users', { name: 'Other' })).rejects.toThrow('no route matches');
+      expect(version).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,427 @@
+// tests/adapters/node-http-adapter.test.ts
+/** @vitest-environment node */
+
+import { describe, it, expect, vi, beforeAll, afterAll, afterEach } from 'vitest';
+import http from 'node:http';
+import zlib from 'node:zlib';
+import { getEventListeners } from 'node:events';
+import { AddressInfo } from 'node:net';
+import { createNodeHttpAdapter, nodeHttpAdapter } from '@adapters/node-http-adapter';
+import { adapterRegistry } from '@adapters/adapter-registry';
+import { createFetchKit } from '@core/fetch-kit';
+import { ErrorCategory, FetchKitError } from '@fk-types/error';
+import type { ResponseStream } from '@fk-types/core';
+
+/**
+ * Start a server on a random local port
+ */
+async function listen(server: http.Server): Promise<string> {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+/**
+ * Close a server and its open connections
+ */
+function close(server: http.Server): Promise<void> {
+  server.closeAllConnections();
+  return new Promise(resolve => server.close(() => resolve()));
+}
+
+describe('nodeHttpAdapter', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let connections = 0;
+  let downloadInterrupted = false;
+  const downloadContent = Buffer.from('0123456789'.repeat(100));
+  const adapter = createNodeHttpAdapter();
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      const chunks: Buffer[] = [];
+
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => {
+        const payload = JSON.stringify({
+          method: req.method,
+          query: Object.fromEntries(url.searchParams),
+          headers: req.headers,
+          body: Buffer.concat(chunks).toString(),
+        });
+
+        switch (url.pathname) {
+          case '/gzip':
+          case '/deflate':
+          case '/br': {
+            const encode = {
+              '/gzip': zlib.gzipSync,
+              '/deflate': zlib.deflateSync,
+              '/br': zlib.brotliCompressSync,
+            }[url.pathname];
+            res.writeHead(200, {
+              'Content-Type': 'application/json',
+              'Content-Encoding': url.pathname.slice(1),
+            });
+            res.end(encode(Buffer.from(payload)));
+            return;
+          }
+          case '/missing':
+            res.writeHead(404, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ message: 'missing' }));
+            return;
+          case '/slow':
+            setTimeout(() => res.end('late'), 500);
+            return;
+          case '/events':
+            // Stays open until the client disconnects
+            res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+            res.write('id: 1\ndata: first\n\n');
+            return;
+          case '/export':
+            // Stays open until the client disconnects
+            res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+            res.write('{"n":1}\n{"n":2}\n');
+            return;
+          case '/download': {
+            // Compressed when asked for, and cut off halfway through the first full response
+            const gzip = /gzip/.test(String(req.headers['accept-encoding']));
+            const body = gzip ? zlib.gzipSync(downloadContent) : downloadContent;
+            const start = Number(/^bytes=(\d+)-$/.exec(req.headers.range || '')?.[1] ?? 0);
+            const headers = { ETag: '"v1"', ...(gzip && { 'Content-Encoding': 'gzip' }) };
+
+            if (start > 0) {
+              res.writeHead(206, {
+                ...headers,
+                'Content-Range': `bytes ${start}-${body.length - 1}/${body.length}`,
+              });
+              res.end(body.subarray(start));
+            } else if (downloadInterrupted) {
+              res.writeHead(200, { ...headers, 'Content-Length': body.length });
+              res.end(body);
+            } else {
+              downloadInterrupted = true;
+              res.writeHead(200, { ...headers, 'Content-Length': body.length });
+              res.write(body.subarray(0, body.length / 2), () => res.destroy());
+            }
+            return;
+          }
+          case '/text':
+            res.writeHead(200, { 'Content-Type': 'text/plain' });
+            res.end('plain text');
+            return;
+          default:
+            res.writeHead(200, {
+              'Content-Type': 'application/json',
+              'Content-Length': Buffer.byteLength(payload),
+            });
+            res.end(payload);
+        }
+      });
+    });
+    server.on('connection', () => connections++);
+
+    baseUrl = await listen(server);
+  });
+
+  afterEach(() => {
+    adapter.destroy();
+    connections = 0;
+  });
+
+  afterAll(async () => {
+    await close(server);
+  });
+
+  it('should be registered and active outside the browser', () => {
+    expect(adapterRegistry.has(nodeHttpAdapter.name)).toBe(true);
+    expect(adapterRegistry.getActive().name).toBe('node-http');
+  });
+
+  it('should send GET requests and parse JSON', async () => {
+    const request = adapter.transformRequest(`${baseUrl}/echo?page=2`, { method: 'GET' });
+    const response = await adapter.request(request);
+
+    expect(response.status).toBe(200);
+    expect(response.data).toMatchObject({ method: 'GET', query: { page: '2' } });
+    expect(response.headers['content-type']).toBe('application/json');
+    expect(response.originalResponse.ok).toBe(true);
+  });
+
+  it('should serialize JSON bodies', async () => {
+    const request = adapter.transformRequest(`${baseUrl}/echo`, {
+      method: 'POST',
+      headers: { 'X-Test': 'yes' },
+      body: { name: 'Test' },
+    });
+    const response = await adapter.request(request);
+
+    expect(response.data.body).toBe('{"name":"Test"}');
+    expect(response.data.headers).toMatchObject({
+      'content-type': 'application/json',
+      'content-length': '15',
+      'x-test': 'yes',
+    });
+  });
+
+  it.each(['gzip', 'deflate', 'br'])('should decompress %s responses', async encoding => {
+    const response = await adapter.request(
+      adapter.transformRequest(`${baseUrl}/${encoding}`, { method: 'GET' }),
+    );
+
+    expect(response.data).toMatchObject({ method: 'GET' });
+    expect(response.data.headers['accept-encoding']).toBe('gzip, deflate, br');
+  });
+
+  it('should return text responses as strings', async () => {
+    const response = await adapter.request(
+      adapter.transformRequest(`${baseUrl}/text`, { method: 'GET' }),
+    );
+
+    expect(response.data).toBe('plain text');
+  });
+
+  it('should report upload and download progress', async () => {
+    const onUploadProgress = vi.fn();
+    const onDownloadProgress = vi.fn();
+    const body = 'x'.repeat(200000);
+
+    const response = await adapter.request(
+      adapter.transformRequest(`${baseUrl}/echo`, {
+        method: 'POST',
+        body,
+        onUploadProgress,
+        onDownloadProgress,
+      }),
+    );
+    const received = Number(response.headers['content-length']);
+
+    expect(onUploadProgress).toHaveBeenCalledWith({ loaded: 0, total: 200000, progress: 0 });
+    expect(onUploadProgress.mock.calls.length).toBeGreaterThan(2);
+    expect(onUploadProgress).toHaveBeenLastCalledWith({
+      loaded: 200000,
+      total: 200000,
+      progress: 1,
+    });
+    expect(onDownloadProgress).toHaveBeenLastCalledWith({
+      loaded: received,
+      total: received,
+      progress: 1,
+    });
+
+    // Compressed bodies count decoded bytes, so the encoded length is no total
+    const compressed = vi.fn();
+    await adapter.request(
+      adapter.transformRequest(`${baseUrl}/gzip`, {
+        method: 'GET',
+        onDownloadProgress: compressed,
+      }),
+    );
+    expect(compressed).toHaveBeenLastCalledWith(
+      expect.objectContaining({ total: undefined, progress: undefined }),
+    );
+    expect(compressed.mock.lastCall?.[0].loaded).toBeGreaterThan(0);
+  });
+
+  it('should stream response bodies as they arrive', async () => {
+    const controller = new AbortController();
+    const response = await adapter.request(
+      adapter.transformRequest(`${baseUrl}/events`, {
+        method: 'GET',
+        responseType: 'stream',
+        signal: controller.signal,
+      }),
+    );
+    const reader = (response.data as ReadableStream<Uint8Array>).getReader();
+
+    expect(response.headers['content-type']).toBe('text/event-stream');
+    expect(new TextDecoder().decode((await reader.read()).value)).toBe('id: 1\ndata: first\n\n');
+
+    controller.abort();
+    await expect(reader.read()).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('should remove the abort listener once a streamed body ends or is cancelled', async () => {
+    const controller = new AbortController();
+    const stream = async (path: string) => {
+      const response = await adapter.request(
+        adapter.transformRequest(`${baseUrl}${path}`, {
+          method: 'GET',
+          responseType: 'stream',
+          signal: controller.signal,
+        }),
+      );
+      return (response.data as ReadableStream<Uint8Array>).getReader();
+    };
+    const settle = () => new Promise(resolve => setTimeout(resolve, 10));
+
+    const finished = await stream('/text');
+    while (!(await finished.read()).done);
+    await settle();
+    expect(getEventListeners(controller.signal, 'abort')).toHaveLength(0);
+
+    const cancelled = await stream('/events');
+    await cancelled.read();
+    await cancelled.cancel();
+    await settle();
+    expect(getEventListeners(controller.signal, 'abort')).toHaveLength(0);
+  });
+
+  it('should reuse sockets with the keep-alive agent', async () => {
+    await adapter.request(adapter.transformRequest(`${baseUrl}/echo`, { method: 'GET' }));
+    await adapter.request(adapter.transformRequest(`${baseUrl}/echo`, { method: 'GET' }));
+
+    expect(connections).toBe(1);
+  });
+
+  it('should open a socket per request without keep-alive', async () => {
+    const noKeepAlive = createNodeHttpAdapter({ keepAlive: false });
+
+    await noKeepAlive.request(noKeepAlive.transformRequest(`${baseUrl}/echo`, { method: 'GET' }));
+    await noKeepAlive.request(noKeepAlive.transformRequest(`${baseUrl}/echo`, { method: 'GET' }));
+
+    expect(connections).toBe(2);
+  });
+
+  it('should reject with an AbortError when the signal aborts', async () => {
+    const controller = new AbortController();
+    const promise = adapter.request(
+      adapter.transformRequest(`${baseUrl}/slow`, { method: 'GET', signal: controller.signal }),
+    );
+
+    controller.abort();
+
+    await expect(promise).rejects.toMatchObject({ name: 'AbortError', isTimeout: false });
+  });
+
+  it('should route requests through an HTTP proxy', async () => {
+    const proxied: { url?: string; auth?: string }[] = [];
+    const proxy = http.createServer((req, res) => {
+      proxied.push({ url: req.url, auth: req.headers['proxy-authorization'] });
+
+      const upstream = http.request(
+        req.url as string,
+        { method: req.method, headers: req.headers },
+        upstreamResponse => {
+          res.writeHead(upstreamResponse.statusCode || 502, upstreamResponse.headers);
+          upstreamResponse.pipe(res);
+        },
+      );
+      req.pipe(upstream);
+    });
+    const proxyUrl = await listen(proxy);
+    const proxiedAdapter = createNodeHttpAdapter({
+      proxy: proxyUrl.replace('http://', 'http://user:secret@'),
+    });
+
+    try {
+      const response = await proxiedAdapter.request(
+        proxiedAdapter.transformRequest(`${baseUrl}/echo`, { method: 'GET' }),
+      );
+
+      expect(response.data.method).toBe('GET');
+      expect(proxied).toEqual([
+        {
+          url: `${baseUrl}/echo`,
+          auth: `Basic ${Buffer.from('user:secret').toString('base64')}`,
+        },
+      ]);
+    } finally {
+      proxiedAdapter.destroy();
+      await close(proxy);
+    }
+  });
+
+  it('should abort a pending proxy CONNECT tunnel', async () => {
+    const proxy = http.createServer();
+    const tunnelClosed = new Promise<string | undefined>(resolve => {
+      // Never answer the CONNECT, so the tunnel stays pending until the request aborts
+      proxy.on('connect', (req, socket) =>
+        socket.once('end', () => {
+          socket.destroy();
+          resolve(req.url);
+        }),
+      );
+    });
+    const proxiedAdapter = createNodeHttpAdapter({ proxy: await listen(proxy) });
+    const controller = new AbortController();
+
+    try {
+      const promise = proxiedAdapter.request(
+        proxiedAdapter.transformRequest('https://secure.example.com/orders', {
+          method: 'GET',
+          signal: controller.signal,
+        }),
+      );
+      await new Promise(resolve => proxy.once('connect', resolve));
+
+      controller.abort();
+
+      await expect(promise).rejects.toMatchObject({ name: 'AbortError', isTimeout: false });
+      expect(await tunnelClosed).toBe('secure.example.com:443');
+      expect(getEventListeners(controller.signal, 'abort')).toHaveLength(0);
+    } finally {
+      proxiedAdapter.destroy();
+      await close(proxy);
+    }
+  });
+
+  describe('with FetchKit', () => {
+    it('should surface HTTP errors as client errors', async () => {
+      const fk = createFetchKit({ adapter });
+
+      const error = (await fk.get(`${baseUrl}/missing`).catch(e => e)) as FetchKitError;
+
+      expect(error.status).toBe(404);
+      expect(error.category).toBe(ErrorCategory.Client);
+      expect(error.data).toEqual({ message: 'missing' });
+    });
+
+    it('should stream NDJSON records until the signal aborts', async () => {
+      const fk = createFetchKit({ adapter });
+      const controller = new AbortController();
+      const records = await fk.get<ResponseStream<{ n: number }>>(`${baseUrl}/export`, {
+        responseType: 'ndjson',
+        signal: controller.signal,
+      });
+      const reader = records.getReader();
+
+      expect((await reader.read()).value).toEqual({ n: 1 });
+      expect((await reader.read()).value).toEqual({ n: 2 });
+
+      controller.abort();
+      await expect(reader.read()).rejects.toMatchObject({ name: 'AbortError' });
+    });
+
+    it('should resume downloads from the unencoded byte offset', async () => {
+      const fk = createFetchKit({ adapter });
+      const download = fk.createDownload(`${baseUrl}/download`, { retry: { count: 3, delay: 1 } });
+
+      const data = await download.start();
+
+      expect(Buffer.from(data).equals(downloadContent)).toBe(true);
+      expect(downloadInterrupted).toBe(true);
+    });
+
+    it('should categorize core timeouts', async () => {
+      const fk = createFetchKit({ adapter, timeout: 50 });
+
+      const error = (await fk.get(`${baseUrl}/slow`).catch(e => e)) as FetchKitError;
+
+      expect(error.category).toBe(ErrorCategory.Timeout);
+      expect(error.isTimeout).toBe(true);
+    });
+
+    it('should categorize connection failures as network errors', async () => {
+      const closed = http.createServer();
+      const closedUrl = await listen(closed);
+      await close(closed);
+
+      const fk = createFetchKit({ adapter });
+      const error = (await fk.get(`${closedUrl}/echo`).catch(e => e)) as FetchKitError;
+
+      expect(error.category).toBe(ErrorCategory.Network);
+      expect(error.message).toContain('ECONNREFUSED');
+    });
+  });
+});
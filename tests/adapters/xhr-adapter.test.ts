@@ -0,0 +1,245 @@
+// tests/adapters/xhr-adapter.test.ts
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createXhrAdapter, xhrAdapter } from '@adapters/xhr-adapter';
+import { adapterRegistry } from '@adapters/adapter-registry';
+import { createFetchKit } from '@core/fetch-kit';
+import { ErrorCategory, FetchKitError } from '@fk-types/error';
+
+/**
+ * Minimal XMLHttpRequest stand-in driven by the tests
+ */
+class FakeXHR {
+  static instances: FakeXHR[] = [];
+
+  method = '';
+  url = '';
+  requestHeaders: Record<string, string> = {};
+  body: any;
+  responseType: XMLHttpRequestResponseType = '';
+  withCredentials = false;
+  timeout = 0;
+  status = 0;
+  statusText = '';
+  response: any = null;
+  responseURL = '';
+  responseHeaders = '';
+  upload: { onprogress: ((event: any) => void) | null } = { onprogress: null };
+  onprogress: ((event: any) => void) | null = null;
+  onload: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  ontimeout: (() => void) | null = null;
+  onabort: (() => void) | null = null;
+
+  constructor() {
+    FakeXHR.instances.push(this);
+  }
+
+  open(method: string, url: string) {
+    this.method = method;
+    this.url = url;
+  }
+
+  setRequestHeader(key: string, value: string) {
+    this.requestHeaders[key] = value;
+  }
+
+  getAllResponseHeaders() {
+    return this.responseHeaders;
+  }
+
+  send(body: any) {
+    this.body = body;
+  }
+
+  abort() {
+    this.onabort?.();
+  }
+
+  respond(status: number, headers: Record<string, string>, body: string) {
+    this.status = status;
+    this.statusText = status === 200 ? 'OK' : 'Not Found';
+    this.responseHeaders = Object.entries(headers)
+      .map(([key, value]) => `${key}: ${value}`)
+      .join('\r\n');
+    this.response =
+      this.responseType === 'arraybuffer' ? new TextEncoder().encode(body).buffer : body;
+    this.onload?.();
+  }
+}
+
+/**
+ * Wait until the adapter has sent its XMLHttpRequest
+ */
+async function nextXhr(): Promise<FakeXHR> {
+  await vi.waitFor(() => expect(FakeXHR.instances.length).toBeGreaterThan(0));
+  return FakeXHR.instances[FakeXHR.instances.length - 1];
+}
+
+describe('xhrAdapter', () => {
+  beforeEach(() => {
+    FakeXHR.instances = [];
+    vi.stubGlobal('XMLHttpRequest', FakeXHR);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should be registered in the adapter registry', () => {
+    expect(adapterRegistry.get('xhr')).toBe(xhrAdapter);
+  });
+
+  it('should send JSON bodies and parse JSON responses by content type', async () => {
+    const promise = xhrAdapter.request(
+      xhrAdapter.transformRequest('https://api.example.com/users', {
+        method: 'POST',
+        headers: { Authorization: 'Bearer token' },
+        body: { name: 'Test' },
+        params: { draft: true },
+      }),
+    );
+
+    const xhr = await nextXhr();
+    expect(xhr.method).toBe('POST');
+    expect(xhr.url).toBe('https://api.example.com/users?draft=true');
+    expect(xhr.body).toBe('{"name":"Test"}');
+    expect(xhr.requestHeaders).toEqual({
+      Authorization: 'Bearer token',
+      'Content-Type': 'application/json',
+    });
+
+    xhr.respond(200, { 'Content-Type': 'application/json' }, '{"id":1}');
+
+    const response = await promise;
+    expect(response.data).toEqual({ id: 1 });
+    expect(response.headers).toEqual({ 'content-type': 'application/json' });
+    expect(response.originalResponse.ok).toBe(true);
+  });
+
+  it('should report upload and download progress', async () => {
+    const onUploadProgress = vi.fn();
+    const onDownloadProgress = vi.fn();
+    const file = new Blob(['x'.repeat(200)]);
+
+    const promise = xhrAdapter.request(
+      xhrAdapter.transformRequest('https://api.example.com/upload', {
+        method: 'PUT',
+        body: file,
+        onUploadProgress,
+        onDownloadProgress,
+      }),
+    );
+
+    const xhr = await nextXhr();
+    expect(xhr.body).toBe(file);
+
+    xhr.upload.onprogress?.({ loaded: 50, total: 200, lengthComputable: true });
+    xhr.upload.onprogress?.({ loaded: 200, total: 200, lengthComputable: true });
+    xhr.onprogress?.({ loaded: 10, total: 0, lengthComputable: false });
+    xhr.respond(200, { 'Content-Type': 'text/plain' }, 'done');
+
+    await promise;
+    expect(onUploadProgress.mock.calls.map(([progress]) => progress)).toEqual([
+      { loaded: 50, total: 200, progress: 0.25 },
+      { loaded: 200, total: 200, progress: 1 },
+    ]);
+    expect(onDownloadProgress).toHaveBeenCalledWith({
+      loaded: 10,
+      total: undefined,
+      progress: undefined,
+    });
+  });
+
+  it('should not listen for upload progress unless asked', async () => {
+    xhrAdapter.request(xhrAdapter.transformRequest('https://api.example.com/a', {}));
+
+    const xhr = await nextXhr();
+    expect(xhr.upload.onprogress).toBeNull();
+  });
+
+  it('should honor responseType', async () => {
+    const promise = xhrAdapter.request(
+      xhrAdapter.transformRequest('https://api.example.com/data', { responseType: 'text' }),
+    );
+
+    const xhr = await nextXhr();
+    expect(xhr.responseType).toBe('text');
+
+    xhr.respond(200, { 'Content-Type': 'application/json' }, '{"raw":true}');
+
+    expect((await promise).data).toBe('{"raw":true}');
+  });
+
+  it('should return binary responses as blobs', async () => {
+    const promise = xhrAdapter.request(
+      xhrAdapter.transformRequest('https://api.example.com/image', {}),
+    );
+
+    const xhr = await nextXhr();
+    expect(xhr.responseType).toBe('arraybuffer');
+    xhr.respond(200, { 'Content-Type': 'image/png' }, 'png-bytes');
+
+    const { data } = await promise;
+    expect(data).toBeInstanceOf(Blob);
+    expect(data.type).toBe('image/png');
+  });
+
+  it('should send credentials when requested', async () => {
+    xhrAdapter.request(
+      xhrAdapter.transformRequest('https://api.example.com/me', { credentials: 'include' }),
+    );
+
+    expect((await nextXhr()).withCredentials).toBe(true);
+  });
+
+  describe('with FetchKit', () => {
+    it('should map HTTP errors to client errors', async () => {
+      const fk = createFetchKit({ adapter: xhrAdapter });
+      const promise = fk.post('https://api.example.com/users').catch(e => e);
+
+      (await nextXhr()).respond(404, { 'Content-Type': 'application/json' }, '{"message":"x"}');
+
+      const error = (await promise) as FetchKitError;
+      expect(error.status).toBe(404);
+      expect(error.category).toBe(ErrorCategory.Client);
+    });
+
+    it('should map XHR errors to network errors', async () => {
+      const fk = createFetchKit({ adapter: xhrAdapter });
+      const promise = fk.post('https://api.example.com/users').catch(e => e);
+
+      (await nextXhr()).onerror?.();
+
+      expect(((await promise) as FetchKitError).category).toBe(ErrorCategory.Network);
+    });
+
+    it('should map XHR timeouts to timeout errors', async () => {
+      const adapter = createXhrAdapter({ name: 'xhr-timeout', timeout: 1000 });
+      const fk = createFetchKit({ adapter });
+      const promise = fk.post('https://api.example.com/users').catch(e => e);
+
+      const xhr = await nextXhr();
+      expect(xhr.timeout).toBe(1000);
+      xhr.ontimeout?.();
+
+      const error = (await promise) as FetchKitError;
+      expect(error.category).toBe(ErrorCategory.Timeout);
+      expect(error.isTimeout).toBe(true);
+    });
+
+    it('should abort the XHR when the request is cancelled', async () => {
+      const fk = createFetchKit({ adapter: xhrAdapter });
+      const controller = new AbortController();
+      const promise = fk.post('https://api.example.com/users', {}, { signal: controller.signal });
+
+      const xhr = await nextXhr();
+      const abortSpy = vi.spyOn(xhr, 'abort');
+      controller.abort();
+
+      const error = (await promise.catch(e => e)) as FetchKitError;
+      expect(abortSpy).toHaveBeenCalled();
+      expect(error.category).toBe(ErrorCategory.Cancel);
+    });
+  });
+});
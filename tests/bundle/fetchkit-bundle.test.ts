@@ -0,0 +1,102 @@
+// tests/bundle/fetchkit-bundle.test.ts
+/** @vitest-environment node */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import http from 'node:http';
+import { existsSync } from 'node:fs';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { execFile } from 'node:child_process';
+import { AddressInfo } from 'node:net';
+import { join, resolve } from 'node:path';
+import { tmpdir } from 'node:os';
+import { promisify } from 'node:util';
+
+const dist = resolve(__dirname, '../../dist');
+
+const bundles = [
+  ['ES module', resolve(dist, 'fetchkit.mjs')],
+  ['UMD', resolve(dist, 'fetchkit.js')],
+];
+
+/**
+ * Run a script against a bundle in a separate Node.js process, so it is loaded the
+ * way a package consumer loads it, and parse the JSON it prints
+ */
+async function runWithBundle(bundle: string, script: string): Promise<any> {
+  const load = bundle.endsWith('.mjs')
+    ? `await import(${JSON.stringify(`file://${bundle}`)})`
+    : `(await import('node:module')).createRequire(import.meta.url)(${JSON.stringify(bundle)})`;
+
+  const { stdout } = await promisify(execFile)(process.execPath, [
+    '--input-type=module',
+    '-e',
+    // Timers such as the cache cleanup keep the process alive, so it exits once the script is done
+    `const fetchKit = ${load};\n${script}\nprocess.exit(0);`,
+  ]);
+  return JSON.parse(stdout);
+}
+
+// The bundles are written by `yarn build`, which runs before the tests in CI
+describe.skipIf(!existsSync(bundles[0][1]))('built bundle', () => {
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ method: req.method, url: req.url }));
+    });
+    await new Promise<void>(done => server.listen(0, '127.0.0.1', done));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise(done => server.close(done));
+  });
+
+  it.each(bundles)(
+    'should send requests with the Node.js adapter from the %s bundle',
+    async (_, bundle) => {
+      const result = await runWithBundle(
+        bundle,
+        `
+        const adapter = fetchKit.createNodeHttpAdapter({ keepAlive: false });
+        const fk = fetchKit.createFetchKit({ adapter });
+        console.log(JSON.stringify(await fk.get(${JSON.stringify(`${baseUrl}/ping`)})));
+      `,
+      );
+
+      expect(result).toEqual({ method: 'GET', url: '/ping' });
+    },
+  );
+
+  it.each(bundles)(
+    'should record and replay mock fixtures from the %s bundle',
+    async (_, bundle) => {
+      const directory = await mkdtemp(join(tmpdir(), 'fetchkit-bundle-'));
+
+      try {
+        const result = await runWithBundle(
+          bundle,
+          `
+        const { MockAdapter, createMockAdapter, createFetchKit } = fetchKit;
+        const fixture = ${JSON.stringify(join(directory, 'fixtures', 'users.json'))};
+        const server = createMockAdapter({ name: 'server' }).onGet('/users', { data: ['Ada'] });
+
+        const recorder = new MockAdapter({ mode: 'record', passthrough: server, fixture });
+        await createFetchKit({ adapter: recorder }).get('/users');
+        await recorder.saveFixture();
+
+        const replayer = new MockAdapter({ mode: 'replay', fixture });
+        console.log(JSON.stringify(await createFetchKit({ adapter: replayer }).get('/users')));
+      `,
+        );
+
+        expect(result).toEqual(['Ada']);
+      } finally {
+        await rm(directory, { recursive: true, force: true });
+      }
+    },
+  );
+});
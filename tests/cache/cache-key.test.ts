@@ -1,7 +1,9 @@
 // tests/cache/cache-key.test.ts
 
-import { describe, it, expect } from 'vitest';
-import { generateCacheKey } from '@cache/cache-key';
+import { describe, it, expect, vi } from 'vitest';
+import { generateCacheKey, hashString } from '@cache/cache-key';
+import { createFetchKit } from '@core/fetch-kit';
+import { createMockAdapter } from '@adapters/mock-adapter';
 
 describe('Cache Key Generation', () => {
   it('generates unique keys for different URLs', () => {
@@ -70,4 +72,85 @@ describe('Cache Key Generation', () => {
 
     expect(key1).toEqual(key2);
   });
+
+  it('includes selected headers as hashed values', () => {
+    const keyOptions = { headers: ['Authorization', 'accept-language'] };
+    const key1 = generateCacheKey(
+      '/users',
+      { headers: { authorization: 'Bearer a', 'Accept-Language': 'en' } },
+      keyOptions,
+    );
+    const key2 = generateCacheKey(
+      '/users',
+      { headers: { Authorization: 'Bearer b', 'Accept-Language': 'en' } },
+      keyOptions,
+    );
+
+    expect(key1).not.toEqual(key2);
+    expect(key1).not.toContain('Bearer');
+    expect(generateCacheKey('/users', { headers: { authorization: 'Bearer a' } })).toEqual(
+      generateCacheKey('/users'),
+    );
+  });
+
+  it('hashes large bodies', () => {
+    const body = { items: Array.from({ length: 500 }, (_, i) => i) };
+    const key = generateCacheKey('/search', { method: 'POST', body });
+
+    expect(key).toEqual(`POST:/search::#${hashString(JSON.stringify(body))}`);
+    expect(generateCacheKey('/search', { method: 'POST', body: { q: 'a' } })).toContain(
+      '{"q":"a"}',
+    );
+  });
+
+  it('uses a custom key function', () => {
+    const keyFn = vi.fn((url: string) => `custom:${url}`);
+
+    expect(generateCacheKey('/users', { method: 'GET' }, { keyFn })).toBe('custom:/users');
+    expect(keyFn).toHaveBeenCalledWith('/users', { method: 'GET' });
+  });
+
+  it('hashes with 64-bit FNV-1a', () => {
+    expect(hashString('')).toBe('cbf29ce484222325');
+    expect(hashString('foobar')).toBe('85944171f73967e8');
+  });
+
+  describe('with FetchKit', () => {
+    it('keeps separate entries for configured headers', async () => {
+      const mock = createMockAdapter().onGet('/me', request => ({
+        data: request.headers.Authorization,
+      }));
+      const fk = createFetchKit({
+        adapter: mock,
+        cacheOptions: { staleTime: 60000 },
+        cacheKeyOptions: { headers: ['Authorization'] },
+      });
+
+      expect(await fk.get('/me', { headers: { Authorization: 'a' } })).toBe('a');
+      expect(await fk.get('/me', { headers: { Authorization: 'b' } })).toBe('b');
+      expect(await fk.get('/me', { headers: { Authorization: 'a' } })).toBe('a');
+      mock.assertCalled('GET', '/me', 2);
+    });
+
+    it('honors the Vary header of responses', async () => {
+      const mock = createMockAdapter().onGet('/greeting', request => ({
+        data: request.headers['Accept-Language'] === 'fr' ? 'bonjour' : 'hello',
+        headers: { Vary: 'Accept-Language' },
+      }));
+      const fk = createFetchKit({
+        adapter: mock,
+        defaultHeaders: { 'Accept-Language': 'en' },
+        cacheOptions: { staleTime: 60000 },
+      });
+
+      expect(await fk.get('/greeting')).toBe('hello');
+      expect(await fk.get('/greeting', { headers: { 'Accept-Language': 'fr' } })).toBe('bonjour');
+      expect(await fk.get('/greeting')).toBe('hello');
+      expect(await fk.get('/greeting', { headers: { 'Accept-Language': 'fr' } })).toBe('bonjour');
+      mock.assertCalled('GET', '/greeting', 2);
+
+      expect(fk.getCacheKey('/greeting')).toContain(':vary:accept-language=');
+      expect(fk.getCacheEntry('/greeting')?.data).toBe('hello');
+    });
+  });
 });
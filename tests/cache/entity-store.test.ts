@@ -0,0 +1,152 @@
+// tests/cache/entity-store.test.ts
+
+import { describe, it, expect, vi } from 'vitest';
+import { EntitySchema } from '@cache/entity-schema';
+import { EntityStore } from '@cache/entity-store';
+import { createFetchKit } from '@core/fetch-kit';
+import { Query } from '@core/query';
+import { createMockAdapter } from '@adapters/mock-adapter';
+
+const user = new EntitySchema('User');
+const post = new EntitySchema('Post', { fields: { author: user } });
+const comment = new EntitySchema('Comment', { idField: 'commentId' });
+post.define({ comments: [comment] });
+
+const alice = { id: 1, name: 'Alice' };
+const bob = { id: 2, name: 'Bob' };
+
+describe('EntityStore', () => {
+  it('should normalize nested entities and read them back', () => {
+    const store = new EntityStore();
+    const data = {
+      page: 1,
+      posts: [
+        { id: 10, title: 'Hello', author: alice, comments: [{ commentId: 'c1', text: 'Hi' }] },
+        { id: 11, title: 'Again', author: alice, comments: [] },
+      ],
+    };
+
+    const changed = store.write('posts', data, { posts: [post] });
+
+    expect(changed.sort()).toEqual(['Comment:c1', 'Post:10', 'Post:11', 'User:1']);
+    expect(store.read('posts')).toEqual(data);
+    expect(store.getEntity(user, 1)).toEqual(alice);
+    expect(store.getEntity(post, 10)).toEqual(data.posts[0]);
+    expect(store.getEntity(user, 99)).toBeUndefined();
+  });
+
+  it('should merge entity fields and report only real changes', () => {
+    const store = new EntityStore();
+    store.write('users', [alice, bob], [user]);
+
+    expect(store.write('user/1', alice, user)).toEqual([]);
+    expect(store.writeEntities({ id: 1, email: 'a@example.com' }, user)).toEqual(['User:1']);
+    expect(store.read('users')).toEqual([{ ...alice, email: 'a@example.com' }, bob]);
+
+    expect(store.getDependentKeys(['User:1']).sort()).toEqual(['user/1', 'users']);
+    expect(store.getDependentKeys(['User:2'])).toEqual(['users']);
+  });
+
+  it('should replace entities through an updater and cut reference cycles', () => {
+    const store = new EntityStore();
+    const person = new EntitySchema('Person');
+    person.define({ friend: person });
+
+    store.write(
+      'me',
+      { id: 1, name: 'Ann', friend: { id: 2, name: 'Ben', friend: { id: 1 } } },
+      person,
+    );
+    expect(store.read('me')).toEqual({
+      id: 1,
+      name: 'Ann',
+      friend: { id: 2, name: 'Ben', friend: { id: 1, name: 'Ann' } },
+    });
+
+    expect(store.writeEntity(person, 2, current => ({ ...current, name: 'Benjamin' }))).toEqual([
+      'Person:2',
+    ]);
+    expect(store.getEntity(person, 2)).toMatchObject({ name: 'Benjamin' });
+  });
+
+  it('should forget removed keys and unreferenced entities', () => {
+    const store = new EntityStore();
+    store.write('a', alice, user);
+    store.write('b', bob, user);
+
+    store.retain(cacheKey => cacheKey === 'a');
+
+    expect(store.has('a')).toBe(true);
+    expect(store.has('b')).toBe(false);
+    expect(store.getEntity(user, 1)).toEqual(alice);
+    expect(store.getEntity(user, 2)).toBeUndefined();
+  });
+});
+
+describe('Normalized entity cache', () => {
+  const createClient = () => {
+    const mock = createMockAdapter()
+      .onGet('/users', { data: [alice, bob] })
+      .onGet('/users/1', { data: { ...alice, name: 'Alice Smith' } })
+      .onPatch('/users/2', request => ({ data: { ...bob, ...request.body } }));
+    const fk = createFetchKit({
+      adapter: mock,
+      normalize: true,
+      cacheOptions: { staleTime: 60000 },
+    });
+    return { mock, fk };
+  };
+
+  it('should update every entry that references a fetched entity', async () => {
+    const { fk } = createClient();
+    const cacheUpdate = vi.fn();
+    fk.on('cache:update', cacheUpdate);
+
+    await fk.get('/users', { cacheOptions: { entities: [user] } });
+    await fk.get('/users/1', { cacheOptions: { entities: user } });
+
+    expect(fk.getCacheEntry('/users')?.data).toEqual([{ ...alice, name: 'Alice Smith' }, bob]);
+    expect(cacheUpdate).toHaveBeenCalledWith({
+      key: fk.getCacheKey('/users'),
+      data: [{ ...alice, name: 'Alice Smith' }, bob],
+    });
+  });
+
+  it('should propagate setEntity and setCacheData writes to queries', async () => {
+    const { fk } = createClient();
+    const query = new Query(fk, '/users', { cacheOptions: { entities: [user] } });
+    await vi.waitFor(() => expect(query.getState().isSuccess).toBe(true));
+
+    fk.setEntity(user, 2, current => ({ ...current, name: 'Robert' }));
+    expect(query.getState().data).toEqual([alice, { ...bob, name: 'Robert' }]);
+    expect(fk.getEntity(user, 2)).toEqual({ ...bob, name: 'Robert' });
+
+    fk.setCacheData('/users/1', { ...alice, name: 'Al' }, { cacheOptions: { entities: user } });
+    expect(query.getState().data).toEqual([
+      { ...alice, name: 'Al' },
+      { ...bob, name: 'Robert' },
+    ]);
+
+    query.dispose();
+  });
+
+  it('should merge entities from mutation results into cached lists', async () => {
+    const { fk, mock } = createClient();
+    await fk.get('/users', { cacheOptions: { entities: [user] } });
+
+    await fk.mutate('/users/2', { name: 'Bobby' }, { method: 'PATCH', entities: user });
+
+    expect(fk.getCacheEntry('/users')?.data).toEqual([alice, { ...bob, name: 'Bobby' }]);
+    mock.assertCalled('GET', '/users', 1);
+  });
+
+  it('should leave data untouched when normalization is disabled', async () => {
+    const fk = createFetchKit({ adapter: createMockAdapter().onGet('/users', { data: [alice] }) });
+
+    await fk.get('/users', { cacheOptions: { entities: [user] } });
+    fk.setEntity(user, 1, { ...alice, name: 'Changed' });
+
+    expect(fk.getEntity(user, 1)).toBeUndefined();
+    expect(fk.getCacheEntry('/users')?.data).toEqual([alice]);
+  });
+});
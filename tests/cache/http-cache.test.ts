@@ -0,0 +1,200 @@
+// tests/cache/http-cache.test.ts
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { parseCacheControl, getHttpCachePolicy } from '@cache/http-cache';
+import { createFetchKit } from '@core/fetch-kit';
+import { createMockAdapter } from '@adapters/mock-adapter';
+import { ErrorCategory } from '@fk-types/error';
+import type { MockResponse } from '@fk-types/mock';
+
+describe('HTTP cache', () => {
+  const receivedAt = Date.parse('2024-01-01T00:00:00Z');
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should parse Cache-Control directives', () => {
+    expect(
+      parseCacheControl('public, Max-Age=60, s-maxage="120", stale-while-revalidate=30, no-cache'),
+    ).toEqual({
+      maxAge: 60,
+      sMaxAge: 120,
+      staleWhileRevalidate: 30,
+      staleIfError: undefined,
+      noStore: false,
+      noCache: true,
+      mustRevalidate: false,
+    });
+    expect(parseCacheControl('max-age=abc').maxAge).toBeUndefined();
+  });
+
+  it('should work out freshness from Cache-Control, Age and Expires', () => {
+    const policy = getHttpCachePolicy({
+      status: 200,
+      receivedAt,
+      headers: {
+        'Cache-Control': 'max-age=60, s-maxage=300, stale-while-revalidate=30, stale-if-error=600',
+        Age: '10',
+        ETag: '"v1"',
+      },
+    });
+
+    expect(policy).toEqual({
+      store: true,
+      etag: '"v1"',
+      lastModified: undefined,
+      staleAt: receivedAt + 50000,
+      mustRevalidateAt: receivedAt + 80000,
+      staleIfErrorUntil: receivedAt + 650000,
+    });
+
+    const shared = getHttpCachePolicy(
+      { status: 200, receivedAt, headers: { 'cache-control': 'max-age=60, s-maxage=300' } },
+      true,
+    );
+    expect(shared.staleAt).toBe(receivedAt + 300000);
+
+    const expires = getHttpCachePolicy({
+      status: 200,
+      receivedAt,
+      headers: {
+        date: 'Mon, 01 Jan 2024 00:00:00 GMT',
+        expires: 'Mon, 01 Jan 2024 00:02:00 GMT',
+      },
+    });
+    expect(expires.staleAt).toBe(receivedAt + 120000);
+
+    expect(
+      getHttpCachePolicy({ status: 200, headers: { expires: '0' } }).staleAt,
+    ).toBeLessThanOrEqual(Date.now());
+    expect(
+      getHttpCachePolicy({ status: 200, headers: { 'cache-control': 'no-store' } }).store,
+    ).toBe(false);
+  });
+
+  describe('with FetchKit', () => {
+    it('should keep responses fresh for max-age and skip no-store responses', async () => {
+      const mock = createMockAdapter()
+        .onGet('/fresh', { data: 'fresh', headers: { 'Cache-Control': 'max-age=60' } })
+        .onGet('/private', { data: 'private', headers: { 'Cache-Control': 'no-store' } });
+      const fk = createFetchKit({ adapter: mock, cacheOptions: { staleTime: 0 } });
+
+      await fk.get('/fresh');
+      expect(await fk.get('/fresh')).toBe('fresh');
+      mock.assertCalled('GET', '/fresh', 1);
+
+      await fk.get('/private');
+      expect(fk.getCacheEntry('/private')).toBeUndefined();
+      await fk.get('/private');
+      mock.assertCalled('GET', '/private', 2);
+    });
+
+    it('should not apply the headers of a response that was not cached to later writes', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const mock = createMockAdapter().onGet('/item', {
+        data: { v: 1 },
+        headers: { 'Cache-Control': 'no-store' },
+      });
+      const fk = createFetchKit({ adapter: mock });
+
+      // The validator rejects the response, so the cache never stores it
+      await expect(fk.get('/item', { cacheOptions: { validator: () => false } })).rejects.toThrow(
+        'Fetched data failed validation',
+      );
+
+      fk.setCacheData('/item', { v: 2 });
+      expect(fk.getCacheEntry('/item')?.data).toEqual({ v: 2 });
+    });
+
+    it('should revalidate with validators and keep the data on 304', async () => {
+      let version = 1;
+      const mock = createMockAdapter().onGet(
+        '/todos',
+        (request): MockResponse =>
+          request.headers['If-None-Match'] === `"v${version}"`
+            ? { status: 304, headers: { ETag: `"v${version}"`, 'Cache-Control': 'no-cache' } }
+            : {
+                data: [`todo v${version}`],
+                headers: {
+                  ETag: `"v${version}"`,
+                  'Last-Modified': 'Mon, 01 Jan 2024 00:00:00 GMT',
+                  'Cache-Control': 'no-cache',
+                },
+              },
+      );
+      const fk = createFetchKit({ adapter: mock });
+
+      expect(await fk.get('/todos')).toEqual(['todo v1']);
+      const firstEntry = fk.getCacheEntry('/todos')!;
+
+      vi.spyOn(Date, 'now').mockReturnValue(firstEntry.metadata.createdAt + 1000);
+
+      // no-cache entries are revalidated before they are served
+      expect(await fk.get('/todos')).toEqual(['todo v1']);
+      const [, revalidation] = mock.getHistory();
+      expect(revalidation.headers).toMatchObject({
+        'If-None-Match': '"v1"',
+        'If-Modified-Since': 'Mon, 01 Jan 2024 00:00:00 GMT',
+      });
+      expect(fk.getCacheEntry('/todos')!.metadata.staleAt).toBe(
+        firstEntry.metadata.createdAt + 1000,
+      );
+
+      version = 2;
+      expect(await fk.get('/todos')).toEqual(['todo v2']);
+      mock.assertCalled('GET', '/todos', 3);
+    });
+
+    it('should not treat a 304 revalidation as an error', async () => {
+      const mock = createMockAdapter().onGet(
+        '/todos',
+        (request): MockResponse =>
+          request.headers['If-None-Match'] === '"v1"'
+            ? { status: 304, headers: { ETag: '"v1"', 'Cache-Control': 'no-cache' } }
+            : { data: ['todo v1'], headers: { ETag: '"v1"', 'Cache-Control': 'no-cache' } },
+      );
+      const fk = createFetchKit({
+        adapter: mock,
+        retry: { count: 3, delay: 1 },
+        circuitBreaker: {
+          failureThreshold: 1,
+          failureCategories: [ErrorCategory.Unknown, ErrorCategory.Client],
+        },
+      });
+      const recover = vi.fn(() => ({
+        data: 'from interceptor',
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+      }));
+      fk.interceptors.error.use(recover);
+
+      expect(await fk.get('/todos')).toEqual(['todo v1']);
+      expect(await fk.get('/todos')).toEqual(['todo v1']);
+
+      expect(fk.getCacheEntry('/todos')!.data).toEqual(['todo v1']);
+      expect(recover).not.toHaveBeenCalled();
+      expect(fk.getCircuitStatus('/todos')).toMatchObject({ state: 'closed', failures: {} });
+      mock.assertCalled('GET', '/todos', 2);
+    });
+
+    it('should serve stale data on errors only within stale-if-error', async () => {
+      let failing = false;
+      const reply = (cacheControl: string) => () =>
+        failing ? { status: 500 } : { data: 'cached', headers: { 'Cache-Control': cacheControl } };
+      const mock = createMockAdapter()
+        .onGet('/tolerant', reply('max-age=0, stale-if-error=60'))
+        .onGet('/strict', reply('max-age=0'));
+      const fk = createFetchKit({ adapter: mock, retry: { count: 1 } });
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      await fk.get('/tolerant');
+      await fk.get('/strict');
+      failing = true;
+
+      expect(await fk.get('/tolerant')).toBe('cached');
+      await expect(fk.get('/strict')).rejects.toMatchObject({ status: 500 });
+    });
+  });
+});
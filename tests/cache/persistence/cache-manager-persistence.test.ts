@@ -0,0 +1,121 @@
+// tests/cache/persistence/cache-manager-persistence.test.ts
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { CacheManager } from '@cache/cache-manager';
+import { createCacheEntry } from '@cache/cache-entry';
+import { MemoryPersistence } from '@cache/persistence/cache-persistence';
+import { createFetchKit } from '@core/fetch-kit';
+import * as fetchModule from '@core/fetch';
+
+// Mock the fetch module
+vi.mock('@core/fetch', () => ({
+  fetch: vi.fn(),
+}));
+
+describe('CacheManager persistence', () => {
+  let persistence: MemoryPersistence;
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    persistence = new MemoryPersistence();
+  });
+
+  it('should hydrate the memory cache from persistence on startup', async () => {
+    await persistence.set('users', createCacheEntry({ id: 1 }, 60000, 300000));
+
+    const cacheManager = new CacheManager({}, persistence);
+    await cacheManager.ready();
+
+    expect(cacheManager.get('users')).toEqual({ id: 1 });
+  });
+
+  it('should not hydrate expired entries', async () => {
+    const entry = createCacheEntry({ id: 1 }, 0, 300000);
+    entry.expiresAt = Date.now() - 1000;
+    await persistence.set('users', entry);
+
+    const cacheManager = new CacheManager({}, persistence);
+    await cacheManager.ready();
+
+    expect(cacheManager.get('users')).toBeUndefined();
+    expect(await persistence.has('users')).toBe(false);
+  });
+
+  it('should write entries through to persistence on set', async () => {
+    const cacheManager = new CacheManager({}, persistence);
+
+    cacheManager.set('users', [{ id: 1 }], { staleTime: 1000, cacheTime: 60000 });
+    await cacheManager.flushPersistence();
+
+    const persisted = await persistence.get('users');
+    expect(persisted?.data).toEqual([{ id: 1 }]);
+  });
+
+  it('should remove invalidated entries from persistence', async () => {
+    const cacheManager = new CacheManager({}, persistence);
+
+    cacheManager.set('users', [{ id: 1 }]);
+    cacheManager.set('posts', [{ id: 2 }]);
+    cacheManager.invalidate('users');
+    cacheManager.invalidateMatching(key => key === 'posts');
+    await cacheManager.flushPersistence();
+
+    expect(await persistence.keys()).toEqual([]);
+  });
+
+  it('should clear persistence when the cache is cleared', async () => {
+    const cacheManager = new CacheManager({}, persistence);
+
+    cacheManager.set('users', [{ id: 1 }]);
+    cacheManager.clear();
+    await cacheManager.flushPersistence();
+
+    expect(await persistence.keys()).toEqual([]);
+  });
+
+  it('should serve persisted data from swr without fetching', async () => {
+    await persistence.set('users', createCacheEntry({ id: 1 }, 60000, 300000));
+
+    const cacheManager = new CacheManager({}, persistence);
+    const fetchFn = vi.fn().mockResolvedValue({ id: 2 });
+
+    const data = await cacheManager.swr('users', fetchFn, { staleTime: 60000 });
+
+    expect(data).toEqual({ id: 1 });
+    expect(fetchFn).not.toHaveBeenCalled();
+  });
+
+  it('should create a backend from persistence options', async () => {
+    const cacheManager = new CacheManager({}, { type: 'memory' });
+
+    cacheManager.set('users', [{ id: 1 }]);
+    await cacheManager.flushPersistence();
+
+    expect(cacheManager.hasPersistence()).toBe(true);
+    expect(cacheManager.get('users')).toEqual([{ id: 1 }]);
+  });
+});
+
+describe('FetchKit persistence option', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('should serve data cached by a previous instance without a network request', async () => {
+    const persistence = new MemoryPersistence();
+    const cacheOptions = { staleTime: 60000, cacheTime: 300000 };
+
+    const first = createFetchKit({ persistence, cacheOptions });
+    vi.mocked(fetchModule.fetch).mockResolvedValueOnce({ name: 'cached' });
+    await first.get('/profile');
+
+    // Give write-through a chance to complete
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    const second = createFetchKit({ persistence, cacheOptions });
+    const data = await second.get('/profile');
+
+    expect(data).toEqual({ name: 'cached' });
+    expect(fetchModule.fetch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,157 @@
+// tests/core/circuit-breaker.test.ts
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { CircuitBreaker } from '@core/circuit-breaker';
+import { createFetchKit } from '@core/fetch-kit';
+import { createMockAdapter } from '@adapters/mock-adapter';
+import { ErrorCategory, FetchKitError } from '@fk-types/error';
+import { createError } from '@utils/error';
+
+const serverError = () => createError('Service unavailable', { category: ErrorCategory.Server });
+
+describe('CircuitBreaker', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should key circuits by origin or route pattern', () => {
+    const breaker = new CircuitBreaker({ routes: ['/search/*', /\/reports\//] });
+
+    expect(breaker.getKey('https://api.example.com/users/1')).toBe('https://api.example.com');
+    expect(breaker.getKey('https://api.example.com/search/users')).toBe('/search/*');
+    expect(breaker.getKey('https://other.example.com/reports/daily')).toBe('/\\/reports\\//');
+  });
+
+  it('should open after the threshold, fail fast and go half-open after the reset timeout', () => {
+    vi.useFakeTimers();
+    const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeout: 1000 });
+    const listener = vi.fn();
+    breaker.onStateChange(listener);
+    const url = 'https://api.example.com/users';
+
+    breaker.recordFailure(breaker.acquire(url), serverError());
+    expect(breaker.getStatus(url)?.state).toBe('closed');
+
+    breaker.recordFailure(breaker.acquire(url), serverError());
+    expect(breaker.getStatus(url)).toMatchObject({
+      state: 'open',
+      failures: { [ErrorCategory.Server]: 2 },
+    });
+
+    let error: FetchKitError | undefined;
+    try {
+      breaker.acquire(url);
+    } catch (e) {
+      error = e as FetchKitError;
+    }
+    expect(error?.category).toBe(ErrorCategory.CircuitOpen);
+
+    // Only one trial request is admitted while half-open
+    vi.advanceTimersByTime(1000);
+    const key = breaker.acquire(url);
+    expect(breaker.getStatus(url)?.state).toBe('half-open');
+    expect(() => breaker.acquire(url)).toThrow('Circuit open');
+
+    breaker.recordSuccess(key);
+    expect(breaker.getStatus(url)).toMatchObject({ state: 'closed', failures: {} });
+    expect(listener.mock.calls.map(([status]) => status.state)).toEqual([
+      'open',
+      'half-open',
+      'closed',
+    ]);
+  });
+
+  it('should reopen when a trial request fails', () => {
+    vi.useFakeTimers();
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 1000 });
+    const url = 'https://api.example.com/users';
+
+    breaker.recordFailure(breaker.acquire(url), serverError());
+    vi.advanceTimersByTime(1000);
+    breaker.recordFailure(breaker.acquire(url), serverError());
+
+    expect(breaker.getStatus(url)).toMatchObject({
+      state: 'open',
+      nextAttemptAt: Date.now() + 1000,
+    });
+  });
+
+  it('should count only the configured error categories', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: { [ErrorCategory.Timeout]: 2 } });
+    const url = 'https://api.example.com/users';
+    const timeout = createError('Timed out', { category: ErrorCategory.Timeout });
+
+    breaker.recordFailure(breaker.acquire(url), serverError());
+    breaker.recordFailure(breaker.acquire(url), timeout);
+    breaker.recordFailure(breaker.acquire(url), serverError());
+    expect(breaker.getStatus(url)?.state).toBe('closed');
+
+    breaker.recordFailure(breaker.acquire(url), timeout);
+    breaker.recordFailure(breaker.acquire(url), timeout);
+    expect(breaker.getStatus(url)?.state).toBe('open');
+
+    breaker.reset();
+    expect(breaker.getStatus(url)?.state).toBe('closed');
+  });
+
+  describe('with FetchKit', () => {
+    it('should stop sending requests while open and emit circuit events', async () => {
+      let healthy = false;
+      const mock = createMockAdapter().onGet('/orders', () =>
+        healthy ? { data: 'ok' } : { status: 503 },
+      );
+      const fk = createFetchKit({
+        baseUrl: 'https://api.example.com',
+        adapter: mock,
+        circuitBreaker: { failureThreshold: 2, resetTimeout: 50 },
+        cacheOptions: { staleTime: 0, cacheTime: 0 },
+      });
+      const events: string[] = [];
+      fk.on('circuit:open', () => events.push('open'));
+      fk.on('circuit:half-open', () => events.push('half-open'));
+      fk.on('circuit:close', () => events.push('close'));
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const uncached = { cacheOptions: false };
+      await fk.get('/orders', uncached).catch(() => {});
+      await fk.get('/orders', uncached).catch(() => {});
+
+      const error = (await fk.get('/orders', uncached).catch(e => e)) as FetchKitError;
+      expect(error.category).toBe(ErrorCategory.CircuitOpen);
+      mock.assertCalled('GET', '/orders', 2);
+      expect(fk.getCircuitStatus('/orders')?.state).toBe('open');
+
+      await new Promise(resolve => setTimeout(resolve, 60));
+      healthy = true;
+
+      expect(await fk.get('/orders', uncached)).toBe('ok');
+      expect(events).toEqual(['open', 'half-open', 'close']);
+      expect(fk.getCircuits()).toEqual([
+        expect.objectContaining({ key: 'https://api.example.com', state: 'closed' }),
+      ]);
+    });
+
+    it('should keep serving stale data without retrying revalidations', async () => {
+      const mock = createMockAdapter()
+        .onGet('/users', { data: ['stale'] })
+        .onGet('/orders', { status: 503 });
+      const fk = createFetchKit({
+        baseUrl: 'https://api.example.com',
+        adapter: mock,
+        circuitBreaker: { failureThreshold: 1 },
+        cacheOptions: { staleTime: 0 },
+      });
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      expect(await fk.get('/users')).toEqual(['stale']);
+      await fk.get('/orders', { cacheOptions: false }).catch(() => {});
+      expect(fk.getCircuitStatus('/users')?.state).toBe('open');
+
+      expect(await fk.get('/users')).toEqual(['stale']);
+      await new Promise(resolve => setTimeout(resolve, 20));
+
+      mock.assertCalled('GET', '/users', 1);
+    });
+  });
+});
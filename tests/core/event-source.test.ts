@@ -0,0 +1,125 @@
+// tests/core/event-source.test.ts
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createFetchKit } from '@core/fetch-kit';
+import { Query } from '@core/query';
+import { createMockAdapter } from '@adapters/mock-adapter';
+import type { ServerSentEvent } from '@fk-types/event-source';
+
+/**
+ * Create a text stream that the test writes to
+ */
+function createStream() {
+  let controller!: ReadableStreamDefaultController<string>;
+  const stream = new ReadableStream<string>({
+    start: streamController => {
+      controller = streamController;
+    },
+  });
+
+  return {
+    stream,
+    push: (text: string) => controller.enqueue(text),
+    end: () => controller.close(),
+  };
+}
+
+describe('EventSourceClient', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should parse events and reconnect with Last-Event-ID and the server retry delay', async () => {
+    const first = createStream();
+    const second = createStream();
+    const streams = [first.stream, second.stream];
+    const mock = createMockAdapter().onGet('/events', () => ({ data: streams.shift() }));
+    const fk = createFetchKit({ adapter: mock });
+
+    const source = fk.eventSource<{ n: number }>('/events', { parse: 'json', retryDelay: 60000 });
+    const received: ServerSentEvent<{ n: number }>[] = [];
+    const updates = vi.fn();
+    source.subscribe(event => received.push(event));
+    source.on('update', updates);
+
+    first.push('retry: 10\nid: 1\ndata: {"n":1}\n\nevent: update\nid: 2\ndata: {"n":2}\n\n');
+    first.end();
+    await vi.waitFor(() => expect(mock.getHistory()).toHaveLength(2));
+
+    second.push('data: {"n":3}\n\n');
+    await vi.waitFor(() => expect(received).toHaveLength(3));
+
+    expect(received.map(event => event.data)).toEqual([{ n: 1 }, { n: 2 }, { n: 3 }]);
+    expect(updates).toHaveBeenCalledWith(expect.objectContaining({ event: 'update', id: '2' }));
+    expect(mock.getHistory()[0].headers).toMatchObject({ Accept: 'text/event-stream' });
+    expect(mock.getHistory()[0].headers['Last-Event-ID']).toBeUndefined();
+    expect(mock.getHistory()[1].headers['Last-Event-ID']).toBe('2');
+    expect(source.getState()).toMatchObject({ status: 'open', lastEventId: '2', retryDelay: 10 });
+
+    source.close();
+    expect(source.getState().status).toBe('closed');
+  });
+
+  it('should fold events into a cache entry seen by queries', async () => {
+    const events = createStream();
+    const mock = createMockAdapter()
+      .onGet('/todos', { data: [{ id: 1 }] })
+      .onGet('/todos/events', { data: events.stream });
+    const fk = createFetchKit({ adapter: mock, cacheOptions: { staleTime: 60000 } });
+
+    const query = new Query<{ id: number }[]>(fk, '/todos');
+    await vi.waitFor(() => expect(query.getState().isSuccess).toBe(true));
+
+    const source = fk.eventSource<{ id: number }>('/todos/events', {
+      parse: 'json',
+      cacheUpdate: {
+        url: '/todos',
+        events: ['created'],
+        reduce: (todos: { id: number }[] = [], event) => [...todos, event.data],
+      },
+    });
+
+    events.push('event: created\ndata: {"id":2}\n\nevent: ignored\ndata: {"id":3}\n\n');
+    await vi.waitFor(() => expect(query.getState().data).toEqual([{ id: 1 }, { id: 2 }]));
+
+    source.close();
+    query.dispose();
+  });
+
+  it('should stop on client errors and give up after maxRetries', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const mock = createMockAdapter()
+      .onGet('/missing', { status: 404 })
+      .onGet('/down', { status: 503 });
+    const fk = createFetchKit({ adapter: mock });
+
+    const missing = fk.eventSource('/missing');
+    await vi.waitFor(() => expect(missing.getState().status).toBe('closed'));
+    expect(missing.getState().error).toMatchObject({ status: 404 });
+    mock.assertCalled('GET', '/missing', 1);
+
+    const errors = vi.fn();
+    const down = fk.eventSource('/down', { retryDelay: 1, maxRetries: 2 });
+    down.onError(errors);
+    await vi.waitFor(() => expect(down.getState().status).toBe('closed'));
+    expect(errors).toHaveBeenCalledTimes(3);
+    mock.assertCalled('GET', '/down', 3);
+  });
+
+  it('should iterate with sse() until the signal aborts', async () => {
+    const events = createStream();
+    const mock = createMockAdapter().onGet('/events', { data: events.stream });
+    const fk = createFetchKit({ adapter: mock });
+    const controller = new AbortController();
+
+    events.push('data: a\n\ndata: b\n\n');
+    const received: string[] = [];
+    for await (const event of fk.sse('/events', { signal: controller.signal })) {
+      received.push(event.data);
+      if (received.length === 2) controller.abort();
+    }
+
+    expect(received).toEqual(['a', 'b']);
+    mock.assertCalled('GET', '/events', 1);
+  });
+});
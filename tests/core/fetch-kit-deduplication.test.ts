@@ -204,7 +204,7 @@ describe('FetchKit Deduplication', () => {
     });
 
     // Start a request but don't await it
-    fk.get('/users');
+    const promise = fk.get('/users');
 
     // Check it's tracked
     expect(fk.getInFlightRequestsCount()).toBe(1);
@@ -214,6 +214,59 @@ describe('FetchKit Deduplication', () => {
 
     // Should no longer be tracking the request
     expect(fk.getInFlightRequestsCount()).toBe(0);
+
+    // The caller is rejected as cancelled
+    await expect(promise).rejects.toMatchObject({ isCancelled: true });
+  });
+
+  it('should abort the shared request once every caller aborts', async () => {
+    const fk = createFetchKit({ cacheOptions: { revalidate: false } });
+    const cancelListener = vi.fn();
+    fk.on('request:cancel', cancelListener);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    // Keep the request pending until its signal aborts
+    vi.mocked(fetchModule.fetch).mockImplementationOnce((_url, options) => {
+      return new Promise((_resolve, reject) => {
+        options?.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+      });
+    });
+
+    const first = new AbortController();
+    const second = new AbortController();
+    const promise1 = fk.get('/users', { signal: first.signal, tags: ['users'] });
+    const promise2 = fk.get('/users', { signal: second.signal });
+
+    first.abort();
+    await expect(promise1).rejects.toMatchObject({ isCancelled: true });
+    expect(fk.getInFlightRequestsCount()).toBe(1);
+
+    second.abort();
+    await expect(promise2).rejects.toMatchObject({ isCancelled: true });
+    expect(fk.getInFlightRequestsCount()).toBe(0);
+
+    const sharedSignal = vi.mocked(fetchModule.fetch).mock.calls[0][1]?.signal;
+    expect(sharedSignal?.aborted).toBe(true);
+    expect(cancelListener).toHaveBeenCalledWith({
+      key: fk.getCacheKey('/users'),
+      reason: 'subscribers',
+    });
+  });
+
+  it('should cancel in-flight requests by tag', async () => {
+    const fk = createFetchKit();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(fetchModule.fetch).mockImplementation(() => new Promise(() => {}));
+
+    const users = fk.get('/users', { tags: ['dashboard'] });
+    const orders = fk.get('/orders');
+
+    expect(fk.cancelRequestsByTag('dashboard')).toBe(1);
+    await expect(users).rejects.toMatchObject({ isCancelled: true });
+    expect(fk.isRequestInFlight(fk.getCacheKey('/orders'))).toBe(true);
+
+    expect(fk.cancelRequest(fk.getCacheKey('/orders'))).toBe(true);
+    await expect(orders).rejects.toMatchObject({ isCancelled: true });
   });
 
   it('should work with both caching and deduplication', async () => {
@@ -0,0 +1,105 @@
+// tests/core/fetch-kit-streaming.test.ts
+
+import { describe, it, expect, vi } from 'vitest';
+import { createFetchKit } from '@core/fetch-kit';
+import { createMockAdapter } from '@adapters/mock-adapter';
+import type { ResponseStream } from '@fk-types/core';
+
+/**
+ * Create an NDJSON stream of records 1 to count, which records how many were pulled
+ */
+function createRecordStream(count: number) {
+  const state = { pulled: 0, cancelled: false };
+  const stream = new ReadableStream<string>(
+    {
+      pull(controller) {
+        if (state.pulled === count) {
+          controller.close();
+          return;
+        }
+        state.pulled++;
+        controller.enqueue(`{"n":${state.pulled}}\n`);
+      },
+      cancel() {
+        state.cancelled = true;
+      },
+    },
+    { highWaterMark: 0 },
+  );
+
+  return { stream, state };
+}
+
+describe('FetchKit streaming responses', () => {
+  it('should read NDJSON records as they are consumed and stop the source on break', async () => {
+    const { stream, state } = createRecordStream(1000);
+    const mock = createMockAdapter().onGet('/export', () => ({ data: stream }));
+    const fk = createFetchKit({ adapter: mock });
+
+    const records = await fk.get<ResponseStream<{ n: number }>>('/export', {
+      responseType: 'ndjson',
+    });
+    expect(state.pulled).toBe(0);
+
+    const received: number[] = [];
+    for await (const record of records) {
+      received.push(record.n);
+      if (received.length === 3) break;
+    }
+
+    expect(received).toEqual([1, 2, 3]);
+    // The source is only read ahead by the chunk being parsed
+    expect(state.pulled).toBeLessThanOrEqual(4);
+    expect(state.cancelled).toBe(true);
+  });
+
+  it('should skip the cache and deduplication for streamed responses', async () => {
+    const mock = createMockAdapter().onGet('/tokens', { data: 'Hello, world' });
+    const fk = createFetchKit({ adapter: mock });
+
+    const [first, second] = await Promise.all([
+      fk.get<ResponseStream<string>>('/tokens', { responseType: 'text-stream' }),
+      fk.get<ResponseStream<string>>('/tokens', { responseType: 'text-stream' }),
+    ]);
+
+    expect(first).not.toBe(second);
+    mock.assertCalled('GET', '/tokens', 2);
+    expect(fk.getCacheEntry('/tokens', { responseType: 'text-stream' })).toBeUndefined();
+
+    const chunks: string[] = [];
+    for await (const chunk of first) {
+      chunks.push(chunk);
+    }
+    expect(chunks.join('')).toBe('Hello, world');
+  });
+
+  it('should cache records with cacheStream once the stream is read to the end', async () => {
+    const streams = [createRecordStream(3), createRecordStream(3)];
+    const mock = createMockAdapter().onGet('/export', () => ({ data: streams.shift()?.stream }));
+    const fk = createFetchKit({ adapter: mock, cacheOptions: { staleTime: 60000 } });
+    const options = { responseType: 'ndjson', cacheStream: true } as const;
+    const cacheSet = vi.fn();
+    fk.on('cache:set', cacheSet);
+
+    // Cancelled early, so nothing is cached
+    const partial = await fk.get<ResponseStream<{ n: number }>>('/export', options);
+    await partial.getReader().cancel();
+    expect(cacheSet).not.toHaveBeenCalled();
+
+    const complete = await fk.get<ResponseStream<{ n: number }>>('/export', options);
+    const received: { n: number }[] = [];
+    for await (const record of complete) {
+      received.push(record);
+    }
+    expect(fk.getCacheEntry('/export', options)?.data).toEqual([{ n: 1 }, { n: 2 }, { n: 3 }]);
+
+    // Replayed from the cache as a stream
+    const replayed = await fk.get<ResponseStream<{ n: number }>>('/export', options);
+    const replayedRecords: { n: number }[] = [];
+    for await (const record of replayed) {
+      replayedRecords.push(record);
+    }
+    expect(replayedRecords).toEqual(received);
+    mock.assertCalled('GET', '/export', 2);
+  });
+});
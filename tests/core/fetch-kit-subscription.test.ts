@@ -3,6 +3,8 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { createFetchKit } from '@core/fetch-kit';
 import * as fetchModule from '@core/fetch';
+import { RetryConfig } from '@fk-types/error';
+import { createError } from '@utils/error';
 
 // Mock the fetch module
 vi.mock('@core/fetch', () => ({
@@ -218,6 +220,27 @@ describe('FetchKit Subscription', () => {
     expect(listener).not.toHaveBeenCalled();
   });
 
+  it('should emit request:retry with the chosen delay', async () => {
+    const onRetry = vi.fn();
+    const fk = createFetchKit({ retry: { count: 3, onRetry } });
+    const retryListener = vi.fn();
+    fk.on('request:retry', retryListener);
+
+    // Let the mocked fetch report a retry like withRetry would
+    vi.mocked(fetchModule.fetch).mockImplementationOnce(async (_url, options) => {
+      const retry = options?.retry as Partial<RetryConfig>;
+      retry.onRetry?.({ attempt: 1, delay: 2000, source: 'retry-after', error });
+      return { data: 'test' };
+    });
+    const error = createError('Too many requests', { status: 429 });
+
+    await fk.post('/users');
+
+    const retryAttempt = { attempt: 1, delay: 2000, source: 'retry-after', error };
+    expect(retryListener).toHaveBeenCalledWith({ url: '/users', method: 'POST', ...retryAttempt });
+    expect(onRetry).toHaveBeenCalledWith(retryAttempt);
+  });
+
   it('should report correct listener count', () => {
     const fk = createFetchKit();
 
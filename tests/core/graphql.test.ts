@@ -0,0 +1,129 @@
+// tests/core/graphql.test.ts
+/** @vitest-environment node */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { getOperationName } from '@core/graphql';
+import { createFetchKit } from '@core/fetch-kit';
+import { createMockAdapter } from '@adapters/mock-adapter';
+import { ErrorCategory, FetchKitError } from '@fk-types/error';
+import { sha256 } from '@utils/hash';
+
+const GET_TODOS = `
+  query GetTodos($done: Boolean) {
+    todos(done: $done) { __typename id title done }
+  }
+`;
+
+const UPDATE_TODO = `
+  mutation UpdateTodo($id: ID!, $done: Boolean!) {
+    updateTodo(id: $id, done: $done) { __typename id done }
+  }
+`;
+
+const todo = (id: number, done = false) => ({ __typename: 'Todo', id, title: `todo ${id}`, done });
+
+describe('GraphQLClient', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should get operation names from documents', () => {
+    expect(getOperationName(GET_TODOS)).toBe('GetTodos');
+    expect(getOperationName(UPDATE_TODO)).toBe('UpdateTodo');
+    expect(getOperationName('{ todos { id } }')).toBeUndefined();
+  });
+
+  it('should cache queries by operation name and variables', async () => {
+    const mock = createMockAdapter().onPost('/graphql', request => ({
+      data: { data: { todos: [todo(1, request.body.variables?.done ?? false)] } },
+    }));
+    const fk = createFetchKit({ adapter: mock, cacheOptions: { staleTime: 60000 } });
+    const client = fk.createGraphQLClient('/graphql');
+
+    expect(await client.query(GET_TODOS)).toEqual({ todos: [todo(1)] });
+    expect(await client.query(GET_TODOS)).toEqual({ todos: [todo(1)] });
+    expect(await client.query(GET_TODOS, { done: true })).toEqual({ todos: [todo(1, true)] });
+    mock.assertCalled('POST', '/graphql', 2);
+
+    expect(client.getCacheKey(GET_TODOS)).toMatch(/^graphql:GetTodos:/);
+    expect(mock.getHistory()[0].body).toMatchObject({ operationName: 'GetTodos' });
+
+    client.invalidateOperation('GetTodos');
+    await client.query(GET_TODOS);
+    mock.assertCalled('POST', '/graphql', 3);
+  });
+
+  it('should map GraphQL errors to FetchKitError without caching the response', async () => {
+    const mock = createMockAdapter().onPost('/graphql', {
+      data: { data: null, errors: [{ message: 'Not allowed', path: ['todos'] }] },
+    });
+    const fk = createFetchKit({ adapter: mock, retry: { count: 3, delay: 1 } });
+    const client = fk.createGraphQLClient('/graphql');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const error = (await client.query(GET_TODOS).catch(e => e)) as FetchKitError;
+
+    expect(error.category).toBe(ErrorCategory.GraphQL);
+    expect(error.message).toBe('GraphQL error in GetTodos: Not allowed');
+    expect(error.graphQLErrors).toEqual([{ message: 'Not allowed', path: ['todos'] }]);
+    expect(
+      fk.getCacheEntry('/graphql', { cacheOptions: { cacheKey: client.getCacheKey(GET_TODOS) } }),
+    ).toBeUndefined();
+    mock.assertCalled('POST', '/graphql', 1);
+  });
+
+  it('should send persisted queries and fall back to the full document', async () => {
+    const known = new Set<string>();
+    const mock = createMockAdapter().onPost('/graphql', request => {
+      const { query, extensions } = request.body;
+      const hash = extensions.persistedQuery.sha256Hash;
+      if (query) known.add(hash);
+
+      return known.has(hash)
+        ? { data: { data: { todos: [todo(1)] } } }
+        : {
+            data: {
+              errors: [
+                {
+                  message: 'PersistedQueryNotFound',
+                  extensions: { code: 'PERSISTED_QUERY_NOT_FOUND' },
+                },
+              ],
+            },
+          };
+    });
+    const fk = createFetchKit({ adapter: mock });
+    const client = fk.createGraphQLClient('/graphql', { persistedQueries: true });
+
+    expect(await client.query(GET_TODOS)).toEqual({ todos: [todo(1)] });
+    expect(await client.query(GET_TODOS, { done: true })).toEqual({ todos: [todo(1)] });
+
+    const bodies = mock.getHistory().map(request => request.body);
+    expect(bodies.map(body => body.query !== undefined)).toEqual([false, true, false]);
+    expect(bodies[0].extensions.persistedQuery).toEqual({
+      version: 1,
+      sha256Hash: await sha256(GET_TODOS),
+    });
+  });
+
+  it('should update cached queries with entities from mutation results', async () => {
+    const mock = createMockAdapter().onPost('/graphql', request =>
+      request.body.operationName === 'UpdateTodo'
+        ? { data: { data: { updateTodo: { __typename: 'Todo', id: 2, done: true } } } }
+        : { data: { data: { todos: [todo(1), todo(2)] } } },
+    );
+    const fk = createFetchKit({ adapter: mock, cacheOptions: { staleTime: 60000 } });
+    const client = fk.createGraphQLClient('/graphql');
+    const cacheSet = vi.fn();
+    fk.on('cache:set', cacheSet);
+
+    await client.query(GET_TODOS);
+    await client.mutation(UPDATE_TODO, { id: 2, done: true });
+
+    expect(await client.query(GET_TODOS)).toEqual({ todos: [todo(1), todo(2, true)] });
+    expect(cacheSet).toHaveBeenCalledWith(
+      expect.objectContaining({ key: client.getCacheKey(GET_TODOS) }),
+    );
+    mock.assertCalled('POST', '/graphql', 2);
+  });
+});
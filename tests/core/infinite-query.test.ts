@@ -0,0 +1,200 @@
+// tests/core/infinite-query.test.ts
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { InfiniteQuery } from '@core/infinite-query';
+import { createFetchKit } from '@core/fetch-kit';
+import { generateCacheKey } from '@cache/cache-key';
+import * as fetchModule from '@core/fetch';
+
+// Mock the fetch module
+vi.mock('@core/fetch', () => ({
+  fetch: vi.fn(),
+}));
+
+interface Page {
+  items: string[];
+  nextPage: number | null;
+}
+
+/**
+ * Responds to page-number requests with pages of a fixed-size list
+ */
+function mockPages(totalPages: number, prefix = 'item') {
+  vi.mocked(fetchModule.fetch).mockImplementation(async (_url: string, options: any = {}) => {
+    const page = options.params?.page ?? 1;
+    return {
+      items: [`${prefix}-${page}`],
+      nextPage: page < totalPages ? page + 1 : null,
+    };
+  });
+}
+
+describe('InfiniteQuery', () => {
+  let fetchKit: ReturnType<typeof createFetchKit>;
+
+  const pageOptions = {
+    initialPageParam: 1,
+    getNextPageParam: (lastPage: Page) => lastPage.nextPage,
+  };
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    fetchKit = createFetchKit();
+  });
+
+  it('should load the first page with the initial page param', async () => {
+    mockPages(3);
+
+    const query = new InfiniteQuery<Page, number>(fetchKit, '/items', pageOptions);
+
+    expect(query.getState().isLoading).toBe(true);
+    await vi.waitFor(() => expect(query.getState().isSuccess).toBe(true));
+
+    expect(fetchModule.fetch).toHaveBeenCalledWith(
+      '/items',
+      expect.objectContaining({ params: { page: 1 } }),
+    );
+    expect(query.getState()).toMatchObject({
+      data: { pages: [{ items: ['item-1'], nextPage: 2 }], pageParams: [1] },
+      hasNextPage: true,
+      hasPreviousPage: false,
+    });
+  });
+
+  it('should append pages until getNextPageParam returns null', async () => {
+    mockPages(2);
+
+    const query = new InfiniteQuery<Page, number>(fetchKit, '/items', pageOptions);
+    await vi.waitFor(() => expect(query.getState().isSuccess).toBe(true));
+
+    const nextPagePromise = query.fetchNextPage();
+    expect(query.getState().isFetchingNextPage).toBe(true);
+    await nextPagePromise;
+
+    const state = query.getState();
+    expect(state.data?.pages.map(page => page.items[0])).toEqual(['item-1', 'item-2']);
+    expect(state.data?.pageParams).toEqual([1, 2]);
+    expect(state.isFetchingNextPage).toBe(false);
+    expect(state.hasNextPage).toBe(false);
+
+    await query.fetchNextPage();
+    expect(fetchModule.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should build cursor URLs and prepend previous pages', async () => {
+    vi.mocked(fetchModule.fetch).mockImplementation(async (url: string) => {
+      const cursor = Number(url.split('/').pop());
+      return { id: cursor, prev: cursor > 1 ? cursor - 1 : null, next: cursor + 1 };
+    });
+
+    const query = new InfiniteQuery(fetchKit, (cursor: number) => `/feed/${cursor}`, {
+      initialPageParam: 5,
+      getNextPageParam: (lastPage: any) => lastPage.next,
+      getPreviousPageParam: (firstPage: any) => firstPage.prev,
+    });
+    await vi.waitFor(() => expect(query.getState().isSuccess).toBe(true));
+
+    await query.fetchPreviousPage();
+    await query.fetchNextPage();
+
+    expect(query.getState().data?.pageParams).toEqual([4, 5, 6]);
+    expect(query.getState().hasPreviousPage).toBe(true);
+    expect(fetchModule.fetch).toHaveBeenLastCalledWith('/feed/6', expect.any(Object));
+  });
+
+  it('should cache each page under a page-aware key', async () => {
+    mockPages(3);
+
+    const query = new InfiniteQuery<Page, number>(fetchKit, '/items', pageOptions);
+    await vi.waitFor(() => expect(query.getState().isSuccess).toBe(true));
+    await query.fetchNextPage();
+
+    const secondPageKey = generateCacheKey('/items', { method: 'GET', params: { page: 2 } });
+    expect(query.getPageCacheKey(2)).toBe(secondPageKey);
+    expect(fetchKit.getCacheEntry('/items', { params: { page: 2 } })?.data).toEqual({
+      items: ['item-2'],
+      nextPage: 3,
+    });
+    expect(fetchKit.getCacheEntry('/items', { params: { page: 1 } })?.data).toEqual({
+      items: ['item-1'],
+      nextPage: 2,
+    });
+  });
+
+  it('should re-walk loaded pages in order on refetch', async () => {
+    let version = 'v1';
+    vi.mocked(fetchModule.fetch).mockImplementation(async (_url: string, options: any = {}) => {
+      const cursor = options.params?.cursor ?? 'start';
+      return { items: [`${version}-${cursor}`], next: `${version}-after-${cursor}` };
+    });
+
+    const query = new InfiniteQuery(fetchKit, '/cursor', {
+      pageParamName: 'cursor',
+      getNextPageParam: (lastPage: any) => lastPage.next,
+    });
+    await vi.waitFor(() => expect(query.getState().isSuccess).toBe(true));
+    await query.fetchNextPage();
+
+    // New cursors come back after the data changes
+    version = 'v2';
+    fetchKit.invalidateCacheMatching(() => true);
+    vi.mocked(fetchModule.fetch).mockClear();
+
+    await query.refetch();
+
+    const requestedCursors = vi
+      .mocked(fetchModule.fetch)
+      .mock.calls.map(([, options]) => (options as any).params?.cursor);
+    expect(requestedCursors).toEqual([undefined, 'v2-after-start']);
+    expect(query.getState().data?.pages.map((page: any) => page.items[0])).toEqual([
+      'v2-start',
+      'v2-v2-after-start',
+    ]);
+  });
+
+  it('should keep loaded pages when a later page fails', async () => {
+    mockPages(3);
+
+    const query = new InfiniteQuery<Page, number>(fetchKit, '/items', pageOptions);
+    await vi.waitFor(() => expect(query.getState().isSuccess).toBe(true));
+
+    vi.mocked(fetchModule.fetch).mockRejectedValueOnce(new Error('Network error'));
+    await query.fetchNextPage();
+
+    expect(query.getState()).toMatchObject({
+      isError: true,
+      isFetchingNextPage: false,
+      hasNextPage: true,
+      data: { pageParams: [1] },
+    });
+    expect(query.getState().error?.message).toBe('Network error');
+  });
+
+  it('should update a page written with setCacheData', async () => {
+    mockPages(3);
+
+    const query = new InfiniteQuery<Page, number>(fetchKit, '/items', pageOptions);
+    await vi.waitFor(() => expect(query.getState().isSuccess).toBe(true));
+
+    fetchKit.setCacheData('/items', { items: ['edited'], nextPage: null }, { params: { page: 1 } });
+
+    expect(query.getState().data?.pages[0].items).toEqual(['edited']);
+    expect(query.getState().hasNextPage).toBe(false);
+  });
+
+  it('should not fetch while disabled', async () => {
+    mockPages(3);
+
+    const query = new InfiniteQuery<Page, number>(fetchKit, '/items', {
+      ...pageOptions,
+      enabled: false,
+    });
+    expect(fetchModule.fetch).not.toHaveBeenCalled();
+
+    query.setEnabled(true);
+    await vi.waitFor(() => expect(query.getState().isSuccess).toBe(true));
+    expect(fetchModule.fetch).toHaveBeenCalledTimes(1);
+
+    query.dispose();
+  });
+});
@@ -0,0 +1,194 @@
+// tests/core/interceptors.test.ts
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createFetchKit } from '@core/fetch-kit';
+import { InterceptorManager } from '@core/interceptors';
+import { Adapter, AdapterRequest } from '@fk-types/adapter';
+import { RequestOptions } from '@fk-types/core';
+
+/**
+ * Creates an adapter that records requests and responds with the given data
+ */
+function createRecordingAdapter(data: any = { ok: true }, ok = true) {
+  const requests: AdapterRequest[] = [];
+
+  const adapter: Adapter = {
+    name: 'interceptor-test',
+
+    request: vi.fn(async (request: AdapterRequest) => {
+      requests.push(request);
+      return {
+        data,
+        status: ok ? 200 : 500,
+        statusText: ok ? 'OK' : 'Internal Server Error',
+        headers: {},
+        originalResponse: { ok, status: ok ? 200 : 500 },
+      };
+    }),
+
+    transformRequest: (url: string, options: RequestOptions): AdapterRequest => ({
+      url,
+      method: options.method || 'GET',
+      headers: options.headers,
+      body: options.body,
+    }),
+
+    transformResponse: vi.fn(),
+  };
+
+  return { adapter, requests };
+}
+
+describe('InterceptorManager', () => {
+  it('should keep interceptors in registration order', () => {
+    const manager = new InterceptorManager<string>();
+
+    manager.use('first');
+    manager.use('second');
+    manager.use('third');
+
+    expect(manager.getAll()).toEqual(['first', 'second', 'third']);
+    expect(manager.size).toBe(3);
+  });
+
+  it('should eject interceptors by id', () => {
+    const manager = new InterceptorManager<string>();
+
+    const firstId = manager.use('first');
+    manager.use('second');
+
+    expect(manager.eject(firstId)).toBe(true);
+    expect(manager.eject(firstId)).toBe(false);
+    expect(manager.getAll()).toEqual(['second']);
+  });
+
+  it('should clear all interceptors', () => {
+    const manager = new InterceptorManager<string>();
+
+    manager.use('first');
+    manager.use('second');
+    manager.clear();
+
+    expect(manager.size).toBe(0);
+  });
+});
+
+describe('FetchKit interceptors', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should run request interceptors in order before the adapter', async () => {
+    const { adapter, requests } = createRecordingAdapter();
+    const fk = createFetchKit({ adapter });
+    const order: string[] = [];
+
+    fk.interceptors.request.use(async request => {
+      order.push('auth');
+      return {
+        ...request,
+        options: {
+          ...request.options,
+          headers: { ...request.options.headers, Authorization: 'Bearer token' },
+        },
+      };
+    });
+
+    fk.interceptors.request.use(request => {
+      order.push('rewrite');
+      return { ...request, url: request.url.replace('/v1/', '/v2/') };
+    });
+
+    await fk.post('https://api.example.com/v1/users', { name: 'Test' });
+
+    expect(order).toEqual(['auth', 'rewrite']);
+    expect(requests[0].url).toBe('https://api.example.com/v2/users');
+    expect(requests[0].headers).toMatchObject({ Authorization: 'Bearer token' });
+  });
+
+  it('should let response interceptors unwrap envelope payloads', async () => {
+    const { adapter } = createRecordingAdapter({ data: { id: 1 }, meta: { total: 1 } });
+    const fk = createFetchKit({ adapter });
+
+    fk.interceptors.response.use(response => ({ ...response, data: response.data.data }));
+
+    const result = await fk.post('/users', { name: 'Test' });
+
+    expect(result).toEqual({ id: 1 });
+  });
+
+  it('should not run ejected interceptors', async () => {
+    const { adapter } = createRecordingAdapter({ value: 1 });
+    const fk = createFetchKit({ adapter });
+    const interceptor = vi.fn(response => response);
+
+    const id = fk.interceptors.response.use(interceptor);
+    fk.interceptors.response.eject(id);
+
+    await fk.post('/users');
+
+    expect(interceptor).not.toHaveBeenCalled();
+  });
+
+  it('should let error interceptors recover from failed requests', async () => {
+    const { adapter } = createRecordingAdapter({ message: 'boom' }, false);
+    const fk = createFetchKit({ adapter });
+
+    fk.interceptors.error.use(error => {
+      if (error.status === 500) {
+        return { data: { fallback: true }, status: 200, statusText: 'OK', headers: {} };
+      }
+    });
+
+    const result = await fk.post('/users');
+
+    expect(result).toEqual({ fallback: true });
+  });
+
+  it('should pass errors along the chain when not recovered', async () => {
+    const { adapter } = createRecordingAdapter({ message: 'boom' }, false);
+    const fk = createFetchKit({ adapter });
+
+    fk.interceptors.error.use(() => {
+      throw new Error('Replaced error');
+    });
+    const second = vi.fn();
+    fk.interceptors.error.use(second);
+
+    await expect(fk.post('/users')).rejects.toThrow('Replaced error');
+    expect(second).toHaveBeenCalledWith(expect.objectContaining({ message: 'Replaced error' }));
+  });
+
+  it('should run error interceptors once after the last retry', async () => {
+    const { adapter } = createRecordingAdapter({ message: 'boom' }, false);
+    const fk = createFetchKit({ adapter, retry: { count: 3, delay: 1 } });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const interceptor = vi.fn(() => ({
+      data: { fallback: true },
+      status: 200,
+      statusText: 'OK',
+      headers: {},
+    }));
+    fk.interceptors.error.use(interceptor);
+
+    expect(await fk.get('/users')).toEqual({ fallback: true });
+    expect(adapter.request).toHaveBeenCalledTimes(3);
+    expect(interceptor).toHaveBeenCalledTimes(1);
+  });
+
+  it('should run interceptors for cache revalidation requests', async () => {
+    const { adapter, requests } = createRecordingAdapter({ value: 1 });
+    const fk = createFetchKit({ adapter });
+
+    fk.interceptors.request.use(request => ({
+      ...request,
+      options: { ...request.options, headers: { 'X-Intercepted': 'yes' } },
+    }));
+
+    await fk.revalidateCache('/users');
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].headers).toEqual({ 'X-Intercepted': 'yes' });
+  });
+});
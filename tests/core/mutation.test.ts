@@ -0,0 +1,251 @@
+// tests/core/mutation.test.ts
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createFetchKit } from '@core/fetch-kit';
+import * as fetchModule from '@core/fetch';
+
+// Mock the fetch module
+vi.mock('@core/fetch', () => ({
+  fetch: vi.fn(),
+}));
+
+describe('FetchKit mutations', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('should send the variables as the request body', async () => {
+    const fk = createFetchKit();
+    vi.mocked(fetchModule.fetch).mockResolvedValueOnce({ id: 1, name: 'Test' });
+
+    const result = await fk.mutate('/users', { name: 'Test' });
+
+    expect(result).toEqual({ id: 1, name: 'Test' });
+    expect(fetchModule.fetch).toHaveBeenCalledWith(
+      '/users',
+      expect.objectContaining({ method: 'POST', body: { name: 'Test' } }),
+    );
+  });
+
+  it('should apply optimistic updates before the request resolves', async () => {
+    const fk = createFetchKit();
+    fk.setCacheData('/users', [{ id: 1 }]);
+
+    let resolveRequest: (value: any) => void = () => {};
+    vi.mocked(fetchModule.fetch).mockReturnValueOnce(
+      new Promise(resolve => {
+        resolveRequest = resolve;
+      }),
+    );
+
+    const promise = fk.mutate(
+      '/users',
+      { id: 2 },
+      {
+        optimisticUpdate: (cache, variables) => {
+          cache.setData<any[]>('/users', current => [...(current || []), variables]);
+        },
+      },
+    );
+
+    expect(fk.getCacheEntry('/users')?.data).toEqual([{ id: 1 }, { id: 2 }]);
+
+    resolveRequest({ id: 2 });
+    await promise;
+
+    expect(fk.getCacheEntry('/users')?.data).toEqual([{ id: 1 }, { id: 2 }]);
+  });
+
+  it('should roll back optimistic updates when the request fails', async () => {
+    const fk = createFetchKit();
+    fk.setCacheData('/users', [{ id: 1 }]);
+    vi.mocked(fetchModule.fetch).mockRejectedValueOnce(new Error('Server failure'));
+
+    const rollbackListener = vi.fn();
+    fk.on('mutation:rollback', rollbackListener);
+
+    await expect(
+      fk.mutate(
+        '/users',
+        { id: 2 },
+        {
+          optimisticUpdate: cache => {
+            cache.setData<any[]>('/users', current => [...(current || []), { id: 2 }]);
+            cache.setData('/users/2', { id: 2 });
+          },
+        },
+      ),
+    ).rejects.toThrow('Server failure');
+
+    expect(fk.getCacheEntry('/users')?.data).toEqual([{ id: 1 }]);
+    expect(fk.getCacheEntry('/users/2')).toBeUndefined();
+    expect(rollbackListener).toHaveBeenCalledWith({
+      url: '/users',
+      keys: [fk.getCacheKey('/users'), fk.getCacheKey('/users/2')],
+    });
+  });
+
+  it('should roll back overlapping optimistic updates without losing the others', async () => {
+    const fk = createFetchKit();
+    fk.setCacheData('/letters', ['a']);
+
+    const requests: { resolve: (value: any) => void; reject: (error: Error) => void }[] = [];
+    vi.mocked(fetchModule.fetch).mockImplementation(
+      () => new Promise((resolve, reject) => requests.push({ resolve, reject })),
+    );
+
+    const add = (letter: string) =>
+      fk.mutate('/letters', letter, {
+        optimisticUpdate: cache =>
+          cache.setData<string[]>('/letters', current => [...(current || []), letter]),
+      });
+
+    // Both fail, the first one first
+    const [b, c] = [add('b'), add('c')];
+    expect(fk.getCacheEntry('/letters')?.data).toEqual(['a', 'b', 'c']);
+
+    requests[0].reject(new Error('Server failure'));
+    await expect(b).rejects.toThrow('Server failure');
+    expect(fk.getCacheEntry('/letters')?.data).toEqual(['a', 'c']);
+
+    requests[1].reject(new Error('Server failure'));
+    await expect(c).rejects.toThrow('Server failure');
+    expect(fk.getCacheEntry('/letters')?.data).toEqual(['a']);
+
+    // The later one fails, and the earlier one succeeds
+    const [d, e] = [add('d'), add('e')];
+    requests[3].reject(new Error('Server failure'));
+    await expect(e).rejects.toThrow('Server failure');
+    requests[2].resolve('d');
+    await d;
+    expect(fk.getCacheEntry('/letters')?.data).toEqual(['a', 'd']);
+
+    // A write made while a mutation is in flight is not rolled back
+    const f = add('f');
+    fk.setCacheData('/letters', ['server']);
+    requests[4].reject(new Error('Server failure'));
+    await expect(f).rejects.toThrow('Server failure');
+    expect(fk.getCacheEntry('/letters')?.data).toEqual(['server']);
+  });
+
+  it('should invalidate urls, keys, patterns and groups on success', async () => {
+    const fk = createFetchKit();
+    fk.setCacheData('/users', [{ id: 1 }]);
+    fk.setCacheData('/posts', []);
+    fk.setCacheData('/comments', []);
+    fk.setCacheData('/stats', {});
+    fk.registerInvalidationGroup('dashboard', [fk.getCacheKey('/stats')]);
+    vi.mocked(fetchModule.fetch).mockResolvedValueOnce({ id: 2 });
+
+    await fk.mutate(
+      '/users',
+      { id: 2 },
+      {
+        invalidate: {
+          urls: ['/users'],
+          keys: [fk.getCacheKey('/posts')],
+          patterns: [/comments/],
+          groups: ['dashboard'],
+        },
+      },
+    );
+
+    expect(fk.getCacheEntry('/users')).toBeUndefined();
+    expect(fk.getCacheEntry('/posts')).toBeUndefined();
+    expect(fk.getCacheEntry('/comments')).toBeUndefined();
+    expect(fk.getCacheEntry('/stats')).toBeUndefined();
+  });
+
+  it('should derive invalidation from the mutation result', async () => {
+    const fk = createFetchKit();
+    fk.setCacheData('/users/5', { id: 5 });
+    vi.mocked(fetchModule.fetch).mockResolvedValueOnce({ id: 5 });
+
+    await fk.mutate(
+      '/users/5',
+      { name: 'Updated' },
+      {
+        method: 'PUT',
+        invalidate: data => ({ urls: [`/users/${data.id}`] }),
+      },
+    );
+
+    expect(fk.getCacheEntry('/users/5')).toBeUndefined();
+  });
+
+  it('should emit mutation lifecycle events', async () => {
+    const fk = createFetchKit();
+    vi.mocked(fetchModule.fetch).mockResolvedValueOnce({ ok: true });
+
+    const startListener = vi.fn();
+    const successListener = vi.fn();
+    fk.on('mutation:start', startListener);
+    fk.on('mutation:success', successListener);
+
+    await fk.mutate('/users/1', undefined, { method: 'DELETE' });
+
+    expect(startListener).toHaveBeenCalledWith({
+      url: '/users/1',
+      method: 'DELETE',
+      variables: undefined,
+    });
+    expect(successListener.mock.calls[0][0]).toMatchObject({
+      url: '/users/1',
+      method: 'DELETE',
+      data: { ok: true },
+    });
+  });
+});
+
+describe('Mutation', () => {
+  beforeEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('should track state through a successful mutation', async () => {
+    const fk = createFetchKit();
+    vi.mocked(fetchModule.fetch).mockResolvedValueOnce({ id: 7 });
+
+    const mutation = fk.createMutation<{ id: number }, { id: number }>(
+      variables => `/users/${variables.id}`,
+      { method: 'PATCH' },
+    );
+    const listener = vi.fn();
+    mutation.subscribe(listener);
+
+    expect(mutation.getState().isIdle).toBe(true);
+
+    const data = await mutation.mutate({ id: 7 });
+
+    expect(data).toEqual({ id: 7 });
+    expect(fetchModule.fetch).toHaveBeenCalledWith(
+      '/users/7',
+      expect.objectContaining({ method: 'PATCH' }),
+    );
+    expect(listener.mock.calls[0][0]).toMatchObject({ isPending: true, variables: { id: 7 } });
+    expect(mutation.getState()).toMatchObject({
+      data: { id: 7 },
+      isPending: false,
+      isSuccess: true,
+      isError: false,
+    });
+  });
+
+  it('should track errors and reset to idle', async () => {
+    const fk = createFetchKit();
+    vi.mocked(fetchModule.fetch).mockRejectedValueOnce(new Error('Conflict'));
+
+    const mutation = fk.createMutation('/users');
+    const errorListener = vi.fn();
+    mutation.onError(errorListener);
+
+    await expect(mutation.mutate({ name: 'Test' })).rejects.toThrow('Conflict');
+
+    expect(mutation.getState()).toMatchObject({ isError: true, isPending: false });
+    expect(errorListener).toHaveBeenCalledTimes(1);
+
+    mutation.reset();
+
+    expect(mutation.getState()).toMatchObject({ isIdle: true, isError: false, error: null });
+  });
+});
@@ -0,0 +1,277 @@
+// tests/core/offline-queue.test.ts
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { OfflineQueue } from '@core/offline-queue';
+import { createFetchKit } from '@core/fetch-kit';
+import { createMockAdapter } from '@adapters/mock-adapter';
+import { MemoryPersistence } from '@cache/persistence/cache-persistence';
+import { ErrorCategory, FetchKitError } from '@fk-types/error';
+import { createError } from '@utils/error';
+
+const networkError = () => createError('Network error', { category: ErrorCategory.Network });
+
+const httpError = (status: number) =>
+  createError(`HTTP ${status}`, {
+    status,
+    category: status >= 500 ? ErrorCategory.Server : ErrorCategory.Client,
+  });
+
+const request = (url: string, body?: any, method = 'POST') => ({ url, method, body });
+
+describe('OfflineQueue', () => {
+  const queues: OfflineQueue[] = [];
+
+  /**
+   * Create a queue backed by memory persistence, disposed after each test
+   */
+  const createQueue = (send = vi.fn(), options = {}, persistence = new MemoryPersistence()) => {
+    const queue = new OfflineQueue(send, { persistence, ...options });
+    queues.push(queue);
+    return queue;
+  };
+
+  afterEach(() => {
+    queues.splice(0).forEach(queue => queue.dispose());
+    vi.restoreAllMocks();
+  });
+
+  it('should replay queued mutations in order', async () => {
+    const send = vi.fn(async ({ url }) => url);
+    const queue = createQueue(send);
+    const replayed = vi.fn();
+    queue.on('replayed', replayed);
+
+    await queue.enqueue(request('/todos', { title: 'a' }));
+    await queue.enqueue(request('/todos/1', { done: true }, 'PATCH'));
+    await queue.replay();
+
+    expect(send.mock.calls.map(([mutation]) => mutation.url)).toEqual(['/todos', '/todos/1']);
+    expect(replayed.mock.calls.map(([event]) => event.data)).toEqual(['/todos', '/todos/1']);
+    expect(queue.size()).toBe(0);
+  });
+
+  it('should deduplicate identical mutations and coalesce mutations by key', async () => {
+    const queue = createQueue();
+    const queued = vi.fn();
+    queue.on('queued', queued);
+
+    await queue.enqueue(request('/todos', { title: 'a' }));
+    await queue.enqueue(request('/todos', { title: 'a' }));
+    await queue.enqueue(request('/todos/1', { title: 'b' }, 'PATCH'), {
+      key: 'todo:1',
+      coalesce: 'merge',
+    });
+    await queue.enqueue(request('/todos/1', { done: true }, 'PATCH'), {
+      key: 'todo:1',
+      coalesce: 'merge',
+    });
+    await queue.enqueue(request('/todos', { title: 'a' }), { coalesce: 'append' });
+
+    const mutations = await queue.getQueue();
+    expect(mutations.map(mutation => mutation.body)).toEqual([
+      { title: 'a' },
+      { title: 'b', done: true },
+      { title: 'a' },
+    ]);
+    expect(queued.mock.calls.map(([event]) => event.coalesced)).toEqual([
+      false,
+      true,
+      false,
+      true,
+      false,
+    ]);
+  });
+
+  it('should load queued mutations from persistence', async () => {
+    const persistence = new MemoryPersistence();
+    const first = createQueue(vi.fn(), {}, persistence);
+    await first.enqueue(request('/a'));
+    await first.enqueue(request('/b'));
+    await first.flushPersistence();
+    first.dispose();
+
+    const send = vi.fn(async ({ url }) => url);
+    const second = createQueue(send, {}, persistence);
+    await second.replay();
+
+    expect(send.mock.calls.map(([mutation]) => mutation.url)).toEqual(['/a', '/b']);
+    expect(await persistence.keys()).toEqual([]);
+  });
+
+  it('should stop replaying while the server is unreachable', async () => {
+    const send = vi.fn().mockRejectedValueOnce(networkError()).mockResolvedValue('ok');
+    const queue = createQueue(send);
+
+    await queue.enqueue(request('/a'));
+    await queue.enqueue(request('/b'));
+    await queue.replay();
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(await queue.getQueue()).toEqual([
+      expect.objectContaining({ url: '/a', attempts: 0 }),
+      expect.objectContaining({ url: '/b', attempts: 0 }),
+    ]);
+
+    await queue.replay();
+    expect(queue.size()).toBe(0);
+  });
+
+  it('should resolve conflicts with the conflict handler', async () => {
+    const send = vi
+      .fn()
+      .mockRejectedValueOnce(httpError(412))
+      .mockRejectedValueOnce(httpError(409))
+      .mockResolvedValue('ok');
+    const onConflict = vi
+      .fn()
+      .mockResolvedValueOnce({ headers: { 'If-Match': '"v2"' } })
+      .mockResolvedValueOnce('discard');
+    const queue = createQueue(send, { onConflict });
+    const failed = vi.fn();
+    queue.on('failed', failed);
+
+    await queue.enqueue(request('/a', { title: 'a' }, 'PUT'));
+    await queue.enqueue(request('/b'));
+    await queue.replay();
+
+    expect(send.mock.calls[1][0]).toMatchObject({ url: '/a', headers: { 'If-Match': '"v2"' } });
+    expect(failed).toHaveBeenCalledWith(
+      expect.objectContaining({ mutation: expect.objectContaining({ url: '/a' }) }),
+    );
+    expect(send.mock.calls[2][0]).toMatchObject({ url: '/b' });
+    expect(queue.size()).toBe(0);
+  });
+
+  it('should drop mutations after client errors or too many server errors', async () => {
+    const send = vi.fn(async ({ url }) => {
+      throw httpError(url === '/invalid' ? 422 : 503);
+    });
+    const queue = createQueue(send, { maxAttempts: 2 });
+    const failed = vi.fn();
+    queue.on('failed', failed);
+
+    await queue.enqueue(request('/invalid'));
+    await queue.enqueue(request('/flaky'));
+    await queue.replay();
+
+    expect(failed).toHaveBeenCalledTimes(1);
+    expect(await queue.getQueue()).toEqual([expect.objectContaining({ attempts: 1 })]);
+
+    await queue.replay();
+    expect(failed).toHaveBeenCalledTimes(2);
+    expect(failed.mock.calls[1][0].error.status).toBe(503);
+    expect(queue.size()).toBe(0);
+  });
+
+  it('should replay after a successful probe', async () => {
+    const send = vi.fn(async () => 'ok');
+    const probe = vi.fn().mockResolvedValueOnce(false).mockResolvedValue(true);
+    const queue = createQueue(send, { probe, probeInterval: 5 });
+    const replayed = new Promise(resolve => queue.on('replayed', resolve));
+
+    await queue.enqueue(request('/a'));
+    await replayed;
+
+    expect(probe).toHaveBeenCalledTimes(2);
+    expect(queue.size()).toBe(0);
+  });
+
+  describe('with FetchKit', () => {
+    it('should queue failed mutations and replay them when back online', async () => {
+      let online = false;
+      const mock = createMockAdapter().onPost('/todos', () =>
+        online ? { data: { id: 1 } } : { networkError: true },
+      );
+      const fk = createFetchKit({
+        baseUrl: 'https://api.example.com',
+        adapter: mock,
+        offline: { persistence: new MemoryPersistence() },
+      });
+      const events: string[] = [];
+      fk.on('offline:queued', ({ mutation }) => events.push(`queued ${mutation.url}`));
+      fk.on('offline:replayed', ({ data }) => events.push(`replayed ${data.id}`));
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const error = (await fk.post('/todos', { title: 'a' }).catch(e => e)) as FetchKitError;
+      expect(error.category).toBe(ErrorCategory.Network);
+      const [queued] = await fk.getOfflineQueue();
+      expect(queued).toMatchObject({ method: 'POST', body: { title: 'a' } });
+      expect(error).toMatchObject({ queued: true, queuedMutationId: queued.id });
+
+      online = true;
+      await fk.replayOfflineQueue();
+
+      expect(events).toEqual(['queued https://api.example.com/todos', 'replayed 1']);
+      expect(await fk.getOfflineQueue()).toEqual([]);
+    });
+
+    it('should keep optimistic updates of queued mutations until they are replayed', async () => {
+      let reply: 'offline' | 'saved' | 'rejected' = 'offline';
+      const mock = createMockAdapter().onPost('/todos', () =>
+        reply === 'offline'
+          ? { networkError: true }
+          : reply === 'saved'
+            ? { data: 'saved' }
+            : { status: 400 },
+      );
+      const fk = createFetchKit({
+        adapter: mock,
+        offline: { persistence: new MemoryPersistence() },
+      });
+      const rollback = vi.fn();
+      fk.on('mutation:rollback', rollback);
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      fk.setCacheData('/todos', ['a']);
+
+      const add = (title: string) =>
+        fk.mutate('/todos', title, {
+          optimisticUpdate: cache =>
+            cache.setData<string[]>('/todos', current => [...(current || []), title]),
+        });
+
+      await expect(add('b')).rejects.toMatchObject({ queued: true });
+      expect(fk.getCacheEntry('/todos')?.data).toEqual(['a', 'b']);
+
+      // Saved once back online, so the update stays
+      reply = 'saved';
+      await fk.replayOfflineQueue();
+      expect(fk.getCacheEntry('/todos')?.data).toEqual(['a', 'b']);
+
+      // Dropped by the queue after the server rejects it, so the update is rolled back
+      reply = 'offline';
+      await expect(add('c')).rejects.toMatchObject({ queued: true });
+      expect(fk.getCacheEntry('/todos')?.data).toEqual(['a', 'b', 'c']);
+      expect(rollback).not.toHaveBeenCalled();
+
+      reply = 'rejected';
+      await fk.replayOfflineQueue();
+      expect(fk.getCacheEntry('/todos')?.data).toEqual(['a', 'b']);
+      expect(rollback).toHaveBeenCalledWith({ url: '/todos', keys: [fk.getCacheKey('/todos')] });
+    });
+
+    it('should queue writes without sending them while the browser is offline', async () => {
+      const onLine = vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+      const mock = createMockAdapter().onPut('/todos/1', { data: 'saved' });
+      const fk = createFetchKit({
+        adapter: mock,
+        offline: { persistence: new MemoryPersistence() },
+      });
+      const replayed = new Promise(resolve => fk.on('offline:replayed', resolve));
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      await fk.put('/todos/1', { done: true }, { offline: { key: 'todo:1' } }).catch(() => {});
+      await fk.put('/todos/1', { done: false }, { offline: { key: 'todo:1' } }).catch(() => {});
+      mock.assertCalled('PUT', '/todos/1', 0);
+      expect((await fk.getOfflineQueue()).map(mutation => mutation.body)).toEqual([
+        { done: false },
+      ]);
+
+      onLine.mockReturnValue(true);
+      window.dispatchEvent(new Event('online'));
+
+      expect(await replayed).toMatchObject({ data: 'saved' });
+      mock.assertCalled('PUT', '/todos/1', 1);
+      await fk.clearOfflineQueue();
+    });
+  });
+});
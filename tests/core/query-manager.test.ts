@@ -36,6 +36,7 @@ describe('QueryManager', () => {
         refetch: vi.fn().mockResolvedValue(undefined),
         markStale: vi.fn(),
         dispose: vi.fn(),
+        onDispose: vi.fn(),
         getState: vi.fn().mockReturnValue({ data: { url } }),
       };
     });
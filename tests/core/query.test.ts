@@ -2,6 +2,7 @@
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { Query } from '@core/query';
+import { QueryManager } from '@core/query-manager';
 import { createFetchKit } from '@core/fetch-kit';
 
 describe('Query', () => {
@@ -217,3 +218,207 @@ describe('Query', () => {
     expect(removeEventListener).toHaveBeenCalledWith('focus', expect.any(Function));
   });
 });
+
+describe('Query reactive features', () => {
+  let fetchKit: ReturnType<typeof createFetchKit>;
+
+  beforeEach(() => {
+    fetchKit = createFetchKit();
+    fetchKit.get = vi.fn();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should not fetch while disabled and fetch once enabled', async () => {
+    vi.mocked(fetchKit.get).mockResolvedValueOnce({ id: 1 });
+
+    const query = new Query(fetchKit, '/data', { enabled: false });
+
+    expect(fetchKit.get).not.toHaveBeenCalled();
+    expect(query.getState().isLoading).toBe(false);
+
+    query.setEnabled(true);
+    await vi.waitFor(() => expect(query.getState().isSuccess).toBe(true));
+
+    expect(query.getState().data).toEqual({ id: 1 });
+  });
+
+  it('should wait for dependencies and build the URL from their data', async () => {
+    vi.mocked(fetchKit.get)
+      .mockResolvedValueOnce({ id: 42 })
+      .mockResolvedValueOnce([{ title: 'Post' }]);
+
+    const userQuery = new Query<{ id: number }>(fetchKit, '/user');
+    const postsQuery = new Query(fetchKit, () => `/users/${userQuery.getState().data?.id}/posts`, {
+      dependsOn: userQuery,
+    });
+
+    expect(fetchKit.get).toHaveBeenCalledTimes(1);
+
+    await vi.waitFor(() => expect(postsQuery.getState().isSuccess).toBe(true));
+
+    expect(fetchKit.get).toHaveBeenLastCalledWith('/users/42/posts', expect.any(Object));
+    expect(postsQuery.getState().data).toEqual([{ title: 'Post' }]);
+  });
+
+  it('should transform data with select', async () => {
+    vi.mocked(fetchKit.get).mockResolvedValueOnce({ items: [1, 2, 3], total: 3 });
+
+    const query = new Query(fetchKit, '/data', {
+      select: (data: { items: number[]; total: number }) => data.items,
+    });
+
+    await vi.waitFor(() => expect(query.getState().isSuccess).toBe(true));
+
+    expect(query.getState().data).toEqual([1, 2, 3]);
+  });
+
+  it('should keep previous data while a new URL loads', async () => {
+    let page = 1;
+    let resolveSecond: (value: any) => void = () => {};
+    vi.mocked(fetchKit.get)
+      .mockResolvedValueOnce(['page 1'])
+      .mockReturnValueOnce(
+        new Promise(resolve => {
+          resolveSecond = resolve;
+        }),
+      );
+
+    const query = new Query(fetchKit, () => `/items?page=${page}`, { keepPreviousData: true });
+    await vi.waitFor(() => expect(query.getState().isSuccess).toBe(true));
+
+    page = 2;
+    const refetchPromise = query.refetch();
+
+    expect(query.getState()).toMatchObject({
+      data: ['page 1'],
+      isLoading: true,
+      isPreviousData: true,
+    });
+
+    resolveSecond(['page 2']);
+    await refetchPromise;
+
+    expect(query.getState()).toMatchObject({ data: ['page 2'], isPreviousData: false });
+  });
+
+  it('should clear data for a new URL without keepPreviousData', async () => {
+    let page = 1;
+    vi.mocked(fetchKit.get).mockResolvedValueOnce(['page 1']).mockResolvedValueOnce(['page 2']);
+
+    const query = new Query(fetchKit, () => `/items?page=${page}`);
+    await vi.waitFor(() => expect(query.getState().isSuccess).toBe(true));
+
+    page = 2;
+    const refetchPromise = query.refetch();
+
+    expect(query.getState().data).toBeUndefined();
+
+    await refetchPromise;
+    expect(query.getState().data).toEqual(['page 2']);
+  });
+
+  it('should refetch at the configured interval', async () => {
+    vi.useFakeTimers();
+    vi.mocked(fetchKit.get).mockResolvedValue({ id: 1 });
+
+    const query = new Query(fetchKit, '/data', { refetchInterval: 1000 });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fetchKit.get).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(fetchKit.get).toHaveBeenCalledTimes(3);
+
+    query.dispose();
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(fetchKit.get).toHaveBeenCalledTimes(3);
+  });
+
+  it('should refetch when the network reconnects', async () => {
+    vi.mocked(fetchKit.get).mockResolvedValue({ id: 1 });
+
+    const query = new Query(fetchKit, '/data', { refetchOnReconnect: true });
+    await vi.waitFor(() => expect(query.getState().isSuccess).toBe(true));
+
+    window.dispatchEvent(new Event('online'));
+    await vi.waitFor(() => expect(fetchKit.get).toHaveBeenCalledTimes(2));
+
+    query.dispose();
+  });
+
+  it('should dispose itself when the last subscriber leaves', async () => {
+    vi.useFakeTimers();
+    vi.mocked(fetchKit.get).mockResolvedValue({ id: 1 });
+
+    const query = new Query(fetchKit, '/data', { disposeDelay: 100 });
+    const unsubscribeFirst = query.subscribe(vi.fn());
+    const unsubscribeSecond = query.subscribe(vi.fn());
+
+    expect(query.getSubscriberCount()).toBe(2);
+
+    unsubscribeFirst();
+    unsubscribeSecond();
+    expect(query.isDisposed()).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(query.isDisposed()).toBe(true);
+  });
+
+  it('should not dispose when a subscriber returns before the delay', async () => {
+    vi.useFakeTimers();
+    vi.mocked(fetchKit.get).mockResolvedValue({ id: 1 });
+
+    const query = new Query(fetchKit, '/data', { disposeDelay: 100 });
+    query.subscribe(vi.fn())();
+    query.subscribe(vi.fn());
+
+    await vi.advanceTimersByTimeAsync(200);
+    expect(query.isDisposed()).toBe(false);
+  });
+
+  it('should receive data written with setCacheData for the same key', async () => {
+    vi.mocked(fetchKit.get).mockResolvedValueOnce({ name: 'Original' });
+
+    const query = new Query(fetchKit, '/profile');
+    await vi.waitFor(() => expect(query.getState().isSuccess).toBe(true));
+
+    const listener = vi.fn();
+    query.subscribe(listener);
+
+    fetchKit.setCacheData('/profile', { name: 'Updated' });
+
+    expect(query.getState().data).toEqual({ name: 'Updated' });
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ data: { name: 'Updated' } }));
+
+    fetchKit.setCacheData('/other', { name: 'Other' });
+    expect(query.getState().data).toEqual({ name: 'Updated' });
+  });
+
+  it('should refetch when its cache entry is invalidated', async () => {
+    vi.mocked(fetchKit.get).mockResolvedValueOnce({ v: 1 }).mockResolvedValueOnce({ v: 2 });
+
+    const query = new Query(fetchKit, '/data');
+    await vi.waitFor(() => expect(query.getState().isSuccess).toBe(true));
+
+    fetchKit.invalidateCache(fetchKit.getCacheKey('/data'));
+
+    await vi.waitFor(() => expect(query.getState().data).toEqual({ v: 2 }));
+  });
+
+  it('should be removed from its QueryManager when auto-disposed', async () => {
+    vi.useFakeTimers();
+    vi.mocked(fetchKit.get).mockResolvedValue({ id: 1 });
+
+    const queryManager = new QueryManager(fetchKit);
+    const query = queryManager.getQuery('/data');
+
+    query.subscribe(vi.fn())();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(query.isDisposed()).toBe(true);
+    expect(queryManager.getAllQueries()).toHaveLength(0);
+    expect(queryManager.getQuery('/data')).not.toBe(query);
+  });
+});
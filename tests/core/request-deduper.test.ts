@@ -97,9 +97,7 @@ describe('RequestDeduper', () => {
     const neverResolve = () => new Promise(() => {});
 
     // Start multiple requests
-    requestDeduper.dedupe('key1', neverResolve);
-    requestDeduper.dedupe('key2', neverResolve);
-    requestDeduper.dedupe('key3', neverResolve);
+    const promises = ['key1', 'key2', 'key3'].map(key => requestDeduper.dedupe(key, neverResolve));
 
     expect(requestDeduper.getInFlightCount()).toBe(3);
 
@@ -107,5 +105,82 @@ describe('RequestDeduper', () => {
     requestDeduper.clearInFlightRequests();
 
     expect(requestDeduper.getInFlightCount()).toBe(0);
+
+    // Callers are rejected even though the requests never settle
+    const results = await Promise.allSettled(promises);
+    expect(results.every(result => result.status === 'rejected')).toBe(true);
+  });
+
+  describe('cancellation', () => {
+    const pending = (signal: AbortSignal) =>
+      new Promise<string>((resolve, reject) => {
+        const timer = setTimeout(() => resolve('data'), 50);
+        signal.addEventListener('abort', () => {
+          clearTimeout(timer);
+          reject(new Error('aborted'));
+        });
+      });
+
+    it('should abort the shared request only when every caller has aborted', async () => {
+      let sharedSignal: AbortSignal | undefined;
+      const fn = vi.fn((signal: AbortSignal) => {
+        sharedSignal = signal;
+        return pending(signal);
+      });
+      const onCancel = vi.fn();
+      requestDeduper.onCancel(onCancel);
+
+      const first = new AbortController();
+      const second = new AbortController();
+      const promise1 = requestDeduper.dedupe('key', fn, { signal: first.signal });
+      const promise2 = requestDeduper.dedupe('key', fn, { signal: second.signal });
+
+      first.abort();
+      await expect(promise1).rejects.toMatchObject({ isCancelled: true });
+      expect(sharedSignal?.aborted).toBe(false);
+
+      second.abort();
+      await expect(promise2).rejects.toMatchObject({ isCancelled: true });
+      expect(sharedSignal?.aborted).toBe(true);
+      expect(onCancel).toHaveBeenCalledWith('key', 'subscribers');
+      expect(fn).toHaveBeenCalledTimes(1);
+      expect(requestDeduper.isInFlight('key')).toBe(false);
+    });
+
+    it('should keep the request alive for callers without a signal', async () => {
+      const controller = new AbortController();
+      const promise1 = requestDeduper.dedupe('key', pending, { signal: controller.signal });
+      const promise2 = requestDeduper.dedupe('key', pending);
+
+      controller.abort();
+
+      await expect(promise1).rejects.toMatchObject({ isCancelled: true });
+      await expect(promise2).resolves.toBe('data');
+    });
+
+    it('should cancel requests by key, predicate and tag', async () => {
+      const onCancel = vi.fn();
+      requestDeduper.onCancel(onCancel);
+
+      const users = requestDeduper.dedupe('users', pending, { tags: ['dashboard'] });
+      const orders = requestDeduper.dedupe('orders', pending, { tags: ['dashboard'] });
+      const search = requestDeduper.dedupe('search:a', pending);
+      const other = requestDeduper.dedupe('other', pending);
+
+      expect(requestDeduper.cancelRequest('users')).toBe(true);
+      expect(requestDeduper.cancelRequest('missing')).toBe(false);
+      expect(requestDeduper.cancelByTag('dashboard')).toBe(1);
+      expect(requestDeduper.cancelMatching(key => key.startsWith('search:'))).toBe(1);
+
+      await expect(users).rejects.toMatchObject({ isCancelled: true });
+      await expect(orders).rejects.toMatchObject({ isCancelled: true });
+      await expect(search).rejects.toMatchObject({ isCancelled: true });
+      await expect(other).resolves.toBe('data');
+      expect(onCancel.mock.calls).toEqual([
+        ['users', 'manual'],
+        ['orders', 'manual'],
+        ['search:a', 'manual'],
+      ]);
+    });
   });
 });
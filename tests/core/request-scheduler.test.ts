@@ -0,0 +1,180 @@
+// tests/core/request-scheduler.test.ts
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { RequestScheduler } from '@core/request-scheduler';
+import { createFetchKit } from '@core/fetch-kit';
+import { createMockAdapter } from '@adapters/mock-adapter';
+
+/**
+ * A task that settles when the test says so
+ */
+function deferredTask(name: string, started: string[]) {
+  let resolve!: (value: string) => void;
+  const task = vi.fn(() => {
+    started.push(name);
+    return new Promise<string>(r => {
+      resolve = r;
+    });
+  });
+
+  return { task, finish: () => resolve(name) };
+}
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('RequestScheduler', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should start requests immediately without limits', () => {
+    const scheduler = new RequestScheduler();
+    const task = vi.fn(() => Promise.resolve('data'));
+
+    scheduler.schedule(task, { url: 'https://api.example.com/users' });
+
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(scheduler.getStats()).toMatchObject({ active: 1, queued: 0 });
+  });
+
+  it('should respect the global limit and start higher priority lanes first', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrent: 1 });
+    const started: string[] = [];
+    const first = deferredTask('first', started);
+    const prefetch = deferredTask('prefetch', started);
+    const critical = deferredTask('critical', started);
+
+    const promises = [
+      scheduler.schedule(first.task, { url: '/a' }),
+      scheduler.schedule(prefetch.task, { url: '/b', priority: -1 }),
+      scheduler.schedule(critical.task, { url: '/c', priority: 10 }),
+    ];
+
+    expect(scheduler.getStats()).toMatchObject({
+      active: 1,
+      queued: 2,
+      queuedByPriority: { '-1': 1, 10: 1 },
+    });
+
+    first.finish();
+    await flush();
+    critical.finish();
+    await flush();
+    prefetch.finish();
+
+    expect(await Promise.all(promises)).toEqual(['first', 'prefetch', 'critical']);
+    expect(started).toEqual(['first', 'critical', 'prefetch']);
+  });
+
+  it('should limit concurrency per host without blocking other hosts', () => {
+    const scheduler = new RequestScheduler({ maxConcurrentPerHost: 1 });
+    const started: string[] = [];
+
+    scheduler.schedule(deferredTask('a1', started).task, { url: 'https://a.example.com/1' });
+    scheduler.schedule(deferredTask('a2', started).task, { url: 'https://a.example.com/2' });
+    scheduler.schedule(deferredTask('b1', started).task, { url: 'https://b.example.com/1' });
+
+    expect(started).toEqual(['a1', 'b1']);
+    expect(scheduler.getStats().activeByHost).toEqual({ 'a.example.com': 1, 'b.example.com': 1 });
+  });
+
+  it('should age queued requests into higher lanes', async () => {
+    vi.useFakeTimers();
+    const scheduler = new RequestScheduler({ maxConcurrent: 1, agingTime: 1000 });
+    const started: string[] = [];
+    const running = deferredTask('running', started);
+
+    scheduler.schedule(running.task, { url: '/running' });
+    scheduler.schedule(deferredTask('old', started).task, { url: '/old', priority: 0 });
+    vi.advanceTimersByTime(3000);
+    scheduler.schedule(deferredTask('new', started).task, { url: '/new', priority: 2 });
+
+    running.finish();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(started).toEqual(['running', 'old']);
+  });
+
+  it('should pause and resume the queue', async () => {
+    const scheduler = new RequestScheduler();
+    const listener = vi.fn();
+    scheduler.onChange(listener);
+
+    scheduler.pause();
+    const task = vi.fn(() => Promise.resolve('data'));
+    const promise = scheduler.schedule(task, { url: '/users' });
+
+    expect(task).not.toHaveBeenCalled();
+    expect(listener).toHaveBeenLastCalledWith(expect.objectContaining({ queued: 1, paused: true }));
+
+    scheduler.resume();
+
+    expect(await promise).toBe('data');
+    expect(listener).toHaveBeenLastCalledWith(
+      expect.objectContaining({ active: 0, queued: 0, paused: false }),
+    );
+  });
+
+  it('should drop queued requests whose signal aborts', async () => {
+    const scheduler = new RequestScheduler();
+    const controller = new AbortController();
+    const task = vi.fn(() => Promise.resolve('data'));
+
+    scheduler.pause();
+    const promise = scheduler.schedule(task, { url: '/users', signal: controller.signal });
+    controller.abort();
+    scheduler.resume();
+
+    await expect(promise).rejects.toMatchObject({ isCancelled: true });
+    expect(task).not.toHaveBeenCalled();
+    expect(scheduler.getStats().queued).toBe(0);
+  });
+
+  describe('with FetchKit', () => {
+    it('should schedule requests by priority and report queue depth', async () => {
+      const mock = createMockAdapter().onGet('*', request => ({ data: request.path }));
+      const fk = createFetchKit({ adapter: mock, scheduler: { maxConcurrent: 1 } });
+      const depths: number[] = [];
+      fk.on('scheduler:queue', stats => depths.push(stats.queued));
+
+      fk.pauseRequests();
+      const prefetch = fk.get('/prefetch', { priority: -1 });
+      const cached = fk.get('/cached', { cacheOptions: { priority: 1 } });
+      const critical = fk.get('/critical', { priority: 5 });
+      await flush();
+
+      expect(fk.getSchedulerStats()).toMatchObject({ queued: 3, paused: true });
+
+      fk.resumeRequests();
+      expect(await Promise.all([prefetch, cached, critical])).toEqual([
+        '/prefetch',
+        '/cached',
+        '/critical',
+      ]);
+
+      expect(mock.getHistory().map(entry => entry.path)).toEqual([
+        '/critical',
+        '/cached',
+        '/prefetch',
+      ]);
+      expect(depths).toContain(3);
+      expect(fk.getSchedulerStats()).toMatchObject({ active: 0, queued: 0 });
+    });
+
+    it('should free the slot while a retry waits for its delay', async () => {
+      const mock = createMockAdapter()
+        .once('GET', '/flaky', { status: 500 })
+        .onGet('*', request => ({ data: request.path }));
+      const fk = createFetchKit({ adapter: mock, scheduler: { maxConcurrent: 1 } });
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const flaky = fk.get('/flaky', { retry: { count: 2, delay: 50 } });
+      await flush();
+      const other = fk.get('/other');
+
+      expect(await Promise.all([flaky, other])).toEqual(['/flaky', '/other']);
+      expect(mock.getHistory().map(entry => entry.path)).toEqual(['/flaky', '/other', '/flaky']);
+    });
+  });
+});
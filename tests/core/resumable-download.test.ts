@@ -0,0 +1,145 @@
+// tests/core/resumable-download.test.ts
+
+import { describe, it, expect, vi } from 'vitest';
+import { createFetchKit } from '@core/fetch-kit';
+import { createMockAdapter } from '@adapters/mock-adapter';
+import { MemoryPersistence } from '@cache/persistence/cache-persistence';
+import { ErrorCategory } from '@fk-types/error';
+import type { DownloadOptions } from '@fk-types/download';
+import { sha256 } from '@utils/hash';
+
+const content = new Uint8Array(Array.from({ length: 10 }, (_, index) => index));
+const retry = { count: 3, delay: 1 };
+
+/**
+ * Stream bytes in chunks of two, failing after the given number of bytes
+ */
+function createByteStream(bytes: Uint8Array, failAfter = Infinity) {
+  let offset = 0;
+
+  return new ReadableStream<Uint8Array>(
+    {
+      pull(controller) {
+        if (offset >= failAfter) {
+          controller.error(new TypeError('network connection lost'));
+        } else if (offset >= bytes.length) {
+          controller.close();
+        } else {
+          controller.enqueue(bytes.slice(offset, offset + 2));
+          offset += 2;
+        }
+      },
+    },
+    { highWaterMark: 0 },
+  );
+}
+
+describe('ResumableDownload', () => {
+  it('should continue an interrupted download from the last byte with Range and If-Range', async () => {
+    const mock = createMockAdapter()
+      .once('GET', '/files/data.bin', {
+        data: createByteStream(content, 4),
+        headers: { ETag: '"v1"', 'Content-Length': '10' },
+      })
+      .onGet('/files/data.bin', request => ({
+        status: 206,
+        data: createByteStream(content.slice(Number(request.headers.Range.slice(6, -1)))),
+        headers: { ETag: '"v1"', 'Content-Range': 'bytes 4-9/10' },
+      }));
+    const fk = createFetchKit({ adapter: mock });
+    const onProgress = vi.fn();
+
+    const download = fk.createDownload('/files/data.bin', {
+      retry,
+      checksum: await sha256(content),
+      onProgress,
+    });
+    const data = await download.start();
+
+    expect(Array.from(data)).toEqual(Array.from(content));
+    expect(mock.getHistory()[1].headers).toMatchObject({ Range: 'bytes=4-', 'If-Range': '"v1"' });
+    expect(onProgress).toHaveBeenLastCalledWith(
+      expect.objectContaining({ loaded: 10, total: 10, progress: 1 }),
+    );
+    expect(download.getState()).toMatchObject({ status: 'completed', etag: '"v1"' });
+  });
+
+  it('should start over when the resource changed or has no ETag', async () => {
+    const changed = content.map(byte => byte + 100);
+    const mock = createMockAdapter()
+      .once('GET', '/files/data.bin', {
+        data: createByteStream(content, 6),
+        headers: { ETag: '"v1"' },
+      })
+      .onGet('/files/data.bin', { data: createByteStream(changed), headers: { ETag: '"v2"' } });
+    const fk = createFetchKit({ adapter: mock });
+
+    const data = await fk.createDownload('/files/data.bin', { retry }).start();
+    expect(Array.from(data)).toEqual(Array.from(changed));
+    expect(mock.getHistory()[1].headers['If-Range']).toBe('"v1"');
+
+    // Bytes of a weak ETag cannot be reused
+    const weak = createMockAdapter()
+      .once('GET', '/files/data.bin', {
+        data: createByteStream(content, 6),
+        headers: { ETag: 'W/"v1"' },
+      })
+      .onGet('/files/data.bin', () => ({ data: createByteStream(content) }));
+    await createFetchKit({ adapter: weak }).createDownload('/files/data.bin', { retry }).start();
+    expect(weak.getHistory()[1].headers.Range).toBeUndefined();
+  });
+
+  it('should fail when the length or the checksum does not match', async () => {
+    const mock = createMockAdapter().onGet('/files/data.bin', () => ({
+      data: createByteStream(content),
+      headers: { 'Content-Length': '12' },
+    }));
+    const fk = createFetchKit({ adapter: mock });
+
+    await expect(fk.createDownload('/files/data.bin', { retry }).start()).rejects.toMatchObject({
+      category: ErrorCategory.Parse,
+      message: 'Expected 12 bytes but received 10',
+    });
+
+    const checked = createMockAdapter().onGet('/files/data.bin', () => ({
+      data: createByteStream(content),
+    }));
+    const download = createFetchKit({ adapter: checked }).createDownload('/files/data.bin', {
+      checksum: await sha256('something else'),
+    });
+    await expect(download.start()).rejects.toMatchObject({ category: ErrorCategory.Validation });
+    expect(download.getState().status).toBe('failed');
+  });
+
+  it('should resume from the bytes saved by an earlier download after a reload', async () => {
+    const persistence = new MemoryPersistence();
+    const mock = createMockAdapter().onGet('/files/data.bin', request => {
+      const start = request.headers.Range ? Number(request.headers.Range.slice(6, -1)) : 0;
+      return {
+        status: start ? 206 : 200,
+        data: createByteStream(content.slice(start)),
+        headers: {
+          ETag: '"v1"',
+          ...(start ? { 'Content-Range': `bytes ${start}-9/10` } : { 'Content-Length': '10' }),
+        },
+      };
+    });
+    const fk = createFetchKit({ adapter: mock });
+    const options: DownloadOptions = { persistence, segmentSize: 4 };
+
+    // Paused after six bytes, which are saved as one full and one partial segment
+    const first = fk.createDownload('/files/data.bin', options);
+    first.on('state', ({ progress }) => progress.loaded >= 6 && first.pause());
+    await expect(first.start()).rejects.toMatchObject({ isCancelled: true });
+    expect(first.getState().status).toBe('paused');
+    await first.flushPersistence();
+
+    // A new instance, as after a reload, only requests the rest
+    mock.resetHistory();
+    const second = fk.createDownload('/files/data.bin', options);
+    const data = await second.start();
+    expect(Array.from(data)).toEqual(Array.from(content));
+    expect(mock.getHistory().map(entry => entry.headers.Range)).toEqual(['bytes=6-']);
+    expect(await persistence.keys()).toEqual([]);
+  });
+});
@@ -0,0 +1,182 @@
+// tests/core/resumable-upload.test.ts
+
+import { describe, it, expect, vi } from 'vitest';
+import { createFetchKit } from '@core/fetch-kit';
+import { createMockAdapter } from '@adapters/mock-adapter';
+import { MemoryPersistence } from '@cache/persistence/cache-persistence';
+import type { UploadOptions } from '@fk-types/upload';
+
+const file = new Blob(['x'.repeat(10)], { type: 'text/plain' });
+const retry = { count: 3, delay: 1 };
+
+describe('ResumableUpload', () => {
+  it('should send Content-Range chunks with bounded concurrency and retry failed chunks', async () => {
+    let active = 0;
+    let maxActive = 0;
+    let failed = false;
+    const mock = createMockAdapter().onPut('/files/1', async request => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      active--;
+
+      if (request.headers['Content-Range'] === 'bytes 4-5/10' && !failed) {
+        failed = true;
+        return { status: 503 };
+      }
+      return { data: { received: request.headers['Content-Range'] } };
+    });
+    const fk = createFetchKit({ adapter: mock });
+    const onProgress = vi.fn();
+
+    const upload = fk.createUpload('/files/1', file, {
+      chunkSize: 2,
+      concurrency: 2,
+      retry,
+      persistence: false,
+      onProgress,
+    });
+    await upload.start();
+
+    const ranges = mock.getHistory().map(entry => entry.headers['Content-Range']);
+    expect(ranges).toHaveLength(6);
+    expect(new Set(ranges)).toEqual(
+      new Set(['bytes 0-1/10', 'bytes 2-3/10', 'bytes 4-5/10', 'bytes 6-7/10', 'bytes 8-9/10']),
+    );
+    expect(maxActive).toBe(2);
+    expect(upload.getState().status).toBe('completed');
+    expect(onProgress).toHaveBeenLastCalledWith(
+      expect.objectContaining({ loaded: 10, total: 10, progress: 1 }),
+    );
+  });
+
+  it('should resume from the chunks saved by an earlier upload of the same file', async () => {
+    const persistence = new MemoryPersistence();
+    const mock = createMockAdapter()
+      .once('PUT', '/files/2', { status: 500 })
+      .onPut('/files/2', { data: 'ok' });
+    const fk = createFetchKit({ adapter: mock });
+    const options: UploadOptions = { chunkSize: 4, concurrency: 1, persistence, retry };
+
+    // The first chunk fails once, then the upload is paused after the second chunk
+    const first = fk.createUpload('/files/2', file, options);
+    first.on('chunk', ({ index }) => index === 1 && first.pause());
+    await expect(first.start()).rejects.toBeDefined();
+    expect(first.getState().status).toBe('paused');
+    await first.flushPersistence();
+
+    // A new instance, as after a reload, only sends the last chunk
+    mock.resetHistory();
+    const second = fk.createUpload('/files/2', file, options);
+    await expect(second.start()).resolves.toBe('ok');
+    expect(mock.getHistory().map(entry => entry.headers['Content-Range'])).toEqual([
+      'bytes 8-9/10',
+    ]);
+    expect(await persistence.keys()).toEqual([]);
+  });
+
+  it('should create a tus upload and send chunks at the offsets the server confirms', async () => {
+    let offset = 0;
+    const mock = createMockAdapter()
+      .onPost('https://tus.example.com/files', {
+        status: 201,
+        headers: { Location: '/files/abc' },
+      })
+      .onPatch('https://tus.example.com/files/abc', request => {
+        offset += request.body.size;
+        return { status: 204, headers: { 'Upload-Offset': String(offset) } };
+      });
+    const fk = createFetchKit({ adapter: mock });
+
+    const upload = fk.createUpload('https://tus.example.com/files', file, {
+      protocol: 'tus',
+      chunkSize: 4,
+      metadata: { filename: 'notes.txt', type: 'text/plain' },
+      persistence: false,
+    });
+    await upload.start();
+
+    const [create, ...patches] = mock.getHistory();
+    expect(create.headers).toMatchObject({
+      'Tus-Resumable': '1.0.0',
+      'Upload-Length': '10',
+      'Upload-Metadata': 'filename bm90ZXMudHh0,type dGV4dC9wbGFpbg==',
+    });
+    expect(patches.map(entry => entry.headers['Upload-Offset'])).toEqual(['0', '4', '8']);
+    expect(upload.getState().uploadUrl).toBe('https://tus.example.com/files/abc');
+  });
+
+  it('should ask a tus server for its offset when resuming and start over if it is gone', async () => {
+    const persistence = new MemoryPersistence();
+    const mock = createMockAdapter()
+      .onPost('https://tus.example.com/files', {
+        status: 201,
+        headers: { Location: 'https://tus.example.com/files/abc' },
+      })
+      .on('PATCH', 'https://tus.example.com/files/abc', { status: 500 }, 3)
+      .on('HEAD', 'https://tus.example.com/files/abc', {
+        status: 200,
+        headers: { 'Upload-Offset': '6' },
+      })
+      .onPatch('https://tus.example.com/files/abc', request => ({
+        status: 204,
+        headers: { 'Upload-Offset': String(Number(request.headers['Upload-Offset']) + 4) },
+      }));
+    const fk = createFetchKit({ adapter: mock });
+    const options: UploadOptions = { protocol: 'tus', chunkSize: 4, persistence, retry };
+
+    const first = fk.createUpload('https://tus.example.com/files', file, options);
+    await expect(first.start()).rejects.toMatchObject({ status: 500 });
+    expect(first.getState().status).toBe('failed');
+    await first.flushPersistence();
+
+    // Resumes at the offset the server reports
+    mock.resetHistory();
+    const second = fk.createUpload('https://tus.example.com/files', file, options);
+    await second.start();
+    expect(mock.getHistory().map(entry => [entry.method, entry.headers['Upload-Offset']])).toEqual([
+      ['HEAD', undefined],
+      ['PATCH', '6'],
+    ]);
+
+    // A saved upload the server no longer has is created again
+    const gone = createMockAdapter()
+      .on('HEAD', 'https://tus.example.com/files/old', { status: 404 })
+      .onPost('https://tus.example.com/files', {
+        status: 201,
+        headers: { Location: 'https://tus.example.com/files/new' },
+      })
+      .onPatch('https://tus.example.com/files/new', request => ({
+        status: 204,
+        headers: { 'Upload-Offset': String(Number(request.headers['Upload-Offset']) + 4) },
+      }));
+    const third = createFetchKit({ adapter: gone }).createUpload(
+      'https://tus.example.com/files',
+      file,
+      { ...options, fingerprint: 'notes' },
+    );
+    await persistence.set('upload:notes', {
+      data: {
+        fingerprint: 'notes',
+        size: 10,
+        chunkSize: 4,
+        chunks: [],
+        uploadUrl: 'https://tus.example.com/files/old',
+        createdAt: Date.now(),
+      },
+      createdAt: Date.now(),
+      staleAt: Number.MAX_SAFE_INTEGER,
+      expiresAt: Number.MAX_SAFE_INTEGER,
+      isRevalidating: false,
+    });
+    await third.start();
+    expect(gone.getHistory().map(entry => entry.method)).toEqual([
+      'HEAD',
+      'POST',
+      'PATCH',
+      'PATCH',
+      'PATCH',
+    ]);
+    expect(third.getState().uploadUrl).toBe('https://tus.example.com/files/new');
+  });
+});
@@ -0,0 +1,179 @@
+// tests/core/websocket-manager.test.ts
+/** @vitest-environment node */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { AddressInfo } from 'node:net';
+import WebSocket, { WebSocketServer } from 'ws';
+import { createFetchKit } from '@core/fetch-kit';
+import { createMockAdapter } from '@adapters/mock-adapter';
+import type { WebSocketStatus } from '@fk-types/websocket';
+
+describe('WebSocketManager', () => {
+  let server: WebSocketServer;
+  let url: string;
+  let sockets: WebSocket[];
+  let received: any[];
+
+  beforeEach(async () => {
+    sockets = [];
+    received = [];
+    server = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+    server.on('connection', socket => {
+      sockets.push(socket);
+      socket.on('message', (data: Buffer) => received.push(JSON.parse(data.toString())));
+    });
+
+    await new Promise(resolve => server.once('listening', resolve));
+    url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    server.clients.forEach(socket => socket.terminate());
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const publish = (topic: string, data: unknown) =>
+    sockets[sockets.length - 1].send(JSON.stringify({ topic, data }));
+
+  it('should multiplex topics and map messages to cache updates and invalidations', async () => {
+    const mock = createMockAdapter()
+      .onGet('/todos', { data: [{ id: 1 }] })
+      .onGet('/users', { data: [] });
+    const fk = createFetchKit({ adapter: mock, cacheOptions: { staleTime: 60000 } });
+    await fk.get('/todos');
+    await fk.get('/users');
+    const cacheUpdate = vi.fn();
+    const invalidated = vi.fn();
+    fk.on('cache:update', cacheUpdate);
+    fk.on('cache:invalidate', invalidated);
+
+    const socket = fk.createWebSocket(url, { WebSocket, heartbeat: false });
+    const onTodo = vi.fn();
+    socket.subscribe<{ id: number }>('todos', {
+      onMessage: onTodo,
+      cacheUpdate: {
+        url: '/todos',
+        reduce: (todos: { id: number }[] = [], todo) => [...todos, todo],
+      },
+    });
+    const stopUsers = socket.subscribe('users', { invalidate: { urls: ['/users'] } });
+
+    await vi.waitFor(() => expect(received).toHaveLength(2));
+    expect(received).toEqual([
+      { type: 'subscribe', topic: 'todos' },
+      { type: 'subscribe', topic: 'users' },
+    ]);
+
+    publish('todos', { id: 2 });
+    publish('users', { id: 5 });
+    publish('other', { id: 9 });
+
+    await vi.waitFor(() => expect(invalidated).toHaveBeenCalled());
+    expect(fk.getCacheEntry('/todos')?.data).toEqual([{ id: 1 }, { id: 2 }]);
+    expect(cacheUpdate).toHaveBeenCalledWith({
+      key: fk.getCacheKey('/todos'),
+      data: [{ id: 1 }, { id: 2 }],
+    });
+    expect(onTodo).toHaveBeenCalledWith({ id: 2 }, { topic: 'todos', data: { id: 2 } });
+    expect(invalidated).toHaveBeenCalledWith({ key: fk.getCacheKey('/users') });
+
+    stopUsers();
+    await vi.waitFor(() => expect(received).toHaveLength(3));
+    expect(received[2]).toEqual({ type: 'unsubscribe', topic: 'users' });
+    expect(sockets).toHaveLength(1);
+
+    socket.close();
+  });
+
+  it('should queue messages while disconnected and resubscribe after reconnecting', async () => {
+    const fk = createFetchKit({ adapter: createMockAdapter() });
+    const statuses: WebSocketStatus[] = [];
+    fk.on('websocket:state', state => {
+      if (statuses[statuses.length - 1] !== state.status) statuses.push(state.status);
+    });
+
+    const socket = fk.createWebSocket(url, {
+      WebSocket,
+      heartbeat: false,
+      reconnect: { delay: 200, jitter: 'none' },
+    });
+    socket.subscribe('todos', () => {});
+    socket.send({ type: 'hello' });
+    expect(socket.getState().queued).toBe(1);
+
+    await vi.waitFor(() => expect(received).toHaveLength(2));
+    expect(received).toEqual([{ type: 'subscribe', topic: 'todos' }, { type: 'hello' }]);
+
+    sockets[0].terminate();
+    await vi.waitFor(() => expect(socket.getState().status).toBe('reconnecting'));
+    socket.send({ type: 'offline' });
+
+    await vi.waitFor(() => expect(received).toHaveLength(4));
+    expect(received.slice(2)).toEqual([{ type: 'subscribe', topic: 'todos' }, { type: 'offline' }]);
+    expect(sockets).toHaveLength(2);
+    expect(statuses).toEqual(['connecting', 'open', 'reconnecting', 'connecting', 'open']);
+
+    socket.close();
+    expect(socket.getState()).toMatchObject({ status: 'closed', attempt: 0 });
+    expect(() => socket.send({ type: 'late' })).toThrow('is closed');
+  });
+
+  it('should drop connections that stop answering heartbeats', async () => {
+    const fk = createFetchKit({ adapter: createMockAdapter() });
+    let answer = true;
+    server.on('connection', client => {
+      client.on('message', (data: Buffer) => {
+        if (answer && JSON.parse(data.toString()).type === 'ping') {
+          client.send(JSON.stringify({ type: 'pong' }));
+        }
+      });
+    });
+
+    const messages = vi.fn();
+    const socket = fk.createWebSocket(url, {
+      WebSocket,
+      heartbeat: { interval: 20, timeout: 30 },
+      reconnect: { delay: 10, jitter: 'none' },
+    });
+    socket.on('message', messages);
+
+    await vi.waitFor(() =>
+      expect(received.filter(message => message.type === 'ping').length).toBeGreaterThan(2),
+    );
+    expect(sockets).toHaveLength(1);
+    expect(messages).not.toHaveBeenCalled();
+
+    answer = false;
+    await vi.waitFor(() => expect(sockets).toHaveLength(2));
+
+    socket.close();
+  });
+
+  it('should give up after the configured reconnection attempts', async () => {
+    const fk = createFetchKit({ adapter: createMockAdapter() });
+    const errors = vi.fn();
+    fk.on('websocket:error', errors);
+
+    const socket = fk.createWebSocket('ws://127.0.0.1:1', {
+      WebSocket,
+      reconnect: { count: 2, delay: 1, jitter: 'none' },
+    });
+
+    await vi.waitFor(() => expect(socket.getState().status).toBe('closed'));
+    expect(errors).toHaveBeenLastCalledWith({
+      url: 'ws://127.0.0.1:1',
+      error: new Error('WebSocket to ws://127.0.0.1:1 closed'),
+    });
+  });
+
+  it('should report errors raised while opening the first connection', async () => {
+    const fk = createFetchKit({ adapter: createMockAdapter() });
+    const errors = vi.fn();
+    fk.on('websocket:error', errors);
+
+    const socket = fk.createWebSocket('not a url', { WebSocket });
+
+    await vi.waitFor(() => expect(socket.getState().status).toBe('closed'));
+    expect(errors).toHaveBeenCalledWith({ url: 'not a url', error: expect.any(Error) });
+  });
+});
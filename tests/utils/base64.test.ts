@@ -0,0 +1,26 @@
+// tests/utils/base64.test.ts
+
+import { describe, it, expect } from 'vitest';
+import { decodeBase64, encodeBase64 } from '@utils/base64';
+
+describe('base64', () => {
+  it('should encode bytes with padding', () => {
+    const encoder = new TextEncoder();
+
+    expect(encodeBase64(encoder.encode('notes.txt'))).toBe('bm90ZXMudHh0');
+    expect(encodeBase64(encoder.encode('text/plain'))).toBe('dGV4dC9wbGFpbg==');
+    expect(encodeBase64(encoder.encode('héllo'))).toBe('aMOpbGxv');
+    expect(encodeBase64(new Uint8Array([255, 254]))).toBe('//4=');
+    expect(encodeBase64(new Uint8Array())).toBe('');
+  });
+
+  it('should decode what it encodes', () => {
+    const bytes = new Uint8Array(Array.from({ length: 256 }, (_, index) => index));
+
+    for (const length of [0, 1, 2, 3, 4, 256]) {
+      const slice = bytes.slice(0, length);
+      expect(Array.from(decodeBase64(encodeBase64(slice)))).toEqual(Array.from(slice));
+    }
+    expect(() => decodeBase64('a$b=')).toThrow('Invalid base64 character: $');
+  });
+});
@@ -0,0 +1,64 @@
+// tests/utils/event-stream.test.ts
+/** @vitest-environment node */
+
+import { describe, it, expect } from 'vitest';
+import { EventStreamParser, readEventStream } from '@utils/event-stream';
+
+describe('event stream parsing', () => {
+  it('should parse events with ids, types, retries and multi-line data', () => {
+    const parser = new EventStreamParser();
+    const events = parser.feed(
+      '\ufeff: keep-alive\nid: 1\nevent: update\ndata: {"a":1}\n\ndata: line 1\ndata:line 2\nretry: 5000\n\n',
+    );
+
+    expect(events).toEqual([
+      { event: 'update', data: '{"a":1}', id: '1', retry: undefined },
+      { event: 'message', data: 'line 1\nline 2', id: '1', retry: 5000 },
+    ]);
+    expect(parser.retry).toBe(5000);
+    expect(parser.lastEventId).toBe('1');
+  });
+
+  it('should handle chunks split anywhere, including inside CRLF', () => {
+    const parser = new EventStreamParser('0');
+    const text = 'data: a\r\n\r\nid: 2\rdata: b\r\rretry: x\ndata\n\n';
+    const events = text.split('').flatMap(char => parser.feed(char));
+
+    expect(events).toEqual([
+      { event: 'message', data: 'a', id: '0', retry: undefined },
+      { event: 'message', data: 'b', id: '2', retry: undefined },
+      { event: 'message', data: '', id: '2', retry: undefined },
+    ]);
+    expect(parser.retry).toBeUndefined();
+  });
+
+  it('should ignore blocks without data and discard an unfinished event', () => {
+    const parser = new EventStreamParser();
+
+    expect(parser.feed('id: 7\nretry: 100\n\nevent: ping\n\ndata: partial')).toEqual([]);
+    expect(parser.end()).toEqual([]);
+    expect(parser.lastEventId).toBe('7');
+    expect(parser.retry).toBe(100);
+  });
+
+  it('should read events from byte streams and stop when aborted', async () => {
+    const encoder = new TextEncoder();
+    const controller = new AbortController();
+    const stream = new ReadableStream<Uint8Array>({
+      start(streamController) {
+        // A multi-byte character split across chunks
+        const bytes = encoder.encode('data: café\n\n');
+        streamController.enqueue(bytes.slice(0, 10));
+        streamController.enqueue(bytes.slice(10));
+      },
+    });
+
+    const events = [];
+    for await (const event of readEventStream(stream, undefined, controller.signal)) {
+      events.push(event);
+      controller.abort();
+    }
+
+    expect(events.map(event => event.data)).toEqual(['café']);
+  });
+});
@@ -0,0 +1,67 @@
+// tests/utils/progress.test.ts
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createProgressReporter } from '@utils/progress';
+
+describe('createProgressReporter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should add the average rate and the time remaining', () => {
+    const onProgress = vi.fn();
+    const report = createProgressReporter(onProgress);
+
+    report({ loaded: 0, total: 1000 });
+    expect(onProgress).toHaveBeenLastCalledWith({
+      loaded: 0,
+      total: 1000,
+      progress: 0,
+      rate: undefined,
+      eta: undefined,
+    });
+
+    vi.advanceTimersByTime(500);
+    report({ loaded: 250, total: 1000 });
+    expect(onProgress).toHaveBeenLastCalledWith({
+      loaded: 250,
+      total: 1000,
+      progress: 0.25,
+      rate: 500,
+      eta: 1500,
+    });
+
+    vi.advanceTimersByTime(500);
+    report({ loaded: 1000, total: 1000 });
+    expect(onProgress).toHaveBeenLastCalledWith(
+      expect.objectContaining({ progress: 1, rate: 1000, eta: 0 }),
+    );
+  });
+
+  it('should leave the ETA out without a total and start over when a retry restarts', () => {
+    const onProgress = vi.fn();
+    const report = createProgressReporter(onProgress);
+
+    report({ loaded: 100 });
+    vi.advanceTimersByTime(1000);
+    report({ loaded: 300 });
+    expect(onProgress).toHaveBeenLastCalledWith({
+      loaded: 300,
+      total: undefined,
+      progress: undefined,
+      rate: 200,
+      eta: undefined,
+    });
+
+    report({ loaded: 0, total: 400 });
+    vi.advanceTimersByTime(100);
+    report({ loaded: 200, total: 400 });
+    expect(onProgress).toHaveBeenLastCalledWith(
+      expect.objectContaining({ progress: 0.5, rate: 2000, eta: 100 }),
+    );
+  });
+});
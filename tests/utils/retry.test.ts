@@ -4,6 +4,7 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import {
   calculateRetryDelay,
   defaultShouldRetry,
+  getServerRetryDelay,
   withRetry,
   DEFAULT_RETRY_CONFIG,
 } from '@utils/retry';
@@ -101,6 +102,81 @@ describe('Retry utilities', () => {
     });
   });
 
+  describe('jitter strategies', () => {
+    const config = { count: 3, delay: 1000, backoff: 'exponential', factor: 2 } as RetryConfig;
+
+    it('should use the backoff delay without jitter', () => {
+      expect(calculateRetryDelay({ ...config, jitter: 'none' }, 2)).toBe(2000);
+    });
+
+    it('should pick between zero and the backoff delay with full jitter', () => {
+      Math.random = vi.fn().mockReturnValue(0.25);
+
+      expect(calculateRetryDelay({ ...config, jitter: 'full' }, 2)).toBe(500);
+    });
+
+    it('should keep half the backoff delay with equal jitter', () => {
+      Math.random = vi.fn().mockReturnValue(0);
+
+      expect(calculateRetryDelay({ ...config, jitter: 'equal' }, 2)).toBe(1000);
+    });
+
+    it('should grow from the previous delay with decorrelated jitter', () => {
+      Math.random = vi.fn().mockReturnValue(1);
+
+      expect(calculateRetryDelay({ ...config, jitter: 'decorrelated' }, 1)).toBe(3000);
+      expect(calculateRetryDelay({ ...config, jitter: 'decorrelated' }, 2, 3000)).toBe(9000);
+      expect(
+        calculateRetryDelay({ ...config, jitter: 'decorrelated', maxDelay: 5000 }, 2, 3000),
+      ).toBe(5000);
+    });
+  });
+
+  describe('getServerRetryDelay', () => {
+    const now = Date.parse('2024-01-01T00:00:00Z');
+
+    const errorWithHeaders = (status: number, headers: Record<string, string>) =>
+      createError('Request failed', { status, response: { headers } as any });
+
+    it('should read Retry-After in seconds', () => {
+      const error = errorWithHeaders(429, { 'Retry-After': '3' });
+
+      expect(getServerRetryDelay(error, now)).toEqual({ delay: 3000, source: 'retry-after' });
+    });
+
+    it('should read Retry-After as an HTTP date', () => {
+      const error = createError('Unavailable', {
+        status: 503,
+        response: new Response(null, {
+          status: 503,
+          headers: { 'Retry-After': 'Mon, 01 Jan 2024 00:00:05 GMT' },
+        }),
+      });
+
+      expect(getServerRetryDelay(error, now)).toEqual({ delay: 5000, source: 'retry-after' });
+    });
+
+    it('should read rate limit resets once no requests remain', () => {
+      const resetIn = errorWithHeaders(403, { 'ratelimit-remaining': '0', 'ratelimit-reset': '7' });
+      const resetAt = errorWithHeaders(429, { 'x-ratelimit-reset': String(now / 1000 + 12) });
+      const remaining = errorWithHeaders(403, {
+        'x-ratelimit-remaining': '5',
+        'x-ratelimit-reset': '7',
+      });
+
+      expect(getServerRetryDelay(resetIn, now)).toEqual({ delay: 7000, source: 'rate-limit' });
+      expect(getServerRetryDelay(resetAt, now)).toEqual({ delay: 12000, source: 'rate-limit' });
+      expect(getServerRetryDelay(remaining, now)).toBeUndefined();
+    });
+
+    it('should ignore errors without usable headers', () => {
+      expect(getServerRetryDelay(createError('Network error'), now)).toBeUndefined();
+      expect(getServerRetryDelay(errorWithHeaders(429, { 'retry-after': 'soon' }), now)).toBe(
+        undefined,
+      );
+    });
+  });
+
   describe('defaultShouldRetry', () => {
     it('should retry server errors', () => {
       const error = createError('Server error', {
@@ -280,6 +356,51 @@ describe('Retry utilities', () => {
       expect(result).toBe('success');
     });
 
+    it('should wait for Retry-After capped by maxDelay', async () => {
+      originalTimeout = mockImmediateTimeout();
+
+      const rateLimited = createError('Too many requests', {
+        category: ErrorCategory.Client,
+        status: 429,
+        response: { headers: { 'retry-after': '120' } } as any,
+      });
+      const requestFn = vi.fn().mockRejectedValueOnce(rateLimited).mockResolvedValueOnce('success');
+      const onRetry = vi.fn();
+
+      const result = await withRetry(requestFn, { maxDelay: 10000, onRetry });
+
+      expect(result).toBe('success');
+      expect(onRetry).toHaveBeenCalledWith({
+        attempt: 1,
+        delay: 10000,
+        source: 'retry-after',
+        error: rateLimited,
+      });
+      expect(global.setTimeout).toHaveBeenCalledWith(expect.any(Function), 10000);
+    });
+
+    it('should use the backoff delay when respectRetryAfter is false', async () => {
+      originalTimeout = mockImmediateTimeout();
+
+      const rateLimited = createError('Too many requests', {
+        status: 429,
+        response: { headers: { 'retry-after': '120' } } as any,
+      });
+      const requestFn = vi.fn().mockRejectedValueOnce(rateLimited).mockResolvedValueOnce('success');
+      const onRetry = vi.fn();
+
+      await withRetry(requestFn, {
+        delay: 50,
+        jitter: 'none',
+        respectRetryAfter: false,
+        onRetry,
+      });
+
+      expect(onRetry).toHaveBeenCalledWith(
+        expect.objectContaining({ delay: 50, source: 'backoff' }),
+      );
+    });
+
     it('should track retry count in error object', async () => {
       // Use immediate timeout for faster tests
       originalTimeout = mockImmediateTimeout();
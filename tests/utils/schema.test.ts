@@ -0,0 +1,189 @@
+// tests/utils/schema.test.ts
+
+import { describe, it, expect, expectTypeOf, vi, afterEach } from 'vitest';
+import { validateSchema } from '@utils/schema';
+import { createFetchKit } from '@core/fetch-kit';
+import { createMockAdapter } from '@adapters/mock-adapter';
+import { MemoryPersistence } from '@cache/persistence/cache-persistence';
+import { createCacheEntry } from '@cache/cache-entry';
+import { ErrorCategory, FetchKitError } from '@fk-types/error';
+import type { SafeParseSchema, StandardSchema } from '@fk-types/schema';
+
+interface User {
+  id: number;
+  name: string;
+}
+
+/**
+ * Collect the issues of a value that should be a User
+ */
+function userIssues(value: any) {
+  const issues: { message: string; path: PropertyKey[] }[] = [];
+  if (typeof value?.id !== 'number') issues.push({ message: 'Expected number', path: ['id'] });
+  if (typeof value?.name !== 'string') issues.push({ message: 'Expected string', path: ['name'] });
+  return issues;
+}
+
+/**
+ * A schema in the shape of Zod's safeParse
+ */
+const safeParseUser: SafeParseSchema<User> = {
+  safeParse: (value: any) => {
+    const issues = userIssues(value);
+    return issues.length > 0
+      ? { success: false, error: { issues } }
+      : { success: true, data: { id: value.id, name: value.name.trim() } };
+  },
+};
+
+/**
+ * A schema implementing the Standard Schema interface with an async validator
+ */
+const standardUser: StandardSchema<User> = {
+  '~standard': {
+    version: 1,
+    vendor: 'test',
+    validate: async value => {
+      const issues = userIssues(value).map(({ message, path }) => ({
+        message,
+        path: path.map(key => ({ key })),
+      }));
+      return issues.length > 0 ? { issues } : { value: value as User };
+    },
+  },
+};
+
+const getError = async (promise: Promise<unknown>) =>
+  (await promise.catch(e => e)) as FetchKitError;
+
+describe('validateSchema', () => {
+  it('should validate with Standard Schema, safeParse and parse schemas', async () => {
+    const parseUser = {
+      parse: (value: any): User => {
+        if (userIssues(value).length > 0) throw new Error('Invalid user');
+        return value;
+      },
+    };
+
+    expect(await validateSchema(standardUser, { id: 1, name: 'Ada' })).toEqual({
+      id: 1,
+      name: 'Ada',
+    });
+    expect(await validateSchema(safeParseUser, { id: 1, name: ' Ada ' })).toEqual({
+      id: 1,
+      name: 'Ada',
+    });
+
+    const error = await getError(validateSchema(parseUser, {}));
+    expect(error.category).toBe(ErrorCategory.Validation);
+    expect(error.issues).toEqual([{ message: 'Invalid user', path: [] }]);
+  });
+
+  it('should report issue paths', async () => {
+    const list = {
+      safeParse: () => ({
+        success: false as const,
+        error: { issues: [{ message: 'Required', path: ['items', 0, 'name'] }] },
+      }),
+    };
+
+    const error = await getError(validateSchema(list, { items: [{}] }, { url: '/items' }));
+
+    expect(error.message).toBe('Validation failed: items.0.name: Required');
+    expect(error.issues).toEqual([{ message: 'Required', path: ['items', 0, 'name'] }]);
+    expect(error).toMatchObject({ url: '/items', data: { items: [{}] } });
+
+    const standardError = await getError(validateSchema(standardUser, { id: '1', name: 'Ada' }));
+    expect(standardError.issues).toEqual([{ message: 'Expected number', path: ['id'] }]);
+  });
+
+  describe('with FetchKit', () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should infer the response type and reject invalid responses without retrying', async () => {
+      const mock = createMockAdapter()
+        .onGet('/users/1', { data: { id: 1, name: 'Ada' } })
+        .onGet('/users/2', { data: { id: '2' } });
+      const fk = createFetchKit({ adapter: mock, retry: { count: 3, delay: 1 } });
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const user = await fk.get('/users/1', { schema: safeParseUser });
+      expectTypeOf(user).toEqualTypeOf<User>();
+      expect(user).toEqual({ id: 1, name: 'Ada' });
+
+      const error = await getError(fk.get('/users/2', { schema: standardUser }));
+      expect(error.category).toBe(ErrorCategory.Validation);
+      expect(error.issues?.map(issue => issue.path)).toEqual([['id'], ['name']]);
+      mock.assertCalled('GET', '/users/2', 1);
+
+      // Invalid data is never cached
+      expect(fk.getCacheEntry('/users/2')).toBeUndefined();
+    });
+
+    it('should validate data rehydrated from persistence before serving it', async () => {
+      const persistence = new MemoryPersistence();
+      const mock = createMockAdapter().onGet('*', { data: { id: 1, name: 'Fresh' } });
+      const setup = createFetchKit({ adapter: mock });
+      const staleTime = 60000;
+
+      await persistence.set(
+        setup.getCacheKey('/valid'),
+        createCacheEntry({ id: 1, name: 'Persisted' }, staleTime),
+      );
+      await persistence.set(
+        setup.getCacheKey('/outdated'),
+        createCacheEntry({ userId: 1 }, staleTime),
+      );
+
+      const fk = createFetchKit({ adapter: mock, persistence, cacheOptions: { staleTime } });
+      const invalidated = vi.fn();
+      fk.on('cache:invalidate', invalidated);
+
+      expect(await fk.get('/valid', { schema: safeParseUser })).toEqual({
+        id: 1,
+        name: 'Persisted',
+      });
+      expect(await fk.get('/outdated', { schema: safeParseUser })).toEqual({
+        id: 1,
+        name: 'Fresh',
+      });
+
+      mock.assertCalled('GET', '/valid', 0);
+      mock.assertCalled('GET', '/outdated', 1);
+      expect(invalidated).toHaveBeenCalledWith({ key: fk.getCacheKey('/outdated') });
+    });
+
+    it('should serve rehydrated data as stored instead of transforming it again', async () => {
+      const persistence = new MemoryPersistence();
+      const mock = createMockAdapter().onGet('*', { data: { n: 1 } });
+      const cacheOptions = { staleTime: 60000 };
+      const doubled: SafeParseSchema<{ n: number }> = {
+        safeParse: (value: any) => ({ success: true, data: { n: value.n * 2 } }),
+      };
+      const odd: SafeParseSchema<{ n: number }> = {
+        safeParse: (value: any) =>
+          value.n % 2 === 1
+            ? { success: true, data: { n: value.n * 2 } }
+            : { success: false, error: { issues: [{ message: 'Expected odd', path: ['n'] }] } },
+      };
+
+      const first = createFetchKit({ adapter: mock, persistence, cacheOptions });
+      expect(await first.get('/doubled', { schema: doubled })).toEqual({ n: 2 });
+      expect(await first.get('/odd', { schema: odd })).toEqual({ n: 2 });
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      mock.resetHistory();
+      const fk = createFetchKit({ adapter: mock, persistence, cacheOptions });
+
+      expect(await fk.get('/doubled', { schema: doubled })).toEqual({ n: 2 });
+      expect(fk.getCacheEntry('/doubled')?.data).toEqual({ n: 2 });
+      mock.assertCalled('GET', '/doubled', 0);
+
+      // A schema that rejects its own output drops the rehydrated entry
+      expect(await fk.get('/odd', { schema: odd })).toEqual({ n: 2 });
+      mock.assertCalled('GET', '/odd', 1);
+    });
+  });
+});
@@ -9,6 +9,11 @@ import {
   streamToFormat,
   isStreamSupported,
   trackStreamProgress,
+  decodeTextStream,
+  parseNdjsonStream,
+  collectStream,
+  createChunkStream,
+  createResponseStream,
 } from '@utils/stream';
 
 describe('stream utilities', () => {
@@ -459,4 +464,81 @@ describe('stream utilities', () => {
       expect(done).toBe(true);
     });
   });
+
+  describe('streaming response bodies', () => {
+    const encoder = new TextEncoder();
+
+    /**
+     * Read every chunk of a stream
+     */
+    const readAll = async <T>(stream: ReadableStream<T>): Promise<T[]> => {
+      const { data } = await readStream(stream);
+      return data;
+    };
+
+    it('should decode text split inside multi-byte characters', async () => {
+      const bytes = encoder.encode('café crème');
+      const stream = decodeTextStream(createChunkStream([bytes.slice(0, 4), bytes.slice(4)]));
+
+      expect((await readAll(stream)).join('')).toBe('café crème');
+    });
+
+    it('should parse records split across chunks, skipping blank lines', async () => {
+      const stream = parseNdjsonStream(
+        createChunkStream(['{"a":1}\r\n{"a"', ':2}\n\n', encoder.encode('{"a":3}')]),
+      );
+
+      expect(await readAll(stream)).toEqual([{ a: 1 }, { a: 2 }, { a: 3 }]);
+    });
+
+    it('should fail the stream on a line that is not JSON and cancel the source', async () => {
+      const cancel = vi.fn();
+      const source = new ReadableStream<string>({
+        start(controller) {
+          controller.enqueue('{"a":1}\nnot json\n');
+        },
+        cancel,
+      });
+      const reader = parseNdjsonStream(source).getReader();
+
+      expect((await reader.read()).value).toEqual({ a: 1 });
+      await expect(reader.read()).rejects.toMatchObject({
+        category: 'parse',
+        message: 'Invalid JSON line: not json',
+      });
+      expect(cancel).toHaveBeenCalled();
+    });
+
+    it('should collect chunks only once a stream is read to the end', async () => {
+      const onComplete = vi.fn();
+      const complete = collectStream(createChunkStream([1, 2, 3]), onComplete);
+      expect(await readAll(complete)).toEqual([1, 2, 3]);
+      expect(onComplete).toHaveBeenCalledWith([1, 2, 3]);
+
+      const cancelled = vi.fn();
+      const reader = collectStream(createChunkStream([1, 2, 3]), cancelled).getReader();
+      await reader.read();
+      await reader.cancel();
+      expect(cancelled).not.toHaveBeenCalled();
+    });
+
+    it('should stream bodies that were buffered by the adapter', async () => {
+      expect(await readAll(createResponseStream('{"a":1}\n{"a":2}\n', 'ndjson'))).toEqual([
+        { a: 1 },
+        { a: 2 },
+      ]);
+      expect(await readAll(createResponseStream([{ a: 1 }], 'ndjson'))).toEqual([{ a: 1 }]);
+      expect(await readAll(createResponseStream(null, 'text-stream'))).toEqual([]);
+
+      const text = createResponseStream<string>(
+        encoder.encode('chunked text').buffer,
+        'text-stream',
+      );
+      const chunks: string[] = [];
+      for await (const chunk of text) {
+        chunks.push(chunk);
+      }
+      expect(chunks.join('')).toBe('chunked text');
+    });
+  });
 });
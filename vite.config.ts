@@ -20,6 +20,8 @@ export default defineConfig({
       formats: ['es', 'umd'],
     },
     rollupOptions: {
+      // Node.js built-ins are loaded on demand by the Node adapter and mock fixtures
+      external: [/^node:/],
       output: {
         exports: 'named',
         sourcemap: true,